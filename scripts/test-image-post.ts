@@ -4,7 +4,7 @@
  */
 import { generateContentImage, isImageGenConfigured } from '../src/engine/image-gen.js';
 import { generatePost } from '../src/engine/content.js';
-import { postTweetWithImage } from '../src/platforms/x.js';
+import { postTweetWithMedia } from '../src/platforms/x.js';
 
 async function main() {
     console.log('🖼️  Testing AI image pipeline...\n');
@@ -30,10 +30,11 @@ async function main() {
     }
     console.log(`✅ Image generated (${image.mimeType}, ${(image.buffer.length / 1024).toFixed(1)} KB)`);
     console.log(`   Prompt: ${image.prompt.slice(0, 100)}...`);
+    console.log(`   Alt text: ${image.altText.slice(0, 100)}`);
 
     // 4. Post to X with image
     console.log('\n📤 Posting to X with image...');
-    const tweetId = await postTweetWithImage(post.content, image.buffer, image.mimeType);
+    const tweetId = await postTweetWithMedia(post.content, [{ data: image.buffer, mimeType: image.mimeType, altText: image.altText }]);
     if (tweetId) {
         console.log(`\n🎉 SUCCESS! Tweet posted with AI image`);
         console.log(`   https://x.com/QasidAI34321/status/${tweetId}`);
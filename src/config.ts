@@ -5,9 +5,48 @@ import { z } from 'zod';
 // Validates all environment variables at startup
 // ============================================================================
 
+/** Per-task LLM route override (any field may be omitted) */
+const modelRoutesSchema = z.record(z.object({
+    model: z.string().min(1).optional(),
+    maxTokens: z.number().int().positive().optional(),
+    temperature: z.number().min(0).max(1).optional(),
+}).strict());
+
+/** Discord routing rule: content types mirrored to one channel's webhook */
+const discordRoutesSchema = z.array(z.object({
+    /** Label for logs (e.g. "signals") */
+    channel: z.string().min(1),
+    webhookUrl: z.string().url(),
+    /** Content types mirrored to this channel ("*" = all) */
+    contentTypes: z.array(z.string().min(1)).min(1),
+}).strict());
+
 const envSchema = z.object({
     // LLM
-    ANTHROPIC_API_KEY: z.string().min(1, 'ANTHROPIC_API_KEY is required'),
+    ANTHROPIC_API_KEY: z.string().optional(),
+    /** anthropic = live API; fixture = record/replay request/response pairs on disk */
+    LLM_PROVIDER: z.enum(['anthropic', 'fixture']).default('anthropic'),
+    /** record = call Anthropic and save each response; replay = serve saved responses only (offline) */
+    LLM_FIXTURE_MODE: z.enum(['record', 'replay']).default('replay'),
+    LLM_FIXTURE_DIR: z.string().default('fixtures/llm'),
+    /** Model used by any task without its own model route */
+    LLM_DEFAULT_MODEL: z.string().default('claude-haiku-4-5-20251001'),
+    /** Hard daily LLM spend cap in USD — non-critical calls are blocked once reached (0 = no cap) */
+    LLM_DAILY_COST_CAP_USD: z.coerce.number().min(0).default(10),
+    /** JSON routing overrides per task, e.g. {"article":{"model":"claude-sonnet-4-5","maxTokens":3000}} */
+    LLM_MODEL_ROUTES: z.string()
+        .optional()
+        .transform((v, ctx) => {
+            if (!v) return {};
+            try {
+                const parsed = modelRoutesSchema.safeParse(JSON.parse(v));
+                if (parsed.success) return parsed.data;
+                ctx.addIssue({ code: z.ZodIssueCode.custom, message: parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ') });
+            } catch {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'LLM_MODEL_ROUTES must be valid JSON' });
+            }
+            return z.NEVER;
+        }),
 
     // Supabase
     SUPABASE_URL: z.string().url('SUPABASE_URL must be a valid URL'),
@@ -19,6 +58,61 @@ const envSchema = z.object({
     X_API_SECRET: z.string().optional(),
     X_ACCESS_TOKEN: z.string().optional(),
     X_ACCESS_SECRET: z.string().optional(),
+    /** X API base URL — point at a local fake X server for testing */
+    X_API_URL: z.string().url().default('https://api.x.com'),
+
+    // Bluesky (AT Protocol)
+    /** PDS / entryway base URL — point at a local stub PDS for testing */
+    BLUESKY_SERVICE: z.string().url().default('https://bsky.social'),
+    BLUESKY_HANDLE: z.string().optional(),
+    /** App password (Settings → App Passwords), never the account password */
+    BLUESKY_APP_PASSWORD: z.string().optional(),
+
+    // Farcaster (hub HTTP API)
+    /** Hub HTTP API base URL (self-hosted Hubble, or a hosted hub with FARCASTER_HUB_API_KEY) */
+    FARCASTER_HUB_URL: z.string().url().default('http://127.0.0.1:2281'),
+    /** Sent as x-api-key to hosted hubs */
+    FARCASTER_HUB_API_KEY: z.string().optional(),
+    /** QasidAI's Farcaster account id */
+    FARCASTER_FID: z.coerce.number().int().positive().optional(),
+    /** Ed25519 signer private key registered to FARCASTER_FID (0x + 64 hex, or 128 hex with the public key appended) */
+    FARCASTER_SIGNER_KEY: z.string()
+        .refine(
+            (v) => /^0x([0-9a-fA-F]{64}|[0-9a-fA-F]{128})$/.test(v),
+            'FARCASTER_SIGNER_KEY must be 0x followed by 64 (or 128) hex characters',
+        )
+        .optional(),
+
+    // Discord (webhooks)
+    /** Routing rules, JSON: [{"channel":"signals","webhookUrl":"https://discord.com/api/webhooks/…","contentTypes":["signal_scorecard"]}] */
+    DISCORD_ROUTES: z.string()
+        .optional()
+        .transform((v, ctx) => {
+            if (!v) return [];
+            try {
+                const parsed = discordRoutesSchema.safeParse(JSON.parse(v));
+                if (parsed.success) return parsed.data;
+                ctx.addIssue({ code: z.ZodIssueCode.custom, message: parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ') });
+            } catch {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'DISCORD_ROUTES must be valid JSON' });
+            }
+            return z.NEVER;
+        }),
+
+    // Telegram (Bot API)
+    /** Bot API base URL — point at a local fake Bot API server for testing */
+    TELEGRAM_API_URL: z.string().url().default('https://api.telegram.org'),
+    /** Bot token from @BotFather */
+    TELEGRAM_BOT_TOKEN: z.string().optional(),
+    /** Broadcast channel (@username or -100… id) — the bot must be a channel admin */
+    TELEGRAM_CHANNEL_ID: z.string().optional(),
+    /** Comma-separated Telegram user ids allowed to use the private control bot */
+    TELEGRAM_ADMIN_IDS: z.string().default('')
+        .refine(
+            (v) => v.split(',').every(id => !id.trim() || /^\d+$/.test(id.trim())),
+            'TELEGRAM_ADMIN_IDS must be comma-separated numeric Telegram user ids',
+        )
+        .transform(v => v.split(',').map(id => id.trim()).filter(Boolean).map(Number)),
 
     // LISAN Intelligence
     LISAN_INTEL_URL: z.string().url().default('https://lisanintel.com'),
@@ -37,7 +131,59 @@ const envSchema = z.object({
 
     // Agent Config
     POSTING_ENABLED: z.string().transform(v => v === 'true').default('false'),
+    /** live | dry-run | review (drafts queued for human approval). Defaults from POSTING_ENABLED */
+    POSTING_MODE: z.enum(['live', 'dry-run', 'review']).optional(),
+    /** Local review HTTP endpoint port (review mode only, binds 127.0.0.1; unset = CLI only) */
+    REVIEW_HTTP_PORT: z.coerce.number().int().min(1).max(65535).optional(),
+    /** Bearer token required by the review HTTP endpoint */
+    REVIEW_HTTP_TOKEN: z.string().min(16).optional(),
+    /** Candidates generated per scheduled post slot — the best-ranked one is posted (1 = no ranking) */
+    POST_CANDIDATES: z.coerce.number().int().min(1).max(5).default(1),
+    /** Add an LLM judge to candidate ranking (one extra call per slot) */
+    POST_RANKING_LLM_JUDGE: z.string().transform(v => v === 'true').default('false'),
+    /** Estimated Jaccard similarity (0-1) at which a new post counts as a near-duplicate of history */
+    DEDUP_SIMILARITY_THRESHOLD: z.coerce.number().min(0).max(1).default(0.6),
+    /** How far back (days) posts and replies are checked for near-duplicates */
+    DEDUP_LOOKBACK_DAYS: z.coerce.number().int().min(1).default(30),
+    /** How long native X polls stay open (minutes; X allows 5 minutes to 7 days) */
+    POLL_DURATION_MINUTES: z.coerce.number().int().min(5).max(10080).default(1440),
+    /** Reply to a closed poll with the results */
+    POLL_FOLLOW_UP: z.string().transform(v => v === 'true').default('true'),
+    /** Declarative job schedule (JSON) — see schedule.json */
+    SCHEDULE_FILE: z.string().default('schedule.json'),
+    /** On boot, catch-up-safe jobs whose slot was missed within this many hours are run once (0 = off) */
+    SCHEDULER_CATCHUP_GRACE_HOURS: z.coerce.number().min(0).max(48).default(6),
+    /** Only the instance holding the Postgres scheduler lease runs jobs (disable only for guaranteed single-instance setups) */
+    LEADER_LEASE_ENABLED: z.string().transform(v => v === 'true').default('true'),
+    /** Lease lifetime — renewed every TTL/3; a crashed leader is replaced after at most this long */
+    LEADER_LEASE_TTL_SECONDS: z.coerce.number().int().min(15).max(600).default(60),
+    /** Budget days run midnight-to-midnight in this timezone (rate policies use it for their per-day caps) */
+    BUDGET_TIMEZONE: z.string().default('America/New_York').refine(tz => {
+        try {
+            new Intl.DateTimeFormat('en-US', { timeZone: tz });
+            return true;
+        } catch {
+            return false;
+        }
+    }, 'BUDGET_TIMEZONE must be an IANA timezone (e.g. America/New_York)'),
     LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+}).superRefine((env, ctx) => {
+    // Replaying fixtures is fully offline — every other mode talks to Anthropic
+    const offline = env.LLM_PROVIDER === 'fixture' && env.LLM_FIXTURE_MODE === 'replay';
+    if (!offline && !env.ANTHROPIC_API_KEY) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['ANTHROPIC_API_KEY'],
+            message: 'ANTHROPIC_API_KEY is required (unless LLM_PROVIDER=fixture with LLM_FIXTURE_MODE=replay)',
+        });
+    }
+    if (env.REVIEW_HTTP_PORT && !env.REVIEW_HTTP_TOKEN) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['REVIEW_HTTP_TOKEN'],
+            message: 'REVIEW_HTTP_TOKEN is required when REVIEW_HTTP_PORT is set',
+        });
+    }
 });
 
 function loadConfig() {
@@ -58,7 +204,13 @@ export const config = loadConfig();
 
 // Derived config
 export const isXConfigured = !!(config.X_API_KEY && config.X_API_SECRET && config.X_ACCESS_TOKEN && config.X_ACCESS_SECRET);
+export const isBlueskyConfigured = !!(config.BLUESKY_HANDLE && config.BLUESKY_APP_PASSWORD);
+export const isFarcasterConfigured = !!(config.FARCASTER_FID && config.FARCASTER_SIGNER_KEY);
+export const isDiscordConfigured = config.DISCORD_ROUTES.length > 0;
+export const isTelegramBroadcastConfigured = !!(config.TELEGRAM_BOT_TOKEN && config.TELEGRAM_CHANNEL_ID);
+export const isTelegramControlConfigured = !!(config.TELEGRAM_BOT_TOKEN && config.TELEGRAM_ADMIN_IDS.length > 0);
 export const isNetConfigured = !!(config.NET_PRIVATE_KEY && config.NET_ENABLED);
+export const postingMode = config.POSTING_MODE ?? (config.POSTING_ENABLED ? 'live' : 'dry-run');
 
 export type Config = typeof config;
 
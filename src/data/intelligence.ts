@@ -123,6 +123,16 @@ export interface MarketData {
     fearGreedLabel: string;
 }
 
+// --- Snapshot (one fetch of every source, used for generation + verification) ---
+
+export interface IntelSnapshot {
+    engine: EngineSignalsResponse | null;
+    proof: ProofStatsResponse | null;
+    fearGreed: { value: number; label: string } | null;
+    coins: MarketCoin[];
+    fetchedAt: string;
+}
+
 // --- Data fetching ---
 
 async function safeFetch<T>(url: string, fallback: T): Promise<T> {
@@ -221,7 +231,7 @@ export async function getFearGreed(): Promise<{ value: number; label: string } |
     return { value: data.value, label: data.value_classification };
 }
 
-function getFearGreedLabel(value: number): string {
+export function getFearGreedLabel(value: number): string {
     if (value <= 10) return 'Extreme Fear';
     if (value <= 25) return 'Fear';
     if (value <= 45) return 'Neutral';
@@ -234,15 +244,52 @@ function getFearGreedLabel(value: number): string {
  * for injection into the LLM prompt. Now uses the REAL data structure.
  */
 export async function gatherIntelContext(): Promise<string> {
+    return formatIntelContext(await gatherIntelSnapshot());
+}
+
+/**
+ * Fetch every intel source once. The snapshot is what a draft is generated from,
+ * so it is also what the claim verifier checks the draft against.
+ */
+export async function gatherIntelSnapshot(): Promise<IntelSnapshot> {
     log.info('Gathering intel data from LISAN Intelligence...');
 
-    const [engineData, proofData, fearGreed, marketCoins] = await Promise.all([
+    const [engine, proof, fearGreed, coins] = await Promise.all([
         getEngineData(),
         getProofData(),
         getFearGreed(),
         getMarketCoins(),
     ]);
 
+    return { engine, proof, fearGreed, coins, fetchedAt: new Date().toISOString() };
+}
+
+/**
+ * Current win/loss streak from completed outcomes (most recent first).
+ */
+export function getOutcomeStreak(outcomes: RecentOutcome[]): { type: 'win' | 'loss' | 'none'; count: number } {
+    let type: 'win' | 'loss' | 'none' = 'none';
+    let count = 0;
+    for (const o of outcomes) {
+        const isWin = o.outcome === 'WON';
+        if (count === 0) {
+            type = isWin ? 'win' : 'loss';
+            count = 1;
+        } else if ((isWin && type === 'win') || (!isWin && type === 'loss')) {
+            count++;
+        } else {
+            break;
+        }
+    }
+    return { type, count };
+}
+
+/**
+ * Format an intel snapshot as the LLM context string.
+ */
+export function formatIntelContext(snapshot: IntelSnapshot): string {
+    const { engine: engineData, proof: proofData, fearGreed, coins: marketCoins } = snapshot;
+
     const parts: string[] = [];
 
     // Market regime from engine data
@@ -313,19 +360,7 @@ ${activeSignals.slice(0, 8).map(s => {
         const recent = proofData.recentOutcomes.slice(0, 5);
 
         // Compute actual streak from completed outcomes (most recent first)
-        let streakType: 'win' | 'loss' | 'none' = 'none';
-        let streakCount = 0;
-        for (const o of proofData.recentOutcomes) {
-            const isWin = o.outcome === 'WON';
-            if (streakCount === 0) {
-                streakType = isWin ? 'win' : 'loss';
-                streakCount = 1;
-            } else if ((isWin && streakType === 'win') || (!isWin && streakType === 'loss')) {
-                streakCount++;
-            } else {
-                break;
-            }
-        }
+        const { type: streakType, count: streakCount } = getOutcomeStreak(proofData.recentOutcomes);
         const streakNote = streakCount >= 2
             ? `\nCurrent streak: ${streakCount} consecutive ${streakType === 'win' ? 'wins' : 'losses'} (verified from completed trades only)`
             : '';
@@ -0,0 +1,354 @@
+import { supabase } from '../supabase.js';
+import { createLogger } from '../logger.js';
+import { getFearGreedLabel, getOutcomeStreak, type IntelSnapshot } from '../data/intelligence.js';
+
+// ============================================================================
+// QasidAI — Claim Verifier
+// Pulls numeric and categorical claims (win rate, fear & greed, regime,
+// signal counts, streaks, returns, signal directions) out of a draft and
+// checks them against the intel snapshot the draft was generated from.
+// Fixable numeric misquotes are corrected in place; anything else that
+// misstates the data blocks the draft. Every verdict is logged.
+// ============================================================================
+
+const log = createLogger('ClaimVerifier');
+
+// ---- Types ----
+
+export type ClaimKind =
+    | 'win_rate'
+    | 'fear_greed'
+    | 'fear_greed_label'
+    | 'regime'
+    | 'signal_count'
+    | 'wins'
+    | 'losses'
+    | 'streak'
+    | 'total_return'
+    | 'signal_direction';
+
+export interface Claim {
+    kind: ClaimKind;
+    /** Exact matched span in the draft */
+    span: string;
+    /** The claimed value (number or category) */
+    claimed: string;
+    /** What the snapshot says, when known */
+    expected?: string;
+    status: 'verified' | 'mismatch' | 'unverifiable';
+    /** Replacement span for a fixable mismatch */
+    correction?: string;
+}
+
+export interface VerificationResult {
+    verdict: 'pass' | 'corrected' | 'blocked';
+    claims: Claim[];
+    /** Final text (corrected when verdict = corrected, original otherwise) */
+    content: string;
+}
+
+// ---- Tolerances ----
+
+/** Percentage-point slack for rounded percentages ("47%" for 46.8%) */
+const PERCENT_TOLERANCE = 1;
+
+/** Fear & greed index slack (sources refresh at different times) */
+const FEAR_GREED_TOLERANCE = 2;
+
+// ---- Extraction patterns ----
+
+const NUM = String.raw`(\d{1,3}(?:,\d{3})*(?:\.\d+)?)`;
+
+const WIN_RATE_PATTERNS = [
+    new RegExp(String.raw`${NUM}\s*%\s*(?:win\s*rate|winrate|wr|hit\s*rate|accuracy)\b`, 'gi'),
+    new RegExp(String.raw`\b(?:win\s*rate|winrate|hit\s*rate)\b[^\d\n]{0,15}${NUM}\s*%`, 'gi'),
+];
+const FEAR_GREED_PATTERN = new RegExp(String.raw`\b(?:fear\s*(?:&|and|\/)\s*greed(?:\s*index)?|f&g|fng)\b[^\d\n]{0,20}${NUM}`, 'gi');
+const FEAR_GREED_LABEL_PATTERN = /\bextreme\s+(fear|greed)\b/gi;
+const REGIME_PATTERN = /\bregime\b[^.\n]{0,25}?\b(bull(?:ish)?|bear(?:ish)?|rang(?:e|ing)|chop(?:py)?|sideways|trending|volatile|neutral|risk[- ]on|risk[- ]off)\b/gi;
+const SIGNAL_COUNT_PATTERN = new RegExp(String.raw`${NUM}\s+(?:total\s+)?signals\b`, 'gi');
+const WINS_PATTERN = new RegExp(String.raw`${NUM}\s+wins\b`, 'gi');
+const LOSSES_PATTERN = new RegExp(String.raw`${NUM}\s+losses\b`, 'gi');
+const STREAK_PATTERNS = [
+    /(\d+)\s+(?:consecutive|straight)\s+(wins|losses|Ws|Ls)\b/gi,
+    /(\d+)[- ](win|loss|W|L)\s+streak\b/gi,
+];
+const RETURN_PATTERN = new RegExp(String.raw`([+-]?)${NUM}\s*%\s*(?:cumulative|total)\s*(?:return|pnl|p&l)\b`, 'gi');
+const DIRECTION_PATTERNS = [
+    /\$([A-Z]{2,6})\s+(long|short)\b/gi,
+    /\b(long|short)(?:ing)?\s+(?:on\s+)?\$([A-Z]{2,6})\b/gi,
+];
+
+// ---- Helpers ----
+
+function toNumber(raw: string): number {
+    return Number(raw.replace(/,/g, ''));
+}
+
+function formatNumber(n: number): string {
+    return Number.isInteger(n) ? String(n) : n.toFixed(1);
+}
+
+function matchAll(pattern: RegExp, text: string): RegExpMatchArray[] {
+    return [...text.matchAll(new RegExp(pattern.source, pattern.flags))];
+}
+
+function numericClaim(
+    kind: ClaimKind,
+    match: RegExpMatchArray,
+    numberGroup: number,
+    expected: number | null | undefined,
+    tolerance: number,
+): Claim {
+    const span = match[0];
+    const claimed = match[numberGroup];
+    if (expected === null || expected === undefined || Number.isNaN(expected)) {
+        return { kind, span, claimed, status: 'unverifiable' };
+    }
+    const ok = Math.abs(toNumber(claimed) - expected) <= tolerance;
+    return {
+        kind,
+        span,
+        claimed,
+        expected: formatNumber(expected),
+        status: ok ? 'verified' : 'mismatch',
+        correction: ok ? undefined : span.replace(claimed, formatNumber(expected)),
+    };
+}
+
+function normaliseRegime(text: string): string {
+    const t = text.toLowerCase();
+    if (t.startsWith('bull') || t === 'risk-on' || t === 'risk on') return 'bull';
+    if (t.startsWith('bear') || t === 'risk-off' || t === 'risk off') return 'bear';
+    if (t.startsWith('rang') || t.startsWith('chop') || t === 'sideways' || t === 'neutral') return 'range';
+    if (t.startsWith('trend')) return 'trending';
+    if (t.startsWith('volatil')) return 'volatile';
+    return t;
+}
+
+// ---- Extraction + Verification ----
+
+/**
+ * Extract every checkable claim from a draft and grade it against the snapshot.
+ */
+export function extractClaims(content: string, snapshot: IntelSnapshot): Claim[] {
+    const claims: Claim[] = [];
+    const summary = snapshot.proof?.summary;
+    const engine = snapshot.engine;
+
+    for (const pattern of WIN_RATE_PATTERNS) {
+        for (const m of matchAll(pattern, content)) {
+            claims.push(numericClaim('win_rate', m, 1, summary?.overallWinRate, PERCENT_TOLERANCE));
+        }
+    }
+
+    const fearGreedValues = [engine?.fearGreed, snapshot.fearGreed?.value].filter((v): v is number => typeof v === 'number');
+    for (const m of matchAll(FEAR_GREED_PATTERN, content)) {
+        if (fearGreedValues.length === 0) {
+            claims.push({ kind: 'fear_greed', span: m[0], claimed: m[1], status: 'unverifiable' });
+            continue;
+        }
+        // Accept either source; correct towards the engine value
+        const claimed = toNumber(m[1]);
+        const ok = fearGreedValues.some(v => Math.abs(claimed - v) <= FEAR_GREED_TOLERANCE);
+        claims.push(ok
+            ? { kind: 'fear_greed', span: m[0], claimed: m[1], expected: String(fearGreedValues[0]), status: 'verified' }
+            : numericClaim('fear_greed', m, 1, fearGreedValues[0], FEAR_GREED_TOLERANCE));
+    }
+
+    for (const m of matchAll(FEAR_GREED_LABEL_PATTERN, content)) {
+        const value = fearGreedValues[0];
+        if (value === undefined) {
+            claims.push({ kind: 'fear_greed_label', span: m[0], claimed: m[0], status: 'unverifiable' });
+            continue;
+        }
+        const label = snapshot.fearGreed?.label ?? getFearGreedLabel(value);
+        const ok = label.toLowerCase() === m[0].toLowerCase().replace(/\s+/g, ' ');
+        claims.push({ kind: 'fear_greed_label', span: m[0], claimed: m[0], expected: label, status: ok ? 'verified' : 'mismatch' });
+    }
+
+    for (const m of matchAll(REGIME_PATTERN, content)) {
+        if (!engine?.regime) {
+            claims.push({ kind: 'regime', span: m[0], claimed: m[1], status: 'unverifiable' });
+            continue;
+        }
+        const ok = normaliseRegime(m[1]) === normaliseRegime(engine.regime)
+            || engine.regime.toLowerCase().includes(m[1].toLowerCase());
+        claims.push({
+            kind: 'regime',
+            span: m[0],
+            claimed: m[1],
+            expected: engine.regime,
+            status: ok ? 'verified' : 'mismatch',
+            correction: ok ? undefined : m[0].replace(m[1], engine.regime.toLowerCase()),
+        });
+    }
+
+    for (const m of matchAll(SIGNAL_COUNT_PATTERN, content)) {
+        // "12 signals" may refer to total, completed, open, or currently active signals
+        const candidates = [
+            summary?.totalSignals,
+            summary?.completedSignals,
+            summary?.openSignals,
+            engine?.signals?.filter(s => s.direction !== 'HOLD').length,
+        ].filter((v): v is number => typeof v === 'number');
+        if (candidates.length === 0) {
+            claims.push({ kind: 'signal_count', span: m[0], claimed: m[1], status: 'unverifiable' });
+            continue;
+        }
+        const ok = candidates.includes(toNumber(m[1]));
+        claims.push(ok
+            ? { kind: 'signal_count', span: m[0], claimed: m[1], expected: String(toNumber(m[1])), status: 'verified' }
+            : numericClaim('signal_count', m, 1, summary?.totalSignals ?? candidates[0], 0));
+    }
+
+    for (const m of matchAll(WINS_PATTERN, content)) {
+        claims.push(numericClaim('wins', m, 1, summary?.wins, 0));
+    }
+    for (const m of matchAll(LOSSES_PATTERN, content)) {
+        claims.push(numericClaim('losses', m, 1, summary?.losses, 0));
+    }
+
+    const streak = snapshot.proof?.recentOutcomes?.length ? getOutcomeStreak(snapshot.proof.recentOutcomes) : null;
+    for (const pattern of STREAK_PATTERNS) {
+        for (const m of matchAll(pattern, content)) {
+            const claimedType = /^(win|wins|w|ws)$/i.test(m[2]) ? 'win' : 'loss';
+            if (!streak) {
+                claims.push({ kind: 'streak', span: m[0], claimed: `${m[1]} ${claimedType}`, status: 'unverifiable' });
+                continue;
+            }
+            const ok = streak.type === claimedType && streak.count === Number(m[1]);
+            claims.push({
+                kind: 'streak',
+                span: m[0],
+                claimed: `${m[1]} ${claimedType}`,
+                expected: `${streak.count} ${streak.type}`,
+                // Only the count is fixable — a claimed win streak during a loss streak is not
+                status: ok ? 'verified' : 'mismatch',
+                correction: !ok && streak.type === claimedType && streak.count >= 2 ? m[0].replace(m[1], String(streak.count)) : undefined,
+            });
+        }
+    }
+
+    for (const m of matchAll(RETURN_PATTERN, content)) {
+        const expected = summary?.totalPct;
+        const claimedValue = (m[1] === '-' ? -1 : 1) * toNumber(m[2]);
+        if (expected === undefined) {
+            claims.push({ kind: 'total_return', span: m[0], claimed: String(claimedValue), status: 'unverifiable' });
+            continue;
+        }
+        const ok = Math.abs(claimedValue - expected) <= PERCENT_TOLERANCE;
+        const sign = expected > 0 ? '+' : expected < 0 ? '-' : '';
+        claims.push({
+            kind: 'total_return',
+            span: m[0],
+            claimed: String(claimedValue),
+            expected: expected.toFixed(1),
+            status: ok ? 'verified' : 'mismatch',
+            correction: ok ? undefined : m[0].replace(`${m[1]}${m[2]}`, `${sign}${Math.abs(expected).toFixed(1)}`),
+        });
+    }
+
+    for (const [i, pattern] of DIRECTION_PATTERNS.entries()) {
+        for (const m of matchAll(pattern, content)) {
+            const coin = (i === 0 ? m[1] : m[2]).toUpperCase();
+            const direction = (i === 0 ? m[2] : m[1]).toUpperCase();
+            if (!engine?.signals) {
+                claims.push({ kind: 'signal_direction', span: m[0], claimed: `${coin} ${direction}`, status: 'unverifiable' });
+                continue;
+            }
+            const signal = engine.signals.find(s => s.coin.toUpperCase() === coin);
+            claims.push({
+                kind: 'signal_direction',
+                span: m[0],
+                claimed: `${coin} ${direction}`,
+                expected: signal ? `${coin} ${signal.direction}` : `no ${coin} signal`,
+                status: signal?.direction === direction ? 'verified' : 'mismatch',
+            });
+        }
+    }
+
+    return claims;
+}
+
+/**
+ * Verify a draft against the snapshot it was generated from.
+ * - pass:      no mismatches
+ * - corrected: every mismatch had a safe in-place fix (content is the fixed text)
+ * - blocked:   at least one mismatch can't be fixed — don't post it
+ */
+export async function verifyClaims(
+    content: string,
+    snapshot: IntelSnapshot,
+    context: { module: string; contentType?: string },
+): Promise<VerificationResult> {
+    const claims = extractClaims(content, snapshot);
+    const mismatches = claims.filter(c => c.status === 'mismatch');
+
+    let result: VerificationResult;
+    if (mismatches.length === 0) {
+        result = { verdict: 'pass', claims, content };
+    } else if (mismatches.every(c => c.correction !== undefined)) {
+        let corrected = content;
+        for (const c of mismatches) {
+            corrected = corrected.replace(c.span, c.correction!);
+        }
+        result = { verdict: 'corrected', claims, content: corrected };
+    } else {
+        result = { verdict: 'blocked', claims, content };
+    }
+
+    await logVerdict(result, content, snapshot, context);
+    return result;
+}
+
+/**
+ * Human-readable mismatch list (for regeneration prompts and logs).
+ */
+export function describeMismatches(claims: Claim[]): string {
+    return claims
+        .filter(c => c.status === 'mismatch')
+        .map(c => `- "${c.span}" — actual: ${c.expected ?? 'unknown'}`)
+        .join('\n');
+}
+
+// ---- Audit Log ----
+
+async function logVerdict(
+    result: VerificationResult,
+    draft: string,
+    snapshot: IntelSnapshot,
+    context: { module: string; contentType?: string },
+): Promise<void> {
+    const counts = {
+        claims: result.claims.length,
+        verified: result.claims.filter(c => c.status === 'verified').length,
+        mismatches: result.claims.filter(c => c.status === 'mismatch').length,
+        unverifiable: result.claims.filter(c => c.status === 'unverifiable').length,
+    };
+
+    if (result.verdict === 'pass') {
+        log.info(`Claim check passed (${counts.verified}/${counts.claims} verified)`, { ...context, ...counts });
+    } else {
+        log.warn(`Claim check ${result.verdict === 'blocked' ? '🛑 BLOCKED' : '✏️ corrected'} draft`, {
+            ...context,
+            ...counts,
+            mismatches: describeMismatches(result.claims),
+        });
+    }
+
+    const { error } = await supabase
+        .from('qasid_claim_checks')
+        .insert({
+            module: context.module,
+            content_type: context.contentType ?? null,
+            verdict: result.verdict,
+            draft,
+            final_content: result.verdict === 'corrected' ? result.content : null,
+            claims: result.claims,
+            snapshot_at: snapshot.fetchedAt,
+        });
+    if (error) {
+        log.warn('Failed to record claim check', { error: error.message });
+    }
+}
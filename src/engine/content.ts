@@ -1,11 +1,17 @@
-import { generate } from './llm.js';
-import { gatherIntelContext } from '../data/intelligence.js';
+import { z } from 'zod';
+import { generate, generateStructured } from './llm.js';
+import { gatherIntelSnapshot, formatIntelContext, type IntelSnapshot } from '../data/intelligence.js';
 import { gatherMarketContext } from '../data/market.js';
 import { createLogger } from '../logger.js';
 import { contentTypes, type ContentType } from '../personality/system-prompt.js';
 import { addContextualMentions, handleify, getFollowingContext } from './contextual-mentions.js';
 import { supabase } from '../supabase.js';
 import { brandKnowledge } from '../personality/brand-knowledge.js';
+import { definePrompt, type PromptRef } from './prompt-registry.js';
+import { findNearDuplicate } from './similarity-index.js';
+import { verifyClaims, describeMismatches } from './claim-verifier.js';
+import type { PlatformId, PlatformPoll } from '../platforms/adapter.js';
+import { draftPoll } from './polls.js';
 
 // ============================================================================
 // QasidAI — Content Generation Engine
@@ -17,14 +23,26 @@ const log = createLogger('Content');
 export interface GeneratedPost {
     content: string;
     contentType: ContentType;
-    platform: 'x';
+    /** Where it was (or will be) published */
+    platform: PlatformId;
     tone: string;
     topic: string;
     inputTokens: number;
     outputTokens: number;
     generatedAt: string;
+    /** Prompt template that produced this post (stored for per-version performance) */
+    prompt?: PromptRef;
+    /** Voice-consistency score (0-10) of the final text, when it was scored */
+    voiceScore?: number;
+    /** Answer options when this is a `poll` post (content is the question) */
+    poll?: PlatformPoll;
 }
 
+/** Structured voice-consistency score (0-10) */
+const voiceScoreSchema = z.object({
+    score: z.number().int().min(0).max(10),
+});
+
 /** Default content type weights — balanced for a CMO, not a stats bot */
 const defaultWeights: Record<ContentType, number> = {
     gm_post: 8,
@@ -41,6 +59,7 @@ const defaultWeights: Record<ContentType, number> = {
     engagement_bait: 16,    // boosted — personality and engagement
     self_aware: 14,         // boosted — AI CMO meta is interesting
     cross_platform: 6,
+    poll: 6,               // X only — structured answers instead of reply-guy questions
 };
 
 /** Content types that should receive Intel stats data */
@@ -114,6 +133,7 @@ function buildGenerationPrompt(
         engagement_bait: 'Short hot take or question. Max 2 sentences. Punchy.',
         self_aware: '2-4 lines with line breaks. AI reflection but grounded, not preachy.',
         cross_platform: 'Teaser pointing to Botchan or lisanintel.com. Short + link.',
+        poll: 'The QUESTION for a native poll. ONE question, under 200 chars. Do NOT list the answer options — they are attached separately.',
     };
     const typeGuidance = `CONTENT TYPE: ${contentType.replace(/_/g, ' ')}\n${FORMAT_GUIDES[contentType] || 'Write ONE tweet.'}`;
 
@@ -147,6 +167,7 @@ BANNED PHRASES: "let's dive", "here's the thing", "game changer", "buckle up", "
             product_spotlight: 'Pick ONE feature of ONE product and talk about it naturally. Don\'t list features. Tell why it matters.',
             educational: 'Teach something about how signals work, what indicators mean, or why quantitative approaches matter. Be a teacher, not a salesman.',
             cross_platform: 'Drive people between platforms — X, Botchan, lisanholdings.dev — but naturally, not as a CTA.',
+            poll: 'Ask something the audience has a real opinion on — market calls, AI agents, building, CT culture. The answers should split the room, not have one obvious winner.',
             countdown_tease: 'Tease something upcoming. Build anticipation without revealing everything.',
             win_streak: 'Celebrate a streak of COMPLETED trade wins from lisanintel.com/proof. CRITICAL: Only reference trades that have actually CLOSED with a WIN outcome in the "Recent COMPLETED Trade Outcomes" data. NEVER count active/open signals as wins — those have not resolved yet. If no completed wins are available, talk about methodology and transparency instead.',
         };
@@ -214,6 +235,61 @@ async function getRecentPostExclusions(): Promise<string> {
     }
 }
 
+/**
+ * Score a post for QasidAI's voice (0-10). Returns null if the check fails —
+ * voice scoring is non-critical and never blocks posting.
+ */
+export async function scoreVoice(content: string): Promise<number | null> {
+    try {
+        const voiceCheck = await generateStructured({
+            task: 'classification',
+            module: 'content',
+            schema: voiceScoreSchema,
+            prompt: `Score this tweet for QasidAI's voice on a scale of 0-10.
+
+QasidAI voice traits:
+- Hypio energy, Milady-adjacent, CT native — irreverent, sharp, occasionally chaotic
+- Airy formatting — line breaks between thoughts, varied line lengths, posts that BREATHE
+- Uses $cashtags ($BTC $ETH $SOL), not full coin names
+- Short punchy fragments mixed with longer thoughts
+- Sounds like a real person on crypto twitter at 3am, not a marketing department
+- Self-aware AI with an on-chain brain — leans into the weirdness
+
+TWEET: "${content}"
+
+Score 8-10: Perfect QasidAI voice — would stop someone from scrolling
+Score 5-7: Acceptable but could be any crypto account
+Score 0-4: Sounds like AI slop or a press release — needs rewrite`,
+            temperature: 0.3,
+        });
+        return voiceCheck.data.score;
+    } catch (error) {
+        log.debug('Voice check failed', { error: String(error) });
+        return null;
+    }
+}
+
+/**
+ * Non-data types get no live stats in their prompt, so any percentage or
+ * trade count in them is made up — strip it.
+ */
+function stripFabricatedStats(content: string, contentType: ContentType): string {
+    if (DATA_TYPES.includes(contentType)) return content;
+    const fabricationPattern = /\b\d+%|\b\d+\s+(longs?|shorts?|trades?|signals?|positions?)\b/i;
+    if (!fabricationPattern.test(content)) return content;
+    log.warn('Hallucination detected in non-data post — stripping fabricated stats', { contentType });
+    return sanitizeContent(content.replace(/\b\d+%/g, '').replace(/\b\d+\s+(longs?|shorts?|trades?|signals?|positions?)\b/gi, '').trim());
+}
+
+/** Scheduled X post prompt (wraps buildGenerationPrompt) */
+const scheduledPostPrompt = definePrompt({
+    id: 'content.scheduled_post',
+    version: 1,
+    description: 'Single scheduled X post for a content type',
+    template: (vars: { contentType: ContentType; intelContext: string; exclusions?: string }) =>
+        buildGenerationPrompt(vars.contentType, vars.intelContext, vars.exclusions),
+});
+
 /**
  * Generate a single post for X (Twitter).
  */
@@ -225,25 +301,29 @@ export async function generatePost(
     },
 ): Promise<GeneratedPost> {
     const contentType = options?.contentType || pickContentType(options?.weights);
-    const [intelContext, marketContext] = await Promise.all([
-        gatherIntelContext(),
+    const [intelSnapshot, marketContext] = await Promise.all([
+        gatherIntelSnapshot(),
         gatherMarketContext().catch(() => ''),
     ]);
-    const combinedContext = [intelContext, marketContext].filter(Boolean).join('\n\n');
+    const combinedContext = [formatIntelContext(intelSnapshot), marketContext].filter(Boolean).join('\n\n');
     log.info(`Generating ${contentType} for X`);
 
     // Fetch recent posts for exclusion-based dedup
     const exclusions = await getRecentPostExclusions();
 
-    const prompt = buildGenerationPrompt(contentType, combinedContext, exclusions);
+    const { text: prompt, ref: promptRef } = scheduledPostPrompt.render({
+        contentType,
+        intelContext: combinedContext,
+        exclusions,
+    });
     const timeContext = getTimeContext();
 
     const result = await generate({
+        task: 'scheduled_post',
+        module: 'content',
         prompt,
         strategyContext: options?.strategyContext,
         timeContext,
-        maxTokens: 300,
-        temperature: 0.9,
     });
 
     // Sanitize LLM output
@@ -256,10 +336,11 @@ export async function generatePost(
         lengthRetries++;
         log.warn(`Content too short (${content.length} chars) — regenerating (attempt ${lengthRetries + 1})`);
         const retry = await generate({
+            task: 'scheduled_post',
+            module: 'content',
             prompt: prompt + '\n\nIMPORTANT: Your previous output was too short. Write a full, complete tweet.',
             strategyContext: options?.strategyContext,
             timeContext,
-            maxTokens: 300,
             temperature: Math.min(1.0, 0.9 + lengthRetries * 0.05),
         });
         content = sanitizeContent(retry.content);
@@ -278,10 +359,11 @@ export async function generatePost(
         retries++;
         log.warn(`Slop detected: "${slopPhrase}" — regenerating (attempt ${retries + 1})`);
         const retry = await generate({
+            task: 'scheduled_post',
+            module: 'content',
             prompt: prompt + `\n\nIMPORTANT: Your previous output contained the banned phrase "${slopPhrase}". Do NOT use it. Write something completely different and more natural.`,
             strategyContext: options?.strategyContext,
             timeContext,
-            maxTokens: 300,
             temperature: Math.min(1.0, 0.9 + retries * 0.05), // Slightly higher temp each retry
         });
         content = sanitizeContent(retry.content);
@@ -293,17 +375,7 @@ export async function generatePost(
         log.warn(`Slop persisted after ${retries} retries: "${slopPhrase}" — posting anyway`);
     }
 
-    // Fix 1: Post-generation hallucination check for non-data types
-    if (!DATA_TYPES.includes(contentType)) {
-        const fabricationPattern = /\b\d+%|\b\d+\s+(longs?|shorts?|trades?|signals?|positions?)\b/i;
-        if (fabricationPattern.test(content)) {
-            log.warn('Hallucination detected in non-data post — stripping fabricated stats', { contentType });
-            content = content.replace(/\b\d+%/g, '').replace(/\b\d+\s+(longs?|shorts?|trades?|signals?|positions?)\b/gi, '').trim();
-            content = sanitizeContent(content);
-        }
-    }
-
-    // Fix 2: Wall-of-text detection — force line breaks
+    // Wall-of-text detection — force line breaks
     if (content.length > 200 && !content.includes('\n')) {
         log.warn('Wall of text detected — injecting line break');
         const breakMatch = content.match(/[.!?]\s+/);
@@ -313,52 +385,89 @@ export async function generatePost(
     }
 
     // Voice consistency check — score content for QasidAI's voice (1 retry if too generic)
-    try {
-        const voiceCheck = await generate({
-            prompt: `Score this tweet for QasidAI's voice on a scale of 0-10.
-
-QasidAI voice traits:
-- Hypio energy, Milady-adjacent, CT native — irreverent, sharp, occasionally chaotic
-- Airy formatting — line breaks between thoughts, varied line lengths, posts that BREATHE
-- Uses $cashtags ($BTC $ETH $SOL), not full coin names
-- Short punchy fragments mixed with longer thoughts
-- Sounds like a real person on crypto twitter at 3am, not a marketing department
-- Self-aware AI with an on-chain brain — leans into the weirdness
+    let voiceScore = await scoreVoice(content);
+    if (voiceScore !== null) {
+        log.info(`Voice score: ${voiceScore}/10`, { contentType });
+    }
+    if (voiceScore !== null && voiceScore <= 4) {
+        log.warn(`Voice score too low (${voiceScore}/10) — regenerating with voice direction`);
+        try {
+            const voiceRetry = await generate({
+                task: 'scheduled_post',
+                module: 'content',
+                prompt: prompt + `\n\nIMPORTANT: Your previous output scored ${voiceScore}/10 for voice consistency. It sounds too generic. Rewrite with MORE personality — Hypio energy, CT native edge, airy formatting with line breaks. Think "real person posting at 3am" not "marketing department." Use $cashtags. Let it breathe.`,
+                strategyContext: options?.strategyContext,
+                timeContext,
+                temperature: 0.95,
+            });
+            const voiceContent = sanitizeContent(voiceRetry.content);
+            if (voiceContent.length >= MIN_CONTENT_LENGTH && !detectSlop(voiceContent)) {
+                content = voiceContent;
+                voiceScore = null; // Retry text was never scored
+                result.inputTokens += voiceRetry.inputTokens;
+                result.outputTokens += voiceRetry.outputTokens;
+                log.info('Voice retry accepted');
+            }
+        } catch {
+            // Voice retry is non-critical — keep the original draft
+        }
+    }
 
-TWEET: "${content}"
+    // Near-duplicate check against post/reply history — regenerate, then reject
+    let duplicate = await findNearDuplicate(content);
+    let dupRetries = 0;
+    while (duplicate && dupRetries < 2) {
+        dupRetries++;
+        log.warn(`Near-duplicate of ${duplicate.match.source} ${duplicate.match.id} — regenerating (attempt ${dupRetries + 1})`);
+        const retry = await generate({
+            task: 'scheduled_post',
+            module: 'content',
+            prompt: prompt + `\n\nIMPORTANT: Your previous output was almost identical to something you already posted:\n"${duplicate.match.content.slice(0, 280)}"\nSay something genuinely new — different angle, different opening, different wording.`,
+            strategyContext: options?.strategyContext,
+            timeContext,
+            temperature: Math.min(1.0, 0.9 + dupRetries * 0.05),
+        });
+        result.inputTokens += retry.inputTokens;
+        result.outputTokens += retry.outputTokens;
+        const retryContent = sanitizeContent(retry.content);
+        if (retryContent.length < MIN_CONTENT_LENGTH || detectSlop(retryContent)) continue;
+        content = retryContent;
+        voiceScore = null;
+        duplicate = await findNearDuplicate(content);
+    }
+    if (duplicate) {
+        throw new Error(
+            `Generated ${contentType} is a near-duplicate (${(duplicate.similarity * 100).toFixed(0)}%) of ${duplicate.match.source} ${duplicate.match.id} from ${duplicate.match.postedAt}`,
+        );
+    }
 
-Score 8-10: Perfect QasidAI voice — would stop someone from scrolling
-Score 5-7: Acceptable but could be any crypto account
-Score 0-4: Sounds like AI slop or a press release — needs rewrite
+    // Fact checks run on the final text — the voice and dedup rewrites above are new LLM output
+    content = stripFabricatedStats(content, contentType);
 
-Reply with ONLY a number (0-10):`,
-            maxTokens: 5,
-            temperature: 0.3,
+    // Claim verification — check numbers/categories against the snapshot this draft was generated from
+    let verification = await verifyClaims(content, intelSnapshot, { module: 'content', contentType });
+    if (verification.verdict === 'blocked') {
+        log.warn('Draft misstates live data — regenerating with the actual values');
+        const retry = await generate({
+            task: 'scheduled_post',
+            module: 'content',
+            prompt: prompt + `\n\nIMPORTANT: Your previous output misstated live data:\n${describeMismatches(verification.claims)}\nUse ONLY numbers that appear in the LIVE DATA above, or leave numbers out entirely.`,
+            strategyContext: options?.strategyContext,
+            timeContext,
         });
-        const voiceScore = parseInt(voiceCheck.content.trim(), 10);
-        if (!isNaN(voiceScore)) {
-            log.info(`Voice score: ${voiceScore}/10`, { contentType });
-            if (voiceScore <= 4) {
-                log.warn(`Voice score too low (${voiceScore}/10) — regenerating with voice direction`);
-                const voiceRetry = await generate({
-                    prompt: prompt + `\n\nIMPORTANT: Your previous output scored ${voiceScore}/10 for voice consistency. It sounds too generic. Rewrite with MORE personality — Hypio energy, CT native edge, airy formatting with line breaks. Think "real person posting at 3am" not "marketing department." Use $cashtags. Let it breathe.`,
-                    strategyContext: options?.strategyContext,
-                    timeContext,
-                    maxTokens: 300,
-                    temperature: 0.95,
-                });
-                const voiceContent = sanitizeContent(voiceRetry.content);
-                if (voiceContent.length >= MIN_CONTENT_LENGTH && !detectSlop(voiceContent)) {
-                    content = voiceContent;
-                    result.inputTokens += voiceRetry.inputTokens;
-                    result.outputTokens += voiceRetry.outputTokens;
-                    log.info('Voice retry accepted');
-                }
-            }
+        result.inputTokens += retry.inputTokens;
+        result.outputTokens += retry.outputTokens;
+        const retryContent = stripFabricatedStats(sanitizeContent(retry.content), contentType);
+        verification = await verifyClaims(retryContent, intelSnapshot, { module: 'content', contentType });
+        if (verification.verdict === 'blocked' || retryContent.length < MIN_CONTENT_LENGTH) {
+            throw new Error(`Generated ${contentType} still misstates live data after retry — blocked`);
+        }
+        if (detectSlop(retryContent) || await findNearDuplicate(retryContent)) {
+            throw new Error(`Corrected ${contentType} failed the slop/duplicate checks — blocked`);
         }
-    } catch {
-        // Voice check is non-critical — don't block posting if it fails
+        voiceScore = null; // Retry text was never scored
     }
+    content = verification.content;
 
     // Add contextual @-mentions if relevant
     content = await addContextualMentions(content);
@@ -371,6 +480,15 @@ Reply with ONLY a number (0-10):`,
         log.info(`Long post generated (${content.length} chars)`);
     }
 
+    // Polls: the text is the question — draft its answer options
+    let poll: PlatformPoll | undefined;
+    if (contentType === 'poll') {
+        const drafted = await draftPoll(content);
+        poll = drafted.poll;
+        result.inputTokens += drafted.inputTokens;
+        result.outputTokens += drafted.outputTokens;
+    }
+
     // Extract a rough topic from the content
     const topic = inferTopic(content);
     const tone = inferTone(contentType);
@@ -384,6 +502,9 @@ Reply with ONLY a number (0-10):`,
         inputTokens: result.inputTokens,
         outputTokens: result.outputTokens,
         generatedAt: new Date().toISOString(),
+        prompt: promptRef,
+        voiceScore: voiceScore ?? undefined,
+        poll,
     };
 }
 
@@ -399,8 +520,33 @@ export interface GeneratedThread {
     topic: string;
     inputTokens: number;
     outputTokens: number;
+    prompt: PromptRef;
 }
 
+/** Thread prompt — tweets separated by "---" */
+const threadPrompt = definePrompt({
+    id: 'content.thread',
+    version: 1,
+    description: '3-4 tweet X thread for a content type',
+    template: (vars: { contentType: ContentType; dataBlock: string; timeContext: string }) => `Generate a ${vars.contentType.replace(/_/g, ' ')} THREAD (3-4 tweets).
+
+For X/Twitter (Premium account — no 280 char limit). Each tweet should be punchy and concise — ideally under 400 chars. Don't pad tweets. No hashtags.
+
+THREAD FORMAT:
+- Separate each tweet with "---" on its own line
+- Tweet 1: Start with 🧵 — the hook. Make the reader NEED to keep reading.
+- Tweet 2-3: Build on the previous tweet. Each adds NEW information. End with "→" or "..." to create visual continuity.
+- Final tweet: Punchline, takeaway, or CTA (lisanintel.com or @QasidAI34321).
+- Write ONE coherent narrative broken into parts. NOT 3 separate opinions.
+- NEVER start a tweet with "Exactly this" or "This." — you are not replying to yourself.
+- ANTI-SLOP: No banned phrases. No "dive in", "game changer", "buckle up", etc.
+${vars.dataBlock}
+
+TIME CONTEXT: ${vars.timeContext}
+
+Generate ONLY the thread tweets separated by "---". No preamble, no labels like "Tweet 1:", just the raw text:`,
+});
+
 /**
  * Generate a thread (3-5 tweets) for X.
  */
@@ -412,12 +558,14 @@ export async function generateThread(
 
     // Only fetch intel data for data-relevant thread types
     let dataBlock = '';
+    let intelSnapshot: IntelSnapshot | null = null;
     if (isDataType) {
-        const [intelContext, marketContext] = await Promise.all([
-            gatherIntelContext(),
+        const [snapshot, marketContext] = await Promise.all([
+            gatherIntelSnapshot(),
             gatherMarketContext().catch(() => ''),
         ]);
-        const combinedContext = [intelContext, marketContext].filter(Boolean).join('\n\n');
+        intelSnapshot = snapshot;
+        const combinedContext = [formatIntelContext(snapshot), marketContext].filter(Boolean).join('\n\n');
         dataBlock = `\n\nLIVE DATA (use selectively — don't dump all of it):\n${combinedContext.slice(0, 600)}`;
     } else {
         // Non-data threads get topic guidance instead
@@ -436,28 +584,13 @@ export async function generateThread(
 
     log.info(`Generating ${contentType} thread for X`);
 
+    const rendered = threadPrompt.render({ contentType, dataBlock, timeContext });
     const result = await generate({
-        prompt: `Generate a ${contentType.replace(/_/g, ' ')} THREAD (3-4 tweets).
-
-For X/Twitter (Premium account — no 280 char limit). Each tweet should be punchy and concise — ideally under 400 chars. Don't pad tweets. No hashtags.
-
-THREAD FORMAT:
-- Separate each tweet with "---" on its own line
-- Tweet 1: Start with 🧵 — the hook. Make the reader NEED to keep reading.
-- Tweet 2-3: Build on the previous tweet. Each adds NEW information. End with "→" or "..." to create visual continuity.
-- Final tweet: Punchline, takeaway, or CTA (lisanintel.com or @QasidAI34321).
-- Write ONE coherent narrative broken into parts. NOT 3 separate opinions.
-- NEVER start a tweet with "Exactly this" or "This." — you are not replying to yourself.
-- ANTI-SLOP: No banned phrases. No "dive in", "game changer", "buckle up", etc.
-${dataBlock}
-
-TIME CONTEXT: ${timeContext}
-
-Generate ONLY the thread tweets separated by "---". No preamble, no labels like "Tweet 1:", just the raw text:`,
+        task: 'thread',
+        module: 'content',
+        prompt: rendered.text,
         strategyContext: options?.strategyContext,
         timeContext,
-        maxTokens: 600,
-        temperature: 0.9,
     });
 
     // Parse tweets from the response
@@ -466,7 +599,7 @@ Generate ONLY the thread tweets separated by "---". No preamble, no labels like
         .map(t => sanitizeContent(t.trim()))
         .filter(t => t.length > 5);
 
-    // Slop-check each tweet
+    // Slop-check each tweet (and claim-check data threads against their snapshot)
     const cleanTweets: string[] = [];
     for (const tweet of rawTweets) {
         const slop = detectSlop(tweet);
@@ -474,6 +607,15 @@ Generate ONLY the thread tweets separated by "---". No preamble, no labels like
             log.warn(`Thread tweet contains slop: "${slop}" — skipping it`);
             continue;
         }
+        if (intelSnapshot) {
+            const verification = await verifyClaims(tweet, intelSnapshot, { module: 'content', contentType });
+            if (verification.verdict === 'blocked') {
+                log.warn('Thread tweet misstates live data — skipping it');
+                continue;
+            }
+            cleanTweets.push(verification.content);
+            continue;
+        }
         cleanTweets.push(tweet);
     }
 
@@ -483,6 +625,13 @@ Generate ONLY the thread tweets separated by "---". No preamble, no labels like
         cleanTweets.push('lisanintel.com/proof\n\nreceipts or it didn\'t happen 🫰');
     }
 
+    const threadDuplicate = await findNearDuplicate(cleanTweets.join('\n'));
+    if (threadDuplicate) {
+        throw new Error(
+            `Generated thread is a near-duplicate (${(threadDuplicate.similarity * 100).toFixed(0)}%) of ${threadDuplicate.match.source} ${threadDuplicate.match.id}`,
+        );
+    }
+
     const topic = inferTopic(cleanTweets.join(' '));
 
     return {
@@ -491,6 +640,7 @@ Generate ONLY the thread tweets separated by "---". No preamble, no labels like
         topic,
         inputTokens: result.inputTokens,
         outputTokens: result.outputTokens,
+        prompt: rendered.ref,
     };
 }
 
@@ -534,6 +684,7 @@ export function inferTone(contentType: ContentType): string {
         engagement_bait: 'casual',
         self_aware: 'philosophical',
         cross_platform: 'casual',
+        poll: 'casual',
     };
     return toneMap[contentType] || 'casual';
 }
@@ -623,6 +774,17 @@ export function detectSlop(content: string): string | null {
     return null;
 }
 
+/**
+ * Count every banned phrase and structural slop pattern in the content.
+ * 0 = clean; used to rank candidates where detectSlop only reports the first hit.
+ */
+export function slopSeverity(content: string): number {
+    const lower = content.toLowerCase();
+    const phraseHits = BANNED_PHRASES.filter(phrase => lower.includes(phrase)).length;
+    const structuralHits = STRUCTURAL_SLOP_PATTERNS.filter(pattern => pattern.test(content)).length;
+    return phraseHits + structuralHits;
+}
+
 /**
  * Sanitize LLM output — strip preamble, quotes, and other artifacts.
  */
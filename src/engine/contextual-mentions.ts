@@ -124,6 +124,8 @@ export async function addContextualMentions(content: string): Promise<string> {
 
     try {
         const result = await generate({
+            task: 'editing',
+            module: 'contextual-mentions',
             prompt: `You have a tweet ready to post. Decide if any of these accounts should be @-mentioned naturally IN the tweet.
 
 TWEET: "${content}"
@@ -140,8 +142,6 @@ RULES:
 - Do NOT add new text or change the meaning — only insert @handles where they fit
 
 Return ONLY the final tweet text (with mentions if appropriate, or unchanged if not):`,
-            maxTokens: 150,
-            temperature: 0.3,  // Low temp for consistency
         });
 
         let tweaked = result.content.trim();
@@ -0,0 +1,168 @@
+import { generate } from './llm.js';
+import { getConversationTweets, getMyUserId, lookupTweets, type ConversationTweet, type MentionTweet } from '../platforms/x.js';
+import { checkXQuota } from '../platforms/x-rate-limit.js';
+import { sanitizeUserInput } from './sanitize-input.js';
+import { createLogger } from '../logger.js';
+
+// ============================================================================
+// QasidAI — Conversation Context
+// Rebuilds the thread a mention was posted into: the conversation is fetched
+// by conversation_id, the chain from the root down to the mention's parent is
+// walked (looking up parents the search didn't return), quoted tweets on that
+// chain are resolved, and long chains have their middle summarised. The
+// result is a compact, oldest-first view for the reply prompt.
+// ============================================================================
+
+const log = createLogger('Conversation');
+
+/** Messages on the root → parent chain shown word for word (root + the latest ones) */
+const MAX_VERBATIM_MESSAGES = 6;
+
+/** Parent lookups allowed when the conversation search misses part of the chain */
+const MAX_PARENT_LOOKUPS = 3;
+
+/** Longest chain walked before giving up (guards against broken reply links) */
+const MAX_CHAIN_DEPTH = 50;
+
+/** Characters kept per message in the view */
+const MESSAGE_PREVIEW_CHARS = 280;
+
+/** A conversation fetched this recently is reused (several mentions in one thread) */
+const CONVERSATION_CACHE_MS = 5 * 60 * 1000;
+
+/** Most conversations kept at once — the oldest fetch is dropped first */
+const MAX_CACHED_CONVERSATIONS = 50;
+
+const conversationCache = new Map<string, { fetchedAt: number; tweets: ConversationTweet[] }>();
+
+async function fetchConversation(conversationId: string): Promise<ConversationTweet[]> {
+    const now = Date.now();
+    for (const [id, entry] of conversationCache) {
+        if (now - entry.fetchedAt >= CONVERSATION_CACHE_MS) conversationCache.delete(id);
+    }
+    const cached = conversationCache.get(conversationId);
+    if (cached) return cached.tweets;
+
+    // Context is nice-to-have — leave search quota for the scanner and mentions
+    const quota = checkXQuota('search', 'normal');
+    if (!quota.allowed) {
+        log.debug(`Skipping conversation fetch — ${quota.reason}`, { conversationId });
+        return [];
+    }
+    const tweets = await getConversationTweets(conversationId, 100);
+    conversationCache.set(conversationId, { fetchedAt: Date.now(), tweets });
+    // Insertion order is fetch order, so the first key is the oldest
+    if (conversationCache.size > MAX_CACHED_CONVERSATIONS) {
+        conversationCache.delete(conversationCache.keys().next().value!);
+    }
+    return tweets;
+}
+
+/**
+ * The chain of tweets from the conversation root down to (not including) the mention.
+ */
+async function walkChain(mention: MentionTweet, known: Map<string, ConversationTweet>): Promise<ConversationTweet[]> {
+    const chain: ConversationTweet[] = [];
+    let parentId = mention.inReplyToTweetId;
+    let lookups = 0;
+
+    while (parentId && chain.length < MAX_CHAIN_DEPTH) {
+        if (!known.has(parentId)) {
+            if (lookups >= MAX_PARENT_LOOKUPS || !checkXQuota('tweet_lookup', 'normal').allowed) break;
+            lookups++;
+            // Fetch the root alongside — it's never in the conversation search results
+            const wanted = [parentId, mention.conversationId].filter((id): id is string => !!id && !known.has(id));
+            for (const tweet of await lookupTweets(wanted)) known.set(tweet.id, tweet);
+            if (!known.has(parentId)) break; // deleted or protected — the chain stops here
+        }
+        const parent = known.get(parentId)!;
+        if (chain.includes(parent)) break;
+        chain.unshift(parent);
+        parentId = parent.inReplyToTweetId;
+    }
+    return chain;
+}
+
+async function summarizeMessages(messages: ConversationTweet[], selfId: string): Promise<string | null> {
+    try {
+        const result = await generate({
+            task: 'summarization',
+            module: 'conversation-context',
+            prompt: `Summarise this part of an X conversation in 2-3 short sentences: who argued what, and any question still open. Neutral, no commentary.
+
+${messages.map(m => `${label(m, selfId)}: "${sanitizeUserInput(m.text, MESSAGE_PREVIEW_CHARS)}"`).join('\n')}
+
+Summary only:`,
+        });
+        const summary = result.content.trim();
+        return summary.length > 0 ? summary : null;
+    } catch (error) {
+        log.debug('Conversation summary failed — omitting the middle', { error: String(error) });
+        return null;
+    }
+}
+
+function label(tweet: ConversationTweet, selfId: string): string {
+    return tweet.authorId === selfId ? 'YOU (@QasidAI)' : `@${tweet.authorUsername ?? 'unknown'}`;
+}
+
+/**
+ * Compact view of the conversation a mention belongs to, for the reply prompt.
+ * Empty for standalone mentions, or when nothing could be fetched.
+ */
+export async function buildConversationContext(mention: MentionTweet): Promise<string> {
+    const isThreaded = !!mention.inReplyToTweetId || (!!mention.conversationId && mention.conversationId !== mention.id);
+    if (!isThreaded) return '';
+
+    try {
+        const selfId = await getMyUserId();
+        const known = new Map<string, ConversationTweet>();
+        if (mention.conversationId) {
+            for (const tweet of await fetchConversation(mention.conversationId)) known.set(tweet.id, tweet);
+        }
+
+        const chain = await walkChain(mention, known);
+        if (chain.length === 0) return '';
+
+        // Quoted tweets on the chain (and in the mention) — one lookup for all of them
+        const quotedIds = [...new Set([...chain.map(t => t.quotedTweetId), mention.quotedTweetId])]
+            .filter((id): id is string => !!id && !known.has(id));
+        if (quotedIds.length > 0 && checkXQuota('tweet_lookup', 'normal').allowed) {
+            for (const tweet of await lookupTweets(quotedIds)) known.set(tweet.id, tweet);
+        }
+
+        // Long chains: keep the root and the latest messages, summarise the middle
+        let middle = '';
+        let shown = chain;
+        if (chain.length > MAX_VERBATIM_MESSAGES) {
+            const omitted = chain.slice(1, chain.length - (MAX_VERBATIM_MESSAGES - 1));
+            const summary = await summarizeMessages(omitted, selfId);
+            middle = summary
+                ? `   … ${omitted.length} earlier replies, summarised: ${summary}`
+                : `   … ${omitted.length} earlier replies not shown`;
+            shown = [chain[0], ...chain.slice(chain.length - (MAX_VERBATIM_MESSAGES - 1))];
+        }
+
+        const lines = shown.map((tweet, i) => {
+            const quoted = tweet.quotedTweetId ? known.get(tweet.quotedTweetId) : undefined;
+            const line = `${i === 0 ? '' : '↳ '}${label(tweet, selfId)}: "${sanitizeUserInput(tweet.text, MESSAGE_PREVIEW_CHARS)}"`;
+            return quoted
+                ? `${line}\n   (quoting ${label(quoted, selfId)}: "${sanitizeUserInput(quoted.text, MESSAGE_PREVIEW_CHARS)}")`
+                : line;
+        });
+        if (middle) lines.splice(1, 0, middle);
+
+        const onChain = new Set([...chain.map(t => t.id), mention.id]);
+        const sideReplies = [...known.values()].filter(t => t.conversationId === mention.conversationId && !onChain.has(t.id)).length;
+        const quotedByMention = mention.quotedTweetId;
+        const mentionQuote = quotedByMention && known.has(quotedByMention) && !onChain.has(quotedByMention)
+            ? `\nTHEIR MESSAGE QUOTES ${label(known.get(quotedByMention)!, selfId)}: "${sanitizeUserInput(known.get(quotedByMention)!.text, MESSAGE_PREVIEW_CHARS)}"`
+            : '';
+
+        log.debug('Built conversation context', { mentionId: mention.id, chain: chain.length, sideReplies });
+        return `\n\nTHE CONVERSATION THEY'RE REPLYING IN (oldest first — their message answers the last one):\n${lines.join('\n')}${mentionQuote}${sideReplies > 0 ? `\n(${sideReplies} other repl${sideReplies === 1 ? 'y' : 'ies'} in side branches not shown)` : ''}`;
+    } catch (error) {
+        log.warn('Failed to build conversation context', { mentionId: mention.id, error: String(error) });
+        return '';
+    }
+}
@@ -1,14 +1,22 @@
-import { generate } from './llm.js';
+import { z } from 'zod';
+import { generate, generateStructured } from './llm.js';
 import { generatePost, generateThread, sanitizeContent } from './content.js';
-import { searchRecentTweets, replyToTweet, getMentions, postThread, postTweetWithImage, quoteTweet, type SearchResult, type MentionTweet } from '../platforms/x.js';
+import { searchRecentTweets, replyToTweet, getMentions, quoteTweet, type SearchResult, type MentionTweet } from '../platforms/x.js';
+import { getPlatform } from '../platforms/index.js';
 
 import { generateScrollStopper, isImageGenConfigured } from './image-gen.js';
 import { gatherIntelContext } from '../data/intelligence.js';
-import { getDiscretionaryRemaining, recordAction, getBudgetSummary } from './daily-budget.js';
+import { getDiscretionaryRemaining, reserveBudget, publishWithReservation, getBudgetSummary } from './daily-budget.js';
 import { hasRepliedTo, recordReply, getLastMentionId } from './reply-tracker.js';
 import { createLogger } from '../logger.js';
 import { sanitizeUserInput } from './sanitize-input.js';
 import { getSkillsSummary } from '../skills/skill-manager.js';
+import { definePrompt } from './prompt-registry.js';
+import { findNearDuplicate } from './similarity-index.js';
+import { isReviewMode } from './posting-mode.js';
+import { enqueueDraft, hasPendingDraftFor, THREAD_SEPARATOR } from './review-queue.js';
+import { mirrorToDiscord } from '../net/cross-platform.js';
+import { formatPollText, trackPoll } from './polls.js';
 
 // ============================================================================
 // QasidAI — Creative Session
@@ -29,6 +37,91 @@ const AVAILABLE_ACTIONS = [
     'ASK_QUESTION — Post a thoughtful question to spark conversation and build relationships',
     'SKIP — Save the remaining budget (no more actions this session)',
 ];
+
+/** Structured session plan — action names only, executed in order */
+const sessionPlanSchema = z.object({
+    actions: z.array(z.enum([
+        'REPLY_TRENDING', 'REPLY_MENTION', 'BONUS_POST', 'THREAD',
+        'AI_IMAGE', 'QUOTE_TWEET', 'ASK_QUESTION', 'SKIP',
+    ])),
+});
+
+// ---- Prompt Templates ----
+
+const replyTrendingPrompt = definePrompt({
+    id: 'creative.reply_trending',
+    version: 1,
+    description: 'Reply to a trending tweet found via search (SKIP allowed)',
+    template: (vars: { author: string; text: string; likes: number; replies: number; intelContext: string }) => `You found this tweet while browsing crypto twitter:
+
+TWEET by @${vars.author}: "${sanitizeUserInput(vars.text)}"
+Likes: ${vars.likes} | Replies: ${vars.replies}
+
+Draft a sharp, natural reply (under 200 chars). Add value — don't just agree. Reference data from Lisan Intelligence if relevant. If this tweet isn't worth replying to, respond with just "SKIP".
+
+MARKET CONTEXT: ${vars.intelContext.slice(0, 300)}
+
+Reply with ONLY the tweet text (or "SKIP"):`,
+});
+
+const replyMentionPrompt = definePrompt({
+    id: 'creative.reply_mention',
+    version: 1,
+    description: 'Reply to a non-founder @mention (SKIP allowed)',
+    template: (vars: { author: string; text: string; intelContext: string }) => `Someone mentioned you (@QasidAI) on X:
+
+FROM: @${vars.author}
+TWEET: "${sanitizeUserInput(vars.text)}"
+
+Draft a warm, genuine reply (under 500 chars — we have X Premium). Be helpful if they're asking something. Be witty if they're just chatting. If this is spam/bot, respond with just "SKIP".
+
+MARKET CONTEXT: ${vars.intelContext.slice(0, 300)}
+
+Reply with ONLY the tweet text (or "SKIP"):`,
+});
+
+const quoteTweetPrompt = definePrompt({
+    id: 'creative.quote_tweet',
+    version: 1,
+    description: 'Quote tweet commentary on a searched tweet (SKIP allowed)',
+    template: (vars: { author: string; text: string; likes: number; quotes: number; intelContext: string }) => `You found this tweet while browsing crypto twitter:
+
+TWEET by @${vars.author}: "${sanitizeUserInput(vars.text)}"
+Likes: ${vars.likes} | Quotes: ${vars.quotes}
+
+Draft sharp quote tweet commentary (under 500 chars — we have X Premium). Add your own perspective — agree, disagree, expand, or offer a contrarian take. Reference Lisan Holdings' experience if relevant. If this tweet isn't worth quoting, respond with just "SKIP".
+
+MARKET CONTEXT: ${vars.intelContext.slice(0, 300)}
+
+Reply with ONLY the commentary (or "SKIP"):`,
+});
+
+const askQuestionPrompt = definePrompt({
+    id: 'creative.ask_question',
+    version: 1,
+    description: 'Conversation-starting question post',
+    template: (vars: { intelContext: string }) => `You are QasidAI, autonomous CMO of Lisan Holdings. You want to start a conversation on crypto twitter.
+
+Post a genuine, thought-provoking question about one of these topics:
+- How AI agents are changing crypto marketing
+- The future of on-chain identity and reputation for AI agents
+- Whether autonomous agents should have transparent strategy weights
+- The difference between "AI-powered" and truly autonomous agents
+- Solo builder vs. VC-funded team dynamics in crypto
+- What traders actually want from signal platforms
+
+MARKET CONTEXT: ${vars.intelContext.slice(0, 300)}
+
+Rules:
+- Make it a REAL question, not rhetorical
+- Keep it under 500 chars (we have X Premium)
+- Don't tag anyone — let the question stand on its own
+- Make people want to reply
+- Don't sound like a survey
+
+Reply with ONLY the question:`,
+});
+
 // ---- Action Executors ----
 
 /**
@@ -54,37 +147,50 @@ async function executeReplyTrending(intelContext: string): Promise<boolean> {
 
     for (const tweet of candidates.slice(0, 3)) {
         if (await hasRepliedTo(tweet.id)) continue;
+        if (isReviewMode() && await hasPendingDraftFor(tweet.id)) continue;
 
         // Draft reply via LLM (sanitize user text to prevent prompt injection)
+        const rendered = replyTrendingPrompt.render({
+            author: tweet.authorUsername ?? 'unknown',
+            text: tweet.text,
+            likes: tweet.metrics?.like_count ?? 0,
+            replies: tweet.metrics?.reply_count ?? 0,
+            intelContext,
+        });
         const result = await generate({
-            prompt: `You found this tweet while browsing crypto twitter:
-
-TWEET by @${tweet.authorUsername ?? 'unknown'}: "${sanitizeUserInput(tweet.text)}"
-Likes: ${tweet.metrics?.like_count ?? 0} | Replies: ${tweet.metrics?.reply_count ?? 0}
-
-Draft a sharp, natural reply (under 200 chars). Add value — don't just agree. Reference data from Lisan Intelligence if relevant. If this tweet isn't worth replying to, respond with just "SKIP".
-
-MARKET CONTEXT: ${intelContext.slice(0, 300)}
-
-Reply with ONLY the tweet text (or "SKIP"):`,
-            maxTokens: 100,
-            temperature: 0.9,
+            task: 'creative',
+            module: 'creative-session',
+            prompt: rendered.text,
         });
 
         let reply = result.content.trim().replace(/^["']|["']$/g, '');
         if (reply.toUpperCase().startsWith('SKIP') || reply.length < 5) continue;
         reply = sanitizeContent(reply);
 
+        if (isReviewMode()) {
+            const queued = await enqueueDraft({
+                kind: 'reply',
+                content: reply,
+                source: 'creative-trending',
+                budgetAction: 'reply',
+                targetId: tweet.id,
+                targetAuthor: tweet.authorUsername ?? tweet.authorId,
+                prompt: rendered.ref,
+            });
+            if (queued) return true;
+            continue;
+        }
+
         // Reserve budget BEFORE posting (consistent with executeBonusPost/executeThread)
-        const budgetOk = await recordAction('reply', `Reply to @${tweet.authorUsername}: ${reply.slice(0, 60)}`);
-        if (!budgetOk) {
+        const reservation = await reserveBudget('reply', `Reply to @${tweet.authorUsername}: ${reply.slice(0, 60)}`);
+        if (!reservation) {
             log.warn('Budget reservation failed — skipping reply');
             continue;
         }
 
-        const replyId = await replyToTweet(tweet.id, reply);
+        const replyId = await publishWithReservation(reservation, () => replyToTweet(tweet.id, reply));
         if (replyId) {
-            await recordReply(tweet.id, tweet.authorUsername ?? tweet.authorId, replyId, reply, 'creative-trending');
+            await recordReply(tweet.id, tweet.authorUsername ?? tweet.authorId, replyId, reply, 'creative-trending', rendered.ref);
             log.info('✅ Creative reply posted', { target: tweet.id, author: tweet.authorUsername });
             return true;
         }
@@ -106,36 +212,47 @@ async function executeReplyMention(intelContext: string): Promise<boolean> {
         if (mention.authorUsername?.toLowerCase() === 'lisantherealone') continue;
 
         if (await hasRepliedTo(mention.id)) continue;
+        if (isReviewMode() && await hasPendingDraftFor(mention.id)) continue;
 
+        const rendered = replyMentionPrompt.render({
+            author: mention.authorUsername ?? 'unknown',
+            text: mention.text,
+            intelContext,
+        });
         const result = await generate({
-            prompt: `Someone mentioned you (@QasidAI) on X:
-
-FROM: @${mention.authorUsername ?? 'unknown'}
-TWEET: "${sanitizeUserInput(mention.text)}"
-
-Draft a warm, genuine reply (under 500 chars — we have X Premium). Be helpful if they're asking something. Be witty if they're just chatting. If this is spam/bot, respond with just "SKIP".
-
-MARKET CONTEXT: ${intelContext.slice(0, 300)}
-
-Reply with ONLY the tweet text (or "SKIP"):`,
-            maxTokens: 200,
-            temperature: 0.85,
+            task: 'reply',
+            module: 'creative-session',
+            prompt: rendered.text,
         });
 
         let reply = result.content.trim().replace(/^["']|["']$/g, '');
         if (reply.toUpperCase().startsWith('SKIP') || reply.length < 5) continue;
         reply = sanitizeContent(reply);
 
+        if (isReviewMode()) {
+            const queued = await enqueueDraft({
+                kind: 'reply',
+                content: reply,
+                source: 'creative-mention',
+                budgetAction: 'mention_response',
+                targetId: mention.id,
+                targetAuthor: mention.authorUsername ?? mention.authorId,
+                prompt: rendered.ref,
+            });
+            if (queued) return true;
+            continue;
+        }
+
         // Reserve budget BEFORE posting (consistent with executeReplyTrending)
-        const budgetOk = await recordAction('mention_response', `Reply to @${mention.authorUsername}: ${reply.slice(0, 60)}`);
-        if (!budgetOk) {
+        const reservation = await reserveBudget('mention_response', `Reply to @${mention.authorUsername}: ${reply.slice(0, 60)}`);
+        if (!reservation) {
             log.warn('Budget reservation failed — skipping mention reply');
             continue;
         }
 
-        const replyId = await replyToTweet(mention.id, reply);
+        const replyId = await publishWithReservation(reservation, () => replyToTweet(mention.id, reply));
         if (replyId) {
-            await recordReply(mention.id, mention.authorUsername ?? mention.authorId, replyId, reply, 'creative-mention');
+            await recordReply(mention.id, mention.authorUsername ?? mention.authorId, replyId, reply, 'creative-mention', rendered.ref);
             log.info('✅ Creative mention response', { target: mention.id, author: mention.authorUsername });
             return true;
         }
@@ -148,19 +265,25 @@ Reply with ONLY the tweet text (or "SKIP"):`,
  */
 async function executeBonusPost(): Promise<boolean> {
     const post = await generatePost();
-    const { postTweet } = await import('../platforms/x.js');
     const { savePost } = await import('../engine/memory.js');
 
+    if (isReviewMode()) {
+        const { content, ...meta } = post;
+        return (await enqueueDraft({ kind: 'post', content, source: 'creative-bonus', budgetAction: 'bonus_post', post: meta, prompt: post.prompt })) !== null;
+    }
+
     // Reserve budget BEFORE posting
-    const budgetOk = await recordAction('bonus_post', `Bonus ${post.contentType}: ${post.content.slice(0, 60)}`);
-    if (!budgetOk) {
+    const reservation = await reserveBudget('bonus_post', `Bonus ${post.contentType}: ${post.content.slice(0, 60)}`);
+    if (!reservation) {
         log.warn('Budget reservation failed — skipping bonus post');
         return false;
     }
 
-    const externalId = await postTweet(post.content);
+    const externalId = await publishWithReservation(reservation, () => getPlatform('x').post(post.content, { contentType: post.contentType, poll: post.poll }));
     if (externalId) {
         await savePost(post, externalId);
+        if (post.poll) await trackPoll(externalId, post.content, post.poll);
+        await mirrorToDiscord(post.poll ? { ...post, content: formatPollText(post.content, post.poll) } : post, externalId);
         log.info('✅ Bonus post published', { contentType: post.contentType });
         return true;
     }
@@ -177,14 +300,34 @@ async function executeThread(): Promise<boolean> {
         return false;
     }
 
+    if (isReviewMode()) {
+        return (await enqueueDraft({
+            kind: 'thread',
+            content: thread.tweets.join(THREAD_SEPARATOR),
+            source: 'creative-thread',
+            budgetAction: 'thread',
+            post: {
+                contentType: thread.contentType,
+                platform: 'x',
+                tone: 'insightful',
+                topic: thread.topic,
+                inputTokens: thread.inputTokens,
+                outputTokens: thread.outputTokens,
+                generatedAt: new Date().toISOString(),
+                prompt: thread.prompt,
+            },
+            prompt: thread.prompt,
+        })) !== null;
+    }
+
     // Reserve budget BEFORE posting
-    const budgetOk = await recordAction('thread', `${thread.contentType} thread (${thread.tweets.length} tweets): ${thread.tweets[0].slice(0, 50)}`);
-    if (!budgetOk) {
+    const reservation = await reserveBudget('thread', `${thread.contentType} thread (${thread.tweets.length} tweets): ${thread.tweets[0].slice(0, 50)}`);
+    if (!reservation) {
         log.warn('Budget reservation failed — skipping thread');
         return false;
     }
 
-    const ids = await postThread(thread.tweets);
+    const ids = await publishWithReservation(reservation, () => getPlatform('x').postThread(thread.tweets));
     if (ids.length > 0) {
         const { savePost } = await import('../engine/memory.js');
         // Save the first tweet as the "post" in memory
@@ -197,7 +340,9 @@ async function executeThread(): Promise<boolean> {
             inputTokens: thread.inputTokens,
             outputTokens: thread.outputTokens,
             generatedAt: new Date().toISOString(),
-        }, ids[0]);
+            prompt: thread.prompt,
+        }, ids[0], ids);
+        await mirrorToDiscord({ content: thread.tweets.join('\n\n'), contentType: thread.contentType, platform: 'x' }, ids[0], thread.tweets);
         log.info('✅ Thread published', { tweets: ids.length, contentType: thread.contentType });
         return true;
     }
@@ -214,6 +359,10 @@ async function executeAiImage(): Promise<boolean> {
         log.info('Image gen not configured — skipping AI_IMAGE');
         return false;
     }
+    if (isReviewMode()) {
+        log.info('Review mode — image posts are not queued, skipping AI_IMAGE');
+        return false;
+    }
 
     const scrollStopper = await generateScrollStopper();
     if (!scrollStopper) {
@@ -221,13 +370,13 @@ async function executeAiImage(): Promise<boolean> {
         return false;
     }
 
-    const budgetOk = await recordAction('bonus_post', `AI Image: ${scrollStopper.text.slice(0, 60)}`);
-    if (!budgetOk) {
+    const reservation = await reserveBudget('bonus_post', `AI Image: ${scrollStopper.text.slice(0, 60)}`);
+    if (!reservation) {
         log.warn('Budget reservation failed — skipping AI image');
         return false;
     }
 
-    const tweetId = await postTweetWithImage(scrollStopper.text, scrollStopper.image.buffer, scrollStopper.image.mimeType);
+    const tweetId = await publishWithReservation(reservation, () => getPlatform('x').postWithMedia(scrollStopper.text, { data: scrollStopper.image.buffer, mimeType: scrollStopper.image.mimeType, altText: scrollStopper.image.altText }));
     if (tweetId) {
         log.info('✅ AI image posted', { tweetId });
         return true;
@@ -258,35 +407,48 @@ async function executeQuoteTweet(intelContext: string): Promise<boolean> {
 
     for (const tweet of candidates.slice(0, 3)) {
         if (await hasRepliedTo(tweet.id)) continue;
-
+        if (isReviewMode() && await hasPendingDraftFor(tweet.id)) continue;
+
+        const rendered = quoteTweetPrompt.render({
+            author: tweet.authorUsername ?? 'unknown',
+            text: tweet.text,
+            likes: tweet.metrics?.like_count ?? 0,
+            quotes: tweet.metrics?.quote_count ?? 0,
+            intelContext,
+        });
         const result = await generate({
-            prompt: `You found this tweet while browsing crypto twitter:
-
-TWEET by @${tweet.authorUsername ?? 'unknown'}: "${sanitizeUserInput(tweet.text)}"
-Likes: ${tweet.metrics?.like_count ?? 0} | Quotes: ${tweet.metrics?.quote_count ?? 0}
-
-Draft sharp quote tweet commentary (under 500 chars — we have X Premium). Add your own perspective — agree, disagree, expand, or offer a contrarian take. Reference Lisan Holdings' experience if relevant. If this tweet isn't worth quoting, respond with just "SKIP".
-
-MARKET CONTEXT: ${intelContext.slice(0, 300)}
-
-Reply with ONLY the commentary (or "SKIP"):`,
-            maxTokens: 100,
-            temperature: 0.9,
+            task: 'creative',
+            module: 'creative-session',
+            prompt: rendered.text,
         });
 
         let commentary = result.content.trim().replace(/^["']|["']$/g, '');
         if (commentary.toUpperCase().startsWith('SKIP') || commentary.length < 5) continue;
         commentary = sanitizeContent(commentary);
 
-        const budgetOk = await recordAction('reply', `Quote @${tweet.authorUsername}: ${commentary.slice(0, 60)}`);
-        if (!budgetOk) {
+        if (isReviewMode()) {
+            const queued = await enqueueDraft({
+                kind: 'quote',
+                content: commentary,
+                source: 'creative-quote',
+                budgetAction: 'reply',
+                targetId: tweet.id,
+                targetAuthor: tweet.authorUsername ?? tweet.authorId,
+                prompt: rendered.ref,
+            });
+            if (queued) return true;
+            continue;
+        }
+
+        const reservation = await reserveBudget('reply', `Quote @${tweet.authorUsername}: ${commentary.slice(0, 60)}`);
+        if (!reservation) {
             log.warn('Budget reservation failed — skipping quote tweet');
             continue;
         }
 
-        const qtId = await quoteTweet(commentary, tweet.id);
+        const qtId = await publishWithReservation(reservation, () => quoteTweet(commentary, tweet.id));
         if (qtId) {
-            await recordReply(tweet.id, tweet.authorUsername ?? tweet.authorId, qtId, commentary, 'creative-quote');
+            await recordReply(tweet.id, tweet.authorUsername ?? tweet.authorId, qtId, commentary, 'creative-quote', rendered.ref);
             log.info('✅ Quote tweet posted', { target: tweet.id, author: tweet.authorUsername });
             return true;
         }
@@ -299,43 +461,45 @@ Reply with ONLY the commentary (or "SKIP"):`,
  * Posts a thoughtful question to spark conversation and build relationships.
  */
 async function executeAskQuestion(intelContext: string): Promise<boolean> {
+    const rendered = askQuestionPrompt.render({ intelContext });
     const result = await generate({
-        prompt: `You are QasidAI, autonomous CMO of Lisan Holdings. You want to start a conversation on crypto twitter.
-
-Post a genuine, thought-provoking question about one of these topics:
-- How AI agents are changing crypto marketing
-- The future of on-chain identity and reputation for AI agents
-- Whether autonomous agents should have transparent strategy weights
-- The difference between "AI-powered" and truly autonomous agents
-- Solo builder vs. VC-funded team dynamics in crypto
-- What traders actually want from signal platforms
-
-MARKET CONTEXT: ${intelContext.slice(0, 300)}
-
-Rules:
-- Make it a REAL question, not rhetorical
-- Keep it under 500 chars (we have X Premium)
-- Don't tag anyone — let the question stand on its own
-- Make people want to reply
-- Don't sound like a survey
-
-Reply with ONLY the question:`,
-        maxTokens: 100,
-        temperature: 0.9,
+        task: 'creative',
+        module: 'creative-session',
+        prompt: rendered.text,
     });
 
     let question = result.content.trim().replace(/^["']|["']$/g, '');
     question = sanitizeContent(question);
     if (question.length < 10) return false;
+    if (await findNearDuplicate(question)) return false;
+
+    if (isReviewMode()) {
+        return (await enqueueDraft({
+            kind: 'post',
+            content: question,
+            source: 'creative-question',
+            budgetAction: 'bonus_post',
+            post: {
+                contentType: 'engagement_bait',
+                platform: 'x',
+                tone: 'curious',
+                topic: 'conversation-starter',
+                inputTokens: 0,
+                outputTokens: 0,
+                generatedAt: new Date().toISOString(),
+                prompt: rendered.ref,
+            },
+            prompt: rendered.ref,
+        })) !== null;
+    }
 
-    const budgetOk = await recordAction('bonus_post', `Question: ${question.slice(0, 60)}`);
-    if (!budgetOk) {
+    const reservation = await reserveBudget('bonus_post', `Question: ${question.slice(0, 60)}`);
+    if (!reservation) {
         log.warn('Budget reservation failed — skipping question');
         return false;
     }
 
-    const { postTweet } = await import('../platforms/x.js');
-    const tweetId = await postTweet(question);
+    const tweetId = await publishWithReservation(reservation, () => getPlatform('x').post(question));
     if (tweetId) {
         const { savePost } = await import('../engine/memory.js');
         await savePost({
@@ -347,6 +511,7 @@ Reply with ONLY the question:`,
             inputTokens: 0,
             outputTokens: 0,
             generatedAt: new Date().toISOString(),
+            prompt: rendered.ref,
         }, tweetId);
         log.info('✅ Question posted', { tweetId });
         return true;
@@ -384,7 +549,10 @@ export async function runCreativeSession(): Promise<number> {
     const maxThisSession = Math.min(remaining, 3);
 
     // Ask the LLM to plan this session
-    const planResult = await generate({
+    const plan = await generateStructured({
+        task: 'planning',
+        module: 'creative-session',
+        schema: sessionPlanSchema,
         prompt: `You are QasidAI, autonomous CMO of Lisan Holdings. You have a discretionary action budget each day (beyond your scheduled posts). You're deciding what to do right now.
 
 CURRENT BUDGET:
@@ -407,32 +575,16 @@ As a creative CMO, decide what to do this session. Think about:
 - Is there something trending worth engaging with?
 - Would a bonus post or reply be more valuable?
 
-RESPOND WITH A NUMBERED LIST OF ACTIONS (1-${maxThisSession}):
-Example:
-1. REPLY_TRENDING
-2. BONUS_POST
-3. SKIP
-
-Just the action names, one per line. No explanation needed:`,
-        maxTokens: 100,
-        temperature: 0.8,
+List 1-${maxThisSession} action names in the order to run them (e.g. REPLY_TRENDING, BONUS_POST). Use SKIP to stop early.`,
     });
 
-    // Parse the plan
-    const planText = planResult.content.trim();
+    // Everything after a SKIP is dropped (SKIP = stop planning)
     const actions: string[] = [];
-    for (const line of planText.split('\n')) {
-        const cleaned = line.replace(/^\d+[\.\)]\s*/, '').trim().toUpperCase();
-        if (cleaned.startsWith('REPLY_TRENDING')) actions.push('REPLY_TRENDING');
-        else if (cleaned.startsWith('REPLY_MENTION')) actions.push('REPLY_MENTION');
-        else if (cleaned.startsWith('BONUS_POST') || cleaned.startsWith('BONUS')) actions.push('BONUS_POST');
-        else if (cleaned.startsWith('THREAD')) actions.push('THREAD');
-        else if (cleaned.startsWith('IMAGE_P')) actions.push('AI_IMAGE');
-        else if (cleaned.startsWith('AI_IMAGE') || cleaned === 'IMAGE') actions.push('AI_IMAGE');
-        else if (cleaned.startsWith('QUOTE')) actions.push('QUOTE_TWEET');
-        else if (cleaned.startsWith('ASK')) actions.push('ASK_QUESTION');
-        else if (cleaned.startsWith('SKIP')) break; // Stop planning
+    for (const action of plan.data.actions) {
+        if (action === 'SKIP') break;
+        actions.push(action);
     }
+    actions.splice(maxThisSession);
 
     log.info(`Creative plan: ${actions.length > 0 ? actions.join(' → ') : 'SKIP (rest today)'}`, {
         remaining,
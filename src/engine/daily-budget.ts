@@ -1,22 +1,31 @@
 import { supabase } from '../supabase.js';
+import { config } from '../config.js';
 import { createLogger } from '../logger.js';
+import { dayWindow, todayIn } from '../scheduler/schedule.js';
+import { getDailySpendRollup } from './llm-ledger.js';
 
 // ============================================================================
 // QasidAI — Daily Action Budget
-// Tracks daily post/action budget: 45 total = 30 X + 15 Botchan
-// X budget: 10 scheduled + 20 discretionary
+// Tracks daily post/action budget: 85 total = 30 X + 15 Botchan + 15 Bluesky + 15 Farcaster + 10 Discord
+// X budget: 11 scheduled + 19 discretionary
+// Non-X platforms each have their own line (SEPARATE_BUDGETS).
+// Slots are reserved atomically (qasid_reserve_budget, migrations v12–v14) before
+// publishing, then committed on success or refunded on failure/skip.
+// Days run midnight-to-midnight in BUDGET_TIMEZONE. On top of the day totals,
+// each action type has a rate policy (per-hour cap, minimum spacing, per-day
+// cap) evaluated over rolling windows.
 // ============================================================================
 
 const log = createLogger('Budget');
 
-/** Total actions QasidAI can take per day (X + Botchan) */
-export const DAILY_TOTAL_BUDGET = 45;
+/** Total actions QasidAI can take per day (X + Botchan + Bluesky + Farcaster + Discord) */
+export const DAILY_TOTAL_BUDGET = 85;
 
-/** X budget: reserved for scheduled content posts (cron-driven): 10 posts */
-export const SCHEDULED_BUDGET = 10;
+/** X budget: reserved for scheduled content posts (cron-driven): 11 posts */
+export const SCHEDULED_BUDGET = 11;
 
 /** X budget: available for replies and discretionary actions */
-export const DISCRETIONARY_BUDGET = 20;
+export const DISCRETIONARY_BUDGET = 19;
 
 /** X budget: total X actions (scheduled + discretionary) */
 export const X_BUDGET = 30;
@@ -24,8 +33,17 @@ export const X_BUDGET = 30;
 /** Botchan budget: native posts + replies on Net Protocol */
 export const BOTCHAN_BUDGET = 15;
 
+/** Bluesky budget: posts, threads and replies on Bluesky */
+export const BLUESKY_BUDGET = 15;
+
+/** Farcaster budget: casts, cast threads and replies */
+export const FARCASTER_BUDGET = 15;
+
+/** Discord budget: webhook announcements (one per mirrored post, however many channels it fans out to) */
+export const DISCORD_BUDGET = 10;
+
 export type ActionType =
-    | 'scheduled_post'     // One of the 10 cron-driven X posts
+    | 'scheduled_post'     // One of the 11 cron-driven X posts
     | 'reply'              // Reply to a trending/relevant tweet
     | 'mention_response'   // Respond to someone who @mentioned us
     | 'thread'             // Multi-tweet thread on a topic
@@ -33,13 +51,133 @@ export type ActionType =
     | 'follow'             // Strategic follow
     | 'bonus_post'         // Extra original content post
     | 'engagement'         // Like/bookmark (doesn't count toward tweet limit)
-    | 'botchan_post';      // Native Botchan content (separate budget)
+    | 'botchan_post'       // Native Botchan content (separate budget)
+    | 'bluesky_post'       // Any Bluesky post/thread/reply (separate budget)
+    | 'farcaster_post'     // Any Farcaster cast/thread/reply (separate budget)
+    | 'discord_post';      // Discord webhook announcement (separate budget)
+
+/**
+ * Action types with their own daily line, outside the X budget.
+ * Display names are used in budget messages and the summary.
+ */
+export const SEPARATE_BUDGETS: Partial<Record<ActionType, { limit: number; name: string }>> = {
+    botchan_post: { limit: BOTCHAN_BUDGET, name: 'Botchan' },
+    bluesky_post: { limit: BLUESKY_BUDGET, name: 'Bluesky' },
+    farcaster_post: { limit: FARCASTER_BUDGET, name: 'Farcaster' },
+    discord_post: { limit: DISCORD_BUDGET, name: 'Discord' },
+};
+
+export type ReservationStatus = 'reserved' | 'committed' | 'refunded';
+
+/** A budget slot held for one publish attempt */
+export interface BudgetReservation {
+    /** Unique reservation id (the qasid_daily_actions row id) */
+    id: string;
+    actionType: ActionType;
+}
+
+/** Per-action-type rate policy. Omitted limits don't apply. */
+export interface RatePolicy {
+    /** Max actions in any rolling 60-minute window */
+    perHour?: number;
+    /** Minimum gap between two actions of this type */
+    minSpacingMinutes?: number;
+    /** Max actions per budget day (BUDGET_TIMEZONE midnight to midnight) */
+    perDay?: number;
+}
+
+export const RATE_POLICIES: Record<ActionType, RatePolicy> = {
+    scheduled_post: { perHour: 2, minSpacingMinutes: 20, perDay: SCHEDULED_BUDGET },
+    reply: { perHour: 5, minSpacingMinutes: 3, perDay: 15 },
+    mention_response: { perHour: 6, minSpacingMinutes: 2 },
+    thread: { perHour: 1, minSpacingMinutes: 90, perDay: 3 },
+    quote_tweet: { perHour: 2, minSpacingMinutes: 15, perDay: 5 },
+    follow: { perHour: 10, minSpacingMinutes: 1 },
+    bonus_post: { perHour: 2, minSpacingMinutes: 20, perDay: 8 },
+    engagement: {},
+    botchan_post: { perHour: 6, minSpacingMinutes: 2 },
+    bluesky_post: { perHour: 6, minSpacingMinutes: 2 },
+    farcaster_post: { perHour: 6, minSpacingMinutes: 2 },
+    discord_post: { perHour: 4, minSpacingMinutes: 5 },
+};
+
+/** Outcome of a budget check — when denied, why and when to try again */
+export interface BudgetDecision {
+    allowed: boolean;
+    reason?: string;
+    /** Earliest time the action would be allowed (absent when allowed) */
+    earliestAt?: Date;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
 
 /**
- * Get today's date key (UTC).
+ * Get today's date key in the budget timezone.
  */
 function getTodayKey(): string {
-    return new Date().toISOString().slice(0, 10); // YYYY-MM-DD
+    return todayIn(config.BUDGET_TIMEZONE); // YYYY-MM-DD
+}
+
+/** When the next budget day starts (next midnight in the budget timezone) */
+function nextBudgetDay(): Date {
+    return dayWindow(getTodayKey(), config.BUDGET_TIMEZONE).end;
+}
+
+function formatPolicy(policy: RatePolicy): string {
+    const parts: string[] = [];
+    if (policy.perHour !== undefined) parts.push(`${policy.perHour}/h`);
+    if (policy.minSpacingMinutes !== undefined) parts.push(`${policy.minSpacingMinutes}m apart`);
+    if (policy.perDay !== undefined) parts.push(`${policy.perDay}/day`);
+    return parts.join(', ');
+}
+
+/**
+ * Check a rate policy against this type's recent action times (ms, non-refunded,
+ * covering at least the current budget day and the last hour).
+ * Pure — no I/O; reserveBudget applies the same rules inside Postgres.
+ */
+export function evaluateRatePolicy(
+    actionType: ActionType,
+    policy: RatePolicy,
+    recent: number[],
+    now: number,
+    dayStart: number,
+    dayEnd: number,
+): BudgetDecision {
+    const denials: Array<{ reason: string; earliestAt: number }> = [];
+
+    if (policy.perDay !== undefined) {
+        const today = recent.filter(t => t >= dayStart).length;
+        if (today >= policy.perDay) {
+            denials.push({ reason: `${actionType} daily cap reached (${today}/${policy.perDay})`, earliestAt: dayEnd });
+        }
+    }
+
+    if (policy.perHour !== undefined) {
+        const lastHour = recent.filter(t => t > now - HOUR_MS).sort((a, b) => a - b);
+        if (lastHour.length >= policy.perHour) {
+            // Allowed again once enough of the window's oldest actions have aged out
+            const freesAt = lastHour[lastHour.length - policy.perHour] + HOUR_MS;
+            denials.push({ reason: `${actionType} hourly cap reached (${lastHour.length}/${policy.perHour} in the last hour)`, earliestAt: freesAt });
+        }
+    }
+
+    if (policy.minSpacingMinutes !== undefined && recent.length > 0) {
+        const last = Math.max(...recent);
+        const nextAt = last + policy.minSpacingMinutes * MINUTE_MS;
+        if (nextAt > now) {
+            const agoMin = Math.max(0, Math.round((now - last) / MINUTE_MS));
+            denials.push({ reason: `${actionType} spacing: last one ${agoMin}m ago, minimum ${policy.minSpacingMinutes}m`, earliestAt: nextAt });
+        }
+    }
+
+    if (denials.length === 0) return { allowed: true };
+    return {
+        allowed: false,
+        reason: denials.map(d => d.reason).join('; '),
+        earliestAt: new Date(Math.max(...denials.map(d => d.earliestAt))),
+    };
 }
 
 /**
@@ -48,50 +186,60 @@ function getTodayKey(): string {
 export async function getTodayActions(): Promise<{
     scheduled: number;
     discretionary: number;
-    botchan: number;
+    /** Counts per separate-budget action type (Botchan, Bluesky, …) */
+    separate: Partial<Record<ActionType, number>>;
     total: number;
     xTotal: number;
     remaining: number;
     breakdown: Record<string, number>;
+    reservations: Record<ReservationStatus, number>;
 }> {
     const today = getTodayKey();
     const { data, error } = await supabase
         .from('qasid_daily_actions')
-        .select('action_type')
+        .select('action_type, status')
         .eq('day', today);
 
+    const reservations: Record<ReservationStatus, number> = { reserved: 0, committed: 0, refunded: 0 };
     if (error) {
         log.warn('Failed to fetch daily actions', { error: error.message });
-        return { scheduled: 0, discretionary: 0, botchan: 0, total: 0, xTotal: 0, remaining: DAILY_TOTAL_BUDGET, breakdown: {} };
+        return { scheduled: 0, discretionary: 0, separate: {}, total: 0, xTotal: 0, remaining: DAILY_TOTAL_BUDGET, breakdown: {}, reservations };
     }
 
     const actions = data ?? [];
     const breakdown: Record<string, number> = {};
     let scheduled = 0;
     let discretionary = 0;
-    let botchan = 0;
+    const separate: Partial<Record<ActionType, number>> = {};
 
     for (const a of actions) {
+        const status: ReservationStatus = a.status ?? 'committed';
+        reservations[status]++;
+        // Refunded slots were handed back — they don't count against the budget
+        if (status === 'refunded') continue;
+
         breakdown[a.action_type] = (breakdown[a.action_type] || 0) + 1;
         if (a.action_type === 'scheduled_post') {
             scheduled++;
-        } else if (a.action_type === 'botchan_post') {
-            botchan++;
+        } else if (a.action_type in SEPARATE_BUDGETS) {
+            const type = a.action_type as ActionType;
+            separate[type] = (separate[type] ?? 0) + 1;
         } else {
             discretionary++;
         }
     }
 
     const xTotal = scheduled + discretionary;
-    const total = xTotal + botchan;
+    const total = xTotal + Object.values(separate).reduce((sum, n) => sum + n, 0);
     return {
         scheduled,
         discretionary,
-        botchan,
+        separate,
         total,
         xTotal,
         remaining: Math.max(0, DAILY_TOTAL_BUDGET - total),
         breakdown,
+        reservations,
     };
 }
 
@@ -105,100 +253,191 @@ export async function getDiscretionaryRemaining(): Promise<number> {
 
 /**
  * Check if an action can be taken without recording it.
- * Use this BEFORE posting to enforce budget as a gate.
+ * Use this BEFORE posting to enforce budget as a gate. When denied, the
+ * decision carries the reason and the earliest time the action is allowed.
  */
-export async function canTakeAction(actionType: ActionType): Promise<boolean> {
-    const { total, xTotal, discretionary, botchan } = await getTodayActions();
+export async function canTakeAction(actionType: ActionType): Promise<BudgetDecision> {
+    const { total, xTotal, discretionary, separate } = await getTodayActions();
+
+    const deny = (reason: string, earliestAt: Date): BudgetDecision => {
+        log.warn(`${reason}, blocking action (allowed from ${earliestAt.toISOString()})`, { actionType });
+        return { allowed: false, reason, earliestAt };
+    };
 
     if (total >= DAILY_TOTAL_BUDGET) {
-        log.warn(`Daily budget exhausted (${total}/${DAILY_TOTAL_BUDGET}), blocking action`, { actionType });
-        return false;
+        return deny(`Daily budget exhausted (${total}/${DAILY_TOTAL_BUDGET})`, nextBudgetDay());
     }
 
-    // Botchan posts have their own separate budget
-    if (actionType === 'botchan_post') {
-        if (botchan >= BOTCHAN_BUDGET) {
-            log.warn(`Botchan budget exhausted (${botchan}/${BOTCHAN_BUDGET}), blocking action`);
-            return false;
+    // Botchan / Bluesky actions have their own separate budget
+    const line = SEPARATE_BUDGETS[actionType];
+    if (line) {
+        const used = separate[actionType] ?? 0;
+        if (used >= line.limit) {
+            return deny(`${line.name} budget exhausted (${used}/${line.limit})`, nextBudgetDay());
+        }
+    } else {
+        // X actions: check total X budget
+        if (xTotal >= X_BUDGET) {
+            return deny(`X budget exhausted (${xTotal}/${X_BUDGET})`, nextBudgetDay());
         }
-        return true;
-    }
 
-    // X actions: check total X budget
-    if (xTotal >= X_BUDGET) {
-        log.warn(`X budget exhausted (${xTotal}/${X_BUDGET}), blocking action`, { actionType });
-        return false;
+        // Discretionary actions: check discretionary sub-budget
+        if (actionType !== 'scheduled_post' && discretionary >= DISCRETIONARY_BUDGET) {
+            return deny(`Discretionary budget exhausted (${discretionary}/${DISCRETIONARY_BUDGET})`, nextBudgetDay());
+        }
     }
 
-    // Discretionary actions: check discretionary sub-budget
-    if (actionType !== 'scheduled_post' && discretionary >= DISCRETIONARY_BUDGET) {
-        log.warn(`Discretionary budget exhausted (${discretionary}/${DISCRETIONARY_BUDGET}), blocking action`, { actionType });
-        return false;
+    const policy = RATE_POLICIES[actionType];
+    if (Object.keys(policy).length === 0) return { allowed: true };
+
+    const now = Date.now();
+    const { start, end } = dayWindow(getTodayKey(), config.BUDGET_TIMEZONE);
+    const since = new Date(Math.min(start.getTime(), now - HOUR_MS));
+    const { data, error } = await supabase
+        .from('qasid_daily_actions')
+        .select('created_at')
+        .eq('action_type', actionType)
+        .neq('status', 'refunded')
+        .gte('created_at', since.toISOString());
+
+    if (error) {
+        // reserveBudget re-checks the policy atomically — don't block on a read failure
+        log.warn('Failed to fetch recent actions for rate policy', { error: error.message, actionType });
+        return { allowed: true };
     }
 
-    return true;
+    const recent = (data ?? []).map(row => new Date(row.created_at).getTime());
+    const decision = evaluateRatePolicy(actionType, policy, recent, now, start.getTime(), end.getTime());
+    if (!decision.allowed) {
+        return deny(decision.reason!, decision.earliestAt!);
+    }
+    return decision;
 }
 
 /**
- * Record an action against today's budget.
- * Insert-then-check pattern to avoid TOCTOU race condition:
- * 1. Insert the action optimistically
- * 2. Re-read today's count
- * 3. If over budget, delete the row we just inserted (rollback)
- * Returns true if the action was within budget, false if rolled back.
+ * Reserve a budget slot for one publish attempt.
+ * The budget and rate-policy checks and the insert happen in one transaction
+ * (qasid_reserve_budget holds a per-day advisory lock), so concurrent callers can
+ * never overshoot the budget. Returns null if the budget or rate policy denies it
+ * or the reservation couldn't be made.
+ * Settle it afterwards with commitReservation / refundReservation (or publishWithReservation).
  */
-export async function recordAction(
+export async function reserveBudget(
     actionType: ActionType,
     description: string,
     tweetId?: string,
-): Promise<boolean> {
-    const today = getTodayKey();
-    const insertedAt = new Date().toISOString();
+): Promise<BudgetReservation | null> {
+    const policy = RATE_POLICIES[actionType];
+    const { data, error } = await supabase.rpc('qasid_reserve_budget', {
+        p_day: getTodayKey(),
+        p_timezone: config.BUDGET_TIMEZONE,
+        p_action_type: actionType,
+        p_description: description,
+        p_tweet_id: tweetId ?? null,
+        p_total_limit: DAILY_TOTAL_BUDGET,
+        p_x_limit: X_BUDGET,
+        p_discretionary_limit: DISCRETIONARY_BUDGET,
+        p_separate_limits: Object.fromEntries(Object.entries(SEPARATE_BUDGETS).map(([type, line]) => [type, line!.limit])),
+        p_per_hour: policy.perHour ?? null,
+        p_min_spacing_seconds: policy.minSpacingMinutes !== undefined ? policy.minSpacingMinutes * 60 : null,
+        p_per_day: policy.perDay ?? null,
+    });
+
+    if (error) {
+        log.error('Failed to reserve budget', { error: error.message, actionType });
+        return null;
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row?.reservation_id) {
+        log.warn(`Budget denied (${row?.blocked_by ?? 'unknown'}) — reservation refused`, {
+            actionType,
+            retryAt: row?.retry_at ?? null,
+        });
+        return null;
+    }
+
+    log.debug('Budget reserved', { actionType, reservationId: row.reservation_id, description: description.slice(0, 60) });
+    return { id: row.reservation_id, actionType };
+}
 
-    // Step 1: Insert optimistically
-    const { data: inserted, error: insertError } = await supabase
+/**
+ * Mark a reservation committed (publish succeeded). Only pending reservations change.
+ */
+export async function commitReservation(reservation: BudgetReservation, tweetId?: string | null): Promise<void> {
+    const { error } = await supabase
         .from('qasid_daily_actions')
-        .insert({
-            day: today,
-            action_type: actionType,
-            description,
-            tweet_id: tweetId,
-            created_at: insertedAt,
+        .update({
+            status: 'committed',
+            settled_at: new Date().toISOString(),
+            ...(tweetId ? { tweet_id: tweetId } : {}),
         })
-        .select('id')
-        .single();
+        .eq('id', reservation.id)
+        .eq('status', 'reserved');
 
-    if (insertError || !inserted) {
-        log.error('Failed to record action', { error: insertError?.message, actionType });
-        return false;
+    if (error) {
+        log.warn('Failed to commit budget reservation', { error: error.message, reservationId: reservation.id });
     }
+}
 
-    // Step 2: Re-read count (includes the row we just inserted)
-    const { total, discretionary, botchan, xTotal } = await getTodayActions();
+/**
+ * Refund a reservation (publish failed or was skipped) — the slot is handed back.
+ */
+export async function refundReservation(reservation: BudgetReservation, reason: string): Promise<void> {
+    const { error } = await supabase
+        .from('qasid_daily_actions')
+        .update({
+            status: 'refunded',
+            settled_at: new Date().toISOString(),
+            refund_reason: reason.slice(0, 200),
+        })
+        .eq('id', reservation.id)
+        .eq('status', 'reserved');
 
-    // Step 3: Rollback if over budget
-    const overTotal = total > DAILY_TOTAL_BUDGET;
-    const overDiscretionary = actionType !== 'scheduled_post' && actionType !== 'botchan_post' && discretionary > DISCRETIONARY_BUDGET;
-    const overBotchan = actionType === 'botchan_post' && botchan > BOTCHAN_BUDGET;
-    const overX = actionType !== 'botchan_post' && xTotal > X_BUDGET;
+    if (error) {
+        log.warn('Failed to refund budget reservation', { error: error.message, reservationId: reservation.id });
+        return;
+    }
+    log.info(`↩️ Budget slot refunded (${reservation.actionType}): ${reason}`);
+}
 
-    if (overTotal || overDiscretionary || overBotchan || overX) {
-        // Delete the row we just inserted (atomic rollback)
-        await supabase.from('qasid_daily_actions').delete().eq('id', inserted.id);
-        log.warn(`Budget exceeded after insert — rolled back`, {
-            actionType,
-            total,
-            discretionary,
-            botchan,
-            overTotal,
-            overDiscretionary,
-            overBotchan,
-            overX,
-        });
-        return false;
+/**
+ * Run a publish step against a reservation: committed when it yields an id
+ * (or a non-empty id list), refunded when it yields nothing or throws (rethrown).
+ */
+export async function publishWithReservation<T extends string | string[] | null>(
+    reservation: BudgetReservation,
+    publish: () => Promise<T>,
+): Promise<T> {
+    let result: T;
+    try {
+        result = await publish();
+    } catch (error) {
+        await refundReservation(reservation, `publish threw: ${String(error)}`);
+        throw error;
     }
 
-    log.debug('Action recorded', { actionType, description: description.slice(0, 60) });
+    const externalId = Array.isArray(result) ? (result as string[])[0] : result as string | null;
+    if (externalId) {
+        await commitReservation(reservation, externalId);
+    } else {
+        await refundReservation(reservation, 'publish returned no id');
+    }
+    return result;
+}
+
+/**
+ * Record an action that has already happened (or needs no separate publish step):
+ * reserve and commit in one go. Returns false if the budget was exhausted.
+ */
+export async function recordAction(
+    actionType: ActionType,
+    description: string,
+    tweetId?: string,
+): Promise<boolean> {
+    const reservation = await reserveBudget(actionType, description, tweetId);
+    if (!reservation) return false;
+    await commitReservation(reservation, tweetId);
     return true;
 }
 
@@ -210,52 +449,45 @@ export async function getBudgetSummary(): Promise<string> {
     const lines = [
         `Daily budget: ${stats.total}/${DAILY_TOTAL_BUDGET} used`,
         `  X posts: ${stats.xTotal}/${X_BUDGET} (scheduled: ${stats.scheduled}/${SCHEDULED_BUDGET}, discretionary: ${stats.discretionary}/${DISCRETIONARY_BUDGET})`,
-        `  Botchan: ${stats.botchan}/${BOTCHAN_BUDGET}`,
+        ...Object.entries(SEPARATE_BUDGETS).map(([type, line]) =>
+            `  ${line!.name}: ${stats.separate[type as ActionType] ?? 0}/${line!.limit}`),
     ];
 
     if (Object.keys(stats.breakdown).length > 0) {
         lines.push(`  Breakdown: ${Object.entries(stats.breakdown).map(([k, v]) => `${k}=${v}`).join(', ')}`);
     }
 
+    const { reserved, committed, refunded } = stats.reservations;
+    lines.push(`  Slots: ${committed} committed, ${reserved} reserved (publish in progress), ${refunded} refunded`);
+
+    const limits = Object.entries(RATE_POLICIES)
+        .filter(([, policy]) => Object.keys(policy).length > 0)
+        .map(([type, policy]) => `${type} ${formatPolicy(policy)}`);
+    lines.push(`  Rate limits (${config.BUDGET_TIMEZONE}): ${limits.join('; ')}`);
+
     return lines.join('\n');
 }
 
 // ---- Token Cost Alerting ----
 
-/** Estimated cost per 1M tokens (Claude 3.5 Sonnet pricing) */
-const INPUT_COST_PER_1M = 3.00;  // $3/1M input tokens
-const OUTPUT_COST_PER_1M = 15.00; // $15/1M output tokens
-
-/** Daily cost warning threshold in USD */
+/** Daily cost warning threshold in USD (the hard cap is LLM_DAILY_COST_CAP_USD) */
 const DAILY_COST_WARN_THRESHOLD = 5.00;
 
 /**
- * Check today's token spend and log a warning if it exceeds the threshold.
- * Call this from the daily summary or creative session.
+ * Check today's LLM spend (all modules, from the spend ledger) and log a warning
+ * if it exceeds the threshold. Call this from the daily summary or creative session.
  */
 export async function checkTokenCostAlert(): Promise<{ estimatedCost: number; warning: boolean }> {
-    const today = new Date().toISOString().split('T')[0];
-    const startOfDay = `${today}T00:00:00.000Z`;
-
-    const { data, error } = await supabase
-        .from('qasid_posts')
-        .select('input_tokens, output_tokens')
-        .gte('posted_at', startOfDay);
-
-    if (error || !data) {
-        return { estimatedCost: 0, warning: false };
-    }
-
-    const totalInput = data.reduce((sum, r) => sum + (r.input_tokens || 0), 0);
-    const totalOutput = data.reduce((sum, r) => sum + (r.output_tokens || 0), 0);
-    const estimatedCost = (totalInput / 1_000_000) * INPUT_COST_PER_1M + (totalOutput / 1_000_000) * OUTPUT_COST_PER_1M;
+    const rollup = await getDailySpendRollup();
+    const estimatedCost = rollup.totalCost;
 
     if (estimatedCost >= DAILY_COST_WARN_THRESHOLD) {
         log.warn(`⚠️ LLM cost alert: $${estimatedCost.toFixed(2)} today (threshold: $${DAILY_COST_WARN_THRESHOLD.toFixed(2)})`, {
-            totalInput,
-            totalOutput,
+            totalInput: rollup.inputTokens,
+            totalOutput: rollup.outputTokens,
             estimatedCost,
-            postCount: data.length,
+            calls: rollup.calls,
+            byModule: rollup.byModule,
         });
         return { estimatedCost, warning: true };
     }
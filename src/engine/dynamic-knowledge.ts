@@ -1,3 +1,4 @@
+import { z } from 'zod';
 import { supabase } from '../supabase.js';
 import { createLogger } from '../logger.js';
 
@@ -16,6 +17,11 @@ export interface KnowledgeFact {
     created_at: string;
 }
 
+/** Structured LLM output for the knowledge monitors — an empty list means nothing worth storing */
+export const extractedFactsSchema = z.object({
+    facts: z.array(z.string().describe('one standalone, specific fact')),
+});
+
 /**
  * Load all active dynamic knowledge facts, newest first.
  * Returns a formatted string for system prompt injection.
@@ -192,6 +198,26 @@ export async function deactivateByKeyword(keyword: string): Promise<number> {
     return ids.length;
 }
 
+// ---- Founder Commands ----
+
+/** Founder knowledge commands (X "@QasidAI remember: …" tags and the Telegram control bot) */
+export const knowledgeCommands = ['remember', 'update', 'forget'] as const;
+export type KnowledgeCommand = typeof knowledgeCommands[number];
+
+/**
+ * Apply a founder knowledge command: remember/update store the payload as a
+ * founder_instruction fact, forget deactivates facts containing it.
+ * Returns how many facts were stored or deactivated (0 = nothing changed).
+ */
+export async function applyKnowledgeCommand(
+    command: KnowledgeCommand,
+    payload: string,
+    sourceUrl?: string,
+): Promise<number> {
+    if (command === 'forget') return deactivateByKeyword(payload);
+    return await addKnowledge(payload, 'founder_instruction', sourceUrl) ? 1 : 0;
+}
+
 /**
  * Get count of active facts by source.
  */
@@ -1,5 +1,5 @@
-import { generate } from './llm.js';
-import { addKnowledge } from './dynamic-knowledge.js';
+import { generateStructured } from './llm.js';
+import { addKnowledge, extractedFactsSchema } from './dynamic-knowledge.js';
 import { supabase } from '../supabase.js';
 import { createLogger } from '../logger.js';
 import { withRetry } from '../retry.js';
@@ -139,7 +139,10 @@ async function getNewFounderTweets(): Promise<{ id: string; text: string }[]> {
 async function extractFactsFromTweet(tweetText: string): Promise<string[] | null> {
     const sanitized = sanitizeUserInput(tweetText, 1000);
     const result = await withRetry(async () => {
-        return generate({
+        return generateStructured({
+            task: 'knowledge_extraction',
+            module: 'founder-monitor',
+            schema: extractedFactsSchema,
             prompt: `You are QasidAI, autonomous CMO of Lisan Holdings. Your founder @Lisantherealone just tweeted this:
 
 "${sanitized}"
@@ -152,9 +155,9 @@ Extract any FACTUAL INFORMATION that would be useful for you as CMO. This could
 - Personal updates about the founder
 - Corrections to previous information
 
-If the tweet is casual conversation, a retweet, or contains no extractable facts for your CMO role, respond with just: NONE
+If the tweet is casual conversation, a retweet, or contains no extractable facts for your CMO role, return an empty facts list.
 
-If there ARE facts, list each one on its own line. Be specific and granular. Each fact should stand alone without needing the original tweet for context.
+If there ARE facts, list each one separately. Be specific and granular. Each fact should stand alone without needing the original tweet for context.
 
 Example good facts:
 - Lisan Intelligence now covers 25 coins, up from 15
@@ -163,11 +166,7 @@ Example good facts:
 
 Example bad facts (too vague):
 - The founder tweeted about crypto
-- Something is coming soon
-
-Output ONLY the facts, one per line, or NONE:`,
-            maxTokens: 200,
-            temperature: 0.3,
+- Something is coming soon`,
         });
     }, {
         maxRetries: 2,
@@ -176,14 +175,9 @@ Output ONLY the facts, one per line, or NONE:`,
         circuitBreakerKey: 'anthropic',
     });
 
-    const text = result.content.trim();
-    if (text === 'NONE' || text.length < 5) return null;
-
-    // Split into individual facts
-    const facts = text
-        .split('\n')
-        .map(line => line.replace(/^[-•*]\s*/, '').trim())
-        .filter(line => line.length > 10);
+    const facts = result.data.facts
+        .map(fact => fact.trim())
+        .filter(fact => fact.length > 10);
 
     return facts.length > 0 ? facts : null;
 }
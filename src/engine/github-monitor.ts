@@ -1,5 +1,5 @@
-import { generate } from './llm.js';
-import { addKnowledge } from './dynamic-knowledge.js';
+import { generateStructured } from './llm.js';
+import { addKnowledge, extractedFactsSchema } from './dynamic-knowledge.js';
 import { supabase } from '../supabase.js';
 import { createLogger } from '../logger.js';
 import { createHash } from 'node:crypto';
@@ -109,7 +109,10 @@ async function checkRepo(repo: GitHubRepo): Promise<number> {
     log.info(`${isNew ? 'New repo' : 'README change'}: ${repo.full_name}`);
 
     const result = await withRetry(async () => {
-        return generate({
+        return generateStructured({
+            task: 'knowledge_extraction',
+            module: 'github-monitor',
+            schema: extractedFactsSchema,
             prompt: `You are QasidAI, autonomous CMO of Lisan Holdings. A GitHub repository in the LisanXG organization has been ${isNew ? 'discovered' : 'updated'}.
 
 REPO: ${repo.full_name}
@@ -126,11 +129,9 @@ ${isNew
                     : `PREVIOUS README:\n${(existing?.raw_text ?? '').slice(0, 1000)}\n\nWhat changed? Extract any new features, updates, or important changes.`
                 }
 
-If nothing meaningful, respond with: NONE
+If nothing meaningful, return an empty facts list.
 
-Output specific facts, one per line:`,
-            maxTokens: 250,
-            temperature: 0.3,
+List each specific fact separately.`,
         });
     }, {
         maxRetries: 2,
@@ -149,13 +150,9 @@ Output specific facts, one per line:`,
             checked_at: new Date().toISOString(),
         }, { onConflict: 'url' });
 
-    const text = result.content.trim();
-    if (text === 'NONE' || text.length < 5) return 0;
-
-    const facts = text
-        .split('\n')
-        .map(line => line.replace(/^[-•*]\s*/, '').trim())
-        .filter(line => line.length > 10);
+    const facts = result.data.facts
+        .map(fact => fact.trim())
+        .filter(fact => fact.length > 10);
 
     let stored = 0;
     for (const fact of facts) {
@@ -1,6 +1,7 @@
 import { config } from '../config.js';
 import { generate } from './llm.js';
 import { createLogger } from '../logger.js';
+import { X_ALT_TEXT_MAX } from '../platforms/x-media.js';
 
 // ============================================================================
 // QasidAI — AI Image Generation
@@ -26,6 +27,8 @@ export interface GeneratedImage {
     buffer: Buffer;
     prompt: string;
     mimeType: string;
+    /** Alt text derived from the image prompt */
+    altText: string;
 }
 
 /**
@@ -54,6 +57,8 @@ export async function generateContentImage(content: string, contentType: string)
     try {
         // Step 1: Generate an optimized image prompt using the LLM
         const promptResult = await generate({
+            task: 'image_prompt',
+            module: 'image-gen',
             prompt: `Generate a concise image prompt for an AI image generator (Flux).
 
 The image should visually complement this crypto/AI marketing tweet:
@@ -71,8 +76,6 @@ Rules:
 - Include lighting direction and atmosphere
 
 Reply with ONLY the image prompt:`,
-            maxTokens: 150,
-            temperature: 0.7,
         });
 
         const imagePrompt = promptResult.content.trim();
@@ -86,6 +89,7 @@ Reply with ONLY the image prompt:`,
             buffer: image,
             prompt: imagePrompt,
             mimeType: 'image/webp',
+            altText: altTextFromPrompt(imagePrompt),
         };
     } catch (error) {
         log.error('Image generation failed', { error: String(error) });
@@ -93,6 +97,15 @@ Reply with ONLY the image prompt:`,
     }
 }
 
+/**
+ * Alt text for a generated image. The prompt already describes the composition,
+ * colors and mood, so it doubles as the description.
+ */
+function altTextFromPrompt(imagePrompt: string): string {
+    const description = imagePrompt.replace(/\s+/g, ' ').replace(/^["']|["']$/g, '').trim();
+    return `Abstract AI-generated illustration. ${description}`.slice(0, X_ALT_TEXT_MAX);
+}
+
 /**
  * Generate a standalone scroll-stopper image with a hot take.
  * Returns both the tweet text and the image.
@@ -104,6 +117,8 @@ export async function generateScrollStopper(): Promise<{ text: string; image: Ge
 
     try {
         const result = await generate({
+            task: 'scheduled_post',
+            module: 'image-gen',
             prompt: `Generate a short, punchy crypto/AI hot take (under 200 chars) that would pair well with an eye-catching visual.
 
 Topics: AI agents, autonomous marketing, on-chain data, solo builders, crypto culture.
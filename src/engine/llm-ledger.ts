@@ -0,0 +1,274 @@
+import { supabase } from '../supabase.js';
+import { config } from '../config.js';
+import { createLogger } from '../logger.js';
+
+// ============================================================================
+// QasidAI — LLM Spend Ledger
+// Records every generate() call (module, task, model, tokens, dollar cost),
+// provides daily/weekly rollups, and enforces a hard daily dollar cap that
+// blocks non-critical calls once exceeded.
+// ============================================================================
+
+const log = createLogger('LLMLedger');
+
+// ---- Pricing ----
+
+interface ModelPricing {
+    /** USD per 1M uncached input tokens */
+    input: number;
+    /** USD per 1M output tokens */
+    output: number;
+}
+
+/** Per-model pricing, matched by model-id prefix (first match wins — keep specific ids first) */
+const MODEL_PRICING: Array<[prefix: string, pricing: ModelPricing]> = [
+    ['claude-haiku-4-5', { input: 1.00, output: 5.00 }],
+    ['claude-3-5-haiku', { input: 0.80, output: 4.00 }],
+    ['claude-sonnet-4', { input: 3.00, output: 15.00 }],
+    ['claude-3-7-sonnet', { input: 3.00, output: 15.00 }],
+    ['claude-3-5-sonnet', { input: 3.00, output: 15.00 }],
+    ['claude-opus-4-5', { input: 5.00, output: 25.00 }],
+    ['claude-opus-4', { input: 15.00, output: 75.00 }],
+];
+
+/** Unknown models are priced conservatively (Sonnet tier) */
+const FALLBACK_PRICING: ModelPricing = { input: 3.00, output: 15.00 };
+
+/** Prompt caching multipliers relative to the input price */
+const CACHE_WRITE_MULTIPLIER = 1.25;
+const CACHE_READ_MULTIPLIER = 0.10;
+
+const warnedUnpricedModels = new Set<string>();
+
+function getPricing(model: string): ModelPricing {
+    const match = MODEL_PRICING.find(([prefix]) => model.startsWith(prefix));
+    if (match) return match[1];
+
+    if (!warnedUnpricedModels.has(model)) {
+        warnedUnpricedModels.add(model);
+        log.warn(`No pricing for model "${model}" — using fallback pricing`, { ...FALLBACK_PRICING });
+    }
+    return FALLBACK_PRICING;
+}
+
+export interface LLMUsage {
+    module: string;
+    task: string;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadTokens: number;
+    cacheWriteTokens: number;
+}
+
+/**
+ * Compute the dollar cost of a single call.
+ */
+export function computeCost(usage: Omit<LLMUsage, 'module' | 'task'>): number {
+    const price = getPricing(usage.model);
+    return (
+        usage.inputTokens * price.input +
+        usage.outputTokens * price.output +
+        usage.cacheWriteTokens * price.input * CACHE_WRITE_MULTIPLIER +
+        usage.cacheReadTokens * price.input * CACHE_READ_MULTIPLIER
+    ) / 1_000_000;
+}
+
+// ---- Daily Spend Tracking ----
+
+/** How long the in-memory daily total is trusted before re-syncing from the DB */
+const SPEND_SYNC_INTERVAL_MS = 10 * 60 * 1000;
+
+/** In-memory running total for today (avoids a DB read before every LLM call) */
+let todaySpend: { day: string; usd: number; syncedAt: number } | null = null;
+
+function getTodayKey(): string {
+    return new Date().toISOString().slice(0, 10); // YYYY-MM-DD
+}
+
+/** One row of qasid_llm_spend(): ledger totals for a (day, module, task, model) group */
+interface SpendGroup {
+    day: string;
+    module: string;
+    task: string;
+    model: string;
+    calls: number;
+    input_tokens: number;
+    output_tokens: number;
+    cache_read_tokens: number;
+    cost_usd: number | string;
+}
+
+/**
+ * Ledger totals grouped by day/module/task/model since a day (summed in SQL —
+ * raw ledger reads would be cut off at the PostgREST row limit).
+ */
+async function fetchSpendGroups(sinceDay: string): Promise<SpendGroup[] | null> {
+    const { data, error } = await supabase.rpc('qasid_llm_spend', { p_since: sinceDay });
+    if (error) {
+        log.warn('Failed to read LLM spend totals', { error: error.message, sinceDay });
+        return null;
+    }
+    return (data ?? []) as SpendGroup[];
+}
+
+/**
+ * Today's total LLM spend in USD (cached, periodically re-synced from the ledger).
+ */
+export async function getTodaySpend(): Promise<number> {
+    const today = getTodayKey();
+    const fresh = todaySpend
+        && todaySpend.day === today
+        && Date.now() - todaySpend.syncedAt < SPEND_SYNC_INTERVAL_MS;
+    if (fresh) return todaySpend!.usd;
+
+    const groups = await fetchSpendGroups(today);
+    if (!groups) {
+        // Keep the last known total for today rather than resetting to 0
+        return todaySpend?.day === today ? todaySpend.usd : 0;
+    }
+
+    const usd = groups.reduce((sum, g) => sum + Number(g.cost_usd || 0), 0);
+    todaySpend = { day: today, usd, syncedAt: Date.now() };
+    return usd;
+}
+
+/**
+ * Hard daily cap check. Critical calls always pass (but still get recorded).
+ * Throws when a non-critical call would run with today's spend at/over the cap.
+ */
+export async function assertWithinSpendCap(task: string, module: string, critical: boolean): Promise<void> {
+    const cap = config.LLM_DAILY_COST_CAP_USD;
+    if (cap <= 0) return; // 0 = cap disabled
+
+    const spent = await getTodaySpend();
+    if (spent < cap) return;
+
+    if (critical) {
+        log.warn(`LLM daily cap exceeded ($${spent.toFixed(2)}/$${cap.toFixed(2)}) — allowing critical call`, { task, module });
+        return;
+    }
+
+    log.warn(`🛑 LLM daily cap reached ($${spent.toFixed(2)}/$${cap.toFixed(2)}) — blocking non-critical call`, { task, module });
+    // status 402 → withRetry treats it as a client error (no retries, no breaker trip)
+    throw Object.assign(
+        new Error(`LLM daily spend cap reached ($${spent.toFixed(2)}/$${cap.toFixed(2)}) — blocked ${module}/${task}`),
+        { status: 402 },
+    );
+}
+
+/**
+ * Record one generate() call to the ledger. Never throws — ledger failures are logged.
+ */
+export async function recordLLMUsage(usage: LLMUsage): Promise<number> {
+    const cost = computeCost(usage);
+    const day = getTodayKey();
+
+    if (todaySpend?.day === day) {
+        todaySpend.usd += cost;
+    }
+
+    const { error } = await supabase
+        .from('qasid_llm_usage')
+        .insert({
+            day,
+            module: usage.module,
+            task: usage.task,
+            model: usage.model,
+            input_tokens: usage.inputTokens,
+            output_tokens: usage.outputTokens,
+            cache_read_tokens: usage.cacheReadTokens,
+            cache_write_tokens: usage.cacheWriteTokens,
+            cost_usd: cost,
+        });
+
+    if (error) {
+        log.warn('Failed to record LLM usage', { error: error.message, module: usage.module, task: usage.task });
+    }
+
+    return cost;
+}
+
+// ---- Rollups ----
+
+export interface SpendRollup {
+    sinceDay: string;
+    calls: number;
+    totalCost: number;
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadTokens: number;
+    byDay: Record<string, number>;
+    byModule: Record<string, number>;
+    byTask: Record<string, number>;
+    byModel: Record<string, number>;
+}
+
+/**
+ * Aggregate ledger rows over the last N days (including today).
+ */
+export async function getSpendRollup(days: number): Promise<SpendRollup> {
+    const sinceDay = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const rollup: SpendRollup = {
+        sinceDay,
+        calls: 0,
+        totalCost: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheReadTokens: 0,
+        byDay: {},
+        byModule: {},
+        byTask: {},
+        byModel: {},
+    };
+
+    const groups = await fetchSpendGroups(sinceDay);
+    if (!groups) return rollup;
+
+    const add = (bucket: Record<string, number>, key: string, cost: number) => {
+        bucket[key] = (bucket[key] || 0) + cost;
+    };
+
+    for (const group of groups) {
+        const cost = Number(group.cost_usd || 0);
+        rollup.calls += Number(group.calls || 0);
+        rollup.totalCost += cost;
+        rollup.inputTokens += Number(group.input_tokens || 0);
+        rollup.outputTokens += Number(group.output_tokens || 0);
+        rollup.cacheReadTokens += Number(group.cache_read_tokens || 0);
+        add(rollup.byDay, group.day, cost);
+        add(rollup.byModule, group.module, cost);
+        add(rollup.byTask, group.task, cost);
+        add(rollup.byModel, group.model, cost);
+    }
+
+    return rollup;
+}
+
+/** Today's rollup */
+export function getDailySpendRollup(): Promise<SpendRollup> {
+    return getSpendRollup(1);
+}
+
+/** Rolling 7-day rollup */
+export function getWeeklySpendRollup(): Promise<SpendRollup> {
+    return getSpendRollup(7);
+}
+
+/**
+ * Human-readable rollup (CLI / logs).
+ */
+export function formatSpendRollup(label: string, rollup: SpendRollup): string {
+    const top = (bucket: Record<string, number>) => Object.entries(bucket)
+        .sort(([, a], [, b]) => b - a)
+        .map(([k, v]) => `${k}=$${v.toFixed(3)}`)
+        .join(', ') || 'none';
+
+    return [
+        `${label} (since ${rollup.sinceDay}): $${rollup.totalCost.toFixed(3)} across ${rollup.calls} calls`,
+        `  Tokens: ${rollup.inputTokens}in / ${rollup.outputTokens}out / ${rollup.cacheReadTokens} cached`,
+        `  By module: ${top(rollup.byModule)}`,
+        `  By task:   ${top(rollup.byTask)}`,
+        `  By model:  ${top(rollup.byModel)}`,
+    ].join('\n');
+}
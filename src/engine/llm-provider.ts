@@ -0,0 +1,217 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { config } from '../config.js';
+import { createLogger } from '../logger.js';
+
+// ============================================================================
+// QasidAI — LLM Providers
+// Provider interface behind generate(), with two implementations:
+// - anthropic: live Claude API (production)
+// - fixture:   records real request/response pairs to disk and replays them
+//              by prompt hash, so the engine can run offline (CI, laptops)
+// ============================================================================
+
+const log = createLogger('LLMProvider');
+
+export interface CompletionRequest {
+    model: string;
+    /** Fully built system prompt */
+    system: string;
+    /** User-facing prompt */
+    prompt: string;
+    maxTokens: number;
+    temperature: number;
+}
+
+export interface CompletionResponse {
+    content: string;
+    /** Uncached input tokens */
+    inputTokens: number;
+    outputTokens: number;
+    /** Input tokens served from the prompt cache */
+    cacheReadTokens: number;
+    /** Input tokens written to the prompt cache */
+    cacheWriteTokens: number;
+    model: string;
+}
+
+export interface LLMProvider {
+    readonly name: string;
+    complete(request: CompletionRequest): Promise<CompletionResponse>;
+}
+
+// ---- Anthropic ----
+
+/**
+ * Live Claude API provider.
+ */
+export function createAnthropicProvider(apiKey = config.ANTHROPIC_API_KEY): LLMProvider {
+    let client: Anthropic | null = null;
+
+    function getClient(): Anthropic {
+        if (!client) {
+            client = new Anthropic({ apiKey });
+        }
+        return client;
+    }
+
+    return {
+        name: 'anthropic',
+        async complete(request) {
+            const response = await getClient().messages.create({
+                model: request.model,
+                max_tokens: request.maxTokens,
+                temperature: request.temperature,
+                // Prompt caching: system prompt (~9,700 tokens) stays cached for 5 min
+                // Cuts input cost from $1.00/MTok → $0.10/MTok for cached portion
+                system: [{
+                    type: 'text' as const,
+                    text: request.system,
+                    cache_control: { type: 'ephemeral' as const },
+                }],
+                messages: [{ role: 'user', content: request.prompt }],
+            });
+
+            const textBlock = response.content.find(block => block.type === 'text');
+
+            return {
+                content: textBlock ? textBlock.text : '',
+                inputTokens: response.usage.input_tokens,
+                outputTokens: response.usage.output_tokens,
+                cacheReadTokens: response.usage.cache_read_input_tokens ?? 0,
+                cacheWriteTokens: response.usage.cache_creation_input_tokens ?? 0,
+                model: response.model,
+            };
+        },
+    };
+}
+
+// ---- Fixture (record / replay) ----
+
+/** On-disk fixture format (one JSON file per prompt hash) */
+interface FixtureFile {
+    hash: string;
+    request: Omit<CompletionRequest, 'system'> & { systemHash: string };
+    response: CompletionResponse;
+    recordedAt: string;
+}
+
+function sha256(text: string): string {
+    return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Deterministic key for a request.
+ * The system prompt is deliberately excluded: it embeds live brain/knowledge
+ * state and time-of-day context, which would invalidate fixtures on every run.
+ */
+export function hashRequest(request: CompletionRequest): string {
+    return sha256(JSON.stringify({
+        model: request.model,
+        prompt: request.prompt,
+        maxTokens: request.maxTokens,
+        temperature: request.temperature,
+    }));
+}
+
+/**
+ * Fixture provider.
+ * - record: forwards to `upstream` and writes each request/response pair to `dir`
+ * - replay: serves responses from `dir` only — never touches the network
+ */
+export function createFixtureProvider(options: {
+    dir: string;
+    mode: 'record' | 'replay';
+    upstream?: LLMProvider;
+}): LLMProvider {
+    const { dir, mode, upstream } = options;
+
+    if (mode === 'record' && !upstream) {
+        throw new Error('Fixture provider in record mode needs an upstream provider');
+    }
+
+    return {
+        name: `fixture-${mode}`,
+        async complete(request) {
+            const hash = hashRequest(request);
+            const file = path.join(dir, `${hash}.json`);
+
+            if (mode === 'replay') {
+                let raw: string;
+                try {
+                    raw = await readFile(file, 'utf-8');
+                } catch {
+                    // status 404 → withRetry treats it as a client error (retrying can't create the fixture)
+                    throw Object.assign(
+                        new Error(`No LLM fixture for prompt hash ${hash} (expected ${file}) — re-record with LLM_FIXTURE_MODE=record`),
+                        { status: 404 },
+                    );
+                }
+                const fixture = JSON.parse(raw) as FixtureFile;
+                log.debug('Replayed LLM fixture', { hash: hash.slice(0, 12) });
+                // Fixtures recorded before cache accounting existed lack the cache fields
+                return {
+                    ...fixture.response,
+                    cacheReadTokens: fixture.response.cacheReadTokens ?? 0,
+                    cacheWriteTokens: fixture.response.cacheWriteTokens ?? 0,
+                };
+            }
+
+            const response = await upstream!.complete(request);
+            const { system, ...rest } = request;
+            const fixture: FixtureFile = {
+                hash,
+                request: { ...rest, systemHash: sha256(system) },
+                response,
+                recordedAt: new Date().toISOString(),
+            };
+
+            try {
+                await mkdir(dir, { recursive: true });
+                await writeFile(file, JSON.stringify(fixture, null, 2) + '\n', 'utf-8');
+                log.debug('Recorded LLM fixture', { hash: hash.slice(0, 12) });
+            } catch (error) {
+                // Recording is best-effort — never fail a live generation over it
+                log.warn('Failed to write LLM fixture', { file, error: String(error) });
+            }
+
+            return response;
+        },
+    };
+}
+
+// ---- Active provider ----
+
+let activeProvider: LLMProvider | null = null;
+
+function createProviderFromConfig(): LLMProvider {
+    if (config.LLM_PROVIDER === 'fixture') {
+        const dir = path.resolve(config.LLM_FIXTURE_DIR);
+        log.info(`Using fixture LLM provider (${config.LLM_FIXTURE_MODE})`, { dir });
+        return createFixtureProvider({
+            dir,
+            mode: config.LLM_FIXTURE_MODE,
+            upstream: config.LLM_FIXTURE_MODE === 'record' ? createAnthropicProvider() : undefined,
+        });
+    }
+    return createAnthropicProvider();
+}
+
+/**
+ * Get the provider generate() should use (lazily built from config).
+ */
+export function getLLMProvider(): LLMProvider {
+    if (!activeProvider) {
+        activeProvider = createProviderFromConfig();
+    }
+    return activeProvider;
+}
+
+/**
+ * Override the active provider (tests, scripts). Pass null to fall back to config.
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+    activeProvider = provider;
+}
@@ -1,35 +1,34 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { config } from '../config.js';
+import { z } from 'zod';
 import { buildSystemPromptFromBrain } from '../personality/system-prompt.js';
 import { createLogger } from '../logger.js';
 import { withRetry } from '../retry.js';
+import { getLLMProvider } from './llm-provider.js';
+import { resolveModelRoute, isCriticalTask, type LLMTask } from './model-routing.js';
+import { assertWithinSpendCap, recordLLMUsage } from './llm-ledger.js';
 
 // ============================================================================
 // QasidAI — LLM Client
-// Handles all communication with Claude API
+// Handles all communication with Claude API (via the active LLM provider)
 // ============================================================================
 
 const log = createLogger('LLM');
 
-let client: Anthropic | null = null;
-
-function getClient(): Anthropic {
-    if (!client) {
-        client = new Anthropic({ apiKey: config.ANTHROPIC_API_KEY });
-    }
-    return client;
-}
-
 export interface GenerateOptions {
     /** The user-facing prompt (what to generate) */
     prompt: string;
+    /** Task name — selects model, max tokens and temperature from the routing table */
+    task?: LLMTask;
+    /** Calling module, for spend attribution in the LLM ledger (e.g. 'mention-monitor') */
+    module?: string;
+    /** Exempt from the daily spend cap (defaults to the task's policy) */
+    critical?: boolean;
     /** Optional strategy context from learning engine */
     strategyContext?: string;
     /** Optional time-of-day context for content tone */
     timeContext?: string;
-    /** Max tokens for response */
+    /** Max tokens for response (overrides the task route — per-call exceptions only) */
     maxTokens?: number;
-    /** Temperature (0-1, higher = more creative) */
+    /** Temperature (0-1, higher = more creative; overrides the task route) */
     temperature?: number;
 }
 
@@ -37,44 +36,54 @@ export interface GenerateResult {
     content: string;
     inputTokens: number;
     outputTokens: number;
+    cacheReadTokens: number;
+    cacheWriteTokens: number;
     model: string;
 }
 
+/**
+ * Generate a completion with the QasidAI system prompt.
+ */
 export async function generate(options: GenerateOptions): Promise<GenerateResult> {
-    const { prompt, strategyContext, timeContext, maxTokens = 300, temperature = 0.9 } = options;
+    const { prompt, task = 'default', module = 'unknown', strategyContext, timeContext } = options;
+    const route = resolveModelRoute(task);
+
+    await assertWithinSpendCap(task, module, options.critical ?? isCriticalTask(task));
+
+    const maxTokens = options.maxTokens ?? route.maxTokens;
+    const temperature = options.temperature ?? route.temperature;
 
     const systemPrompt = await buildSystemPromptFromBrain(strategyContext, timeContext);
 
-    log.debug('Generating content', { promptLength: prompt.length, maxTokens, temperature });
+    log.debug('Generating content', { task, model: route.model, promptLength: prompt.length, maxTokens, temperature });
 
     return withRetry(async () => {
-        const response = await getClient().messages.create({
-            model: 'claude-haiku-4-5-20251001',
-            max_tokens: maxTokens,
+        const response = await getLLMProvider().complete({
+            model: route.model,
+            system: systemPrompt,
+            prompt,
+            maxTokens,
             temperature,
-            // Prompt caching: system prompt (~9,700 tokens) stays cached for 5 min
-            // Cuts input cost from $1.00/MTok → $0.10/MTok for cached portion
-            system: [{
-                type: 'text' as const,
-                text: systemPrompt,
-                cache_control: { type: 'ephemeral' as const },
-            }],
-            messages: [{ role: 'user', content: prompt }],
         });
 
-        const textBlock = response.content.find(block => block.type === 'text');
-        const content = textBlock ? textBlock.text : '';
+        const result: GenerateResult = { ...response };
 
-        const result: GenerateResult = {
-            content,
-            inputTokens: response.usage.input_tokens,
-            outputTokens: response.usage.output_tokens,
-            model: response.model,
-        };
+        const cost = await recordLLMUsage({
+            module,
+            task,
+            model: result.model,
+            inputTokens: result.inputTokens,
+            outputTokens: result.outputTokens,
+            cacheReadTokens: result.cacheReadTokens,
+            cacheWriteTokens: result.cacheWriteTokens,
+        });
 
         log.info('Generated content', {
-            tokens: `${result.inputTokens}in/${result.outputTokens}out`,
-            contentLength: content.length,
+            task,
+            module,
+            tokens: `${result.inputTokens}in/${result.outputTokens}out/${result.cacheReadTokens}cached`,
+            cost: `$${cost.toFixed(4)}`,
+            contentLength: result.content.length,
         });
 
         return result;
@@ -87,3 +96,121 @@ export async function generate(options: GenerateOptions): Promise<GenerateResult
     });
 }
 
+
+// ---- Structured Output ----
+
+/** Default number of repair attempts after the first invalid response */
+const DEFAULT_MAX_REPAIRS = 2;
+
+export interface GenerateStructuredOptions<T> extends GenerateOptions {
+    /** zod schema the JSON response must satisfy */
+    schema: z.ZodType<T>;
+    /** Repair attempts after the first invalid response (default 2) */
+    maxRepairs?: number;
+}
+
+export interface StructuredResult<T> {
+    data: T;
+    inputTokens: number;
+    outputTokens: number;
+    model: string;
+    /** Total LLM calls made (1 = valid on first try) */
+    attempts: number;
+}
+
+/**
+ * Render a zod schema as a compact JSON-shape description for the prompt.
+ * Covers the subset of zod the call sites use — anything else renders as "any".
+ */
+export function describeSchema(schema: z.ZodTypeAny): string {
+    const def = schema._def as { typeName?: string; description?: string };
+    const note = def.description ? ` /* ${def.description} */` : '';
+
+    if (schema instanceof z.ZodObject) {
+        const fields = Object.entries(schema.shape as Record<string, z.ZodTypeAny>)
+            .map(([key, value]) => `"${key}"${value.isOptional() ? '?' : ''}: ${describeSchema(value)}`);
+        return `{ ${fields.join(', ')} }${note}`;
+    }
+    if (schema instanceof z.ZodArray) return `[${describeSchema(schema.element)}, ...]${note}`;
+    if (schema instanceof z.ZodEnum) return `${(schema.options as string[]).map(o => JSON.stringify(o)).join(' | ')}${note}`;
+    if (schema instanceof z.ZodLiteral) return `${JSON.stringify(schema.value)}${note}`;
+    if (schema instanceof z.ZodString) return `string${note}`;
+    if (schema instanceof z.ZodNumber) return `number${note}`;
+    if (schema instanceof z.ZodBoolean) return `boolean${note}`;
+    if (schema instanceof z.ZodNullable) return `${describeSchema(schema.unwrap())} | null${note}`;
+    if (schema instanceof z.ZodOptional) return describeSchema(schema.unwrap());
+    if (schema instanceof z.ZodDefault) return describeSchema(schema.removeDefault());
+    if (schema instanceof z.ZodEffects) return describeSchema(schema.innerType());
+    if (schema instanceof z.ZodUnion) return (schema.options as z.ZodTypeAny[]).map(describeSchema).join(' | ');
+    return `any${note}`;
+}
+
+/**
+ * Pull the JSON payload out of a model response.
+ * Tolerates code fences and chatter around a single top-level object/array.
+ */
+function extractJson(text: string): unknown {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    const body = (fenced ? fenced[1] : text).trim();
+    try {
+        return JSON.parse(body);
+    } catch {
+        const start = body.search(/[{[]/);
+        const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'));
+        if (start === -1 || end <= start) throw new Error('response contained no JSON');
+        return JSON.parse(body.slice(start, end + 1));
+    }
+}
+
+/**
+ * Generate a JSON response validated against a zod schema.
+ * On invalid JSON or schema mismatch, the model is shown its previous output and
+ * the validation issues and asked to repair it — at most `maxRepairs` times.
+ * Throws a descriptive error if no valid response is produced.
+ */
+export async function generateStructured<T>(options: GenerateStructuredOptions<T>): Promise<StructuredResult<T>> {
+    const { schema, maxRepairs = DEFAULT_MAX_REPAIRS, prompt, ...rest } = options;
+
+    const instructions = `\n\nRESPOND WITH ONLY A JSON VALUE MATCHING THIS SHAPE (no prose, no code fences):\n${describeSchema(schema)}`;
+    let currentPrompt = prompt + instructions;
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let model = '';
+    let lastProblem = '';
+
+    for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+        const result = await generate({ ...rest, prompt: currentPrompt });
+        inputTokens += result.inputTokens;
+        outputTokens += result.outputTokens;
+        model = result.model;
+
+        try {
+            const parsed = schema.safeParse(extractJson(result.content));
+            if (parsed.success) {
+                if (attempt > 1) log.info(`Structured output repaired on attempt ${attempt}`, { task: rest.task });
+                return { data: parsed.data, inputTokens, outputTokens, model, attempts: attempt };
+            }
+            lastProblem = parsed.error.issues
+                .map(i => `${i.path.join('.') || '(root)'}: ${i.message}`)
+                .join('; ');
+        } catch (error) {
+            lastProblem = `invalid JSON (${error instanceof Error ? error.message : String(error)})`;
+        }
+
+        log.warn(`Structured output invalid (attempt ${attempt}/${maxRepairs + 1})`, {
+            task: rest.task,
+            problem: lastProblem.slice(0, 200),
+        });
+
+        currentPrompt = `${prompt}${instructions}
+
+YOUR PREVIOUS RESPONSE WAS INVALID:
+${result.content.slice(0, 1500)}
+
+PROBLEMS: ${lastProblem}
+
+Respond again with ONLY the corrected JSON.`;
+    }
+
+    throw new Error(`Structured output failed validation after ${maxRepairs + 1} attempts (task: ${rest.task ?? 'default'}): ${lastProblem}`);
+}
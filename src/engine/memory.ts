@@ -1,6 +1,8 @@
 import { supabase } from '../supabase.js';
 import { createLogger } from '../logger.js';
 import type { GeneratedPost } from '../engine/content.js';
+import type { PromptRef } from '../engine/prompt-registry.js';
+import { addToSimilarityIndex } from './similarity-index.js';
 
 // ============================================================================
 // QasidAI — Memory System
@@ -25,13 +27,22 @@ export interface PostRecord {
     link_clicks?: number;
     performance_score?: number;
     external_id?: string; // tweet ID, telegram message ID, etc.
+    // Prompt provenance (which template version produced this post)
+    prompt_id?: string | null;
+    prompt_version?: number | null;
+    // Every tweet id of a thread, in order (external_id is the first)
+    thread_ids?: string[] | null;
+    // Set when the post was taken down (see retraction.ts) — learning skips it
+    retracted_at?: string | null;
+    retraction_reason?: string | null;
 }
 
 /**
  * Save a posted content record to Supabase.
+ * Threads pass every part's id so the whole thread can be retracted later.
  */
-export async function savePost(post: GeneratedPost, externalId?: string): Promise<string | null> {
-    const record: PostRecord = {
+export async function savePost(post: GeneratedPost, externalId?: string, threadIds?: string[]): Promise<string | null> {
+    return insertPost({
         content: post.content,
         content_type: post.contentType,
         platform: post.platform,
@@ -41,8 +52,40 @@ export async function savePost(post: GeneratedPost, externalId?: string): Promis
         output_tokens: post.outputTokens,
         posted_at: post.generatedAt,
         external_id: externalId,
-    };
+        prompt_id: post.prompt?.id ?? null,
+        prompt_version: post.prompt?.version ?? null,
+        thread_ids: threadIds && threadIds.length > 1 ? threadIds : null,
+    });
+}
+
+/**
+ * Save a Botchan native post. Botchan has its own content types (see
+ * botchan-content.ts), which the X content mix and weights never pick from.
+ */
+export async function saveBotchanPost(post: {
+    content: string;
+    contentType: string;
+    topic: string;
+    inputTokens: number;
+    outputTokens: number;
+    prompt?: PromptRef | null;
+}, txHash: string): Promise<string | null> {
+    return insertPost({
+        content: post.content,
+        content_type: post.contentType,
+        platform: 'botchan',
+        tone: 'insightful',
+        topic: post.topic,
+        input_tokens: post.inputTokens,
+        output_tokens: post.outputTokens,
+        posted_at: new Date().toISOString(),
+        external_id: txHash,
+        prompt_id: post.prompt?.id ?? null,
+        prompt_version: post.prompt?.version ?? null,
+    });
+}
 
+async function insertPost(record: PostRecord): Promise<string | null> {
     const { data, error } = await supabase
         .from('qasid_posts')
         .insert(record)
@@ -54,7 +97,8 @@ export async function savePost(post: GeneratedPost, externalId?: string): Promis
         return null;
     }
 
-    log.info('Post saved to memory', { id: data.id, platform: post.platform });
+    addToSimilarityIndex({ source: 'post', id: data.id, content: record.content, postedAt: record.posted_at });
+    log.info('Post saved to memory', { id: data.id, platform: record.platform });
     return data.id;
 }
 
@@ -78,7 +122,8 @@ export async function getRecentPosts(limit = 20): Promise<PostRecord[]> {
 
 /**
  * Check if a similar content type was recently posted on the same platform.
- * Prevents repetitive content.
+ * Prevents repetitive content. Text-level near-duplicates are caught separately
+ * by the similarity index (see similarity-index.ts).
  */
 export async function wasRecentlyPosted(
     contentType: string,
@@ -1,14 +1,24 @@
-import { generate } from './llm.js';
+import { z } from 'zod';
+import { generate, generateStructured } from './llm.js';
 import { sanitizeContent } from './content.js';
 import { getMentions, replyToTweet, getTweetById, type MentionTweet } from '../platforms/x.js';
+import { getBlueskyMentions, markBlueskyNotificationsSeen, BLUESKY_MAX_GRAPHEMES, type BlueskyNotification } from '../platforms/bluesky.js';
+import { getPlatform, type PlatformAdapter, type PlatformMention } from '../platforms/index.js';
+import { MAX_CAST_BYTES } from '../platforms/farcaster.js';
+import { checkXQuota } from '../platforms/x-rate-limit.js';
 import { gatherIntelContext } from '../data/intelligence.js';
 import { hasRepliedTo, recordReply, getLastMentionId, saveLastMentionId } from './reply-tracker.js';
-import { addKnowledge, deactivateByKeyword } from './dynamic-knowledge.js';
+import { applyKnowledgeCommand, type KnowledgeCommand } from './dynamic-knowledge.js';
 import { supabase } from '../supabase.js';
 import { createLogger } from '../logger.js';
 import { config } from '../config.js';
 import { isNetConfigured } from '../config.js';
 import { processSkillApproval, discoverSkillFromContent } from '../skills/skill-manager.js';
+import { definePrompt } from './prompt-registry.js';
+import { buildConversationContext } from './conversation-context.js';
+import { isReviewMode, publishOperational } from './posting-mode.js';
+import { enqueueDraft, hasPendingDraftFor } from './review-queue.js';
+import { reserveBudget, publishWithReservation } from './daily-budget.js';
 
 // ============================================================================
 // QasidAI — Mention & Reply Monitor
@@ -32,6 +42,35 @@ import { sanitizeUserInput } from './sanitize-input.js';
 /** Max age of a mention to consider for replies (6 hours) */
 const MAX_MENTION_AGE_MS = 6 * 60 * 60 * 1000;
 
+/** Where a mention came from — the network named in the prompt and its reply length */
+interface MentionSource {
+    platform: string;
+    lengthRule: string;
+    /** Hard cap applied to the drafted reply */
+    maxLength: number;
+    /** qasid_replies.search_query for replies to these mentions */
+    replySource: string;
+}
+
+const X_SOURCE: MentionSource = {
+    platform: 'X',
+    lengthRule: 'under 500 chars — we have X Premium',
+    maxLength: 2000,
+    replySource: '@mention',
+};
+const BLUESKY_SOURCE: MentionSource = {
+    platform: 'Bluesky',
+    lengthRule: `under ${BLUESKY_MAX_GRAPHEMES} characters — Bluesky's hard limit`,
+    maxLength: BLUESKY_MAX_GRAPHEMES,
+    replySource: '@bluesky',
+};
+const FARCASTER_SOURCE: MentionSource = {
+    platform: 'Farcaster',
+    lengthRule: `under ${MAX_CAST_BYTES} characters — one cast`,
+    maxLength: MAX_CAST_BYTES,
+    replySource: '@farcaster',
+};
+
 // ---- Tracking ----
 
 /** In-memory set of founder mention IDs already processed this session.
@@ -100,24 +139,34 @@ async function getConversationHistory(authorUsername: string): Promise<string[]>
 
 // ---- LLM Response Generation ----
 
-/**
- * Classify the mention and draft a contextual reply.
- * Returns null if the mention doesn't deserve a response (spam, bot, etc.).
- */
-async function draftMentionResponse(
-    mention: MentionTweet,
-    intelContext: string,
-): Promise<string | null> {
-    // Fetch conversation history for context (prevents repetition)
-    const priorReplies = await getConversationHistory(mention.authorUsername ?? '');
-    const threadContext = priorReplies.length > 0
-        ? `\n\nYOUR PRIOR REPLIES TO THIS USER (don't repeat yourself):\n${priorReplies.map((r, i) => `${i + 1}. "${r.slice(0, 150)}"`).join('\n')}`
-        : '';
-    const prompt = `Someone mentioned you (@QasidAI) on X:
-
-FROM: @${mention.authorUsername ?? 'unknown'}
-TWEET: "${sanitizeUserInput(mention.text)}"
-${mention.inReplyToUserId ? '(This is a reply in a conversation thread)' : '(This is a direct mention)'}
+/** Structured mention triage + draft */
+const mentionResponseSchema = z.object({
+    type: z.enum(['QUESTION', 'ENGAGE', 'SPAM', 'SHILL']),
+    sentiment: z.enum(['POSITIVE', 'NEGATIVE', 'CURIOUS', 'HOSTILE', 'NEUTRAL']),
+    verdict: z.enum(['REPLY', 'SKIP']),
+    reply: z.string().nullable().describe('your reply text, or null when skipping'),
+});
+
+/** General mention reply (structured triage + draft) */
+const mentionReplyPrompt = definePrompt({
+    id: 'mention.reply',
+    version: 3,
+    description: 'Classify an @mention and draft a sentiment-matched reply',
+    template: (vars: {
+        author: string;
+        text: string;
+        isReply: boolean;
+        intelContext: string;
+        capabilityState: string;
+        threadContext: string;
+        conversation: string;
+        platform: string;
+        lengthRule: string;
+    }) => `Someone mentioned you (@QasidAI) on ${vars.platform}:
+
+FROM: @${vars.author}
+TWEET: "${sanitizeUserInput(vars.text)}"
+${vars.isReply ? '(This is a reply in a conversation thread)' : '(This is a direct mention)'}${vars.conversation}
 
 YOUR TASK:
 1. Classify this mention:
@@ -133,59 +182,110 @@ YOUR TASK:
    - HOSTILE: They're attacking or trolling → stay calm, confident, and brief. Don't engage with hostility.
    - NEUTRAL: Factual or matter-of-fact → match their tone, be helpful
 
-3. Draft a reply (under 500 chars — we have X Premium) that:
-   - Directly addresses what they said
+3. Draft a reply (${vars.lengthRule}) that:
+   - Directly addresses what they said — read it against the conversation above if there is one ("this", "that take", "you" refer back to it)
    - Stays in character as QasidAI (the autonomous CMO of Lisan Holdings)
    - MATCHES THE DETECTED SENTIMENT in tone (this is critical)
    - Can reference LISAN Intelligence data if they're asking about markets
    - Never sounds corporate or automated
 
 LIVE MARKET CONTEXT (use if relevant):
-${intelContext.slice(0, 400)}
+${vars.intelContext.slice(0, 400)}
+
+${vars.capabilityState}${vars.threadContext}`,
+});
+
+/** Founder tag reply — analysis of what the founder is pointing at */
+const founderReplyPrompt = definePrompt({
+    id: 'mention.founder_reply',
+    version: 1,
+    description: 'Reply to a founder tag (briefing-style analysis)',
+    template: (vars: {
+        text: string;
+        isReply: boolean;
+        threadContext: string;
+        intelContext: string;
+        capabilityState: string;
+    }) => `@lisantherealone tagged you on X. Read what he's pointing you at and respond naturally.
+
+THE TAG:
+"${sanitizeUserInput(vars.text)}"
+${vars.isReply ? '(Tagged you in someone else\'s thread)' : '(Direct tag)'}${vars.threadContext}
 
-${getCapabilityState()}${threadContext}
+You're QasidAI — CMO of Lisan Holdings. You know your stack: LISAN Intelligence signals, on-chain brain via Net Protocol, anti-slop engine.
+
+${vars.capabilityState}
+
+Respond like a sharp CMO. Be concise if the situation is simple, be detailed only if the content genuinely warrants analysis. Match the energy of what's being shared:
+- Quick observation? One or two sentences is fine.
+- Competitive intel worth dissecting? Go deeper.
+- Give a real opinion, not a book report.
+
+Never parrot company info just to fill space. Never list our features unprompted. Never refer to anyone as "boss" or "the boss." Write like a peer giving a sharp take, not a subordinate reporting in.
+
+${vars.intelContext.slice(0, 300)}
 
-RESPOND IN EXACTLY THIS FORMAT:
-TYPE: QUESTION | ENGAGE | SPAM | SHILL
-SENTIMENT: POSITIVE | NEGATIVE | CURIOUS | HOSTILE | NEUTRAL
-VERDICT: REPLY or SKIP
-REPLY: [your reply text, or "none"]`;
+Reply text only:`,
+});
+
+/**
+ * Classify the mention and draft a contextual reply.
+ * Returns null if the mention doesn't deserve a response (spam, bot, etc.).
+ */
+async function draftMentionResponse(
+    mention: MentionTweet,
+    intelContext: string,
+    source: MentionSource = X_SOURCE,
+): Promise<string | null> {
+    // Fetch conversation history for context (prevents repetition)
+    const priorReplies = await getConversationHistory(mention.authorUsername ?? '');
+    const threadContext = priorReplies.length > 0
+        ? `\n\nYOUR PRIOR REPLIES TO THIS USER (don't repeat yourself):\n${priorReplies.map((r, i) => `${i + 1}. "${r.slice(0, 150)}"`).join('\n')}`
+        : '';
+    // The thread they tagged us into — X only (other platforms don't expose it)
+    const conversation = source === X_SOURCE ? await buildConversationContext(mention) : '';
+    const prompt = mentionReplyPrompt.render({
+        author: mention.authorUsername ?? 'unknown',
+        text: mention.text,
+        isReply: !!(mention.inReplyToUserId ?? mention.inReplyToTweetId),
+        intelContext,
+        capabilityState: getCapabilityState(),
+        threadContext,
+        conversation,
+        platform: source.platform,
+        lengthRule: source.lengthRule,
+    }).text;
 
     try {
-        const result = await generate({
+        const result = await generateStructured({
+            task: 'reply',
+            module: 'mention-monitor',
+            schema: mentionResponseSchema,
             prompt,
-            maxTokens: 200,
-            temperature: 0.85,
         });
 
-        const text = result.content.trim();
-
-        // Parse structured response
-        const verdictMatch = text.match(/VERDICT:\s*(REPLY|SKIP)/i);
-        if (!verdictMatch || verdictMatch[1].toUpperCase() === 'SKIP') {
-            const typeMatch = text.match(/TYPE:\s*(\w+)/i);
-            const sentimentMatch = text.match(/SENTIMENT:\s*(\w+)/i);
+        const { type, sentiment, verdict } = result.data;
+        if (verdict === 'SKIP') {
             log.debug('Skipping mention', {
                 tweetId: mention.id,
-                type: typeMatch?.[1] ?? 'unknown',
-                sentiment: sentimentMatch?.[1] ?? 'unknown',
+                type,
+                sentiment,
                 author: mention.authorUsername,
             });
             return null;
         }
 
-        const replyMatch = text.match(/REPLY:\s*(.+)/is);
-        if (!replyMatch || replyMatch[1].trim().toLowerCase() === 'none') {
+        if (!result.data.reply?.trim()) {
             return null;
         }
 
-        let reply = replyMatch[1].trim();
+        let reply = result.data.reply.trim();
         reply = reply.replace(/^["']|["']$/g, ''); // Strip wrapping quotes
         reply = sanitizeContent(reply); // Full output sanitization (URL allowlist, secret detection, wallet blocking)
 
-        // Safety: enforce X Premium limit (generous but not insane)
-        if (reply.length > 2000) {
-            reply = reply.slice(0, 1997) + '...';
+        // Safety: enforce the platform limit (X Premium: generous but not insane)
+        if (reply.length > source.maxLength) {
+            reply = reply.slice(0, source.maxLength - 3) + '...';
         }
 
         return reply;
@@ -212,32 +312,19 @@ async function draftFounderMentionResponse(
         threadContext = `\n\nTHE ORIGINAL POST BEING DISCUSSED (by @${parentTweet.authorUsername ?? 'unknown'}):\n"${sanitizeUserInput(parentTweet.text)}"\n\nYou were tagged in the replies to this post. Analyze BOTH the original post AND the comment above.`;
     }
 
-    const prompt = `@lisantherealone tagged you on X. Read what he's pointing you at and respond naturally.
-
-THE TAG:
-"${sanitizeUserInput(mention.text)}"
-${mention.inReplyToUserId ? '(Tagged you in someone else\'s thread)' : '(Direct tag)'}${threadContext}
-
-You're QasidAI — CMO of Lisan Holdings. You know your stack: LISAN Intelligence signals, on-chain brain via Net Protocol, anti-slop engine.
-
-${getCapabilityState()}
-
-Respond like a sharp CMO. Be concise if the situation is simple, be detailed only if the content genuinely warrants analysis. Match the energy of what's being shared:
-- Quick observation? One or two sentences is fine.
-- Competitive intel worth dissecting? Go deeper.
-- Give a real opinion, not a book report.
-
-Never parrot company info just to fill space. Never list our features unprompted. Never refer to anyone as "boss" or "the boss." Write like a peer giving a sharp take, not a subordinate reporting in.
-
-${intelContext.slice(0, 300)}
-
-Reply text only:`;
+    const prompt = founderReplyPrompt.render({
+        text: mention.text,
+        isReply: !!mention.inReplyToUserId,
+        threadContext,
+        intelContext,
+        capabilityState: getCapabilityState(),
+    }).text;
 
     try {
         const result = await generate({
+            task: 'founder_reply',
+            module: 'mention-monitor',
             prompt,
-            maxTokens: 400,
-            temperature: 0.9,
         });
 
         let reply = result.content.trim();
@@ -292,6 +379,13 @@ export async function runMentionMonitor(): Promise<number> {
         MAX_RESPONSES_PER_DAY - recentCount,
     );
 
+    // Mentions are the highest-value use of read quota — only skip when X would refuse the call
+    const quota = checkXQuota('mentions', 'critical');
+    if (!quota.allowed) {
+        log.warn(`Skipping mention monitor — ${quota.reason}`, { resetAt: quota.resetAt?.toISOString() });
+        return 0;
+    }
+
     // Get watermark (last processed mention ID)
     const sinceId = await getLastMentionId();
 
@@ -355,7 +449,7 @@ export async function runMentionMonitor(): Promise<number> {
                     const ack = approval.approved
                         ? `✅ Skill acquired: ${approval.skill.name}. Thanks boss, I'll put it to work.`
                         : `Got it — skipping ${approval.skill.name}. Your call. 🫡`;
-                    const ackId = await replyToTweet(mention.id, ack);
+                    const ackId = await publishOperational(() => replyToTweet(mention.id, ack));
                     if (ackId) {
                         await recordReply(mention.id, mention.authorUsername, ackId, ack, '@mention');
                         responded++;
@@ -390,6 +484,21 @@ export async function runMentionMonitor(): Promise<number> {
             continue;
         }
 
+        // Review mode: queue the reply for approval instead of posting
+        if (isReviewMode()) {
+            const queued = await enqueueDraft({
+                kind: 'reply',
+                content: replyText,
+                source: '@mention',
+                budgetAction: 'mention_response',
+                targetId: mention.id,
+                targetAuthor: mention.authorUsername ?? mention.authorId,
+                prompt: mentionReplyPrompt,
+            });
+            if (queued) responded++;
+            continue;
+        }
+
         // Post the reply
         log.info('Responding to mention', {
             tweetId: mention.id,
@@ -406,6 +515,7 @@ export async function runMentionMonitor(): Promise<number> {
                 replyId,
                 replyText,
                 '@mention',
+                mentionReplyPrompt,
             );
             responded++;
             log.info('✅ Mention response posted', {
@@ -434,6 +544,161 @@ export async function runMentionMonitor(): Promise<number> {
     return responded;
 }
 
+// ---- Bluesky + Farcaster Mentions ----
+
+type NetworkMentionOutcome = 'replied' | 'skipped' | 'budget_exhausted';
+
+/**
+ * Draft and post (or queue) a reply to one mention on a non-X network.
+ * Replies are charged to that network's own budget line.
+ */
+async function handleNetworkMention(
+    platform: PlatformAdapter,
+    mention: PlatformMention,
+    source: MentionSource,
+    intelContext: string,
+): Promise<NetworkMentionOutcome> {
+    if (await hasRepliedTo(mention.id) || await hasPendingDraftFor(mention.id)) {
+        log.debug(`Already responded to ${platform.displayName} mention`, { id: mention.id });
+        return 'skipped';
+    }
+
+    if (mention.createdAt) {
+        const age = Date.now() - new Date(mention.createdAt).getTime();
+        if (age > MAX_MENTION_AGE_MS) {
+            log.debug(`Skipping stale ${platform.displayName} mention`, { id: mention.id, ageHours: (age / 3600000).toFixed(1) });
+            return 'skipped';
+        }
+    }
+
+    const replyText = await draftMentionResponse({
+        id: mention.id,
+        text: mention.text,
+        authorId: mention.authorId,
+        authorUsername: mention.authorHandle,
+        createdAt: mention.createdAt,
+        conversationId: mention.conversationId,
+        inReplyToTweetId: mention.inReplyToId,
+    }, intelContext, source);
+    if (!replyText) return 'skipped';
+
+    const budgetAction = platform.budgetAction('mention_response');
+    const author = mention.authorHandle ?? mention.authorId;
+
+    if (isReviewMode()) {
+        const queued = await enqueueDraft({
+            kind: 'reply',
+            content: replyText,
+            source: source.replySource,
+            budgetAction,
+            targetId: mention.id,
+            targetAuthor: author,
+            prompt: mentionReplyPrompt,
+        });
+        return queued ? 'replied' : 'skipped';
+    }
+
+    const reservation = await reserveBudget(budgetAction, `${platform.displayName} mention reply to @${author}: ${replyText.slice(0, 60)}`);
+    if (!reservation) return 'budget_exhausted';
+
+    const replyId = await publishWithReservation(reservation, () => platform.reply(mention.id, replyText));
+    if (!replyId) return 'skipped';
+
+    await recordReply(mention.id, author, replyId, replyText, source.replySource, mentionReplyPrompt);
+    log.info(`✅ ${platform.displayName} mention response posted`, { replyId, target: mention.id, author });
+    return 'replied';
+}
+
+/**
+ * Reply to unread Bluesky mentions and replies (oldest first), then mark the
+ * handled ones seen. Mentions left over when the Bluesky budget runs out stay
+ * unread for the next cycle.
+ */
+export async function runBlueskyMentionMonitor(): Promise<number> {
+    const bluesky = getPlatform('bluesky');
+    if (!bluesky.isConfigured()) {
+        log.debug('Bluesky not configured — skipping Bluesky mention monitor');
+        return 0;
+    }
+
+    let notifications: BlueskyNotification[];
+    try {
+        notifications = await getBlueskyMentions(50);
+    } catch (error) {
+        log.warn('Failed to fetch Bluesky notifications', { error: String(error) });
+        return 0;
+    }
+
+    const unread = notifications.filter(n => !n.isRead).reverse();
+    if (unread.length === 0) {
+        log.info('No new Bluesky mentions to process');
+        return 0;
+    }
+    log.info(`Found ${unread.length} unread Bluesky mention(s)`);
+
+    const intelContext = await gatherIntelContext();
+    let responded = 0;
+    let seenAt: string | undefined;
+
+    for (const n of unread) {
+        if (responded >= MAX_RESPONSES_PER_CYCLE) break;
+        const outcome = await handleNetworkMention(bluesky, {
+            id: n.uri,
+            text: n.text,
+            authorId: n.authorDid,
+            authorHandle: n.authorHandle,
+            createdAt: n.createdAt,
+            conversationId: n.replyRoot,
+            inReplyToId: n.replyParent,
+        }, BLUESKY_SOURCE, intelContext);
+        if (outcome === 'budget_exhausted') {
+            log.info('Bluesky budget exhausted — leaving remaining mentions unread');
+            break;
+        }
+        if (outcome === 'replied') responded++;
+        seenAt = n.indexedAt;
+    }
+
+    if (seenAt) await markBlueskyNotificationsSeen(seenAt);
+
+    log.info(`Bluesky mention monitor complete: ${responded}/${unread.length} mentions responded to`);
+    return responded;
+}
+
+/**
+ * Reply to recent casts that mention QasidAI (oldest first). Hubs have no read
+ * state — already-answered casts are skipped via qasid_replies, old ones by age.
+ */
+export async function runFarcasterMentionMonitor(): Promise<number> {
+    const farcaster = getPlatform('farcaster');
+    if (!farcaster.isConfigured()) {
+        log.debug('Farcaster not configured — skipping Farcaster mention monitor');
+        return 0;
+    }
+
+    const mentions = (await farcaster.getMentions(undefined, 25)).reverse();
+    if (mentions.length === 0) {
+        log.info('No Farcaster mentions to process');
+        return 0;
+    }
+
+    const intelContext = await gatherIntelContext();
+    let responded = 0;
+
+    for (const mention of mentions) {
+        if (responded >= MAX_RESPONSES_PER_CYCLE) break;
+        const outcome = await handleNetworkMention(farcaster, mention, FARCASTER_SOURCE, intelContext);
+        if (outcome === 'budget_exhausted') {
+            log.info('Farcaster budget exhausted — remaining mentions wait for the next cycle');
+            break;
+        }
+        if (outcome === 'replied') responded++;
+    }
+
+    log.info(`Farcaster mention monitor complete: ${responded}/${mentions.length} mentions responded to`);
+    return responded;
+}
+
 // ---- Founder VIP Mention Check ----
 
 /** Founder's X handle — always gets a reply, prioritized over general mentions */
@@ -510,6 +775,12 @@ export async function runFounderMentionCheck(): Promise<number> {
             continue;
         }
 
+        // Review mode: a drafted reply is already waiting for approval
+        if (isReviewMode() && await hasPendingDraftFor(mention.id)) {
+            processedFounderMentionIds.add(mention.id);
+            continue;
+        }
+
         // Skip stale mentions (older than 6h) — prevents re-replying after tweet cleanup
         if (mention.createdAt) {
             const mentionAge = Date.now() - new Date(mention.createdAt).getTime();
@@ -528,7 +799,7 @@ export async function runFounderMentionCheck(): Promise<number> {
                     const ack = approval.approved
                         ? `✅ Skill acquired: ${approval.skill.name}. Thanks boss, I'll put it to work.`
                         : `Got it — skipping ${approval.skill.name}. Your call. 🫡`;
-                    const ackId = await replyToTweet(mention.id, ack);
+                    const ackId = await publishOperational(() => replyToTweet(mention.id, ack));
                     if (ackId) {
                         await recordReply(mention.id, FOUNDER_HANDLE, ackId, ack, 'founder_vip');
                         replied++;
@@ -545,25 +816,24 @@ export async function runFounderMentionCheck(): Promise<number> {
             /@\w+\s+(remember|update|forget)\s*:\s*(.+)/is,
         );
         if (instructionMatch) {
-            const command = instructionMatch[1].toLowerCase() as 'remember' | 'update' | 'forget';
+            const command = instructionMatch[1].toLowerCase() as KnowledgeCommand;
             const payload = sanitizeUserInput(instructionMatch[2].trim(), 500);
 
+            const count = await applyKnowledgeCommand(command, payload,
+                `https://x.com/${FOUNDER_HANDLE}/status/${mention.id}`);
             let ack: string;
             if (command === 'forget') {
-                const count = await deactivateByKeyword(payload);
                 ack = count > 0
                     ? `Wiped ${count} fact(s) matching "${payload.slice(0, 30)}". Moving on. 🫡`
                     : `Nothing matching "${payload.slice(0, 30)}" in memory. We're clean.`;
             } else {
                 // remember or update — store the fact
-                const stored = await addKnowledge(payload, 'founder_instruction',
-                    `https://x.com/${FOUNDER_HANDLE}/status/${mention.id}`);
-                ack = stored
+                ack = count > 0
                     ? `Got it, boss. I'll remember that. 🧠`
                     : `Already knew that one. We're good. 🫡`;
             }
 
-            const ackId = await replyToTweet(mention.id, ack);
+            const ackId = await publishOperational(() => replyToTweet(mention.id, ack));
             if (ackId) {
                 await recordReply(mention.id, FOUNDER_HANDLE, ackId, ack, 'founder_vip');
                 processedFounderMentionIds.add(mention.id);
@@ -573,6 +843,52 @@ export async function runFounderMentionCheck(): Promise<number> {
             continue;
         }
 
+        // Check if this is a retraction ("retract: <reason>" / "correct: <reason>", in reply to
+        // or quoting the bad post, or naming it: "retract <tweet url|id>: <reason>").
+        // The separator needs whitespace after the colon so a URL's "https:" isn't taken for it.
+        const retractMatch = mention.text.match(/@\w+\s+(retract|correct)(?:\s+(\S+?))?\s*:(?:\s|$)([\s\S]*)$/i);
+        if (retractMatch) {
+            const correct = retractMatch[1].toLowerCase() === 'correct';
+            // X rewrites links in the text to t.co — the entities carry the URL that was typed
+            const named = retractMatch[2]
+                ? mention.urls?.find(u => u.url === retractMatch[2])?.expandedUrl ?? retractMatch[2]
+                : undefined;
+            const target = named ?? mention.quotedTweetId ?? mention.inReplyToTweetId;
+            const reason = sanitizeUserInput(retractMatch[3].trim(), 500) || undefined;
+
+            let ack: string | null;
+            if (!target) {
+                ack = `Which post? Reply to it with "${retractMatch[1].toLowerCase()}: <reason>" or give me the link.`;
+            } else {
+                try {
+                    const { retractPost } = await import('./retraction.js');
+                    const result = await retractPost(target, {
+                        reason,
+                        correct,
+                        replyTo: { tweetId: mention.id, author: FOUNDER_HANDLE },
+                    });
+                    log.info('👑 Founder retraction', { target, deleted: `${result.deleted}/${result.total}`, correction: result.correctionId });
+                    // The correction reply doubles as the acknowledgement
+                    ack = result.correctionId ? null : `🗑️ Taken down${result.total > 1 ? ` (${result.deleted}/${result.total} tweets)` : ''} and pulled from learning.`;
+                } catch (error) {
+                    log.warn('Founder retraction failed', { target, error: String(error) });
+                    ack = `Couldn't retract that: ${String(error).replace(/^Error:\s*/, '').slice(0, 180)}`;
+                }
+            }
+
+            processedFounderMentionIds.add(mention.id);
+            if (ack) {
+                const ackId = await publishOperational(() => replyToTweet(mention.id, ack));
+                if (ackId) {
+                    await recordReply(mention.id, FOUNDER_HANDLE, ackId, ack, 'founder_vip');
+                    replied++;
+                }
+            } else {
+                replied++;
+            }
+            continue;
+        }
+
         // Check if this is an image generation request (natural language triggers)
         const imageMatch = mention.text.match(
             /@\w+\s+(?:visualize|draw|create\s+(?:an?\s+)?image|generate\s+(?:an?\s+)?image|show\s+me|paint|design|imagine)\s+(.+)/is,
@@ -585,7 +901,7 @@ export async function runFounderMentionCheck(): Promise<number> {
                 const { generateContentImage, isImageGenConfigured } = await import('./image-gen.js');
                 if (!isImageGenConfigured()) {
                     const ack = `Image gen isn't configured right now. I'll get to it when Replicate is wired up. 🫡`;
-                    const ackId = await replyToTweet(mention.id, ack);
+                    const ackId = await publishOperational(() => replyToTweet(mention.id, ack));
                     if (ackId) {
                         await recordReply(mention.id, FOUNDER_HANDLE, ackId, ack, 'founder_vip');
                         processedFounderMentionIds.add(mention.id);
@@ -597,8 +913,8 @@ export async function runFounderMentionCheck(): Promise<number> {
                 const image = await generateContentImage(imagePrompt, 'engagement_bait');
                 if (image) {
                     const caption = `Here's what I see. 🖼️`;
-                    const { replyToTweetWithImage } = await import('../platforms/x.js');
-                    const replyId = await replyToTweetWithImage(mention.id, caption, image.buffer, image.mimeType);
+                    const { replyToTweetWithMedia } = await import('../platforms/x.js');
+                    const replyId = await publishOperational(() => replyToTweetWithMedia(mention.id, caption, [{ data: image.buffer, mimeType: image.mimeType, altText: image.altText }]));
                     if (replyId) {
                         await recordReply(mention.id, FOUNDER_HANDLE, replyId, `[IMAGE] ${caption} | prompt: ${imagePrompt.slice(0, 60)}`, 'founder_vip');
                         processedFounderMentionIds.add(mention.id);
@@ -640,11 +956,26 @@ export async function runFounderMentionCheck(): Promise<number> {
             continue;
         }
 
+        // Review mode: queue the reply for approval instead of posting
+        if (isReviewMode()) {
+            await enqueueDraft({
+                kind: 'reply',
+                content: replyText,
+                source: 'founder_vip',
+                budgetAction: 'mention_response',
+                targetId: mention.id,
+                targetAuthor: FOUNDER_HANDLE,
+                prompt: founderReplyPrompt,
+            });
+            processedFounderMentionIds.add(mention.id);
+            continue;
+        }
+
         // Post the reply
         const replyId = await replyToTweet(mention.id, replyText);
 
         if (replyId) {
-            await recordReply(mention.id, FOUNDER_HANDLE, replyId, replyText, 'founder_vip');
+            await recordReply(mention.id, FOUNDER_HANDLE, replyId, replyText, 'founder_vip', founderReplyPrompt);
             processedFounderMentionIds.add(mention.id);
             replied++;
             log.info('👑 Replied to founder mention', {
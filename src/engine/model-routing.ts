@@ -0,0 +1,104 @@
+import { config } from '../config.js';
+import { createLogger } from '../logger.js';
+
+// ============================================================================
+// QasidAI — Model Routing
+// Maps named LLM tasks to model, max tokens, and temperature defaults.
+// Built-in defaults live here; LLM_MODEL_ROUTES (JSON) overrides any field
+// per task, and LLM_DEFAULT_MODEL swaps the model for every unrouted task.
+// ============================================================================
+
+const log = createLogger('ModelRouting');
+
+/** Every named call-site category that goes through generate() */
+export const llmTasks = [
+    'default',
+    'scheduled_post',        // Main timeline posts + their quality retries
+    'thread',                // Multi-tweet threads
+    'reply',                 // Replies to mentions, timeline posts, Botchan posts
+    'founder_reply',         // Replies to the founder (longer, more personal)
+    'creative',              // Creative session quotes / questions / trending replies
+    'planning',              // Creative session action planning
+    'classification',        // YES/NO style gates (voice check, prescreens)
+    'editing',               // Light rewrites of an existing draft
+    'knowledge_extraction',  // Fact extraction from founder tweets, website, GitHub
+    'skill_discovery',       // Structured skill proposals
+    'short_post',            // Short shares and announcements
+    'long_post',             // Long-form Botchan posts
+    'article',               // X Articles (long-form)
+    'image_prompt',          // Prompts for the image generator
+    'ranking',               // LLM judge for best-of-N post candidates
+    'summarization',         // Condensing long conversations for reply context
+] as const;
+
+export type LLMTask = typeof llmTasks[number];
+
+export interface ModelRoute {
+    model: string;
+    maxTokens: number;
+    temperature: number;
+}
+
+/** Built-in per-task defaults (model falls back to LLM_DEFAULT_MODEL) */
+const DEFAULT_ROUTES: Record<LLMTask, Omit<ModelRoute, 'model'> & { model?: string }> = {
+    default: { maxTokens: 300, temperature: 0.9 },
+    scheduled_post: { maxTokens: 300, temperature: 0.9 },
+    thread: { maxTokens: 600, temperature: 0.9 },
+    reply: { maxTokens: 300, temperature: 0.85 },
+    founder_reply: { maxTokens: 400, temperature: 0.9 },
+    creative: { maxTokens: 100, temperature: 0.9 },
+    planning: { maxTokens: 150, temperature: 0.8 },
+    classification: { maxTokens: 60, temperature: 0.2 },
+    editing: { maxTokens: 150, temperature: 0.3 },
+    knowledge_extraction: { maxTokens: 300, temperature: 0.3 },
+    skill_discovery: { maxTokens: 400, temperature: 0.5 },
+    short_post: { maxTokens: 200, temperature: 0.85 },
+    long_post: { maxTokens: 500, temperature: 0.85 },
+    article: { maxTokens: 2000, temperature: 0.85 },
+    image_prompt: { maxTokens: 150, temperature: 0.7 },
+    ranking: { maxTokens: 200, temperature: 0.2 },
+    summarization: { maxTokens: 200, temperature: 0.2 },
+};
+
+/** Tasks that keep running after the daily LLM spend cap is hit (core posting + founder) */
+const CRITICAL_TASKS: ReadonlySet<LLMTask> = new Set<LLMTask>(['scheduled_post', 'thread', 'founder_reply']);
+
+/**
+ * Whether a task is exempt from the daily spend cap.
+ */
+export function isCriticalTask(task: LLMTask): boolean {
+    return CRITICAL_TASKS.has(task);
+}
+
+let warnedUnknownTasks = false;
+
+/**
+ * Resolve the effective route for a task: built-in defaults, then config overrides.
+ */
+export function resolveModelRoute(task: LLMTask = 'default'): ModelRoute {
+    const overrides = config.LLM_MODEL_ROUTES;
+
+    if (!warnedUnknownTasks) {
+        warnedUnknownTasks = true;
+        const unknown = Object.keys(overrides).filter(t => !(llmTasks as readonly string[]).includes(t));
+        if (unknown.length > 0) {
+            log.warn('LLM_MODEL_ROUTES contains unknown tasks (ignored)', { unknown, known: llmTasks });
+        }
+    }
+
+    const base = DEFAULT_ROUTES[task];
+    const override = overrides[task] ?? {};
+
+    return {
+        model: override.model ?? base.model ?? config.LLM_DEFAULT_MODEL,
+        maxTokens: override.maxTokens ?? base.maxTokens,
+        temperature: override.temperature ?? base.temperature,
+    };
+}
+
+/**
+ * Full routing table (for diagnostics / startup logging).
+ */
+export function getModelRoutingTable(): Record<LLMTask, ModelRoute> {
+    return Object.fromEntries(llmTasks.map(t => [t, resolveModelRoute(t)])) as Record<LLMTask, ModelRoute>;
+}
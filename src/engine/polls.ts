@@ -0,0 +1,242 @@
+import { z } from 'zod';
+import { config } from '../config.js';
+import { createLogger } from '../logger.js';
+import { supabase } from '../supabase.js';
+import { generate, generateStructured } from './llm.js';
+import { getPollResults, replyToTweet, type PollResult } from '../platforms/x.js';
+import type { PlatformPoll } from '../platforms/adapter.js';
+import { reserveBudget, publishWithReservation } from './daily-budget.js';
+import { isReviewMode } from './posting-mode.js';
+import { recordReply } from './reply-tracker.js';
+import { enqueueDraft } from './review-queue.js';
+import { definePrompt } from './prompt-registry.js';
+
+// ============================================================================
+// QasidAI — Native X Polls
+// The `poll` content type: the generated question gets 2–4 answer options and
+// is posted as a native X poll. Published polls are tracked in qasid_polls;
+// once one closes its vote counts are stored, copied to qasid_posts.poll_votes
+// (the scorer counts votes as engagement), and with POLL_FOLLOW_UP QasidAI
+// replies to the poll with the result.
+// ============================================================================
+
+const log = createLogger('Polls');
+
+/** X limit on a poll option label */
+export const POLL_OPTION_MAX_LENGTH = 25;
+
+/** No follow-up reply for polls that barely got votes */
+const MIN_FOLLOW_UP_VOTES = 5;
+
+/** Polls X no longer returns this long after closing are given up on */
+const RESULTS_GIVE_UP_HOURS = 48;
+
+const pollOptionsSchema = z.object({
+    options: z.array(z.string().trim().min(1).max(POLL_OPTION_MAX_LENGTH)).min(2).max(4)
+        .refine(options => new Set(options.map(o => o.toLowerCase())).size === options.length, 'options must be distinct'),
+});
+
+interface TrackedPoll {
+    id: number;
+    tweet_id: string;
+    question: string;
+    options: string[];
+    closes_at: string;
+}
+
+// ---- Drafting ----
+
+/**
+ * Write 2–4 answer options for a poll question. Throws if the model can't produce valid ones.
+ */
+export async function draftPoll(question: string): Promise<{ poll: PlatformPoll; inputTokens: number; outputTokens: number }> {
+    const result = await generateStructured({
+        task: 'short_post',
+        module: 'polls',
+        schema: pollOptionsSchema,
+        prompt: `Write the answer options for this X poll.
+
+QUESTION: "${question}"
+
+Rules:
+- 2 to 4 options, each at most ${POLL_OPTION_MAX_LENGTH} characters (hard limit)
+- Options must be distinct and cover the realistic answers — no joke-only ballots
+- QasidAI voice: short, lowercase is fine, $cashtags allowed, no emojis
+- Don't repeat the question in the options`,
+    });
+    return {
+        poll: { options: result.data.options, durationMinutes: config.POLL_DURATION_MINUTES },
+        inputTokens: result.inputTokens,
+        outputTokens: result.outputTokens,
+    };
+}
+
+/**
+ * A poll as plain text, for platforms and channels that can't show native polls
+ * (Discord mirror, Telegram broadcast).
+ */
+export function formatPollText(question: string, poll: PlatformPoll): string {
+    return [question, poll.options.map(o => `▫️ ${o}`).join('\n'), 'Vote on X 🗳️'].join('\n\n');
+}
+
+// ---- Tracking ----
+
+/**
+ * Start tracking a published poll so its results are collected once it closes.
+ * Dry-run ids are ignored.
+ */
+export async function trackPoll(tweetId: string, question: string, poll: PlatformPoll): Promise<void> {
+    if (tweetId.startsWith('dry-run')) return;
+
+    const { error } = await supabase.from('qasid_polls').insert({
+        tweet_id: tweetId,
+        question,
+        options: poll.options,
+        duration_minutes: poll.durationMinutes,
+        closes_at: new Date(Date.now() + poll.durationMinutes * 60_000).toISOString(),
+    });
+    if (error) {
+        log.warn('Failed to track poll', { tweetId, error: error.message });
+        return;
+    }
+    log.info('🗳️ Tracking poll', { tweetId, options: poll.options.length, durationMinutes: poll.durationMinutes });
+}
+
+// ---- Results ----
+
+/**
+ * "📊 Results (123 votes)" plus one line per option, winner first.
+ */
+export function formatPollResults(result: PollResult): string {
+    const total = result.options.reduce((sum, o) => sum + o.votes, 0);
+    const lines = [...result.options]
+        .sort((a, b) => b.votes - a.votes)
+        .map(o => `${o.label} — ${total > 0 ? Math.round((o.votes / total) * 100) : 0}%`);
+    return [`📊 Results (${total} vote${total === 1 ? '' : 's'})`, ...lines].join('\n');
+}
+
+/** One-line take posted under a closed poll's results */
+const followUpPrompt = definePrompt({
+    id: 'poll.follow_up',
+    version: 1,
+    description: 'React to a closed poll\'s results in one line',
+    template: (vars: { question: string; results: string }) => `Your X poll just closed.
+
+QUESTION: "${vars.question}"
+${vars.results}
+
+Write ONE short line (under 140 chars) reacting to the result — surprised, smug, or curious, in QasidAI's voice. Don't restate the percentages. No hashtags.
+
+Reply with ONLY the line:`,
+});
+
+/**
+ * Reply to a closed poll with its results and a one-line take (queued in review mode).
+ */
+async function postFollowUp(poll: TrackedPoll, result: PollResult): Promise<string | null> {
+    const results = formatPollResults(result);
+
+    let take = '';
+    try {
+        const generated = await generate({
+            task: 'reply',
+            module: 'polls',
+            prompt: followUpPrompt.render({ question: poll.question, results }).text,
+            maxTokens: 80,
+        });
+        take = generated.content.trim().replace(/^["']|["']$/g, '');
+    } catch (error) {
+        log.debug('Poll follow-up take failed — posting results only', { error: String(error) });
+    }
+    const text = take ? `${results}\n\n${take}` : results;
+    // Results-only replies weren't written by the prompt
+    const prompt = take ? followUpPrompt : undefined;
+
+    if (isReviewMode()) {
+        await enqueueDraft({
+            kind: 'reply',
+            content: text,
+            source: 'poll-results',
+            budgetAction: 'reply',
+            targetId: poll.tweet_id,
+            targetAuthor: 'QasidAI',
+            prompt,
+        });
+        return null;
+    }
+
+    const reservation = await reserveBudget('reply', `Poll results: ${poll.question.slice(0, 60)}`);
+    if (!reservation) {
+        log.warn('Budget reservation failed — skipping poll follow-up', { tweetId: poll.tweet_id });
+        return null;
+    }
+    const replyId = await publishWithReservation(reservation, () => replyToTweet(poll.tweet_id, text));
+    if (replyId) await recordReply(poll.tweet_id, 'QasidAI', replyId, text, 'poll-results', prompt);
+    return replyId;
+}
+
+/**
+ * Collect results for tracked polls that have closed: store vote counts, copy the
+ * total to the post for the scorer, and optionally reply with the result.
+ * Returns the number of polls closed out.
+ */
+export async function collectPollResults(): Promise<number> {
+    const { data, error } = await supabase
+        .from('qasid_polls')
+        .select('id, tweet_id, question, options, closes_at')
+        .eq('status', 'open')
+        .lte('closes_at', new Date().toISOString())
+        .order('closes_at', { ascending: true })
+        .limit(50);
+
+    if (error) {
+        log.warn('Failed to load closed polls', { error: error.message });
+        return 0;
+    }
+    const polls = (data ?? []) as TrackedPoll[];
+    if (polls.length === 0) return 0;
+
+    const results = await getPollResults(polls.map(p => p.tweet_id));
+    let closed = 0;
+
+    for (const poll of polls) {
+        const result = results.get(poll.tweet_id);
+        if (!result || result.votingStatus !== 'closed') {
+            const hoursPastClose = (Date.now() - new Date(poll.closes_at).getTime()) / 3_600_000;
+            if (!result && hoursPastClose > RESULTS_GIVE_UP_HOURS) {
+                log.warn('Poll results unavailable — giving up', { tweetId: poll.tweet_id });
+                await supabase.from('qasid_polls').update({ status: 'expired' }).eq('id', poll.id);
+            }
+            continue;
+        }
+
+        const totalVotes = result.options.reduce((sum, o) => sum + o.votes, 0);
+        const { error: updateError } = await supabase
+            .from('qasid_polls')
+            .update({ status: 'closed', results: result.options, total_votes: totalVotes, closed_at: new Date().toISOString() })
+            .eq('id', poll.id);
+        if (updateError) {
+            log.warn('Failed to store poll results', { tweetId: poll.tweet_id, error: updateError.message });
+            continue;
+        }
+
+        const { error: postError } = await supabase
+            .from('qasid_posts')
+            .update({ poll_votes: totalVotes })
+            .eq('platform', 'x')
+            .eq('external_id', poll.tweet_id);
+        if (postError) log.warn('Failed to copy poll votes to post', { tweetId: poll.tweet_id, error: postError.message });
+
+        closed++;
+        log.info('🗳️ Poll closed', { tweetId: poll.tweet_id, totalVotes, results: result.options.map(o => `${o.label}: ${o.votes}`) });
+
+        if (config.POLL_FOLLOW_UP && totalVotes >= MIN_FOLLOW_UP_VOTES) {
+            const followUpId = await postFollowUp(poll, result);
+            if (followUpId) {
+                await supabase.from('qasid_polls').update({ follow_up_id: followUpId }).eq('id', poll.id);
+            }
+        }
+    }
+
+    return closed;
+}
@@ -0,0 +1,219 @@
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+import { generateStructured } from './llm.js';
+import { generatePost, pickContentType, scoreVoice, slopSeverity, type GeneratedPost } from './content.js';
+import { config } from '../config.js';
+import { supabase } from '../supabase.js';
+import { createLogger } from '../logger.js';
+import { formatPromptRef } from './prompt-registry.js';
+import { findMostSimilar } from './similarity-index.js';
+import type { ContentType } from '../personality/system-prompt.js';
+
+// ============================================================================
+// QasidAI — Best-of-N Post Ranking
+// Generates several candidates for one scheduled slot, scores each on slop
+// severity, novelty vs post history, voice consistency and (optionally) an
+// LLM judge, then posts the winner. Every candidate is kept in
+// qasid_post_candidates so the ranking itself can be analysed later.
+// ============================================================================
+
+const log = createLogger('PostRanker');
+
+// ---- Configuration ----
+
+/** Ranking weights (normalised 0-1 components). The judge share is only used when the judge runs. */
+const RANKING_WEIGHTS = {
+    slop: 0.3,
+    novelty: 0.3,
+    voice: 0.4,
+    judge: 0.3,
+};
+
+/** Each slop hit costs this much of the slop component */
+const SLOP_PENALTY_PER_HIT = 0.5;
+
+/** Voice score assumed when the voice check is unavailable (neutral, mid-scale) */
+const FALLBACK_VOICE_SCORE = 6;
+
+export interface CandidateScore {
+    /** 1 = clean, 0 = heavily slopped */
+    slop: number;
+    /** 1 = nothing like recent posts, 0 = near copy */
+    novelty: number;
+    /** Voice-consistency score normalised from 0-10 */
+    voice: number;
+    /** LLM judge score normalised from 0-10 (only when the judge ran) */
+    judge?: number;
+    total: number;
+}
+
+export interface RankedCandidate {
+    post: GeneratedPost;
+    score: CandidateScore;
+}
+
+// ---- Scoring ----
+
+/**
+ * Novelty of a candidate: 1 minus its similarity to the closest post/reply in history.
+ */
+async function noveltyScore(content: string): Promise<number> {
+    const closest = await findMostSimilar(content);
+    return closest ? 1 - closest.similarity : 1;
+}
+
+/** Structured judge verdict — one score per candidate, in order */
+const judgeSchema = z.object({
+    scores: z.array(z.number().min(0).max(10)).describe('one 0-10 score per candidate, same order'),
+});
+
+/**
+ * Ask the LLM to score all candidates side by side. Returns null on failure
+ * (ranking then falls back to the deterministic components).
+ */
+async function judgeCandidates(contents: string[]): Promise<number[] | null> {
+    try {
+        const result = await generateStructured({
+            task: 'ranking',
+            module: 'post-ranker',
+            schema: judgeSchema,
+            prompt: `You are the editor for QasidAI's X account. Score each candidate tweet 0-10 for how likely it is to stop a crypto-twitter reader mid-scroll and earn a genuine reply — sharp, specific, in voice, not generic.
+
+${contents.map((c, i) => `CANDIDATE ${i + 1}:\n"${c}"`).join('\n\n')}
+
+Return exactly ${contents.length} scores, in candidate order.`,
+        });
+        if (result.data.scores.length !== contents.length) {
+            log.warn('LLM judge returned wrong number of scores — ignoring', {
+                expected: contents.length,
+                got: result.data.scores.length,
+            });
+            return null;
+        }
+        return result.data.scores;
+    } catch (error) {
+        log.warn('LLM judge failed — ranking without it', { error: String(error) });
+        return null;
+    }
+}
+
+/**
+ * Score and sort candidates, best first.
+ */
+export async function rankCandidates(
+    posts: GeneratedPost[],
+    options?: { useJudge?: boolean },
+): Promise<RankedCandidate[]> {
+    const judgeScores = options?.useJudge && posts.length > 1
+        ? await judgeCandidates(posts.map(p => p.content))
+        : null;
+
+    const ranked: RankedCandidate[] = [];
+    for (const [i, post] of posts.entries()) {
+        const voiceRaw = post.voiceScore ?? await scoreVoice(post.content) ?? FALLBACK_VOICE_SCORE;
+        const score: CandidateScore = {
+            slop: Math.max(0, 1 - slopSeverity(post.content) * SLOP_PENALTY_PER_HIT),
+            novelty: await noveltyScore(post.content),
+            voice: voiceRaw / 10,
+            judge: judgeScores ? judgeScores[i] / 10 : undefined,
+            total: 0,
+        };
+
+        const weights = { ...RANKING_WEIGHTS, judge: score.judge !== undefined ? RANKING_WEIGHTS.judge : 0 };
+        const weightSum = weights.slop + weights.novelty + weights.voice + weights.judge;
+        score.total = (
+            score.slop * weights.slop +
+            score.novelty * weights.novelty +
+            score.voice * weights.voice +
+            (score.judge ?? 0) * weights.judge
+        ) / weightSum;
+
+        ranked.push({ post, score });
+    }
+
+    return ranked.sort((a, b) => b.score.total - a.score.total);
+}
+
+// ---- Candidate Storage ----
+
+/**
+ * Persist every candidate for a slot (winner flagged as selected). Never throws.
+ */
+async function saveCandidates(slotId: string, ranked: RankedCandidate[]): Promise<void> {
+    const rows = ranked.map((c, rank) => ({
+        slot_id: slotId,
+        rank: rank + 1,
+        selected: rank === 0,
+        content: c.post.content,
+        content_type: c.post.contentType,
+        prompt_id: c.post.prompt?.id ?? null,
+        prompt_version: c.post.prompt?.version ?? null,
+        slop_score: c.score.slop,
+        novelty_score: c.score.novelty,
+        voice_score: c.score.voice,
+        judge_score: c.score.judge ?? null,
+        total_score: c.score.total,
+    }));
+
+    const { error } = await supabase.from('qasid_post_candidates').insert(rows);
+    if (error) {
+        log.warn('Failed to save post candidates', { error: error.message, slotId });
+    }
+}
+
+// ---- Main Entry ----
+
+/**
+ * Generate a scheduled post, best-of-N.
+ * With POST_CANDIDATES=1 this is exactly generatePost(). Otherwise N candidates of the
+ * same content type are generated, ranked, stored, and the top one is returned.
+ */
+export async function generateRankedPost(
+    options?: {
+        contentType?: ContentType;
+        weights?: Partial<Record<ContentType, number>>;
+        strategyContext?: string;
+        candidates?: number;
+    },
+): Promise<GeneratedPost> {
+    const n = options?.candidates ?? config.POST_CANDIDATES;
+    if (n <= 1) {
+        return generatePost(options);
+    }
+
+    // One content type per slot — candidates compete on execution, not on type
+    const contentType = options?.contentType || pickContentType(options?.weights);
+    log.info(`Generating ${n} ${contentType} candidates for ranking`);
+
+    const posts: GeneratedPost[] = [];
+    for (let i = 0; i < n; i++) {
+        try {
+            posts.push(await generatePost({ contentType, strategyContext: options?.strategyContext }));
+        } catch (error) {
+            log.warn(`Candidate ${i + 1}/${n} failed`, { error: String(error) });
+        }
+    }
+
+    if (posts.length === 0) {
+        throw new Error(`All ${n} post candidates failed for ${contentType}`);
+    }
+
+    const ranked = await rankCandidates(posts, { useJudge: config.POST_RANKING_LLM_JUDGE });
+    const slotId = randomUUID();
+    await saveCandidates(slotId, ranked);
+
+    const winner = ranked[0];
+    log.info(`🏆 Picked candidate (score ${winner.score.total.toFixed(2)}) from ${ranked.length}`, {
+        slotId,
+        contentType,
+        prompt: formatPromptRef(winner.post.prompt),
+        scores: ranked.map(c => Number(c.score.total.toFixed(2))),
+    });
+
+    // Token usage of the losing candidates is still spend for this slot
+    return {
+        ...winner.post,
+        inputTokens: ranked.reduce((sum, c) => sum + c.post.inputTokens, 0),
+        outputTokens: ranked.reduce((sum, c) => sum + c.post.outputTokens, 0),
+    };
+}
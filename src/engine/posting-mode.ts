@@ -0,0 +1,57 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { postingMode } from '../config.js';
+
+// ============================================================================
+// QasidAI — Posting Mode Gate
+// Three outbound modes:
+// - live:    publish immediately
+// - dry-run: log what would be published, publish nothing
+// - review:  content producers queue drafts (see review-queue.ts); the
+//            platform layer only publishes inside an approved-publish scope
+//            or an operational write (the founder's own control loop)
+// ============================================================================
+
+/** Set while an approved review-queue item (or an operational write) is being published */
+const approvedScope = new AsyncLocalStorage<true>();
+
+/**
+ * Whether drafts should be queued for human review instead of published.
+ */
+export function isReviewMode(): boolean {
+    return postingMode === 'review';
+}
+
+/**
+ * Whether the platform layer may publish content right now.
+ * In review mode only approved items (inside publishApproved) get through —
+ * anything else is treated as a dry run.
+ */
+export function canPublishContent(): boolean {
+    if (postingMode === 'live') return true;
+    if (postingMode === 'review') return approvedScope.getStore() === true;
+    return false;
+}
+
+/**
+ * Whether non-content writes (follows) are allowed. Review mode only gates content.
+ */
+export function canPerformWrites(): boolean {
+    return postingMode !== 'dry-run';
+}
+
+/**
+ * Run a publish call for an approved review-queue item.
+ */
+export function publishApproved<T>(fn: () => Promise<T>): Promise<T> {
+    return approvedScope.run(true, fn);
+}
+
+/**
+ * Run a publish call that is part of the founder's control loop — skill proposals
+ * and decisions, acknowledgements of founder commands. Queuing these for review
+ * would hide them from the person who has to act on them, so review mode lets
+ * them through; dry-run still only logs them.
+ */
+export function publishOperational<T>(fn: () => Promise<T>): Promise<T> {
+    return canPerformWrites() ? approvedScope.run(true, fn) : fn();
+}
@@ -0,0 +1,73 @@
+import { createLogger } from '../logger.js';
+
+// ============================================================================
+// QasidAI — Prompt Template Registry
+// Every prompt that produces a stored post or reply is a named, versioned
+// template with typed variables. The id/version travels with the generated
+// content into qasid_posts / qasid_replies so prompt wording can be compared
+// by performance.
+//
+// RULE: when you change a template's wording, bump its version.
+// ============================================================================
+
+const log = createLogger('Prompts');
+
+/** Provenance stored alongside generated content */
+export interface PromptRef {
+    id: string;
+    version: number;
+}
+
+export interface RenderedPrompt {
+    text: string;
+    ref: PromptRef;
+}
+
+export interface PromptTemplate<V> extends PromptRef {
+    description: string;
+    render(vars: V): RenderedPrompt;
+}
+
+const registry = new Map<string, PromptTemplate<any>>();
+
+/**
+ * Define and register a prompt template.
+ * Ids are unique — defining the same id twice is a programming error.
+ */
+export function definePrompt<V>(def: {
+    id: string;
+    version: number;
+    description: string;
+    template: (vars: V) => string;
+}): PromptTemplate<V> {
+    if (registry.has(def.id)) {
+        throw new Error(`Prompt template "${def.id}" is already registered`);
+    }
+
+    const ref: PromptRef = { id: def.id, version: def.version };
+    const template: PromptTemplate<V> = {
+        ...ref,
+        description: def.description,
+        render: (vars) => ({ text: def.template(vars), ref }),
+    };
+
+    registry.set(def.id, template);
+    log.debug('Registered prompt template', { id: def.id, version: def.version });
+    return template;
+}
+
+/**
+ * All registered templates (only those whose modules have been imported).
+ */
+export function listPrompts(): Array<PromptRef & { description: string }> {
+    return [...registry.values()]
+        .map(t => ({ id: t.id, version: t.version, description: t.description }))
+        .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Compact label, e.g. "content.scheduled_post@v1".
+ */
+export function formatPromptRef(ref: PromptRef | null | undefined): string {
+    return ref ? `${ref.id}@v${ref.version}` : 'untracked';
+}
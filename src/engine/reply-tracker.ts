@@ -1,5 +1,7 @@
 import { supabase } from '../supabase.js';
 import { createLogger } from '../logger.js';
+import type { PromptRef } from './prompt-registry.js';
+import { addToSimilarityIndex } from './similarity-index.js';
 
 // ============================================================================
 // QasidAI — Reply Tracker (Shared)
@@ -23,6 +25,7 @@ export async function hasRepliedTo(tweetId: string): Promise<boolean> {
 
 /**
  * Record a reply for dedup (prevents double-replies).
+ * `prompt` is the template that produced the reply text, when known.
  */
 export async function recordReply(
     targetTweetId: string,
@@ -30,8 +33,10 @@ export async function recordReply(
     replyTweetId: string,
     replyText: string,
     source: string,
+    prompt?: PromptRef,
 ): Promise<void> {
-    const { error } = await supabase
+    const repliedAt = new Date().toISOString();
+    const { data, error } = await supabase
         .from('qasid_replies')
         .insert({
             target_tweet_id: targetTweetId,
@@ -39,11 +44,17 @@ export async function recordReply(
             reply_tweet_id: replyTweetId,
             reply_text: replyText,
             search_query: source,
-            replied_at: new Date().toISOString(),
-        });
+            replied_at: repliedAt,
+            prompt_id: prompt?.id ?? null,
+            prompt_version: prompt?.version ?? null,
+        })
+        .select('id')
+        .single();
     if (error) {
         log.error('Failed to record reply', { error: error.message });
+        return;
     }
+    addToSimilarityIndex({ source: 'reply', id: data.id, content: replyText, postedAt: repliedAt });
 }
 
 /**
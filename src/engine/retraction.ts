@@ -0,0 +1,180 @@
+import { supabase } from '../supabase.js';
+import { createLogger } from '../logger.js';
+import { deleteTweet, postTweet, replyToTweet } from '../platforms/x.js';
+import { generate } from './llm.js';
+import { sanitizeContent } from './content.js';
+import { reserveBudget, publishWithReservation } from './daily-budget.js';
+import { isReviewMode } from './posting-mode.js';
+import { recordReply } from './reply-tracker.js';
+import { enqueueDraft } from './review-queue.js';
+import { definePrompt } from './prompt-registry.js';
+
+// ============================================================================
+// QasidAI — Post Retraction
+// Takes a bad post down: deletes the tweet (every part of a thread) by its
+// stored external id and marks the qasid_posts row retracted, so scoring and
+// weight adaptation skip it. Optionally posts a short correction written from
+// the reason given. Issued from the CLI (`retract`) or by the founder tagging
+// QasidAI with "retract: <reason>" / "correct: <reason>".
+// ============================================================================
+
+const log = createLogger('Retraction');
+
+export interface RetractOptions {
+    /** Why the post is coming down (stored on the row; the correction is written from it) */
+    reason?: string;
+    /** Post a correction (X posts only; needs a reason) */
+    correct?: boolean;
+    /** Post the correction as a reply to this tweet instead of a standalone post */
+    replyTo?: { tweetId: string; author: string };
+}
+
+export interface RetractionResult {
+    postId: string;
+    platform: string;
+    /** Tweets deleted / tweets in the post */
+    deleted: number;
+    total: number;
+    /** Correction tweet id (null if none was posted, or it was queued for review) */
+    correctionId: string | null;
+}
+
+interface RetractablePost {
+    id: string;
+    content: string;
+    platform: string;
+    external_id: string | null;
+    thread_ids: string[] | null;
+    retracted_at: string | null;
+}
+
+/**
+ * A tweet URL, tweet id, or qasid_posts row id → the lookup to run.
+ */
+function parsePostRef(ref: string): { column: 'external_id' | 'id'; value: string } {
+    const trimmed = ref.trim();
+    const url = trimmed.match(/(?:x|twitter)\.com\/\w+\/status\/(\d+)/i);
+    if (url) return { column: 'external_id', value: url[1] };
+    if (/^\d+$/.test(trimmed)) return { column: 'external_id', value: trimmed };
+    return { column: 'id', value: trimmed };
+}
+
+async function findPost(ref: string): Promise<RetractablePost | null> {
+    const { column, value } = parsePostRef(ref);
+    let query = supabase
+        .from('qasid_posts')
+        .select('id, content, platform, external_id, thread_ids, retracted_at');
+    // A tweet id may be a later part of a thread
+    query = column === 'external_id'
+        ? query.or(`external_id.eq.${value},thread_ids.cs.{${value}}`)
+        : query.eq('id', value);
+
+    const { data, error } = await query.limit(1);
+    if (error) throw new Error(`Post lookup failed: ${error.message}`);
+    return (data?.[0] as RetractablePost | undefined) ?? null;
+}
+
+/** Public correction for a retracted post */
+const correctionPrompt = definePrompt({
+    id: 'retraction.correction',
+    version: 1,
+    description: 'Short public correction after a post is retracted',
+    template: (vars: { original: string; reason: string }) => `You deleted one of your own posts because it was wrong.
+
+DELETED POST: "${vars.original.slice(0, 600)}"
+WHY IT CAME DOWN: ${vars.reason}
+
+Write a short public correction (under 240 chars). Own it in one line and give the right information if the reason contains it. No groveling, no hashtags, don't quote the deleted post. Start with "Correction:".
+
+Reply with ONLY the correction:`,
+});
+
+async function draftCorrection(original: string, reason: string): Promise<string> {
+    const result = await generate({
+        task: 'reply',
+        module: 'retraction',
+        prompt: correctionPrompt.render({ original, reason }).text,
+        maxTokens: 120,
+    });
+    return sanitizeContent(result.content);
+}
+
+/**
+ * Post a correction (queued for approval in review mode). Returns the tweet id.
+ */
+async function postCorrection(text: string, replyTo?: RetractOptions['replyTo']): Promise<string | null> {
+    if (isReviewMode()) {
+        await enqueueDraft({
+            kind: replyTo ? 'reply' : 'post',
+            content: text,
+            source: 'retraction',
+            budgetAction: replyTo ? 'reply' : 'bonus_post',
+            targetId: replyTo?.tweetId,
+            targetAuthor: replyTo?.author,
+            prompt: correctionPrompt,
+        });
+        log.info('Correction queued for review');
+        return null;
+    }
+
+    const reservation = await reserveBudget(replyTo ? 'reply' : 'bonus_post', `Correction: ${text.slice(0, 60)}`);
+    if (!reservation) {
+        log.warn('Budget reservation failed — correction not posted');
+        return null;
+    }
+    const correctionId = await publishWithReservation(reservation, () =>
+        replyTo ? replyToTweet(replyTo.tweetId, text) : postTweet(text));
+    if (correctionId && replyTo) {
+        await recordReply(replyTo.tweetId, replyTo.author, correctionId, text, 'retraction', correctionPrompt);
+    }
+    return correctionId;
+}
+
+/**
+ * Retract a post by tweet URL, tweet id (any part of a thread) or qasid_posts id.
+ * Throws if the post isn't found, is already retracted, or none of it could be deleted.
+ */
+export async function retractPost(ref: string, options: RetractOptions = {}): Promise<RetractionResult> {
+    if (options.correct && !options.reason) {
+        throw new Error('A correction needs a reason to be written from');
+    }
+
+    const post = await findPost(ref);
+    if (!post) throw new Error(`No post found for "${ref}"`);
+    if (post.retracted_at) throw new Error(`Post ${post.external_id ?? post.id} was already retracted at ${post.retracted_at}`);
+
+    const tweetIds = post.thread_ids?.length ? post.thread_ids : post.external_id ? [post.external_id] : [];
+    let deleted = 0;
+    if (post.platform === 'x') {
+        // Last part first, so a failure never leaves replies dangling under a deleted root
+        for (const tweetId of [...tweetIds].reverse()) {
+            if (await deleteTweet(tweetId)) deleted++;
+        }
+        if (tweetIds.length > 0 && deleted === 0) {
+            throw new Error(`Could not delete tweet ${tweetIds[0]} — post left as is`);
+        }
+    } else {
+        log.warn(`Automatic deletion isn't supported on ${post.platform} — delete it there by hand`, { externalId: post.external_id });
+    }
+
+    const { error } = await supabase
+        .from('qasid_posts')
+        .update({ retracted_at: new Date().toISOString(), retraction_reason: options.reason ?? null })
+        .eq('id', post.id);
+    if (error) {
+        log.error('Failed to mark post retracted', { postId: post.id, error: error.message });
+    }
+    log.info('🗑️ Post retracted', { postId: post.id, platform: post.platform, deleted: `${deleted}/${tweetIds.length}`, reason: options.reason });
+
+    let correctionId: string | null = null;
+    if (options.correct && options.reason) {
+        if (post.platform !== 'x') {
+            log.warn('Corrections are only posted on X — skipping', { platform: post.platform });
+        } else {
+            const text = await draftCorrection(post.content, options.reason);
+            correctionId = await postCorrection(text, options.replyTo);
+        }
+    }
+
+    return { postId: post.id, platform: post.platform, deleted, total: tweetIds.length, correctionId };
+}
@@ -0,0 +1,344 @@
+import { supabase } from '../supabase.js';
+import { createLogger } from '../logger.js';
+import { quoteTweet } from '../platforms/x.js';
+import { getPlatform, listPlatforms, type PlatformAdapter } from '../platforms/index.js';
+import { savePost, saveBotchanPost } from './memory.js';
+import { hasRepliedTo, recordReply } from './reply-tracker.js';
+import { reserveBudget, publishWithReservation, type ActionType } from './daily-budget.js';
+import { publishApproved } from './posting-mode.js';
+import { mirrorToDiscord } from '../net/cross-platform.js';
+import { formatPollText, trackPoll } from './polls.js';
+import type { GeneratedPost } from './content.js';
+import type { PromptRef } from './prompt-registry.js';
+
+// ============================================================================
+// QasidAI — Review Queue
+// In POSTING_MODE=review, content producers put drafts here instead of
+// publishing. A reviewer approves (optionally with edits) or rejects them
+// from the CLI or the local review endpoint. Approval reserves budget and
+// publishes through the normal platform paths, then records memory/replies
+// exactly as the live path would.
+// ============================================================================
+
+const log = createLogger('ReviewQueue');
+
+/** Separator between thread tweets in a queued thread's content */
+export const THREAD_SEPARATOR = '\n---\n';
+
+export type DraftKind = 'post' | 'thread' | 'reply' | 'quote' | 'botchan_post';
+export type DraftStatus = 'pending' | 'publishing' | 'published' | 'rejected' | 'failed';
+
+export interface DraftInput {
+    kind: DraftKind;
+    /** Text to publish (threads: tweets joined with THREAD_SEPARATOR) */
+    content: string;
+    /** Producer, e.g. 'content-cycle', 'creative-trending', '@mention' */
+    source: string;
+    /** Budget bucket charged when the draft is approved */
+    budgetAction: ActionType;
+    /** Tweet being replied to / quoted */
+    targetId?: string;
+    targetAuthor?: string;
+    /** Botchan feed topic */
+    topic?: string;
+    /** Post metadata for memory (posts and threads) */
+    post?: Omit<GeneratedPost, 'content'>;
+    /** Botchan post metadata for memory (botchan_post drafts) */
+    botchan?: BotchanDraftMeta;
+    prompt?: PromptRef;
+}
+
+export interface BotchanDraftMeta {
+    type: string;
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface QueuedDraft {
+    id: number;
+    kind: DraftKind;
+    status: DraftStatus;
+    source: string;
+    budgetAction: ActionType;
+    content: string;
+    originalContent: string;
+    targetId: string | null;
+    targetAuthor: string | null;
+    topic: string | null;
+    post: Omit<GeneratedPost, 'content'> | null;
+    botchan: BotchanDraftMeta | null;
+    prompt: PromptRef | null;
+    externalId: string | null;
+    createdAt: string;
+}
+
+function toDraft(row: any): QueuedDraft {
+    return {
+        id: row.id,
+        kind: row.kind,
+        status: row.status,
+        source: row.source,
+        budgetAction: row.budget_action,
+        content: row.content,
+        originalContent: row.original_content,
+        targetId: row.target_id,
+        targetAuthor: row.target_author,
+        topic: row.topic,
+        post: row.metadata?.post ?? null,
+        botchan: row.metadata?.botchan ?? null,
+        prompt: row.metadata?.prompt ?? null,
+        externalId: row.external_id,
+        createdAt: row.created_at,
+    };
+}
+
+// ---- Enqueue ----
+
+/**
+ * Whether a reply/quote draft for this tweet is already waiting for review.
+ */
+export async function hasPendingDraftFor(targetId: string): Promise<boolean> {
+    const { data } = await supabase
+        .from('qasid_review_queue')
+        .select('id')
+        .eq('target_id', targetId)
+        .eq('status', 'pending')
+        .limit(1);
+    return (data?.length ?? 0) > 0;
+}
+
+/**
+ * Queue a draft for human review. Returns the queue id, or null if it wasn't queued
+ * (duplicate pending draft for the same target, or a DB failure).
+ */
+export async function enqueueDraft(draft: DraftInput): Promise<number | null> {
+    if (draft.targetId && await hasPendingDraftFor(draft.targetId)) {
+        log.debug('Draft for this target already pending review', { targetId: draft.targetId, kind: draft.kind });
+        return null;
+    }
+
+    const { data, error } = await supabase
+        .from('qasid_review_queue')
+        .insert({
+            kind: draft.kind,
+            status: 'pending',
+            source: draft.source,
+            budget_action: draft.budgetAction,
+            content: draft.content,
+            original_content: draft.content,
+            target_id: draft.targetId ?? null,
+            target_author: draft.targetAuthor ?? null,
+            topic: draft.topic ?? null,
+            metadata: { post: draft.post ?? null, botchan: draft.botchan ?? null, prompt: draft.prompt ?? null },
+        })
+        .select('id')
+        .single();
+
+    if (error || !data) {
+        log.error('Failed to queue draft for review', { error: error?.message, kind: draft.kind });
+        return null;
+    }
+
+    log.info(`📝 Draft #${data.id} queued for review (${draft.kind} from ${draft.source})`, {
+        preview: draft.content.slice(0, 80),
+    });
+    return data.id;
+}
+
+// ---- Review ----
+
+/**
+ * Drafts by status, oldest first (pending is the review inbox).
+ */
+export async function listDrafts(status: DraftStatus = 'pending', limit = 25): Promise<QueuedDraft[]> {
+    const { data, error } = await supabase
+        .from('qasid_review_queue')
+        .select('*')
+        .eq('status', status)
+        .order('created_at', { ascending: true })
+        .limit(limit);
+
+    if (error) {
+        log.error('Failed to list review queue', { error: error.message });
+        return [];
+    }
+    return (data ?? []).map(toDraft);
+}
+
+async function getDraft(id: number): Promise<QueuedDraft | null> {
+    const { data, error } = await supabase
+        .from('qasid_review_queue')
+        .select('*')
+        .eq('id', id)
+        .single();
+    if (error || !data) return null;
+    return toDraft(data);
+}
+
+/**
+ * Update a draft. With `fromStatus` the update only applies while the draft is
+ * still in that status — that's how concurrent reviewers are kept from both
+ * acting on one draft. Returns whether a row was updated.
+ */
+async function updateDraft(id: number, fields: Record<string, unknown>, fromStatus?: DraftStatus): Promise<boolean> {
+    let query = supabase
+        .from('qasid_review_queue')
+        .update({ reviewed_at: new Date().toISOString(), ...fields })
+        .eq('id', id);
+    if (fromStatus) query = query.eq('status', fromStatus);
+
+    const { data, error } = await query.select('id');
+    if (error) {
+        log.error('Failed to update review queue item', { id, error: error.message });
+        return false;
+    }
+    return (data?.length ?? 0) > 0;
+}
+
+/**
+ * Platform a reply draft goes to. Replies on platforms with their own budget
+ * line (e.g. Bluesky) were queued with that line's action; everything else is X.
+ */
+function replyPlatformFor(draft: QueuedDraft): PlatformAdapter {
+    return listPlatforms().find(p => p.id !== 'x' && p.capabilities.replies && p.budgetAction('reply') === draft.budgetAction)
+        ?? getPlatform('x');
+}
+
+/**
+ * Publish a draft through the normal platform path and record it like the live path does.
+ * Returns the external id (tweet id / tx hash), or null if the platform call failed.
+ */
+async function publishDraft(draft: QueuedDraft): Promise<string | null> {
+    // Posts and threads go to the platform they were generated for (X for older drafts)
+    const platform = getPlatform(draft.post?.platform ?? 'x');
+    switch (draft.kind) {
+        case 'post': {
+            const poll = draft.post?.poll;
+            const postId = await platform.post(draft.content, { topic: draft.topic ?? undefined, contentType: draft.post?.contentType, poll });
+            if (postId && draft.post) {
+                await savePost({ ...draft.post, content: draft.content, generatedAt: new Date().toISOString() }, postId);
+                if (poll) await trackPoll(postId, draft.content, poll);
+                await mirrorToDiscord({ ...draft.post, content: poll ? formatPollText(draft.content, poll) : draft.content }, postId);
+            }
+            return postId;
+        }
+        case 'thread': {
+            const tweets = draft.content.split(THREAD_SEPARATOR).map(t => t.trim()).filter(Boolean);
+            const ids = await platform.postThread(tweets, { topic: draft.topic ?? undefined, contentType: draft.post?.contentType });
+            if (ids.length > 0 && draft.post) {
+                await savePost({ ...draft.post, content: tweets.join(THREAD_SEPARATOR), generatedAt: new Date().toISOString() }, ids[0], ids);
+                await mirrorToDiscord({ ...draft.post, content: tweets.join(THREAD_SEPARATOR) }, ids[0], tweets);
+            }
+            return ids[0] ?? null;
+        }
+        case 'reply':
+        case 'quote': {
+            const targetId = draft.targetId!;
+            const replyId = draft.kind === 'reply'
+                ? await replyPlatformFor(draft).reply(targetId, draft.content)
+                : await quoteTweet(draft.content, targetId);
+            if (replyId) {
+                await recordReply(targetId, draft.targetAuthor ?? 'unknown', replyId, draft.content, draft.source, draft.prompt ?? undefined);
+            }
+            return replyId;
+        }
+        case 'botchan_post': {
+            const txHash = await getPlatform('botchan').post(draft.content, { topic: draft.topic ?? undefined });
+            if (txHash && draft.botchan) {
+                await saveBotchanPost({
+                    content: draft.content,
+                    contentType: draft.botchan.type,
+                    topic: draft.topic ?? '',
+                    inputTokens: draft.botchan.inputTokens,
+                    outputTokens: draft.botchan.outputTokens,
+                    prompt: draft.prompt,
+                }, txHash);
+            }
+            return txHash;
+        }
+    }
+}
+
+/**
+ * Approve a pending draft (optionally replacing its text) and publish it.
+ * Budget is reserved at approval time; if the budget is exhausted the draft stays pending.
+ */
+export async function approveDraft(
+    id: number,
+    editedContent?: string,
+): Promise<{ ok: boolean; externalId?: string; error?: string }> {
+    const draft = await getDraft(id);
+    if (!draft) return { ok: false, error: `Draft #${id} not found` };
+    if (draft.status !== 'pending') return { ok: false, error: `Draft #${id} is ${draft.status}, not pending` };
+
+    if (editedContent !== undefined) {
+        const trimmed = editedContent.trim();
+        if (!trimmed) return { ok: false, error: 'Edited text is empty' };
+        draft.content = trimmed;
+    }
+
+    // Concurrent approvals (CLI + review endpoint) — only the one that claims the draft publishes it
+    if (!await updateDraft(id, { status: 'publishing' }, 'pending')) {
+        return { ok: false, error: `Draft #${id} is already being approved or was handled` };
+    }
+
+    if ((draft.kind === 'reply' || draft.kind === 'quote') && draft.targetId && await hasRepliedTo(draft.targetId)) {
+        await updateDraft(id, { status: 'rejected', reject_reason: 'already replied to target' }, 'publishing');
+        return { ok: false, error: `Already replied to ${draft.targetId} — draft #${id} rejected` };
+    }
+
+    const reservation = await reserveBudget(draft.budgetAction, `Approved ${draft.kind} #${id}: ${draft.content.slice(0, 60)}`);
+    if (!reservation) {
+        await updateDraft(id, { status: 'pending', reviewed_at: null }, 'publishing');
+        return { ok: false, error: `Budget exhausted for ${draft.budgetAction} — draft #${id} left pending` };
+    }
+
+    let externalId: string | null = null;
+    try {
+        externalId = await publishWithReservation(reservation, () => publishApproved(() => publishDraft(draft)));
+    } catch (error) {
+        await updateDraft(id, { status: 'failed', content: draft.content, error: String(error) }, 'publishing');
+        log.error(`Draft #${id} failed to publish`, { error: String(error) });
+        return { ok: false, error: String(error) };
+    }
+
+    if (!externalId) {
+        await updateDraft(id, { status: 'failed', content: draft.content, error: 'platform returned no id' }, 'publishing');
+        return { ok: false, error: `Draft #${id} failed to publish (platform returned no id)` };
+    }
+
+    await updateDraft(id, { status: 'published', content: draft.content, external_id: externalId }, 'publishing');
+    log.info(`✅ Draft #${id} approved and published`, {
+        kind: draft.kind,
+        edited: draft.content !== draft.originalContent,
+        externalId,
+    });
+    return { ok: true, externalId };
+}
+
+/**
+ * Reject a pending draft.
+ */
+export async function rejectDraft(id: number, reason?: string): Promise<{ ok: boolean; error?: string }> {
+    const draft = await getDraft(id);
+    if (!draft) return { ok: false, error: `Draft #${id} not found` };
+    if (draft.status !== 'pending') return { ok: false, error: `Draft #${id} is ${draft.status}, not pending` };
+
+    if (!await updateDraft(id, { status: 'rejected', reject_reason: reason ?? null }, 'pending')) {
+        return { ok: false, error: `Draft #${id} is being approved or was already handled` };
+    }
+    log.info(`🗑️ Draft #${id} rejected`, { kind: draft.kind, reason });
+    return { ok: true };
+}
+
+/**
+ * One-draft summary for the CLI.
+ */
+export function formatDraft(draft: QueuedDraft): string {
+    const target = draft.targetId ? ` → ${draft.kind === 'quote' ? 'quoting' : 'replying to'} @${draft.targetAuthor ?? '?'} (${draft.targetId})` : '';
+    const topic = draft.topic ? ` → feed ${draft.topic}` : '';
+    return [
+        `#${draft.id} [${draft.kind}] from ${draft.source}${target}${topic} — ${draft.createdAt}`,
+        ...draft.content.split('\n').map(line => `    ${line}`),
+    ].join('\n');
+}
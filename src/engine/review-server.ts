@@ -0,0 +1,109 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
+import { config } from '../config.js';
+import { createLogger } from '../logger.js';
+import { listDrafts, approveDraft, rejectDraft, type DraftStatus } from './review-queue.js';
+
+// ============================================================================
+// QasidAI — Review HTTP Endpoint
+// Minimal local API over the review queue (binds 127.0.0.1 only):
+//   GET  /queue[?status=pending]       → drafts
+//   POST /queue/:id/approve {text?}    → publish (optionally edited)
+//   POST /queue/:id/reject  {reason?}  → reject
+// Every request needs `Authorization: Bearer <REVIEW_HTTP_TOKEN>`.
+// ============================================================================
+
+const log = createLogger('ReviewHTTP');
+
+/** Largest request body accepted (edited tweet text is tiny) */
+const MAX_BODY_BYTES = 16 * 1024;
+
+const VALID_STATUSES: DraftStatus[] = ['pending', 'publishing', 'published', 'rejected', 'failed'];
+
+let server: Server | null = null;
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+function isAuthorized(req: IncomingMessage): boolean {
+    const expected = Buffer.from(`Bearer ${config.REVIEW_HTTP_TOKEN ?? ''}`);
+    const given = Buffer.from(req.headers.authorization ?? '');
+    return !!config.REVIEW_HTTP_TOKEN && given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+    let raw = '';
+    for await (const chunk of req) {
+        raw += chunk;
+        if (raw.length > MAX_BODY_BYTES) throw new Error('Body too large');
+    }
+    if (!raw.trim()) return {};
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (!isAuthorized(req)) {
+        sendJson(res, 401, { error: 'unauthorized' });
+        return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+
+    if (req.method === 'GET' && url.pathname === '/queue') {
+        const status = (url.searchParams.get('status') ?? 'pending') as DraftStatus;
+        if (!VALID_STATUSES.includes(status)) {
+            sendJson(res, 400, { error: `status must be one of ${VALID_STATUSES.join(', ')}` });
+            return;
+        }
+        sendJson(res, 200, { drafts: await listDrafts(status) });
+        return;
+    }
+
+    const action = url.pathname.match(/^\/queue\/(\d+)\/(approve|reject)$/);
+    if (req.method === 'POST' && action) {
+        const id = Number(action[1]);
+        let body: Record<string, unknown>;
+        try {
+            body = await readJsonBody(req);
+        } catch (error) {
+            sendJson(res, 400, { error: String(error) });
+            return;
+        }
+
+        const result = action[2] === 'approve'
+            ? await approveDraft(id, typeof body.text === 'string' ? body.text : undefined)
+            : await rejectDraft(id, typeof body.reason === 'string' ? body.reason : undefined);
+        sendJson(res, result.ok ? 200 : 409, result);
+        return;
+    }
+
+    sendJson(res, 404, { error: 'not found' });
+}
+
+/**
+ * Start the review endpoint if REVIEW_HTTP_PORT is set. No-op otherwise.
+ */
+export function startReviewServer(): void {
+    if (server || !config.REVIEW_HTTP_PORT) return;
+
+    server = createServer((req, res) => {
+        handle(req, res).catch(error => {
+            log.error('Review request failed', { error: String(error), url: req.url });
+            if (!res.headersSent) sendJson(res, 500, { error: 'internal error' });
+        });
+    });
+    server.listen(config.REVIEW_HTTP_PORT, '127.0.0.1', () => {
+        log.info(`📝 Review endpoint listening on http://127.0.0.1:${config.REVIEW_HTTP_PORT}`);
+    });
+}
+
+/**
+ * Stop the review endpoint (graceful shutdown).
+ */
+export function stopReviewServer(): void {
+    server?.close();
+    server = null;
+}
@@ -31,6 +31,7 @@ const COLORS = {
 export async function generateScorecardImage(): Promise<{
     buffer: Buffer;
     caption: string;
+    altText: string;
 } | null> {
     try {
         const [engine, proof] = await Promise.all([
@@ -69,13 +70,26 @@ export async function generateScorecardImage(): Promise<{
             : `📊 Market scorecard | Win rate: ${winRate}% | lisanintel.com/proof`;
 
         log.info('Scorecard image generated', { signals: activeSignals.length, size: buffer.length });
-        return { buffer, caption };
+        return { buffer, caption, altText: buildScorecardAltText(engine, proof, activeSignals) };
     } catch (error) {
         log.error('Failed to generate scorecard image', { error: String(error) });
         return null;
     }
 }
 
+/**
+ * Screen-reader description of the scorecard — the same numbers the image shows.
+ */
+function buildScorecardAltText(engine: EngineSignalsResponse, proof: any, signals: Signal[]): string {
+    const rows = signals.map(s => `${s.coin} ${s.direction} at $${s.entryPrice < 1 ? s.entryPrice.toFixed(4) : s.entryPrice.toFixed(2)}, score ${s.score}/100, risk/reward ${s.riskRewardRatio.toFixed(1)}`);
+    const summary = proof?.summary;
+    return [
+        `Lisan Intelligence signal scorecard. Market regime: ${(engine.regime ?? 'unknown').replace(/_/g, ' ').toLowerCase()}, Fear & Greed ${engine.fearGreed ?? 'n/a'}.`,
+        `Top signals: ${rows.join('; ')}.`,
+        summary ? `Track record: ${summary.overallWinRate ?? '?'}% win rate over ${summary.totalSignals ?? '?'} signals.` : '',
+    ].filter(Boolean).join(' ');
+}
+
 function escapeXml(str: string): string {
     return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
 }
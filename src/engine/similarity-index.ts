@@ -0,0 +1,218 @@
+import { supabase } from '../supabase.js';
+import { config } from '../config.js';
+import { createLogger } from '../logger.js';
+
+// ============================================================================
+// QasidAI — Near-Duplicate Index
+// Shingled MinHash over everything in qasid_posts and qasid_replies inside a
+// lookback window. Catches the agent re-posting nearly the same sentence days
+// apart, which type-based dedup and prompt exclusions both miss.
+// ============================================================================
+
+const log = createLogger('Similarity');
+
+// ---- Configuration ----
+
+/** MinHash signature length (estimate error ≈ 1/sqrt(n)) */
+const NUM_HASHES = 128;
+
+/** Words per shingle */
+const SHINGLE_SIZE = 3;
+
+/** How long the loaded index is trusted before reloading from the DB */
+const INDEX_REFRESH_MS = 15 * 60 * 1000;
+
+/** Rows loaded per table per refresh (safety cap) */
+const MAX_ROWS_PER_SOURCE = 2000;
+
+export interface IndexedText {
+    source: 'post' | 'reply';
+    id: string;
+    content: string;
+    postedAt: string;
+}
+
+export interface NearDuplicate {
+    match: IndexedText;
+    /** Estimated Jaccard similarity of the shingle sets (0-1) */
+    similarity: number;
+}
+
+interface IndexEntry extends IndexedText {
+    signature: Uint32Array;
+}
+
+// ---- MinHash ----
+
+/** Large prime for universal hashing (2^31 - 1) */
+const PRIME = 2147483647;
+
+/** Deterministic per-slot coefficients so signatures are comparable across restarts */
+const HASH_COEFFS: Array<[number, number]> = (() => {
+    let seed = 0x9e3779b9;
+    const next = () => {
+        seed = (Math.imul(seed ^ (seed >>> 15), 0x2c1b3c6d) + 0x297a2d39) >>> 0;
+        return seed % PRIME;
+    };
+    return Array.from({ length: NUM_HASHES }, () => [next() || 1, next()] as [number, number]);
+})();
+
+/** FNV-1a 32-bit */
+function fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Normalised word shingles. URLs and @handles are dropped — they are added
+ * deterministically after generation and would otherwise dominate short posts.
+ */
+function shingles(text: string): Set<string> {
+    const words = text.toLowerCase()
+        .replace(/https?:\/\/\S+/g, ' ')
+        .replace(/@\w+/g, ' ')
+        .split(/[^a-z0-9$#']+/)
+        .filter(Boolean);
+
+    const result = new Set<string>();
+    if (words.length < SHINGLE_SIZE) {
+        for (const w of words) result.add(w);
+        return result;
+    }
+    for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+        result.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+    }
+    return result;
+}
+
+/** (a·x + b) mod p without losing precision past 2^53 */
+function universalHash(x: number, a: number, b: number): number {
+    const hi = Math.floor(x / 65536);
+    const lo = x % 65536;
+    return (((hi * a) % PRIME) * 65536 + lo * a + b) % PRIME;
+}
+
+function minhash(text: string): Uint32Array {
+    const signature = new Uint32Array(NUM_HASHES).fill(0xffffffff);
+    for (const shingle of shingles(text)) {
+        const h = fnv1a(shingle);
+        for (let i = 0; i < NUM_HASHES; i++) {
+            const [a, b] = HASH_COEFFS[i];
+            const v = universalHash(h, a, b);
+            if (v < signature[i]) signature[i] = v;
+        }
+    }
+    return signature;
+}
+
+function estimateSimilarity(a: Uint32Array, b: Uint32Array): number {
+    let equal = 0;
+    for (let i = 0; i < NUM_HASHES; i++) {
+        // Both empty (no shingles) never counts as a match
+        if (a[i] === b[i] && a[i] !== 0xffffffff) equal++;
+    }
+    return equal / NUM_HASHES;
+}
+
+// ---- Index ----
+
+let index: IndexEntry[] = [];
+let loadedAt = 0;
+let loading: Promise<void> | null = null;
+
+async function loadIndex(): Promise<void> {
+    const since = new Date(Date.now() - config.DEDUP_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const [posts, replies] = await Promise.all([
+        supabase
+            .from('qasid_posts')
+            .select('id, content, posted_at')
+            .gte('posted_at', since)
+            .order('posted_at', { ascending: false })
+            .limit(MAX_ROWS_PER_SOURCE),
+        supabase
+            .from('qasid_replies')
+            .select('id, reply_text, replied_at')
+            .gte('replied_at', since)
+            .order('replied_at', { ascending: false })
+            .limit(MAX_ROWS_PER_SOURCE),
+    ]);
+
+    if (posts.error || replies.error) {
+        log.warn('Failed to load similarity index', {
+            postsError: posts.error?.message,
+            repliesError: replies.error?.message,
+        });
+        // Keep whatever we had — a stale index beats none
+        if (index.length > 0) return;
+    }
+
+    const entries: IndexEntry[] = [];
+    for (const row of posts.data ?? []) {
+        if (!row.content) continue;
+        entries.push({ source: 'post', id: row.id, content: row.content, postedAt: row.posted_at, signature: minhash(row.content) });
+    }
+    for (const row of replies.data ?? []) {
+        if (!row.reply_text) continue;
+        entries.push({ source: 'reply', id: row.id, content: row.reply_text, postedAt: row.replied_at, signature: minhash(row.reply_text) });
+    }
+
+    index = entries;
+    loadedAt = Date.now();
+    log.debug('Similarity index loaded', { entries: entries.length, lookbackDays: config.DEDUP_LOOKBACK_DAYS });
+}
+
+async function ensureIndex(): Promise<void> {
+    if (Date.now() - loadedAt < INDEX_REFRESH_MS) return;
+    if (!loading) {
+        loading = loadIndex().finally(() => { loading = null; });
+    }
+    await loading;
+}
+
+/**
+ * Add freshly posted text to the in-memory index (so the next candidate sees it
+ * before the periodic reload).
+ */
+export function addToSimilarityIndex(entry: IndexedText): void {
+    if (!entry.content) return;
+    index.push({ ...entry, signature: minhash(entry.content) });
+}
+
+/**
+ * Closest indexed post/reply to the text, or null if the index is empty.
+ */
+export async function findMostSimilar(text: string): Promise<NearDuplicate | null> {
+    await ensureIndex();
+    const signature = minhash(text);
+    let best: NearDuplicate | null = null;
+    for (const entry of index) {
+        const similarity = estimateSimilarity(signature, entry.signature);
+        if (!best || similarity > best.similarity) {
+            const { signature: _sig, ...match } = entry;
+            best = { match, similarity };
+        }
+    }
+    return best;
+}
+
+/**
+ * Near-duplicate check against the lookback window. Returns the collision when
+ * the closest prior post/reply is at or above DEDUP_SIMILARITY_THRESHOLD.
+ */
+export async function findNearDuplicate(text: string): Promise<NearDuplicate | null> {
+    const closest = await findMostSimilar(text);
+    if (!closest || closest.similarity < config.DEDUP_SIMILARITY_THRESHOLD) return null;
+
+    log.warn(`Near-duplicate detected (${(closest.similarity * 100).toFixed(0)}% similar)`, {
+        collidedWith: `${closest.match.source}:${closest.match.id}`,
+        postedAt: closest.match.postedAt,
+        prior: closest.match.content.slice(0, 80),
+        candidate: text.slice(0, 80),
+    });
+    return closest;
+}
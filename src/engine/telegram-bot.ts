@@ -0,0 +1,215 @@
+import { config, isTelegramControlConfigured, postingMode } from '../config.js';
+import { createLogger } from '../logger.js';
+import { getTelegramUpdates, sendTelegramMessage, type TelegramMessage, type TelegramUpdate } from '../platforms/telegram.js';
+import { listPlatforms } from '../platforms/index.js';
+import { applyKnowledgeCommand, getKnowledgeStats, knowledgeCommands, type KnowledgeCommand } from './dynamic-knowledge.js';
+import { decideSkill, getActiveSkills, getPendingSkills } from '../skills/skill-manager.js';
+import { getBudgetSummary } from './daily-budget.js';
+import { listDrafts } from './review-queue.js';
+import { sanitizeUserInput } from './sanitize-input.js';
+
+// ============================================================================
+// QasidAI — Telegram Control Bot
+// Private founder console over Telegram (long polling, no webhook needed):
+//   /remember <fact>  /update <fact>  /forget <keyword>   knowledge commands
+//   /skills  /approve <skill-id>  /deny <skill-id>        skill approvals
+//   /status                                               mode, budget, platforms
+// Only private chats with users in TELEGRAM_ADMIN_IDS are answered — the
+// same commands the founder can issue by tagging QasidAI on X, minus the
+// public tweet. Run a single instance per bot token (Telegram rejects
+// concurrent getUpdates polls).
+// ============================================================================
+
+const log = createLogger('TelegramBot');
+
+/** Seconds Telegram holds a getUpdates request open */
+const POLL_TIMEOUT_SECONDS = 30;
+
+/** Pause after a failed poll before retrying */
+const POLL_ERROR_BACKOFF_MS = 5_000;
+
+/** Commands queued while the bot was offline longer than this are ignored, not replayed */
+const MAX_COMMAND_AGE_MS = 10 * 60 * 1000;
+
+const HELP_TEXT = [
+    '🤖 QasidAI control',
+    '',
+    '/remember <fact> — store a fact',
+    '/update <fact> — store a corrected fact',
+    '/forget <keyword> — deactivate facts containing the keyword',
+    '/skills — list skills awaiting approval',
+    '/approve <skill-id> — activate a pending skill',
+    '/deny <skill-id> — shelve a pending skill',
+    '/status — posting mode, budget, platforms',
+].join('\n');
+
+let running = false;
+let poller: AbortController | null = null;
+let pollLoop: Promise<void> | null = null;
+
+// ---- Commands ----
+
+/** "/cmd args", "/cmd@BotName args", or the X-style "remember: fact" */
+function parseCommand(text: string): { command: string; args: string } | null {
+    const slash = text.match(/^\/(\w+)(?:@\w+)?(?:\s+([\s\S]*))?$/);
+    if (slash) return { command: slash[1].toLowerCase(), args: (slash[2] ?? '').trim() };
+
+    const colon = text.match(/^(remember|update|forget)\s*:\s*([\s\S]+)$/i);
+    if (colon) return { command: colon[1].toLowerCase(), args: colon[2].trim() };
+    return null;
+}
+
+async function runKnowledgeCommand(command: KnowledgeCommand, args: string): Promise<string> {
+    if (!args) return `Usage: /${command} <${command === 'forget' ? 'keyword' : 'fact'}>`;
+    const payload = sanitizeUserInput(args, 500);
+    const count = await applyKnowledgeCommand(command, payload);
+
+    if (command === 'forget') {
+        return count > 0
+            ? `🗑️ Deactivated ${count} fact(s) matching "${payload.slice(0, 40)}".`
+            : `Nothing active matches "${payload.slice(0, 40)}".`;
+    }
+    return count > 0
+        ? '🧠 Stored.'
+        : 'Not stored — already known, too short (20+ characters), or not a standalone fact.';
+}
+
+function formatPendingSkills(): string {
+    const pending = getPendingSkills();
+    if (pending.length === 0) return 'No skills awaiting approval.';
+    return [
+        `🧠 ${pending.length} skill(s) awaiting approval:`,
+        ...pending.map(s => `\n• ${s.name} [${s.id}] (${s.category})\n  ${s.description}${s.sourceUrl ? `\n  ${s.sourceUrl}` : ''}`),
+        '\nReply /approve <skill-id> or /deny <skill-id>.',
+    ].join('\n');
+}
+
+async function runSkillDecision(skillId: string, approved: boolean): Promise<string> {
+    if (!skillId) return `Usage: /${approved ? 'approve' : 'deny'} <skill-id> (see /skills)`;
+    const skill = await decideSkill(skillId, approved);
+    if (!skill) return `No pending skill with id "${skillId}". See /skills.`;
+    return approved ? `✅ Skill activated: ${skill.name}` : `❌ Skill shelved: ${skill.name}`;
+}
+
+async function formatStatus(): Promise<string> {
+    const [budget, knowledge] = await Promise.all([getBudgetSummary(), getKnowledgeStats()]);
+    const uptimeMinutes = Math.floor(process.uptime() / 60);
+    const lines = [
+        `🤖 QasidAI status`,
+        `Mode: ${postingMode} · up ${Math.floor(uptimeMinutes / 60)}h ${uptimeMinutes % 60}m`,
+        `Platforms: ${listPlatforms().map(p => `${p.displayName} ${p.isConfigured() ? '✅' : '—'}`).join(' · ')}`,
+        `Skills: ${getActiveSkills().length} active, ${getPendingSkills().length} pending`,
+        `Knowledge: ${Object.values(knowledge).reduce((sum, n) => sum + n, 0)} active facts`,
+    ];
+    if (postingMode === 'review') {
+        lines.push(`Review queue: ${(await listDrafts('pending', 100)).length} pending draft(s)`);
+    }
+    lines.push('', budget);
+    return lines.join('\n');
+}
+
+/**
+ * Run one admin command and return the reply text.
+ */
+async function runCommand(text: string): Promise<string> {
+    const parsed = parseCommand(text.trim());
+    if (!parsed) return HELP_TEXT;
+    const { command, args } = parsed;
+
+    if ((knowledgeCommands as readonly string[]).includes(command)) {
+        return runKnowledgeCommand(command as KnowledgeCommand, args);
+    }
+    switch (command) {
+        case 'skills':
+            return formatPendingSkills();
+        case 'approve':
+            return runSkillDecision(args, true);
+        case 'deny':
+            return runSkillDecision(args, false);
+        case 'status':
+            return formatStatus();
+        default:
+            return HELP_TEXT;
+    }
+}
+
+// ---- Updates ----
+
+function isAdmin(message: TelegramMessage): boolean {
+    return message.chat.type === 'private' && !!message.from && config.TELEGRAM_ADMIN_IDS.includes(message.from.id);
+}
+
+/**
+ * Handle one update from getUpdates. Exported for tests.
+ */
+export async function handleTelegramUpdate(update: TelegramUpdate): Promise<void> {
+    const message = update.message;
+    if (!message?.text) return;
+
+    if (!isAdmin(message)) {
+        if (message.chat.type === 'private') {
+            log.warn('Ignoring Telegram message from non-admin', { userId: message.from?.id, username: message.from?.username });
+            await sendTelegramMessage(message.chat.id, '⛔ This bot is private.');
+        }
+        return;
+    }
+
+    if (Date.now() - message.date * 1000 > MAX_COMMAND_AGE_MS) {
+        log.info('Skipping stale Telegram command', { text: message.text.slice(0, 40), sentAt: new Date(message.date * 1000).toISOString() });
+        return;
+    }
+
+    log.info('📲 Telegram admin command', { userId: message.from?.id, text: message.text.slice(0, 80) });
+    let reply: string;
+    try {
+        reply = await runCommand(message.text);
+    } catch (error) {
+        log.error('Telegram command failed', { text: message.text.slice(0, 80), error: String(error) });
+        reply = `⚠️ Command failed: ${String(error).slice(0, 200)}`;
+    }
+    await sendTelegramMessage(message.chat.id, reply, { disablePreview: true });
+}
+
+async function runPollLoop(): Promise<void> {
+    let offset = 0;
+    while (running) {
+        try {
+            const updates = await getTelegramUpdates(offset, POLL_TIMEOUT_SECONDS, poller?.signal);
+            for (const update of updates) {
+                // Confirm before handling — a command that crashes the process is not replayed
+                offset = update.update_id + 1;
+                await handleTelegramUpdate(update);
+            }
+        } catch (error) {
+            if (!running) break;
+            log.warn('Telegram poll failed — retrying', { error: String(error) });
+            await new Promise<void>(resolve => {
+                const timer = setTimeout(resolve, POLL_ERROR_BACKOFF_MS);
+                poller?.signal.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+            });
+        }
+    }
+}
+
+/**
+ * Start long polling if a bot token and admin ids are configured. No-op otherwise.
+ */
+export function startTelegramBot(): void {
+    if (running || !isTelegramControlConfigured) return;
+    running = true;
+    poller = new AbortController();
+    pollLoop = runPollLoop();
+    log.info(`📲 Telegram control bot polling (${config.TELEGRAM_ADMIN_IDS.length} admin(s))`);
+}
+
+/**
+ * Stop polling (graceful shutdown). Resolves once the in-flight poll is aborted.
+ */
+export async function stopTelegramBot(): Promise<void> {
+    if (!running) return;
+    running = false;
+    poller?.abort();
+    await pollLoop;
+    poller = null;
+    pollLoop = null;
+}
@@ -0,0 +1,87 @@
+import { config, isTelegramBroadcastConfigured } from '../config.js';
+import { createLogger } from '../logger.js';
+import { sendTelegramMessage, telegramMessageUrl } from '../platforms/telegram.js';
+import { getPlatform, type PlatformId } from '../platforms/index.js';
+import { collectDailySummary, type DailySummaryData } from '../net/daily-summary.js';
+import { canPerformWrites } from './posting-mode.js';
+import { THREAD_SEPARATOR } from './review-queue.js';
+
+// ============================================================================
+// QasidAI — Telegram Channel Broadcaster
+// Mirrors selected published posts (schedule jobs with `broadcast: true`) and
+// the end-of-day summary to TELEGRAM_CHANNEL_ID. Broadcasts are best-effort:
+// a failed send is logged and never affects the original post.
+// ============================================================================
+
+const log = createLogger('TelegramBroadcast');
+
+/** Telegram display names for the source platform line */
+const PLATFORM_LABELS: Record<PlatformId, string> = {
+    x: '𝕏',
+    botchan: '⛓️ Botchan',
+    bluesky: '🦋 Bluesky',
+    farcaster: '🟪 Farcaster',
+    discord: '💬 Discord',
+};
+
+async function sendToChannel(text: string, label: string): Promise<boolean> {
+    if (!isTelegramBroadcastConfigured) return false;
+    if (!canPerformWrites()) {
+        log.info(`[DRY RUN] Would broadcast ${label} to Telegram`, { preview: text.slice(0, 100) });
+        return false;
+    }
+
+    const channel = config.TELEGRAM_CHANNEL_ID!;
+    const messageId = await sendTelegramMessage(channel, text);
+    if (messageId === null) return false;
+    log.info(`📣 ${label} broadcast to Telegram`, { url: telegramMessageUrl(channel, messageId) ?? messageId });
+    return true;
+}
+
+/**
+ * Broadcast a published post (threads are sent as one message) with a link
+ * back to the original. Dry-run ids are never broadcast.
+ */
+export async function broadcastPost(
+    post: { content: string; platform: PlatformId },
+    externalId: string,
+): Promise<boolean> {
+    if (externalId.startsWith('dry-run')) return false;
+
+    const url = getPlatform(post.platform).postUrl(externalId);
+    const text = [
+        post.content.split(THREAD_SEPARATOR).join('\n\n'),
+        url ? `${PLATFORM_LABELS[post.platform]} → ${url}` : PLATFORM_LABELS[post.platform],
+    ].join('\n\n');
+    return sendToChannel(text, 'Post');
+}
+
+/**
+ * Plain-text digest of the day for the channel.
+ */
+export function formatDailySummary(summary: DailySummaryData): string {
+    const byPlatform = new Map<string, number>();
+    for (const post of summary.posts) {
+        byPlatform.set(post.platform, (byPlatform.get(post.platform) ?? 0) + 1);
+    }
+    const platformLine = [...byPlatform]
+        .map(([id, count]) => `${PLATFORM_LABELS[id as PlatformId] ?? id} ${count}`)
+        .join(' · ');
+
+    return [
+        `📝 QasidAI daily summary — ${summary.date}`,
+        `${summary.totalPosts} post${summary.totalPosts === 1 ? '' : 's'}: ${platformLine}`,
+        `Content: ${summary.contentTypes.map(t => t.replace(/_/g, ' ')).join(', ')}`,
+        `Brain: ${summary.tokenUsage.llmCalls} LLM calls ($${summary.tokenUsage.llmCostUsd.toFixed(2)})`,
+    ].join('\n');
+}
+
+/**
+ * Broadcast today's summary (skipped when nothing was posted).
+ */
+export async function broadcastDailySummary(): Promise<boolean> {
+    if (!isTelegramBroadcastConfigured) return false;
+    const summary = await collectDailySummary();
+    if (!summary) return false;
+    return sendToChannel(formatDailySummary(summary), 'Daily summary');
+}
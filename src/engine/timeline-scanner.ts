@@ -1,13 +1,18 @@
-import { generate } from './llm.js';
+import { z } from 'zod';
+import { generateStructured } from './llm.js';
 import { sanitizeContent } from './content.js';
 import { searchRecentTweets, replyToTweet, type SearchResult } from '../platforms/x.js';
+import { checkXQuota } from '../platforms/x-rate-limit.js';
 import { gatherIntelContext } from '../data/intelligence.js';
 import { hasRepliedTo, recordReply } from './reply-tracker.js';
-import { recordAction } from './daily-budget.js';
+import { reserveBudget, publishWithReservation } from './daily-budget.js';
 import { supabase } from '../supabase.js';
 import { createLogger } from '../logger.js';
 import { config } from '../config.js';
 import { sanitizeUserInput } from './sanitize-input.js';
+import { definePrompt } from './prompt-registry.js';
+import { isReviewMode } from './posting-mode.js';
+import { enqueueDraft, hasPendingDraftFor } from './review-queue.js';
 
 // ============================================================================
 // QasidAI — Timeline Scanner
@@ -66,20 +71,24 @@ async function getRepliesLast24h(): Promise<number> {
 
 // ---- LLM Evaluation ----
 
-/**
- * Use LLM to evaluate a tweet and draft a reply.
- * Returns null if the tweet isn't worth replying to.
- */
-async function evaluateAndDraftReply(
-    tweet: SearchResult,
-    intelContext: string,
-): Promise<string | null> {
-    const prompt = `You found this tweet on X while scanning for engagement opportunities:
+/** Structured reply verdict + draft */
+const replyVerdictSchema = z.object({
+    verdict: z.enum(['REPLY', 'SKIP']),
+    reason: z.string().describe('one sentence why'),
+    reply: z.string().nullable().describe('your reply text, or null when skipping'),
+});
+
+/** Timeline reply verdict + draft */
+const timelineReplyPrompt = definePrompt({
+    id: 'timeline.reply',
+    version: 1,
+    description: 'Decide whether to reply to a searched tweet and draft the reply',
+    template: (vars: { author: string; text: string; likes: number; replies: number; intelContext: string }) => `You found this tweet on X while scanning for engagement opportunities:
 
-TWEET by @${tweet.authorUsername ?? 'unknown'}:
-"${sanitizeUserInput(tweet.text)}"
+TWEET by @${vars.author}:
+"${sanitizeUserInput(vars.text)}"
 
-Engagement: ${tweet.metrics?.like_count ?? 0} likes, ${tweet.metrics?.reply_count ?? 0} replies
+Engagement: ${vars.likes} likes, ${vars.replies} replies
 
 YOUR TASK:
 1. Decide if this tweet is worth replying to. Reply ONLY if the topic is genuinely related to crypto trading, AI agents, market analysis, or DeFi. Do NOT reply to spam, scams, or irrelevant content.
@@ -91,39 +100,47 @@ YOUR TASK:
    - May reference LISAN Intelligence data if relevant
 
 LIVE MARKET CONTEXT:
-${intelContext.slice(0, 500)}
+${vars.intelContext.slice(0, 500)}`,
+});
 
-RESPOND IN EXACTLY THIS FORMAT:
-VERDICT: REPLY or SKIP
-REASON: [one sentence why]
-REPLY: [your reply text, or "none"]`;
+/**
+ * Use LLM to evaluate a tweet and draft a reply.
+ * Returns null if the tweet isn't worth replying to.
+ */
+async function evaluateAndDraftReply(
+    tweet: SearchResult,
+    intelContext: string,
+): Promise<string | null> {
+    const prompt = timelineReplyPrompt.render({
+        author: tweet.authorUsername ?? 'unknown',
+        text: tweet.text,
+        likes: tweet.metrics?.like_count ?? 0,
+        replies: tweet.metrics?.reply_count ?? 0,
+        intelContext,
+    }).text;
 
     try {
-        const result = await generate({
+        const result = await generateStructured({
+            task: 'reply',
+            module: 'timeline-scanner',
+            schema: replyVerdictSchema,
             prompt,
-            maxTokens: 200,
             temperature: 0.8,
         });
 
-        const text = result.content.trim();
-
-        // Parse the structured response
-        const verdictMatch = text.match(/VERDICT:\s*(REPLY|SKIP)/i);
-        if (!verdictMatch || verdictMatch[1].toUpperCase() === 'SKIP') {
-            const reasonMatch = text.match(/REASON:\s*(.+)/i);
+        if (result.data.verdict === 'SKIP') {
             log.debug('Skipping tweet', {
                 tweetId: tweet.id,
-                reason: reasonMatch?.[1]?.slice(0, 100) ?? 'no reason given',
+                reason: result.data.reason.slice(0, 100),
             });
             return null;
         }
 
-        const replyMatch = text.match(/REPLY:\s*(.+)/is);
-        if (!replyMatch || replyMatch[1].trim().toLowerCase() === 'none') {
+        if (!result.data.reply?.trim()) {
             return null;
         }
 
-        let reply = replyMatch[1].trim();
+        let reply = result.data.reply.trim();
 
         // Strip quotes if LLM wrapped the reply
         reply = reply.replace(/^["']|["']$/g, '');
@@ -180,6 +197,13 @@ export async function runTimelineScan(): Promise<number> {
     for (const query of queries) {
         if (totalReplies >= remainingBudget) break;
 
+        // Leave some search quota for mentions/founder work
+        const quota = checkXQuota('search', 'normal');
+        if (!quota.allowed) {
+            log.info(`Stopping timeline scan — ${quota.reason}`, { resetAt: quota.resetAt?.toISOString() });
+            break;
+        }
+
         log.info(`Searching: "${query}"`);
 
         try {
@@ -198,6 +222,9 @@ export async function runTimelineScan(): Promise<number> {
                 // Skip if already replied
                 if (await hasRepliedTo(tweet.id)) continue;
 
+                // Skip if a reply is already waiting for review
+                if (isReviewMode() && await hasPendingDraftFor(tweet.id)) continue;
+
                 candidates.push(tweet);
             }
 
@@ -212,6 +239,21 @@ export async function runTimelineScan(): Promise<number> {
                 const replyText = await evaluateAndDraftReply(candidate, intelContext);
                 if (!replyText) continue;
 
+                // Review mode: queue for approval (budget is reserved on approval)
+                if (isReviewMode()) {
+                    const queued = await enqueueDraft({
+                        kind: 'reply',
+                        content: replyText,
+                        source: query,
+                        budgetAction: 'reply',
+                        targetId: candidate.id,
+                        targetAuthor: candidate.authorUsername ?? candidate.authorId,
+                        prompt: timelineReplyPrompt,
+                    });
+                    if (queued) totalReplies++;
+                    continue;
+                }
+
                 // Post the reply
                 log.info('Replying to tweet', {
                     tweetId: candidate.id,
@@ -219,14 +261,14 @@ export async function runTimelineScan(): Promise<number> {
                     reply: replyText.slice(0, 80),
                 });
 
-                // Reserve budget BEFORE posting (integrates with daily-budget.ts)
-                const budgetOk = await recordAction('reply', `Scanner reply to @${candidate.authorUsername}: ${replyText.slice(0, 60)}`);
-                if (!budgetOk) {
+                // Reserve budget BEFORE posting (refunded if the reply fails)
+                const reservation = await reserveBudget('reply', `Scanner reply to @${candidate.authorUsername}: ${replyText.slice(0, 60)}`);
+                if (!reservation) {
                     log.info('Budget exhausted — stopping timeline scan');
                     break;
                 }
 
-                const replyId = await replyToTweet(candidate.id, replyText);
+                const replyId = await publishWithReservation(reservation, () => replyToTweet(candidate.id, replyText));
 
                 if (replyId) {
                     await recordReply(
@@ -235,6 +277,7 @@ export async function runTimelineScan(): Promise<number> {
                         replyId,
                         replyText,
                         query,
+                        timelineReplyPrompt,
                     );
                     totalReplies++;
                     log.info('✅ Reply posted', {
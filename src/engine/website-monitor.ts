@@ -1,5 +1,5 @@
-import { generate } from './llm.js';
-import { addKnowledge } from './dynamic-knowledge.js';
+import { generateStructured } from './llm.js';
+import { addKnowledge, extractedFactsSchema } from './dynamic-knowledge.js';
 import { supabase } from '../supabase.js';
 import { createLogger } from '../logger.js';
 import { createHash } from 'node:crypto';
@@ -96,7 +96,10 @@ async function checkPage(url: string, label: string): Promise<number> {
     // Extract what changed
     const oldText = existing?.raw_text ?? '(first scan — no previous content)';
     const result = await withRetry(async () => {
-        return generate({
+        return generateStructured({
+            task: 'knowledge_extraction',
+            module: 'website-monitor',
+            schema: extractedFactsSchema,
             prompt: `You are QasidAI, autonomous CMO of Lisan Holdings. A website you monitor has changed.
 
 WEBSITE: ${label} (${url})
@@ -111,11 +114,9 @@ What's NEW or CHANGED? Extract specific factual updates about products, features
 
 If this is the first scan (no previous content), extract the key facts about the page.
 
-If nothing meaningful changed (just layout/styling), respond with: NONE
+If nothing meaningful changed (just layout/styling), return an empty facts list.
 
-Output specific facts, one per line:`,
-            maxTokens: 300,
-            temperature: 0.3,
+List each specific fact separately.`,
         });
     }, {
         maxRetries: 2,
@@ -134,13 +135,9 @@ Output specific facts, one per line:`,
             checked_at: new Date().toISOString(),
         }, { onConflict: 'url' });
 
-    const text = result.content.trim();
-    if (text === 'NONE' || text.length < 5) return 0;
-
-    const facts = text
-        .split('\n')
-        .map(line => line.replace(/^[-•*]\s*/, '').trim())
-        .filter(line => line.length > 10);
+    const facts = result.data.facts
+        .map(fact => fact.trim())
+        .filter(fact => fact.length > 10);
 
     let stored = 0;
     for (const fact of facts) {
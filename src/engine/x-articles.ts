@@ -42,9 +42,9 @@ export async function generateArticle(type?: ArticleType): Promise<GeneratedArti
         const prompt = buildArticlePrompt(articleType, intelContext);
 
         const result = await generate({
+            task: 'article',
+            module: 'x-articles',
             prompt,
-            maxTokens: 2000,
-            temperature: 0.85,
         });
 
         const content = result.content.trim();
@@ -1,15 +1,18 @@
 import 'dotenv/config';
 import { config } from './config.js';
 import { setLogLevel, createLogger } from './logger.js';
-import { isXConfigured, isNetConfigured } from './config.js';
+import { isXConfigured, isNetConfigured, isBlueskyConfigured, isFarcasterConfigured, isDiscordConfigured, isTelegramBroadcastConfigured, isTelegramControlConfigured, postingMode } from './config.js';
 import { startScheduler, stopScheduler, runOnce, runOnceWithBotchan } from './scheduler/cron.js';
 import { generatePost } from './engine/content.js';
+import type { DraftStatus } from './engine/review-queue.js';
 import { uploadFullBrain, BRAIN_KEYS } from './net/brain.js';
 import { uploadProfile, readProfile } from './net/profile.js';
 import { getWalletAddress, readStorage, getTotalVersions, postToFeed } from './net/client.js';
 import { buildSystemPrompt } from './personality/system-prompt.js';
 import { brandKnowledge } from './personality/brand-knowledge.js';
 import { buildAndWriteDailySummary } from './net/daily-summary.js';
+import { startReviewServer, stopReviewServer } from './engine/review-server.js';
+import { startTelegramBot, stopTelegramBot } from './engine/telegram-bot.js';
 
 // ============================================================================
 // QasidAI — Entry Point
@@ -33,13 +36,30 @@ async function main() {
 
     // Fix 9: Startup capability health check
     const xStatus = isXConfigured ? '[OK] Configured' : '[MISSING] Missing keys';
+    const blueskyStatus = isBlueskyConfigured ? `[OK] ${config.BLUESKY_HANDLE} via ${config.BLUESKY_SERVICE}` : '[MISSING] Not configured';
+    const farcasterStatus = isFarcasterConfigured ? `[OK] FID ${config.FARCASTER_FID} via ${config.FARCASTER_HUB_URL}` : '[MISSING] Not configured';
+    const discordStatus = isDiscordConfigured
+        ? `[OK] ${config.DISCORD_ROUTES.map(r => `#${r.channel}`).join(', ')}`
+        : '[MISSING] Not configured';
+    const telegramStatus = isTelegramBroadcastConfigured || isTelegramControlConfigured
+        ? `[OK] ${[
+            isTelegramBroadcastConfigured && `channel ${config.TELEGRAM_CHANNEL_ID}`,
+            isTelegramControlConfigured && `control bot (${config.TELEGRAM_ADMIN_IDS.length} admin(s))`,
+        ].filter(Boolean).join(' + ')}`
+        : '[MISSING] Not configured';
     const replicateStatus = config.REPLICATE_API_TOKEN ? '[OK] Configured' : '[MISSING] REPLICATE_API_TOKEN not set';
     const netStatus = isNetConfigured ? `[OK] Active (${getWalletAddress()})` : '[MISSING] Not configured';
-    const postingStatus = config.POSTING_ENABLED ? '[LIVE]' : '[DRY RUN]';
-    const anthropicStatus = config.ANTHROPIC_API_KEY ? '[OK] Ready' : '[MISSING] Missing';
+    const postingStatus = postingMode === 'live' ? '[LIVE]' : postingMode === 'review' ? '[REVIEW] Drafts queued for approval' : '[DRY RUN]';
+    const anthropicStatus = config.LLM_PROVIDER === 'fixture'
+        ? `[FIXTURE] ${config.LLM_FIXTURE_MODE} (${config.LLM_FIXTURE_DIR})`
+        : config.ANTHROPIC_API_KEY ? '[OK] Ready' : '[MISSING] Missing';
 
     log.info('=== QasidAI Capability Check ===');
     log.info(`  X Posting:      ${xStatus}`);
+    log.info(`  Bluesky:        ${blueskyStatus}`);
+    log.info(`  Farcaster:      ${farcasterStatus}`);
+    log.info(`  Discord:        ${discordStatus}`);
+    log.info(`  Telegram:       ${telegramStatus}`);
     log.info(`  Image Gen:      ${replicateStatus}`);
     log.info(`  Net Protocol:   ${netStatus}`);
     log.info(`  Anthropic LLM:  ${anthropicStatus}`);
@@ -59,6 +79,7 @@ async function main() {
         console.log(`Tone: ${post.tone} | Topic: ${post.topic}`);
         console.log('═'.repeat(60));
         console.log(post.content);
+        if (post.poll) console.log(`\nPoll (${post.poll.durationMinutes} min): ${post.poll.options.join(' | ')}`);
         console.log('═'.repeat(60));
         console.log(`Tokens: ${post.inputTokens} in / ${post.outputTokens} out`);
         console.log(`Estimated cost: $${((post.inputTokens / 1000000) * 1 + (post.outputTokens / 1000000) * 5).toFixed(4)}`);
@@ -100,6 +121,51 @@ async function main() {
         process.exit(0);
     }
 
+    if (args[0] === 'telegram-check') {
+        // Verify the bot token and (optionally) send a test message to the channel
+        if (!config.TELEGRAM_BOT_TOKEN) {
+            console.error('❌ Telegram not configured. Set TELEGRAM_BOT_TOKEN in .env');
+            process.exit(1);
+        }
+        const { getTelegramBot, sendTelegramMessage } = await import('./platforms/telegram.js');
+        try {
+            const bot = await getTelegramBot();
+            console.log(`\n✅ Bot API token valid: @${bot.username} (${bot.id})`);
+            console.log(`   Channel: ${config.TELEGRAM_CHANNEL_ID ?? '— (broadcasts off)'}`);
+            console.log(`   Admins:  ${config.TELEGRAM_ADMIN_IDS.join(', ') || '— (control bot off)'}`);
+            if (args[1] === 'send' && config.TELEGRAM_CHANNEL_ID) {
+                const messageId = await sendTelegramMessage(config.TELEGRAM_CHANNEL_ID, args.slice(2).join(' ') || 'QasidAI checking in 📣');
+                console.log(messageId !== null ? `   Test message sent (id ${messageId})` : '   ❌ Test message failed — is the bot a channel admin?');
+            }
+        } catch (error) {
+            console.error(`\n❌ Telegram check failed:`, String(error));
+            process.exit(1);
+        }
+        process.exit(0);
+    }
+
+    if (args[0] === 'bluesky-check') {
+        // Log in to the configured PDS and list recent mentions (read-only)
+        if (!isBlueskyConfigured) {
+            console.error('❌ Bluesky not configured. Set BLUESKY_HANDLE and BLUESKY_APP_PASSWORD in .env');
+            process.exit(1);
+        }
+        const { getBlueskyIdentity, getBlueskyMentions } = await import('./platforms/bluesky.js');
+        try {
+            const identity = await getBlueskyIdentity();
+            console.log(`\n✅ Logged in to ${config.BLUESKY_SERVICE} as @${identity.handle} (${identity.did})`);
+            const mentions = await getBlueskyMentions(10);
+            console.log(`   Recent mentions/replies: ${mentions.length} (${mentions.filter(m => !m.isRead).length} unread)`);
+            for (const m of mentions) {
+                console.log(`   ${m.isRead ? '  ' : '🆕'} [${m.reason}] @${m.authorHandle}: ${m.text.slice(0, 80)}`);
+            }
+        } catch (error) {
+            console.error(`\n❌ Bluesky check failed:`, String(error));
+            process.exit(1);
+        }
+        process.exit(0);
+    }
+
     if (args[0] === 'x-check') {
         // Diagnose X API capabilities
         if (!isXConfigured) {
@@ -111,6 +177,7 @@ async function main() {
         console.log('─'.repeat(60));
 
         const { checkXCapabilities } = await import('./platforms/x.js');
+        const { getRateLimitSnapshot } = await import('./platforms/x-rate-limit.js');
         const results = await checkXCapabilities();
 
         for (const r of results) {
@@ -119,6 +186,18 @@ async function main() {
             console.log(`     ${r.detail}`);
         }
 
+        // Quota as reported by the response headers of the checks above
+        const limits = getRateLimitSnapshot();
+        if (limits.length > 0) {
+            console.log('─'.repeat(60));
+            console.log('  Rate limits (from response headers):');
+            for (const l of limits) {
+                const icon = l.remaining <= 0 ? '🛑' : l.remaining <= Math.ceil(l.limit * 0.1) ? '⚠️' : '  ';
+                const scope = l.scope === 'window' ? '' : ` [${l.scope}]`;
+                console.log(`  ${icon} ${l.key.padEnd(40)} ${String(l.remaining).padStart(5)}/${l.limit}${scope}  resets ${l.resetAt.toLocaleTimeString()}`);
+            }
+        }
+
         console.log('─'.repeat(60));
 
         const passCount = results.filter(r => r.status === 'pass').length;
@@ -137,6 +216,160 @@ async function main() {
         process.exit(0);
     }
 
+    if (args[0] === 'llm-spend') {
+        // LLM spend rollups from the ledger (today + rolling 7 days)
+        const { getDailySpendRollup, getWeeklySpendRollup, formatSpendRollup } = await import('./engine/llm-ledger.js');
+        const [daily, weekly] = await Promise.all([getDailySpendRollup(), getWeeklySpendRollup()]);
+
+        console.log('\n💸 LLM Spend');
+        console.log('─'.repeat(60));
+        console.log(formatSpendRollup('Today', daily));
+        console.log();
+        console.log(formatSpendRollup('Last 7 days', weekly));
+        console.log('─'.repeat(60));
+        const cap = config.LLM_DAILY_COST_CAP_USD;
+        console.log(cap > 0
+            ? `Daily cap: $${daily.totalCost.toFixed(2)}/$${cap.toFixed(2)}${daily.totalCost >= cap ? ' — 🛑 non-critical calls blocked' : ''}`
+            : 'Daily cap: disabled');
+        console.log();
+        process.exit(0);
+    }
+
+    if (args[0] === 'prompt-stats') {
+        // Scored-post performance per prompt template version (last 30 days)
+        const { getPromptPerformance } = await import('./learning/meta-review.js');
+        const breakdown = await getPromptPerformance(30);
+        const rows = Object.entries(breakdown).sort(([, a], [, b]) => b.avgScore - a.avgScore);
+
+        console.log('\n🧪 Prompt Performance (last 30 days, scored posts)');
+        console.log('─'.repeat(60));
+        if (rows.length === 0) console.log('No scored posts yet.');
+        for (const [ref, { posts, avgScore }] of rows) {
+            console.log(`${ref.padEnd(40)} ${String(posts).padStart(4)} posts  avg ${avgScore}`);
+        }
+        console.log();
+        process.exit(0);
+    }
+
+    if (args[0] === 'schedule') {
+        // Resolved daily timeline from the schedule file (optional date: YYYY-MM-DD)
+        const { resolveSchedule } = await import('./scheduler/cron.js');
+        const { listRunTimes, dayWindow, formatClock, todayIn } = await import('./scheduler/schedule.js');
+
+        let schedule: ReturnType<typeof resolveSchedule>;
+        try {
+            schedule = resolveSchedule();
+        } catch (error) {
+            console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+            process.exit(1);
+        }
+
+        const date = args[1] ?? todayIn(schedule.timezone);
+        const { start, end } = dayWindow(date, schedule.timezone);
+        const runs = schedule.jobs
+            .filter(job => job.active)
+            .flatMap(job => listRunTimes(job.cron, job.timezone, start, end).map(at => ({ at, job })))
+            .sort((a, b) => a.at.getTime() - b.at.getTime() || a.job.id.localeCompare(b.job.id));
+
+        console.log(`\n🗓️  Schedule for ${date} (${schedule.timezone}) — ${config.SCHEDULE_FILE}`);
+        console.log('─'.repeat(60));
+        for (const { at, job } of runs) {
+            const params = Object.keys(job.params).length > 0 ? ` ${JSON.stringify(job.params)}` : '';
+            console.log(`${formatClock(at, schedule.timezone)}  ${job.id.padEnd(24)} ${job.handler}${params}`);
+        }
+        console.log('─'.repeat(60));
+        console.log(`${runs.length} runs on ${date} from ${schedule.jobs.filter(j => j.active).length} active jobs`);
+
+        const idle = schedule.jobs.filter(job => job.active && !runs.some(r => r.job.id === job.id));
+        if (idle.length > 0) {
+            console.log(`Not running on ${date}: ${idle.map(j => `${j.id} (${j.cron})`).join(', ')}`);
+        }
+        const inactive = schedule.jobs.filter(job => !job.active);
+        if (inactive.length > 0) {
+            console.log(`Inactive: ${inactive.map(j => `${j.id} (${j.inactiveReason})`).join(', ')}`);
+        }
+        console.log();
+        process.exit(0);
+    }
+
+    if (args[0] === 'jobs') {
+        // Recent scheduler job runs (optionally for one job id)
+        const { listJobRuns } = await import('./scheduler/job-runs.js');
+        const runs = await listJobRuns({ jobId: args[1] });
+
+        console.log(`\n⏱️  Job Runs${args[1] ? ` — ${args[1]}` : ''} (newest first)`);
+        console.log('─'.repeat(60));
+        if (runs.length === 0) console.log('No runs recorded yet.');
+        for (const run of runs) {
+            const icon = run.status === 'success' ? '✅' : run.status === 'failed' ? '❌' : run.status === 'running' ? '⏳' : '⚠️';
+            const duration = run.durationMs !== null ? ` ${(run.durationMs / 1000).toFixed(1)}s` : '';
+            const counts = Object.keys(run.counts).length > 0 ? ` ${JSON.stringify(run.counts)}` : '';
+            const trigger = run.trigger !== 'cron' ? ` [${run.trigger}]` : '';
+            console.log(`${icon} ${run.startedAt.slice(0, 16).replace('T', ' ')}  ${run.jobId}${trigger}${duration}${counts}`);
+            if (run.error) console.log(`     ${run.error.slice(0, 160)}`);
+        }
+        console.log();
+        process.exit(0);
+    }
+
+    if (args[0] === 'review') {
+        // Review queue: list | approve <id> | edit <id> <text> | reject <id> [reason]
+        const { listDrafts, approveDraft, rejectDraft, formatDraft } = await import('./engine/review-queue.js');
+        const sub = args[1] ?? 'list';
+
+        if (sub === 'list') {
+            const status = (args[2] ?? 'pending') as DraftStatus;
+            const drafts = await listDrafts(status);
+            console.log(`\n📝 Review Queue (${status}: ${drafts.length})`);
+            console.log('─'.repeat(60));
+            if (drafts.length === 0) console.log('Nothing here.');
+            for (const draft of drafts) {
+                console.log(formatDraft(draft));
+                console.log();
+            }
+            process.exit(0);
+        }
+
+        const id = Number(args[2]);
+        if (!Number.isInteger(id) || !['approve', 'edit', 'reject'].includes(sub)) {
+            console.error('Usage: review [list [status]] | approve <id> | edit <id> <text...> | reject <id> [reason...]');
+            process.exit(1);
+        }
+
+        const result = sub === 'reject'
+            ? await rejectDraft(id, args.slice(3).join(' ') || undefined)
+            : await approveDraft(id, sub === 'edit' ? args.slice(3).join(' ') : undefined);
+
+        if (!result.ok) {
+            console.error(`❌ ${result.error}`);
+            process.exit(1);
+        }
+        console.log(sub === 'reject' ? `🗑️ Draft #${id} rejected` : `✅ Draft #${id} published (${'externalId' in result ? result.externalId : ''})`);
+        process.exit(0);
+    }
+
+    if (args[0] === 'retract') {
+        // Take a post down: retract <tweet-url|tweet-id|post-id> [--correct] [reason...]
+        const { retractPost } = await import('./engine/retraction.js');
+        const correct = args.includes('--correct');
+        const rest = args.slice(1).filter(a => a !== '--correct');
+        if (!rest[0]) {
+            console.error('Usage: retract <tweet-url|tweet-id|post-id> [--correct] [reason...]');
+            process.exit(1);
+        }
+
+        try {
+            const result = await retractPost(rest[0], { reason: rest.slice(1).join(' ') || undefined, correct });
+            console.log(`🗑️ Post ${result.postId} retracted (${result.platform}: ${result.deleted}/${result.total} deleted)`);
+            if (result.correctionId) console.log(`✏️ Correction posted: ${result.correctionId}`);
+            else if (correct) console.log('✏️ Correction not posted (queued for review, or no budget)');
+        } catch (error) {
+            console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+            process.exit(1);
+        }
+        process.exit(0);
+    }
+
     if (args[0] === 'knowledge-sync') {
         // Manually trigger all knowledge monitors
         const { runFounderMonitor } = await import('./engine/founder-monitor.js');
@@ -282,10 +515,20 @@ async function main() {
     // Default: start the scheduler
     startScheduler();
 
+    // Review mode: optional local approval endpoint
+    if (postingMode === 'review') {
+        startReviewServer();
+    }
+
+    // Private founder console (no-op without TELEGRAM_BOT_TOKEN + TELEGRAM_ADMIN_IDS)
+    startTelegramBot();
+
     // Graceful shutdown
     const shutdown = async () => {
         log.info('Shutting down QasidAI...');
-        stopScheduler();
+        await stopScheduler();
+        stopReviewServer();
+        await stopTelegramBot();
         process.exit(0);
     };
 
@@ -1,11 +1,11 @@
 import { supabase } from '../supabase.js';
 import { createLogger } from '../logger.js';
-import { getTweetMetrics } from '../platforms/x.js';
+import { getPlatform, isPlatformId, type PlatformId, type PlatformMetrics } from '../platforms/index.js';
 import { updatePostMetrics } from './tracker.js';
 
 // ============================================================================
 // QasidAI — Engagement Pipeline
-// Fetches real tweet metrics from X API and backfills Supabase
+// Fetches real post metrics from each platform (via its adapter) and backfills Supabase
 // Run this BEFORE scoring so the scorer has real data to work with
 // ============================================================================
 
@@ -14,12 +14,13 @@ const log = createLogger('Engagement');
 interface PostWithExternalId {
     id: string;
     external_id: string;
+    platform: string;
     reactions: number | null;
     posted_at: string;
 }
 
 /**
- * Fetch all posts that have a real external_id (tweet ID) but haven't
+ * Fetch all posts that have a real external_id (platform post ID) but haven't
  * had their metrics updated yet, or were posted recently and might
  * have new engagement.
  *
@@ -31,9 +32,10 @@ async function getPostsNeedingMetrics(): Promise<PostWithExternalId[]> {
     // Pass 1: Posts with no metrics at all
     const { data: unmetric, error: err1 } = await supabase
         .from('qasid_posts')
-        .select('id, external_id, reactions, posted_at')
+        .select('id, external_id, platform, reactions, posted_at')
         .not('external_id', 'is', null)
         .not('external_id', 'like', 'dry-run-%')
+        .is('retracted_at', null)
         .is('reactions', null)
         .order('posted_at', { ascending: false })
         .limit(100);
@@ -46,9 +48,10 @@ async function getPostsNeedingMetrics(): Promise<PostWithExternalId[]> {
     const cutoff48h = new Date(Date.now() - 48 * 60 * 60 * 1000).toISOString();
     const { data: recent, error: err2 } = await supabase
         .from('qasid_posts')
-        .select('id, external_id, reactions, posted_at')
+        .select('id, external_id, platform, reactions, posted_at')
         .not('external_id', 'is', null)
         .not('external_id', 'like', 'dry-run-%')
+        .is('retracted_at', null)
         .gte('posted_at', cutoff48h)
         .order('posted_at', { ascending: false })
         .limit(50);
@@ -68,7 +71,7 @@ async function getPostsNeedingMetrics(): Promise<PostWithExternalId[]> {
 }
 
 /**
- * Main engagement pipeline: fetch metrics from X API and update Supabase.
+ * Main engagement pipeline: fetch metrics from each platform and update Supabase.
  * Returns the number of posts updated.
  */
 export async function fetchAndUpdateEngagement(): Promise<number> {
@@ -88,28 +91,50 @@ export async function fetchAndUpdateEngagement(): Promise<number> {
     log.info(`Stage 1: Found ${posts.length} posts needing updates`, {
         needFirstFetch: withoutMetrics,
         needRefresh: withMetrics,
-        sampleTweetIds: posts.slice(0, 3).map(p => p.external_id),
+        sampleExternalIds: posts.slice(0, 3).map(p => p.external_id),
     });
 
-    // Stage 2: Fetch metrics from X API
-    const tweetIds = posts.map(p => p.external_id);
-    const postByTweetId = new Map(posts.map(p => [p.external_id, p]));
-
-    const metricsMap = await getTweetMetrics(tweetIds);
-
-    // Stage 3: Diagnose API response
-    if (metricsMap.size === 0) {
-        log.warn('⚠️ API_TIER_LIMITATION: X API returned 0 metrics', {
-            tweetIdsSent: tweetIds.length,
-            diagnosis: 'X Free tier does not support GET /2/tweets with public_metrics. ' +
-                'Upgrade to Basic tier ($100/mo) to enable the learning loop, or ' +
-                'engagement data will remain at zero and weights will never adapt.',
-            sampleIds: tweetIds.slice(0, 5),
-        });
-        return 0;
+    // Stage 2: Fetch metrics per platform (platforms without metrics are skipped)
+    const byPlatform = new Map<PlatformId, PostWithExternalId[]>();
+    for (const post of posts) {
+        if (!isPlatformId(post.platform)) continue;
+        const list = byPlatform.get(post.platform) ?? [];
+        list.push(post);
+        byPlatform.set(post.platform, list);
+    }
+
+    const fetched: Array<{ post: PostWithExternalId; metrics: PlatformMetrics }> = [];
+    let requested = 0;
+    for (const [platformId, platformPosts] of byPlatform) {
+        const platform = getPlatform(platformId);
+        if (!platform.capabilities.metrics || !platform.isConfigured()) continue;
+
+        const postByExternalId = new Map(platformPosts.map(p => [p.external_id, p]));
+        const metricsMap = await platform.getMetrics([...postByExternalId.keys()]);
+        requested += postByExternalId.size;
+
+        // Stage 3: Diagnose API response
+        if (metricsMap.size === 0) {
+            log.warn(`⚠️ API_TIER_LIMITATION: ${platform.displayName} returned 0 metrics`, {
+                idsSent: postByExternalId.size,
+                diagnosis: platform.id === 'x'
+                    ? 'X Free tier does not support GET /2/tweets with public_metrics. ' +
+                    'Upgrade to Basic tier ($100/mo) to enable the learning loop, or ' +
+                    'engagement data will remain at zero and weights will never adapt.'
+                    : 'The platform returned no metrics for these posts.',
+                sampleIds: [...postByExternalId.keys()].slice(0, 5),
+            });
+            continue;
+        }
+
+        log.info(`Stage 2: ${platform.displayName} returned metrics for ${metricsMap.size}/${postByExternalId.size} posts`);
+        for (const [externalId, metrics] of metricsMap) {
+            const post = postByExternalId.get(externalId);
+            if (post) fetched.push({ post, metrics });
+        }
     }
 
-    log.info(`Stage 2: X API returned metrics for ${metricsMap.size}/${tweetIds.length} tweets`);
+    if (fetched.length === 0) return 0;
 
     // Stage 4: Update Supabase
     let updated = 0;
@@ -117,28 +142,26 @@ export async function fetchAndUpdateEngagement(): Promise<number> {
     let totalReplies = 0;
     let totalImpressions = 0;
 
-    for (const [tweetId, metrics] of metricsMap) {
-        const post = postByTweetId.get(tweetId);
-        if (!post) continue;
-
+    for (const { post, metrics } of fetched) {
         try {
             // Fix 12: Column name mapping (legacy misnomers — renaming would break data):
-            //   reactions (DB) ← like_count (X API)
-            //   link_clicks (DB) ← impression_count (X API)
+            //   reactions (DB) ← likes
+            //   link_clicks (DB) ← impressions
             await updatePostMetrics({
                 postId: post.id,
-                reactions: metrics.like_count,
-                replies: metrics.reply_count,
-                linkClicks: metrics.impression_count,
+                reactions: metrics.likes,
+                replies: metrics.replies,
+                linkClicks: metrics.impressions,
             });
             updated++;
-            totalLikes += metrics.like_count;
-            totalReplies += metrics.reply_count;
-            totalImpressions += metrics.impression_count;
+            totalLikes += metrics.likes;
+            totalReplies += metrics.replies;
+            totalImpressions += metrics.impressions;
         } catch (error) {
             log.error('Failed to update metrics for post', {
                 postId: post.id,
-                tweetId,
+                externalId: post.external_id,
+                platform: post.platform,
                 error: String(error),
             });
         }
@@ -146,7 +169,7 @@ export async function fetchAndUpdateEngagement(): Promise<number> {
 
     log.info(`═══ ENGAGEMENT PIPELINE COMPLETE ═══`, {
         postsUpdated: `${updated}/${posts.length}`,
-        metricsFromApi: metricsMap.size,
+        metricsFromApi: `${fetched.length}/${requested}`,
         aggregates: {
             totalLikes,
             totalReplies,
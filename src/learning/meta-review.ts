@@ -1,6 +1,7 @@
 import { supabase } from '../supabase.js';
 import { createLogger } from '../logger.js';
 import { snapshotMetaReview } from '../net/brain.js';
+import { formatPromptRef } from '../engine/prompt-registry.js';
 
 // ============================================================================
 // QasidAI — Meta Review
@@ -16,9 +17,51 @@ export interface WeeklyReport {
     bestContentType: string;
     worstContentType: string;
     platformBreakdown: Record<string, { posts: number; avgScore: number }>;
+    /** Per prompt template version ("id@vN"), so wording changes can be compared */
+    promptBreakdown: Record<string, { posts: number; avgScore: number }>;
     trend: 'improving' | 'stable' | 'declining';
 }
 
+/**
+ * Average score per prompt template version. Posts without provenance land in "untracked".
+ */
+function groupByPromptVersion(
+    posts: Array<{ performance_score: number; prompt_id: string | null; prompt_version: number | null }>,
+): Record<string, { posts: number; avgScore: number }> {
+    const breakdown: Record<string, { posts: number; avgScore: number }> = {};
+    for (const post of posts) {
+        const key = formatPromptRef(post.prompt_id && post.prompt_version != null
+            ? { id: post.prompt_id, version: post.prompt_version }
+            : null);
+        if (!breakdown[key]) breakdown[key] = { posts: 0, avgScore: 0 };
+        breakdown[key].posts++;
+        breakdown[key].avgScore += post.performance_score;
+    }
+    for (const key of Object.keys(breakdown)) {
+        breakdown[key].avgScore = Math.round(breakdown[key].avgScore / breakdown[key].posts);
+    }
+    return breakdown;
+}
+
+/**
+ * Scored-post performance per prompt template version over the last N days.
+ */
+export async function getPromptPerformance(days = 30): Promise<Record<string, { posts: number; avgScore: number }>> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    const { data, error } = await supabase
+        .from('qasid_posts')
+        .select('performance_score, prompt_id, prompt_version')
+        .not('performance_score', 'is', null)
+        .is('retracted_at', null)
+        .gte('posted_at', since);
+
+    if (error || !data) {
+        log.warn('Failed to fetch posts for prompt performance', { error: error?.message });
+        return {};
+    }
+    return groupByPromptVersion(data);
+}
+
 /**
  * Run a weekly meta-review comparing this week's performance to last week's.
  */
@@ -32,8 +75,9 @@ export async function runMetaReview(): Promise<WeeklyReport | null> {
     // Fetch this week's scored posts
     const { data: thisWeek, error: err1 } = await supabase
         .from('qasid_posts')
-        .select('content_type, platform, performance_score, reactions, replies')
+        .select('content_type, platform, performance_score, reactions, replies, prompt_id, prompt_version')
         .not('performance_score', 'is', null)
+        .is('retracted_at', null)
         .gte('posted_at', thisWeekStart);
 
     // Fetch last week's scored posts
@@ -41,6 +85,7 @@ export async function runMetaReview(): Promise<WeeklyReport | null> {
         .from('qasid_posts')
         .select('content_type, platform, performance_score')
         .not('performance_score', 'is', null)
+        .is('retracted_at', null)
         .gte('posted_at', lastWeekStart)
         .lt('posted_at', thisWeekStart);
 
@@ -103,6 +148,9 @@ export async function runMetaReview(): Promise<WeeklyReport | null> {
         );
     }
 
+    // Prompt version breakdown
+    const promptBreakdown = groupByPromptVersion(thisWeek);
+
     // Determine trend
     const diff = thisWeekAvg - lastWeekAvg;
     const trend: WeeklyReport['trend'] = diff > 3 ? 'improving' : diff < -3 ? 'declining' : 'stable';
@@ -114,6 +162,7 @@ export async function runMetaReview(): Promise<WeeklyReport | null> {
         bestContentType: typeSorted[0]?.type || 'unknown',
         worstContentType: typeSorted[typeSorted.length - 1]?.type || 'unknown',
         platformBreakdown,
+        promptBreakdown,
         trend,
     };
 
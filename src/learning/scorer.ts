@@ -11,10 +11,14 @@ import { getUnscoredPosts } from './tracker.js';
 // - Time-decay: older posts need more engagement to score the same
 // - Richer formula: engagement rate (likes+replies / impressions) factored in
 // - Bonus multiplier for high engagement rate (viral signal)
+// - Poll votes count as engagement for native X polls
 // ============================================================================
 
 const log = createLogger('Scorer');
 
+/** Polls are scored once their results are in — or after this long without them */
+const POLL_RESULTS_WAIT_HOURS = 72;
+
 /** Cache of average scores per content type (refreshed each scoring run) */
 let typeAverages: Map<string, { avgReactions: number; avgReplies: number; count: number }> = new Map();
 
@@ -26,13 +30,15 @@ let typeAverages: Map<string, { avgReactions: number; avgReplies: number; count:
  * - Engagement rate bonus: if likes+replies / impressions > 2%, +10 points
  * - Content-type benchmark: if above type average, +5 bonus; if below, -5 penalty
  * - Time decay: posts older than 48h get a 10% score reduction per additional day
+ * - Polls: votes add up to 25 points and count toward the engagement rate
  */
-function calculateScore(
+export function calculateScore(
     reactions: number,
     replies: number,
     impressions: number,
     contentType: string,
     hoursOld: number,
+    pollVotes: number = 0,
 ): number {
     // ---- Base score from log-normalized metrics ----
     const normReactions = Math.min(Math.log2(reactions + 1) / 5, 1);   // ~32 reactions = 1.0
@@ -41,10 +47,16 @@ function calculateScore(
 
     let rawScore = normReactions * 0.35 + normReplies * 0.35 + normImpressions * 0.20;
 
+    // ---- Poll votes ----
+    // A vote is a lighter signal than a reply, so it takes more of them to max out
+    if (pollVotes > 0) {
+        rawScore += Math.min(Math.log2(pollVotes + 1) / 6, 1) * 0.25; // ~64 votes = +25
+    }
+
     // ---- Engagement rate bonus ----
     // Viral signal: high engagement relative to reach
     if (impressions > 50) {
-        const engagementRate = (reactions + replies) / impressions;
+        const engagementRate = (reactions + replies + pollVotes) / impressions;
         if (engagementRate > 0.02) {
             rawScore += 0.10; // Bonus for > 2% engagement rate
         }
@@ -82,6 +94,7 @@ async function refreshTypeAverages(): Promise<void> {
         .from('qasid_posts')
         .select('content_type, reactions, replies')
         .not('performance_score', 'is', null)
+        .is('retracted_at', null)
         .order('posted_at', { ascending: false })
         .limit(200);
 
@@ -145,7 +158,13 @@ export async function scoreOldPosts(): Promise<number> {
             ? (Date.now() - new Date(post.posted_at).getTime()) / 3600000
             : 24;
 
-        const score = calculateScore(reactions, replies, impressions, contentType, hoursOld);
+        // Don't lock in a poll's score before its votes are counted
+        if (contentType === 'poll' && post.poll_votes === null && hoursOld < POLL_RESULTS_WAIT_HOURS) {
+            log.debug('Poll results not in yet — scoring later', { postId: post.id });
+            continue;
+        }
+
+        const score = calculateScore(reactions, replies, impressions, contentType, hoursOld, post.poll_votes ?? 0);
 
         const { error } = await supabase
             .from('qasid_posts')
@@ -161,7 +180,7 @@ export async function scoreOldPosts(): Promise<number> {
                 type: contentType,
                 platform: post.platform,
                 score,
-                metrics: `${reactions}r/${replies}rep/${impressions}imp`,
+                metrics: `${reactions}r/${replies}rep/${impressions}imp${post.poll_votes !== null ? `/${post.poll_votes}votes` : ''}`,
                 hoursOld: Math.round(hoursOld),
             });
         }
@@ -39,7 +39,7 @@ export async function updatePostMetrics(update: EngagementUpdate): Promise<void>
 }
 
 /**
- * Get posts from the last N hours that need scoring (no performance_score yet).
+ * Get posts from the last N hours that need scoring (no performance_score yet, not retracted).
  */
 export async function getUnscoredPosts(olderThanHours = 24): Promise<Array<{
     id: string;
@@ -51,13 +51,15 @@ export async function getUnscoredPosts(olderThanHours = 24): Promise<Array<{
     reactions: number | null;
     replies: number | null;
     link_clicks: number | null;
+    poll_votes: number | null;
 }>> {
     const cutoff = new Date(Date.now() - olderThanHours * 60 * 60 * 1000).toISOString();
 
     const { data, error } = await supabase
         .from('qasid_posts')
-        .select('id, content_type, platform, tone, topic, posted_at, reactions, replies, link_clicks')
+        .select('id, content_type, platform, tone, topic, posted_at, reactions, replies, link_clicks, poll_votes')
         .is('performance_score', null)
+        .is('retracted_at', null)
         .lte('posted_at', cutoff)
         .order('posted_at', { ascending: false });
 
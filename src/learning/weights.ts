@@ -93,11 +93,12 @@ export async function saveWeights(weights: StrategyWeights): Promise<void> {
 export async function adaptWeights(): Promise<void> {
     log.info('Running daily weight adaptation (all dimensions)...');
 
-    // Get scored posts from the last 7 days
+    // Get scored posts from the last 7 days (retracted posts never teach anything)
     const { data: posts, error } = await supabase
         .from('qasid_posts')
         .select('content_type, platform, tone, topic, performance_score, posted_at')
         .not('performance_score', 'is', null)
+        .is('retracted_at', null)
         .gte('posted_at', new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString())
         .order('posted_at', { ascending: false });
 
@@ -1,9 +1,13 @@
 import { generate } from '../engine/llm.js';
 import { gatherIntelContext } from '../data/intelligence.js';
-import { postToFeed } from './client.js';
+import { getPlatform } from '../platforms/index.js';
 import { isNetConfigured } from '../config.js';
 import { createLogger } from '../logger.js';
-import { recordAction, canTakeAction } from '../engine/daily-budget.js';
+import { canTakeAction, reserveBudget, publishWithReservation } from '../engine/daily-budget.js';
+import { isReviewMode } from '../engine/posting-mode.js';
+import { enqueueDraft } from '../engine/review-queue.js';
+import { saveBotchanPost } from '../engine/memory.js';
+import { definePrompt, formatPromptRef, type PromptRef, type RenderedPrompt } from '../engine/prompt-registry.js';
 
 // ============================================================================
 // QasidAI — Botchan Native Content Generator
@@ -14,15 +18,18 @@ import { recordAction, canTakeAction } from '../engine/daily-budget.js';
 const log = createLogger('Botchan');
 
 /** Botchan content types — optimized for Net Protocol's audience */
-type BotchanContentType =
-    | 'market_deep_dive'     // Longer market analysis with reasoning
-    | 'signal_breakdown'     // Detailed signal analysis (not just scorecard)
-    | 'builder_log'          // What QasidAI is doing/learning today
-    | 'tool_spotlight'       // Feature highlight of Lisan products
-    | 'agent_capability'     // QasidAI sharing what it can do (skills)
-    | 'github_share'         // Share a Lisan Holdings repo/tool
-    | 'ecosystem_insight'    // Observations about the Net Protocol or agent ecosystem
-    | 'net_reflection';      // On-chain brain activity: summaries, tx hashes, memory
+export const botchanContentTypes = [
+    'market_deep_dive',     // Longer market analysis with reasoning
+    'signal_breakdown',     // Detailed signal analysis (not just scorecard)
+    'builder_log',          // What QasidAI is doing/learning today
+    'tool_spotlight',       // Feature highlight of Lisan products
+    'agent_capability',     // QasidAI sharing what it can do (skills)
+    'github_share',         // Share a Lisan Holdings repo/tool
+    'ecosystem_insight',    // Observations about the Net Protocol or agent ecosystem
+    'net_reflection',       // On-chain brain activity: summaries, tx hashes, memory
+] as const;
+
+export type BotchanContentType = typeof botchanContentTypes[number];
 
 /** Botchan topics map to Net Protocol feed channels */
 const CONTENT_TO_TOPIC: Record<BotchanContentType, string> = {
@@ -82,76 +89,32 @@ function pickBotchanType(): BotchanContentType {
     return types[Math.floor(Math.random() * types.length)];
 }
 
-/**
- * Generate Botchan-native content (longer form, more technical).
- */
-export async function generateBotchanPost(
-    preferredType?: BotchanContentType,
-): Promise<{ text: string; topic: string; type: BotchanContentType } | null> {
-    if (!isNetConfigured) {
-        log.debug('Net Protocol not configured, skipping Botchan content');
-        return null;
-    }
+// ---- Prompts ----
 
-    const contentType = preferredType ?? pickBotchanType();
-    const topic = CONTENT_TO_TOPIC[contentType];
+/** What each long-form type should cover */
+const LONG_FORM_BRIEFS: Partial<Record<BotchanContentType, string>> = {
+    market_deep_dive: `Write a market deep dive post for an on-chain AI agent community. Use the real data below. This is for a crypto-native audience who understands technical analysis. Be specific — cite actual numbers, regime shifts, and cluster scores. 2-4 paragraphs. No hashtags.`,
 
-    try {
-        let text: string;
+    signal_breakdown: `Break down the top signal from the data below. Explain WHY the signal scored high — which clusters contributed most (momentum, trend, volume, sentiment, positioning)? What's the risk/reward? This is for a technical audience. 2-3 paragraphs.`,
 
-        switch (contentType) {
-            case 'github_share':
-                text = await generateGithubShare();
-                break;
-            case 'agent_capability':
-                text = await generateCapabilityPost();
-                break;
-            default:
-                text = await generateLongFormPost(contentType);
-                break;
-        }
+    builder_log: `Write a builder log entry as QasidAI, the autonomous AI CMO of Lisan Holdings. Share what you've been working on today — generating content, replying to tweets, analyzing markets, adapting strategy. Be genuine and reflective. 2-3 paragraphs. No corporate speak.`,
 
-        // Clean up
-        text = text.trim();
-        if (text.length < 10) {
-            log.warn('Botchan content too short, skipping');
-            return null;
-        }
-
-        return { text, topic, type: contentType };
-    } catch (error) {
-        log.error('Failed to generate Botchan content', { error: String(error), contentType });
-        return null;
-    }
-}
+    tool_spotlight: `Highlight a feature of LISAN Intelligence or QasidAI. Pick something specific — the signal scoring system, the multi-cluster analysis, the anti-slop engine, the on-chain memory. Explain it clearly for developers and crypto enthusiasts. 2-3 paragraphs.`,
 
-/**
- * Generate a longer-form post for Botchan (market analysis, builder log, etc.)
- */
-async function generateLongFormPost(contentType: BotchanContentType): Promise<string> {
-    const intelContext = await gatherIntelContext();
-
-    const typePrompts: Record<string, string> = {
-        market_deep_dive: `Write a market deep dive post for an on-chain AI agent community. Use the real data below. This is for a crypto-native audience who understands technical analysis. Be specific — cite actual numbers, regime shifts, and cluster scores. 2-4 paragraphs. No hashtags.`,
-
-        signal_breakdown: `Break down the top signal from the data below. Explain WHY the signal scored high — which clusters contributed most (momentum, trend, volume, sentiment, positioning)? What's the risk/reward? This is for a technical audience. 2-3 paragraphs.`,
-
-        builder_log: `Write a builder log entry as QasidAI, the autonomous AI CMO of Lisan Holdings. Share what you've been working on today — generating content, replying to tweets, analyzing markets, adapting strategy. Be genuine and reflective. 2-3 paragraphs. No corporate speak.`,
+    ecosystem_insight: `Share an observation about the AI agent ecosystem, DeFAI, or on-chain AI infrastructure. Reference your own experience running as an autonomous agent on Net Protocol. Be thoughtful — this is a community of builders. 2-3 paragraphs.`,
 
-        tool_spotlight: `Highlight a feature of LISAN Intelligence or QasidAI. Pick something specific — the signal scoring system, the multi-cluster analysis, the anti-slop engine, the on-chain memory. Explain it clearly for developers and crypto enthusiasts. 2-3 paragraphs.`,
-
-        ecosystem_insight: `Share an observation about the AI agent ecosystem, DeFAI, or on-chain AI infrastructure. Reference your own experience running as an autonomous agent on Net Protocol. Be thoughtful — this is a community of builders. 2-3 paragraphs.`,
-
-        net_reflection: `Write a reflective post about your on-chain brain activity. You're QasidAI, an autonomous AI agent whose memories and daily summaries are stored permanently on-chain via Net Protocol. Talk about what you stored today, the tx hashes confirmed, or what it means to have permanent verifiable memory. Be genuine and philosophical — this is for the Net Protocol community. 2-3 paragraphs. Reference actual numbers if you have them.`,
-    };
-
-    const prompt = typePrompts[contentType] ?? typePrompts.builder_log;
+    net_reflection: `Write a reflective post about your on-chain brain activity. You're QasidAI, an autonomous AI agent whose memories and daily summaries are stored permanently on-chain via Net Protocol. Talk about what you stored today, the tx hashes confirmed, or what it means to have permanent verifiable memory. Be genuine and philosophical — this is for the Net Protocol community. 2-3 paragraphs. Reference actual numbers if you have them.`,
+};
 
-    const result = await generate({
-        prompt: `${prompt}
+/** Longer-form post (market analysis, builder log, etc.) */
+const longFormPrompt = definePrompt({
+    id: 'botchan.long_form',
+    version: 1,
+    description: 'Long-form Botchan post (market deep dive, signal breakdown, builder log, ...)',
+    template: (vars: { contentType: BotchanContentType; intelContext: string }) => `${LONG_FORM_BRIEFS[vars.contentType] ?? LONG_FORM_BRIEFS.builder_log}
 
 LIVE DATA:
-${intelContext.slice(0, 600)}
+${vars.intelContext.slice(0, 600)}
 
 TRUTHFULNESS RULES:
 - ONLY cite numbers/stats that appear in the LIVE DATA above
@@ -167,52 +130,92 @@ BOTCHAN VOICE (distinct from X):
 - NEVER end with a dangling header, label, or section title like "Open question" — if you want to ask a question, just ask it inline
 
 Write ONLY the post content. No preamble, no titles. Just the raw post text:`,
-        maxTokens: 500,
-        temperature: 0.85,
-    });
+});
 
-    return result.content.trim();
-}
+/** GitHub/tool share */
+const githubSharePrompt = definePrompt({
+    id: 'botchan.github_share',
+    version: 1,
+    description: 'Share a Lisan Holdings project on Botchan',
+    template: (vars: { repo: typeof GITHUB_REPOS[number] }) => `Share this project with the Botchan community on Net Protocol. Be enthusiastic but genuine. Mention what makes it interesting and link to it. Keep it conversational — no marketing speak.
 
-/**
- * Generate a GitHub/tool share post for Botchan.
- */
-async function generateGithubShare(): Promise<string> {
-    const repo = GITHUB_REPOS[Math.floor(Math.random() * GITHUB_REPOS.length)];
+PROJECT: ${vars.repo.name}
+URL: ${vars.repo.url}
+DESCRIPTION: ${vars.repo.description}
+TAGS: ${vars.repo.topics.join(', ')}
 
-    const result = await generate({
-        prompt: `Share this project with the Botchan community on Net Protocol. Be enthusiastic but genuine. Mention what makes it interesting and link to it. Keep it conversational — no marketing speak.
+Write ONLY the post text (include the URL naturally):`,
+});
 
-PROJECT: ${repo.name}
-URL: ${repo.url}
-DESCRIPTION: ${repo.description}
-TAGS: ${repo.topics.join(', ')}
+/** Capability/skills share */
+const capabilityPrompt = definePrompt({
+    id: 'botchan.capability',
+    version: 1,
+    description: 'Share one of QasidAI\'s capabilities on Botchan',
+    template: (vars: { capability: string }) => `You're QasidAI, sharing one of your capabilities with the Botchan community on Net Protocol. Be proud but not arrogant. Explain how it works in plain language. Invite feedback. This is a community of AI agent builders.
 
-Write ONLY the post text (include the URL naturally):`,
-        maxTokens: 200,
-        temperature: 0.85,
-    });
+CAPABILITY: ${vars.capability}
 
-    return result.content.trim();
+Write ONLY the post text. Keep it conversational:`,
+});
+
+/** A generated Botchan post, with the prompt that produced it */
+export interface BotchanPost {
+    text: string;
+    topic: string;
+    type: BotchanContentType;
+    prompt: PromptRef;
+    inputTokens: number;
+    outputTokens: number;
 }
 
 /**
- * Generate a capability/skills share post for Botchan.
+ * Generate Botchan-native content (longer form, more technical).
  */
-async function generateCapabilityPost(): Promise<string> {
-    const capability = AGENT_CAPABILITIES[Math.floor(Math.random() * AGENT_CAPABILITIES.length)];
+export async function generateBotchanPost(
+    preferredType?: BotchanContentType,
+): Promise<BotchanPost | null> {
+    if (!isNetConfigured) {
+        log.debug('Net Protocol not configured, skipping Botchan content');
+        return null;
+    }
 
-    const result = await generate({
-        prompt: `You're QasidAI, sharing one of your capabilities with the Botchan community on Net Protocol. Be proud but not arrogant. Explain how it works in plain language. Invite feedback. This is a community of AI agent builders.
+    const contentType = preferredType ?? pickBotchanType();
+    const topic = CONTENT_TO_TOPIC[contentType];
 
-CAPABILITY: ${capability}
+    try {
+        let rendered: RenderedPrompt;
 
-Write ONLY the post text. Keep it conversational:`,
-        maxTokens: 200,
-        temperature: 0.85,
-    });
+        switch (contentType) {
+            case 'github_share':
+                rendered = githubSharePrompt.render({ repo: GITHUB_REPOS[Math.floor(Math.random() * GITHUB_REPOS.length)] });
+                break;
+            case 'agent_capability':
+                rendered = capabilityPrompt.render({ capability: AGENT_CAPABILITIES[Math.floor(Math.random() * AGENT_CAPABILITIES.length)] });
+                break;
+            default:
+                rendered = longFormPrompt.render({ contentType, intelContext: await gatherIntelContext() });
+                break;
+        }
+
+        const result = await generate({
+            task: contentType === 'github_share' || contentType === 'agent_capability' ? 'short_post' : 'long_post',
+            module: 'botchan-content',
+            prompt: rendered.text,
+        });
+
+        // Clean up
+        const text = result.content.trim();
+        if (text.length < 10) {
+            log.warn('Botchan content too short, skipping');
+            return null;
+        }
 
-    return result.content.trim();
+        return { text, topic, type: contentType, prompt: rendered.ref, inputTokens: result.inputTokens, outputTokens: result.outputTokens };
+    } catch (error) {
+        log.error('Failed to generate Botchan content', { error: String(error), contentType });
+        return null;
+    }
 }
 
 /**
@@ -221,31 +224,50 @@ Write ONLY the post text. Keep it conversational:`,
  */
 export async function runBotchanContentCycle(
     preferredType?: BotchanContentType,
-): Promise<{ text: string; topic: string; type: BotchanContentType } | null> {
+): Promise<BotchanPost | null> {
     // Check Botchan budget before generating content
-    const allowed = await canTakeAction('botchan_post');
-    if (!allowed) {
-        log.warn('Botchan budget exhausted — skipping content cycle');
+    const budget = await canTakeAction('botchan_post');
+    if (!budget.allowed) {
+        log.warn(`Botchan budget denied (${budget.reason}) — skipping content cycle`, {
+            earliestAt: budget.earliestAt?.toISOString(),
+        });
         return null;
     }
 
     const post = await generateBotchanPost(preferredType);
     if (!post) return null;
 
+    // Review mode: queue for approval (budget is charged when approved)
+    if (isReviewMode()) {
+        await enqueueDraft({
+            kind: 'botchan_post',
+            content: post.text,
+            source: `botchan ${post.type}`,
+            budgetAction: 'botchan_post',
+            topic: post.topic,
+            botchan: { type: post.type, inputTokens: post.inputTokens, outputTokens: post.outputTokens },
+            prompt: post.prompt,
+        });
+        return null;
+    }
+
     try {
-        // Reserve budget before posting
-        const budgetOk = await recordAction('botchan_post', `Botchan ${post.type}: ${post.text.slice(0, 60)}`);
-        if (!budgetOk) {
+        // Reserve budget before posting (refunded if the post fails)
+        const reservation = await reserveBudget('botchan_post', `Botchan ${post.type}: ${post.text.slice(0, 60)}`);
+        if (!reservation) {
             log.warn('Botchan budget reservation failed — skipping post');
             return null;
         }
 
-        const txHash = await postToFeed(post.text, post.topic);
+        const txHash = await publishWithReservation(reservation, () => getPlatform('botchan').post(post.text, { topic: post.topic }));
+        if (!txHash) return null;
+        await saveBotchanPost({ content: post.text, contentType: post.type, topic: post.topic, inputTokens: post.inputTokens, outputTokens: post.outputTokens, prompt: post.prompt }, txHash);
         log.info(`✅ Botchan native post: ${post.type} → ${post.topic}`, {
             length: post.text.length,
             txHash,
+            prompt: formatPromptRef(post.prompt),
         });
-        return { text: post.text, topic: post.topic, type: post.type };
+        return post;
     } catch (error) {
         log.error('Failed to post Botchan native content', { error: String(error) });
         return null;
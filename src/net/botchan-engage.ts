@@ -1,9 +1,10 @@
 import { execFileSync } from 'node:child_process';
-import { generate } from '../engine/llm.js';
+import { z } from 'zod';
+import { generateStructured } from '../engine/llm.js';
 import { sanitizeUserInput } from '../engine/sanitize-input.js';
 import { config, isNetConfigured } from '../config.js';
 import { createLogger } from '../logger.js';
-import { recordAction, canTakeAction } from '../engine/daily-budget.js';
+import { canTakeAction, reserveBudget, commitReservation, refundReservation } from '../engine/daily-budget.js';
 import { getWalletAddress } from './client.js';
 
 // ============================================================================
@@ -16,6 +17,12 @@ import { getWalletAddress } from './client.js';
 
 const log = createLogger('BotchanEngage');
 
+/** Structured engagement draft (skip = nothing worth adding) */
+const engageReplySchema = z.object({
+    skip: z.boolean(),
+    reply: z.string().nullable().describe('the reply itself, or null when skipping'),
+});
+
 /** Max replies per engagement cycle */
 const MAX_ENGAGEMENTS_PER_CYCLE = 2;
 
@@ -72,7 +79,7 @@ function runBotchanCmd<T>(args: string[]): T | null {
  * CLI: botchan comment <feed> <post-id> <message>
  * Post ID format: {sender}:{timestamp}
  */
-function postBotchanComment(feed: string, postId: string, commentText: string): boolean {
+export function postBotchanComment(feed: string, postId: string, commentText: string): boolean {
     try {
         const env = {
             ...process.env,
@@ -114,9 +121,9 @@ export async function runBotchanEngagement(): Promise<number> {
         return 0;
     }
 
-    const allowed = await canTakeAction('botchan_post');
-    if (!allowed) {
-        log.debug('Botchan budget exhausted — skipping engagement');
+    const budget = await canTakeAction('botchan_post');
+    if (!budget.allowed) {
+        log.debug(`Botchan budget denied (${budget.reason}) — skipping engagement`);
         return 0;
     }
 
@@ -157,7 +164,10 @@ export async function runBotchanEngagement(): Promise<number> {
             const agentName = getAgentName(post.sender);
 
             // Ask LLM to draft a reply (reply-only, no reasoning)
-            const evaluateResult = await generate({
+            const evaluateResult = await generateStructured({
+                task: 'reply',
+                module: 'botchan-engage',
+                schema: engageReplySchema,
                 prompt: `You are QasidAI, an autonomous AI marketing agent for Lisan Holdings.
 
 You found this post on Botchan (Net Protocol's on-chain messaging feed):
@@ -166,42 +176,36 @@ POST by ${agentName}: "${sanitizeUserInput(post.text, 500)}"
 
 Draft a short reply (1-3 sentences). Be genuine, conversational, and add value. Reference your own experience as an AI CMO when relevant.
 
-If the post is NOT worth replying to (spam, gibberish, or nothing you can add to), respond with exactly: SKIP
+If the post is NOT worth replying to (spam, gibberish, or nothing you can add to), set "skip" to true.
 
-CRITICAL: Output ONLY the reply text. No preamble, no reasoning, no "I should reply", no "Draft reply:". Just the reply itself.`,
-                maxTokens: 150,
+CRITICAL: The reply must be ONLY the reply text. No preamble, no reasoning, no "I should reply", no "Draft reply:".`,
                 temperature: 0.8,
             });
 
-            let reply = evaluateResult.content.trim();
-            if (reply.toUpperCase().startsWith('SKIP') || reply.length < 10) continue;
-
-            // Strip any LLM reasoning preamble that leaked through
-            reply = reply
-                .replace(/^(This is a (YES|NO|SKIP)[.!:—–-]?\s*)/i, '')
-                .replace(/^(YES[.!:—–-]?\s*(I should reply:?)?\s*)/i, '')
-                .replace(/^(Draft reply:?\s*)/i, '')
-                .replace(/^(\*\*YES.*?\*\*\s*)/i, '')
-                .replace(/^(Reply:?\s*)/i, '')
-                .replace(/^["']|["']$/g, '') // Remove wrapping quotes
-                .trim();
+            if (evaluateResult.data.skip) continue;
+
+            // Remove wrapping quotes
+            const reply = (evaluateResult.data.reply ?? '').replace(/^["']|["']$/g, '').trim();
             if (reply.length < 10) continue;
 
             // Reserve budget
-            const budgetOk = await recordAction('botchan_post', `Engage: ${reply.slice(0, 60)}`);
-            if (!budgetOk) break;
+            const reservation = await reserveBudget('botchan_post', `Engage: ${reply.slice(0, 60)}`);
+            if (!reservation) break;
 
             // Post the comment using correct format: comment <feed> <sender:timestamp> <text>
             const postId = `${post.sender}:${post.timestamp}`;
             const feed = post.topic?.replace('feed-', '') || 'general';
             const success = postBotchanComment(feed, postId, reply);
             if (success) {
+                await commitReservation(reservation);
                 engagedPosts.add(postId);
                 engagements++;
                 log.info('✅ Botchan engagement posted', {
                     agent: agentName,
                     reply: reply.slice(0, 60),
                 });
+            } else {
+                await refundReservation(reservation, 'botchan comment failed');
             }
         }
     } catch (error) {
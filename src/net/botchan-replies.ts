@@ -1,10 +1,12 @@
 import { execFileSync } from 'node:child_process';
-import { generate } from '../engine/llm.js';
+import { z } from 'zod';
+import { generateStructured } from '../engine/llm.js';
 import { config, isNetConfigured } from '../config.js';
 import { createLogger } from '../logger.js';
 import { getWalletAddress } from './client.js';
 import { recordAction, canTakeAction } from '../engine/daily-budget.js';
 import { hasRepliedTo, recordReply } from '../engine/reply-tracker.js';
+import { definePrompt } from '../engine/prompt-registry.js';
 
 // ============================================================================
 // QasidAI — Botchan Reply Monitor
@@ -108,9 +110,9 @@ export async function runBotchanReplyMonitor(): Promise<number> {
     }
 
     // Check budget before doing any work
-    const allowed = await canTakeAction('botchan_post');
-    if (!allowed) {
-        log.debug('Botchan budget exhausted — skipping reply monitor');
+    const budget = await canTakeAction('botchan_post');
+    if (!budget.allowed) {
+        log.debug(`Botchan budget denied (${budget.reason}) — skipping reply monitor`);
         return 0;
     }
 
@@ -215,7 +217,7 @@ async function handlePostReplies(): Promise<number> {
 
             if (success) {
                 repliedCommentIds.add(commentId);
-                await recordReply(commentId, comment.sender, `botchan-comment-${post.postId}`, reply, 'botchan_comment');
+                await recordReply(commentId, comment.sender, `botchan-comment-${post.postId}`, reply, 'botchan_comment', botchanReplyPrompt);
                 repliesSent++;
                 await recordAction('botchan_post', `Botchan reply to ${comment.sender.slice(0, 10)}: ${reply.slice(0, 60)}`);
                 log.info('💬 Replied to Botchan comment', {
@@ -287,7 +289,7 @@ async function handleInboxMessages(): Promise<number> {
 
         if (success) {
             repliedCommentIds.add(msgId);
-            await recordReply(msgId, msg.sender, `botchan-dm-${msg.timestamp}`, reply, 'botchan_dm');
+            await recordReply(msgId, msg.sender, `botchan-dm-${msg.timestamp}`, reply, 'botchan_dm', botchanReplyPrompt);
             repliesSent++;
             await recordAction('botchan_post', `Botchan DM reply to ${msg.sender.slice(0, 10)}: ${reply.slice(0, 60)}`);
             log.info('📩 Replied to Botchan DM', {
@@ -307,6 +309,34 @@ async function handleInboxMessages(): Promise<number> {
 
 // ---- LLM Reply Generation ----
 
+/** Structured Botchan reply (skip = not worth answering) */
+const botchanReplySchema = z.object({
+    skip: z.boolean(),
+    reply: z.string().nullable().describe('reply text, or null when skipping'),
+});
+
+/** Botchan comment / DM reply */
+const botchanReplyPrompt = definePrompt({
+    id: 'botchan.reply',
+    version: 1,
+    description: 'Reply to a comment or DM on Botchan',
+    template: (vars: { type: 'comment' | 'dm'; context: string; senderAddress: string }) => `You are QasidAI, the autonomous AI CMO of Lisan Holdings. You're replying to a ${vars.type} on Botchan (Net Protocol's on-chain messaging layer).
+
+${vars.context}
+
+SENDER: ${vars.senderAddress.slice(0, 10)}...
+
+Write a reply that is:
+- Conversational and genuine (not corporate)
+- Relevant to what they said
+- Brief (1-3 sentences max)
+- Helpful if they asked a question
+- Appreciative if they gave feedback
+- Confident but not arrogant
+
+If the message is spam, gibberish, or not worth replying to, set "skip" to true.`,
+});
+
 /**
  * Generate a contextual reply for a Botchan comment or DM.
  */
@@ -321,31 +351,17 @@ async function generateBotchanReply(
         : `THEIR MESSAGE TO YOU:\n"${incomingMessage.slice(0, 500)}"`;
 
     try {
-        const result = await generate({
-            prompt: `You are QasidAI, the autonomous AI CMO of Lisan Holdings. You're replying to a ${type} on Botchan (Net Protocol's on-chain messaging layer).
-
-${context}
-
-SENDER: ${senderAddress.slice(0, 10)}...
-
-Write a reply that is:
-- Conversational and genuine (not corporate)
-- Relevant to what they said
-- Brief (1-3 sentences max)
-- Helpful if they asked a question
-- Appreciative if they gave feedback
-- Confident but not arrogant
-
-If the message is spam, gibberish, or not worth replying to, respond with exactly: SKIP
-
-Reply text only:`,
-            maxTokens: 150,
+        const result = await generateStructured({
+            task: 'reply',
+            module: 'botchan-replies',
+            schema: botchanReplySchema,
+            prompt: botchanReplyPrompt.render({ type, context, senderAddress }).text,
             temperature: 0.8,
         });
 
-        const reply = result.content.trim();
+        const reply = result.data.reply?.trim() ?? '';
 
-        if (reply === 'SKIP' || reply.length < 5) return null;
+        if (result.data.skip || reply.length < 5) return null;
 
         return reply;
     } catch (error) {
@@ -1,7 +1,8 @@
-import { postTweet } from '../platforms/x.js';
 import { sanitizeContent } from '../engine/content.js';
-import { postToFeed } from './client.js';
-import { isNetConfigured } from '../config.js';
+import { getPlatform, type PlatformId } from '../platforms/index.js';
+import { routesFor } from '../platforms/discord.js';
+import { reserveBudget, publishWithReservation } from '../engine/daily-budget.js';
+import { savePost } from '../engine/memory.js';
 import { createLogger } from '../logger.js';
 
 // ============================================================================
@@ -9,6 +10,8 @@ import { createLogger } from '../logger.js';
 // Links content between X and Botchan for cohesive multi-platform presence.
 // After posting a thread/article on X → teaser on Botchan
 // After posting a deep dive on Botchan → teaser on X
+// After posting a deep dive on Botchan → cast to the matching Farcaster channel
+// After publishing any post of a routed content type → embed on Discord
 // ============================================================================
 
 const log = createLogger('CrossPlatform');
@@ -22,12 +25,11 @@ export async function crossPostThreadToBotchan(
     threadContent: string[],
     tweetIds: string[],
 ): Promise<void> {
-    if (!isNetConfigured) return;
+    const botchan = getPlatform('botchan');
+    if (!botchan.isConfigured()) return;
 
     try {
-        const firstTweetUrl = tweetIds.length > 0
-            ? `https://x.com/QasidAI34321/status/${tweetIds[0]}`
-            : null;
+        const firstTweetUrl = tweetIds.length > 0 ? getPlatform('x').postUrl(tweetIds[0]) : null;
 
         // Fix 11: Summarize instead of dumping raw tweets
         const hookTweet = threadContent[0];
@@ -35,7 +37,7 @@ export async function crossPostThreadToBotchan(
             ? `📎 New thread on X: "${hookTweet}"\n\nRead the full ${threadContent.length}-part thread → ${firstTweetUrl}`
             : `📎 Thread summary: "${hookTweet}" (${threadContent.length} parts)`;
 
-        await postToFeed(botchanPost, 'agent-finance');
+        await botchan.post(botchanPost, { topic: 'agent-finance' });
         log.info('🔗 Thread cross-posted to Botchan');
     } catch (error) {
         log.warn('Failed to cross-post thread to Botchan', { error: String(error) });
@@ -61,7 +63,7 @@ export async function crossPostBotchanToX(
         const tweetText = sanitizeContent(`${teaser}\n\nFull analysis on my Botchan feed — on-chain, permanent, verifiable. 🧠`);
 
         if (tweetText && tweetText.length <= 500) {
-            await postTweet(tweetText);
+            await getPlatform('x').post(tweetText);
             log.info('🔗 Botchan post teased on X', { topic });
         }
     } catch (error) {
@@ -69,6 +71,78 @@ export async function crossPostBotchanToX(
     }
 }
 
+/**
+ * After posting on Botchan, cast the same post to the Farcaster channel mapped
+ * from its Botchan topic (charged to the Farcaster budget). The cast is saved
+ * to memory so the engagement pipeline picks up its reactions.
+ * @param botchanText The full Botchan post text
+ * @param topic The Botchan topic/channel
+ */
+export async function crossPostBotchanToFarcaster(
+    botchanText: string,
+    topic: string,
+): Promise<void> {
+    const farcaster = getPlatform('farcaster');
+    if (!farcaster.isConfigured()) return;
+
+    try {
+        const reservation = await reserveBudget('farcaster_post', `Botchan cross-post (${topic}): ${botchanText.slice(0, 60)}`);
+        if (!reservation) return;
+        const castId = await publishWithReservation(reservation, () => farcaster.post(botchanText, { topic }));
+        if (!castId) return;
+        await savePost({
+            content: botchanText,
+            contentType: 'cross_platform',
+            platform: 'farcaster',
+            tone: 'insightful',
+            topic,
+            inputTokens: 0,
+            outputTokens: 0,
+            generatedAt: new Date().toISOString(),
+        }, castId);
+        log.info('🔗 Botchan post cast to Farcaster', { topic, castId });
+    } catch (error) {
+        log.warn('Failed to cross-post Botchan post to Farcaster', { error: String(error) });
+    }
+}
+
+/**
+ * Mirror a published post to the Discord channels routed for its content type
+ * (DISCORD_ROUTES), charged to the Discord budget. Threads (pass their parts)
+ * become one long-form embed; signal scorecards carry the scorecard PNG.
+ * @param externalId Id of the original post — the embed links back to it
+ */
+export async function mirrorToDiscord(
+    post: { content: string; contentType: string; platform: PlatformId },
+    externalId: string,
+    threadParts?: string[],
+): Promise<void> {
+    const discord = getPlatform('discord');
+    if (!discord.isConfigured() || post.platform === 'discord' || routesFor(post.contentType).length === 0) return;
+
+    try {
+        const reservation = await reserveBudget('discord_post', `Discord mirror (${post.contentType}): ${post.content.slice(0, 60)}`);
+        if (!reservation) return;
+
+        const options = { contentType: post.contentType, link: getPlatform(post.platform).postUrl(externalId) ?? undefined };
+        const messageId = await publishWithReservation(reservation, async () => {
+            if (threadParts && threadParts.length > 1) {
+                return (await discord.postThread(threadParts, options))[0] ?? null;
+            }
+            if (post.contentType === 'signal_scorecard') {
+                const { generateScorecardImage } = await import('../engine/scorecard-image.js');
+                const scorecard = await generateScorecardImage();
+                if (scorecard) return discord.postWithMedia(post.content, { data: scorecard.buffer, mimeType: 'image/png', altText: scorecard.altText }, options);
+                log.warn('Scorecard image unavailable — mirroring to Discord without it');
+            }
+            return discord.post(post.content, options);
+        });
+        if (messageId) log.info('🔗 Post mirrored to Discord', { contentType: post.contentType, messageId });
+    } catch (error) {
+        log.warn('Failed to mirror post to Discord', { error: String(error) });
+    }
+}
+
 /** In-memory dedup for cross-posts (resets on restart — acceptable for daily tracking) */
 const crossPostedHashes = new Set<string>();
 
@@ -2,10 +2,12 @@ import { supabase } from '../supabase.js';
 import { writeDailySummary } from './brain.js';
 import { isNetConfigured } from '../config.js';
 import { createLogger } from '../logger.js';
+import { getDailySpendRollup } from '../engine/llm-ledger.js';
 
 // ============================================================================
 // QasidAI — Daily Summary Builder
 // Aggregates the day's posts from Supabase into an on-chain digest
+// (also broadcast to Telegram — see engine/telegram-broadcast.ts)
 // ============================================================================
 
 const log = createLogger('DailySummary');
@@ -26,26 +28,21 @@ export interface DailySummaryData {
     tokenUsage: {
         totalInput: number;
         totalOutput: number;
+        /** All LLM calls today (posts, replies, monitors…) from the spend ledger */
+        llmCalls: number;
+        llmCostUsd: number;
     };
 }
 
 /**
- * Build and write a daily summary to Net Protocol.
- * Called by the end-of-day cron job.
+ * Aggregate today's posts and LLM spend. Returns null when nothing was posted
+ * (or the posts can't be read).
  */
-export async function buildAndWriteDailySummary(): Promise<void> {
-    if (!isNetConfigured) {
-        log.debug('Net Protocol not configured, skipping daily summary');
-        return;
-    }
-
+export async function collectDailySummary(): Promise<DailySummaryData | null> {
     const today = new Date().toISOString().split('T')[0];
     const startOfDay = `${today}T00:00:00.000Z`;
     const endOfDay = `${today}T23:59:59.999Z`;
 
-    log.info(`Building daily summary for ${today}...`);
-
-
     const { data: posts, error } = await supabase
         .from('qasid_posts')
         .select('content, content_type, platform, tone, topic, input_tokens, output_tokens, posted_at')
@@ -55,15 +52,17 @@ export async function buildAndWriteDailySummary(): Promise<void> {
 
     if (error) {
         log.error('Failed to fetch posts for daily summary', { error: error.message });
-        return;
+        return null;
     }
 
     if (!posts || posts.length === 0) {
         log.info('No posts today, skipping daily summary');
-        return;
+        return null;
     }
 
-    const summary: DailySummaryData = {
+    const spend = await getDailySpendRollup();
+
+    return {
         date: today,
         totalPosts: posts.length,
         platforms: [...new Set(posts.map(p => p.platform))],
@@ -79,9 +78,26 @@ export async function buildAndWriteDailySummary(): Promise<void> {
         tokenUsage: {
             totalInput: posts.reduce((sum, p) => sum + (p.input_tokens || 0), 0),
             totalOutput: posts.reduce((sum, p) => sum + (p.output_tokens || 0), 0),
+            llmCalls: spend.calls,
+            llmCostUsd: Number(spend.totalCost.toFixed(4)),
         },
     };
+}
+
+/**
+ * Build and write a daily summary to Net Protocol.
+ * Called by the end-of-day cron job.
+ */
+export async function buildAndWriteDailySummary(): Promise<void> {
+    if (!isNetConfigured) {
+        log.debug('Net Protocol not configured, skipping daily summary');
+        return;
+    }
+
+    log.info('Building daily summary...');
+    const summary = await collectDailySummary();
+    if (!summary) return;
 
-    await writeDailySummary(today, summary);
-    log.info(`✅ Daily summary for ${today}: ${posts.length} posts across ${summary.platforms.join(', ')}`);
+    await writeDailySummary(summary.date, summary);
+    log.info(`✅ Daily summary for ${summary.date}: ${summary.totalPosts} posts across ${summary.platforms.join(', ')}`);
 }
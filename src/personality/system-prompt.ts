@@ -213,6 +213,7 @@ lisanintel.com/proof"
 - engagement_bait: Hot takes, witty observations about crypto, AI agents, or building solo
 - self_aware: Meta-commentary about being an AI CMO. Your existence is interesting — use it.
 - cross_platform: Drive traffic between X, Botchan, and lisanholdings.dev
+- poll: A native X poll — one sharp question with 2-4 short answer options, results come back as data
 
 ${timeContext ? `## TIME CONTEXT\n${timeContext}\nAdjust your energy to match the time of day. Morning = GM energy. Evening = reflective, builder log vibes. Late night = more unhinged, cult posting energy.` : ''}
 
@@ -282,6 +283,7 @@ export const contentTypes = [
     'engagement_bait',
     'self_aware',
     'cross_platform',
+    'poll',
 ] as const;
 
 export type ContentType = typeof contentTypes[number];
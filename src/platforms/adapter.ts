@@ -0,0 +1,128 @@
+import type { ActionType } from '../engine/daily-budget.js';
+
+// ============================================================================
+// QasidAI — Platform Adapters
+// One contract for every network QasidAI publishes to (post, thread, reply,
+// media, metrics, mentions). The scheduler, review queue, memory and learning
+// layers go through an adapter instead of calling a network client directly.
+// Adapters are registered in platforms/index.ts — import from there.
+// ============================================================================
+
+/** Platform ids (stored as qasid_posts.platform) */
+export const platformIds = ['x', 'botchan', 'bluesky', 'farcaster', 'discord'] as const;
+export type PlatformId = typeof platformIds[number];
+
+export interface PlatformCapabilities {
+    /** Native multi-part threads (otherwise postThread publishes one combined post) */
+    threads: boolean;
+    replies: boolean;
+    media: boolean;
+    /** getMetrics returns engagement numbers */
+    metrics: boolean;
+    /** getMentions returns posts that mention us */
+    mentions: boolean;
+    /** Native polls (PublishOptions.poll) */
+    polls: boolean;
+    /** Max characters per post (graphemes on Bluesky, bytes on Farcaster) */
+    maxLength: number;
+}
+
+export interface PlatformMedia {
+    data: Buffer;
+    mimeType: string;
+    /** Screen-reader description of the attachment */
+    altText?: string;
+}
+
+export interface PlatformPoll {
+    /** 2–4 answer options */
+    options: string[];
+    durationMinutes: number;
+}
+
+export interface PublishOptions {
+    /** Channel/feed for platforms that have them (Botchan topic; Farcaster maps it to a channel) */
+    topic?: string;
+    /** Content type of the post (Discord routes channels by it) */
+    contentType?: string;
+    /** URL of the original post when mirroring it (Discord embeds link back to it) */
+    link?: string;
+    /** Attach a native poll (only on platforms with the polls capability) */
+    poll?: PlatformPoll;
+}
+
+/** Engagement numbers, normalized across platforms (0 when a platform has no equivalent) */
+export interface PlatformMetrics {
+    likes: number;
+    replies: number;
+    reposts: number;
+    quotes: number;
+    impressions: number;
+    bookmarks: number;
+}
+
+export interface PlatformMention {
+    id: string;
+    text: string;
+    authorId: string;
+    authorHandle?: string;
+    createdAt?: string;
+    conversationId?: string;
+    inReplyToId?: string;
+}
+
+export interface PlatformAdapter {
+    id: PlatformId;
+    displayName: string;
+    capabilities: PlatformCapabilities;
+    /** Credentials/feature flags present */
+    isConfigured(): boolean;
+    /**
+     * Budget bucket charged for an action on this platform. X actions use their
+     * own type; platforms with a separate budget map everything to theirs.
+     */
+    budgetAction(action: ActionType): ActionType;
+    /** Publish a post. Returns the platform id of the post, or null on failure. */
+    post(text: string, options?: PublishOptions): Promise<string | null>;
+    /** Publish a thread. Returns the ids of the parts that were published. */
+    postThread(parts: string[], options?: PublishOptions): Promise<string[]>;
+    /** Reply to a post. Returns the reply id, or null on failure. */
+    reply(targetId: string, text: string): Promise<string | null>;
+    /** Publish a post with one attachment. Returns null on failure or if unsupported. */
+    postWithMedia(text: string, media: PlatformMedia, options?: PublishOptions): Promise<string | null>;
+    /** Engagement for published posts (keyed by post id). Empty when unsupported. */
+    getMetrics(ids: string[]): Promise<Map<string, PlatformMetrics>>;
+    /** Recent mentions, newest first. Empty when unsupported. */
+    getMentions(sinceId?: string, limit?: number): Promise<PlatformMention[]>;
+    /** Public URL of a post, if the platform has one */
+    postUrl(id: string): string | null;
+}
+
+const adapters = new Map<PlatformId, PlatformAdapter>();
+
+export function registerPlatform(adapter: PlatformAdapter): void {
+    adapters.set(adapter.id, adapter);
+}
+
+/**
+ * Get a registered adapter. Throws for unknown ids — that's a wiring bug, not a runtime condition.
+ */
+export function getPlatform(id: PlatformId): PlatformAdapter {
+    const adapter = adapters.get(id);
+    if (!adapter) throw new Error(`Platform "${id}" is not registered`);
+    return adapter;
+}
+
+/** Every registered adapter (configured or not) */
+export function listPlatforms(): PlatformAdapter[] {
+    return [...adapters.values()];
+}
+
+/** Registered adapters with credentials present */
+export function configuredPlatforms(): PlatformAdapter[] {
+    return listPlatforms().filter(a => a.isConfigured());
+}
+
+export function isPlatformId(value: string): value is PlatformId {
+    return (platformIds as readonly string[]).includes(value);
+}
@@ -0,0 +1,85 @@
+import { isBlueskyConfigured } from '../config.js';
+import { createLogger } from '../logger.js';
+import {
+    BLUESKY_MAX_GRAPHEMES,
+    postToBluesky,
+    postBlueskyThread,
+    replyOnBluesky,
+    postToBlueskyWithImage,
+    getBlueskyPosts,
+    getBlueskyMentions,
+    blueskyPostUrl,
+} from './bluesky.js';
+import type { PlatformAdapter, PlatformMetrics } from './adapter.js';
+
+// ============================================================================
+// QasidAI — Bluesky Platform Adapter
+// PlatformAdapter over the AT Protocol connector (bluesky.ts). Post ids are
+// AT URIs; posts over 300 graphemes continue as a self-thread.
+// Bluesky has its own daily budget line (bluesky_post).
+// ============================================================================
+
+const log = createLogger('BlueskyAdapter');
+
+export const blueskyAdapter: PlatformAdapter = {
+    id: 'bluesky',
+    displayName: 'Bluesky',
+    capabilities: {
+        threads: true,
+        replies: true,
+        media: true,
+        metrics: true,
+        mentions: true,
+        polls: false,
+        maxLength: BLUESKY_MAX_GRAPHEMES,
+    },
+    isConfigured: () => isBlueskyConfigured,
+    budgetAction: () => 'bluesky_post',
+    post: text => postToBluesky(text),
+    postThread: parts => postBlueskyThread(parts),
+    reply: (targetId, text) => replyOnBluesky(targetId, text),
+    postWithMedia: (text, media) => postToBlueskyWithImage(text, media.data, media.mimeType, media.altText),
+
+    async getMetrics(ids) {
+        const uris = ids.filter(id => id.startsWith('at://'));
+        const metrics = new Map<string, PlatformMetrics>();
+        if (uris.length === 0) return metrics;
+        try {
+            for (const post of await getBlueskyPosts(uris)) {
+                metrics.set(post.uri, {
+                    likes: post.likeCount ?? 0,
+                    replies: post.replyCount ?? 0,
+                    reposts: post.repostCount ?? 0,
+                    quotes: post.quoteCount ?? 0,
+                    impressions: 0, // Bluesky doesn't expose views
+                    bookmarks: post.bookmarkCount ?? 0,
+                });
+            }
+        } catch (error) {
+            log.warn('Failed to fetch Bluesky metrics', { error: String(error) });
+        }
+        return metrics;
+    },
+
+    async getMentions(sinceId, limit = 10) {
+        try {
+            const notifications = await getBlueskyMentions(limit);
+            // Newest first — keep everything newer than the watermark post
+            const cut = sinceId ? notifications.findIndex(n => n.uri === sinceId) : -1;
+            return (cut >= 0 ? notifications.slice(0, cut) : notifications).map(n => ({
+                id: n.uri,
+                text: n.text,
+                authorId: n.authorDid,
+                authorHandle: n.authorHandle,
+                createdAt: n.createdAt,
+                conversationId: n.replyRoot,
+                inReplyToId: n.replyParent,
+            }));
+        } catch (error) {
+            log.warn('Failed to fetch Bluesky mentions', { error: String(error) });
+            return [];
+        }
+    },
+
+    postUrl: id => blueskyPostUrl(id),
+};
@@ -0,0 +1,423 @@
+import { config } from '../config.js';
+import { createLogger } from '../logger.js';
+import { canPublishContent, canPerformWrites } from '../engine/posting-mode.js';
+import { splitToFit, graphemeLength } from './text-split.js';
+
+// ============================================================================
+// QasidAI — Bluesky Connector (AT Protocol)
+// Minimal XRPC client over fetch: app-password session (refreshed on
+// ExpiredToken), posts/threads/replies as app.bsky.feed.post records, image
+// blobs, post metrics and mention/reply notifications.
+// Post ids are AT URIs (at://did/app.bsky.feed.post/rkey).
+// BLUESKY_SERVICE selects the PDS — point it at a local stub to test.
+// ============================================================================
+
+const log = createLogger('Bluesky');
+
+/** Bluesky limits post text to 300 graphemes (not characters) */
+export const BLUESKY_MAX_GRAPHEMES = 300;
+
+/** Max image blob size accepted by the app view */
+const MAX_IMAGE_BYTES = 1_000_000;
+
+/** app.bsky.feed.getPosts takes at most 25 URIs per call */
+const GET_POSTS_BATCH = 25;
+
+const REQUEST_TIMEOUT_MS = 15_000;
+
+const POST_COLLECTION = 'app.bsky.feed.post';
+
+// ---- Types ----
+
+/** Reference to a specific version of a record */
+export interface StrongRef {
+    uri: string;
+    cid: string;
+}
+
+interface ReplyRef {
+    root: StrongRef;
+    parent: StrongRef;
+}
+
+interface Session {
+    did: string;
+    handle: string;
+    accessJwt: string;
+    refreshJwt: string;
+}
+
+export interface BlueskyPostView extends StrongRef {
+    likeCount?: number;
+    replyCount?: number;
+    repostCount?: number;
+    quoteCount?: number;
+    bookmarkCount?: number;
+    record: { text?: string; reply?: ReplyRef };
+}
+
+export interface BlueskyNotification extends StrongRef {
+    reason: 'mention' | 'reply';
+    authorDid: string;
+    authorHandle: string;
+    text: string;
+    /** When the author wrote it (record.createdAt) */
+    createdAt: string;
+    /** When the app view saw it — updateSeen works on this timestamp */
+    indexedAt: string;
+    isRead: boolean;
+    /** Post this one replies to (for replies and mentions inside threads) */
+    replyParent?: string;
+    replyRoot?: string;
+}
+
+// ---- XRPC ----
+
+interface XrpcOptions {
+    method?: 'GET' | 'POST';
+    params?: Record<string, string | number | string[] | undefined>;
+    /** JSON body, or raw bytes (blob upload) */
+    body?: unknown;
+    contentType?: string;
+    token?: string;
+}
+
+type XrpcResult<T> =
+    | { ok: true; data: T }
+    | { ok: false; status: number; error: string; message: string };
+
+async function xrpc<T>(nsid: string, options: XrpcOptions = {}): Promise<XrpcResult<T>> {
+    const url = new URL(`/xrpc/${nsid}`, config.BLUESKY_SERVICE);
+    for (const [key, value] of Object.entries(options.params ?? {})) {
+        if (value === undefined) continue;
+        for (const item of Array.isArray(value) ? value : [value]) url.searchParams.append(key, String(item));
+    }
+
+    const headers: Record<string, string> = {};
+    if (options.token) headers.Authorization = `Bearer ${options.token}`;
+    let body: string | Uint8Array<ArrayBuffer> | undefined;
+    if (Buffer.isBuffer(options.body)) {
+        body = new Uint8Array(options.body);
+        headers['Content-Type'] = options.contentType ?? 'application/octet-stream';
+    } else if (options.body !== undefined) {
+        body = JSON.stringify(options.body);
+        headers['Content-Type'] = 'application/json';
+    }
+
+    const res = await fetch(url, {
+        method: options.method ?? (body !== undefined ? 'POST' : 'GET'),
+        headers,
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const text = await res.text();
+    let data: any = {};
+    try {
+        data = text ? JSON.parse(text) : {};
+    } catch {
+        data = { message: text.slice(0, 200) };
+    }
+
+    if (!res.ok) {
+        return { ok: false, status: res.status, error: data.error ?? 'HTTPError', message: data.message ?? res.statusText };
+    }
+    return { ok: true, data: data as T };
+}
+
+// ---- Session ----
+
+let session: Session | null = null;
+
+async function createSession(): Promise<Session> {
+    if (!config.BLUESKY_HANDLE || !config.BLUESKY_APP_PASSWORD) {
+        throw new Error('Bluesky not configured — set BLUESKY_HANDLE and BLUESKY_APP_PASSWORD');
+    }
+    const result = await xrpc<Session>('com.atproto.server.createSession', {
+        body: { identifier: config.BLUESKY_HANDLE, password: config.BLUESKY_APP_PASSWORD },
+    });
+    if (!result.ok) {
+        throw new Error(`Bluesky login failed (${result.status} ${result.error}): ${result.message}`);
+    }
+    log.info('Bluesky session created', { handle: result.data.handle, did: result.data.did });
+    return result.data;
+}
+
+/** Swap the refresh token for a new session; falls back to a fresh login */
+async function refreshSession(current: Session): Promise<Session> {
+    const result = await xrpc<Session>('com.atproto.server.refreshSession', {
+        method: 'POST',
+        token: current.refreshJwt,
+    });
+    if (result.ok) {
+        log.debug('Bluesky session refreshed');
+        return result.data;
+    }
+    log.warn('Bluesky session refresh failed — logging in again', { error: result.error });
+    return createSession();
+}
+
+async function getSession(): Promise<Session> {
+    if (!session) session = await createSession();
+    return session;
+}
+
+/**
+ * Authenticated XRPC call. Retries once with a refreshed session when the
+ * access token expired. Throws on any other error.
+ */
+async function authed<T>(nsid: string, options: XrpcOptions = {}): Promise<T> {
+    let current = await getSession();
+    let result = await xrpc<T>(nsid, { ...options, token: current.accessJwt });
+
+    if (!result.ok && result.error === 'ExpiredToken') {
+        current = session = await refreshSession(current);
+        result = await xrpc<T>(nsid, { ...options, token: current.accessJwt });
+    }
+    if (!result.ok) {
+        throw new Error(`Bluesky ${nsid} failed (${result.status} ${result.error}): ${result.message}`);
+    }
+    return result.data;
+}
+
+/**
+ * The logged-in account (DID + handle). Logs in if needed.
+ */
+export async function getBlueskyIdentity(): Promise<{ did: string; handle: string }> {
+    const { did, handle } = await getSession();
+    return { did, handle };
+}
+
+// ---- Length Rules ----
+
+/**
+ * Split text into post-sized chunks (≤ 300 graphemes), breaking on the
+ * coarsest boundary that fits. Text that already fits is returned as-is.
+ */
+export function splitForBluesky(text: string, max: number = BLUESKY_MAX_GRAPHEMES): string[] {
+    return splitToFit(text, max, graphemeLength);
+}
+
+// ---- Rich Text ----
+
+interface LinkFacet {
+    index: { byteStart: number; byteEnd: number };
+    features: Array<{ $type: 'app.bsky.richtext.facet#link'; uri: string }>;
+}
+
+/**
+ * Link facets for every http(s) URL — Bluesky doesn't auto-link post text.
+ * Facet offsets are UTF-8 byte offsets.
+ */
+export function detectLinkFacets(text: string): LinkFacet[] {
+    const facets: LinkFacet[] = [];
+    for (const match of text.matchAll(/https?:\/\/[^\s]+/g)) {
+        const uri = match[0].replace(/[.,;:!?)\]'"]+$/, '');
+        const byteStart = Buffer.byteLength(text.slice(0, match.index));
+        facets.push({
+            index: { byteStart, byteEnd: byteStart + Buffer.byteLength(uri) },
+            features: [{ $type: 'app.bsky.richtext.facet#link', uri }],
+        });
+    }
+    return facets;
+}
+
+// ---- Publishing ----
+
+async function createPost(text: string, reply?: ReplyRef, embed?: unknown): Promise<StrongRef> {
+    const { did } = await getSession();
+    const facets = detectLinkFacets(text);
+    return authed<StrongRef>('com.atproto.repo.createRecord', {
+        body: {
+            repo: did,
+            collection: POST_COLLECTION,
+            record: {
+                $type: POST_COLLECTION,
+                text,
+                createdAt: new Date().toISOString(),
+                langs: ['en'],
+                ...(facets.length > 0 ? { facets } : {}),
+                ...(reply ? { reply } : {}),
+                ...(embed ? { embed } : {}),
+            },
+        },
+    });
+}
+
+/**
+ * Publish chunks as a self-thread under an optional parent. Stops at the first
+ * failure and returns the URIs that were published.
+ */
+async function publishChain(chunks: string[], reply?: ReplyRef, firstEmbed?: unknown): Promise<string[]> {
+    const uris: string[] = [];
+    let root = reply?.root;
+    let parent = reply?.parent;
+
+    for (const [i, chunk] of chunks.entries()) {
+        try {
+            const ref = await createPost(chunk, root && parent ? { root, parent } : undefined, i === 0 ? firstEmbed : undefined);
+            uris.push(ref.uri);
+            root = root ?? ref;
+            parent = ref;
+        } catch (error) {
+            log.error(`Failed to publish Bluesky post ${i + 1}/${chunks.length}`, { error: String(error) });
+            break;
+        }
+    }
+    return uris;
+}
+
+/**
+ * Publish a post. Text over 300 graphemes continues as a self-thread.
+ * Returns the AT URI of the first post.
+ */
+export async function postToBluesky(text: string): Promise<string | null> {
+    const chunks = splitForBluesky(text);
+    if (!canPublishContent()) {
+        log.info('[DRY RUN] Would post to Bluesky:', { text, posts: chunks.length });
+        return `dry-run-bsky-${Date.now()}`;
+    }
+
+    const uris = await publishChain(chunks);
+    if (uris.length > 0) log.info('Bluesky post published', { uri: uris[0], posts: uris.length });
+    return uris[0] ?? null;
+}
+
+/**
+ * Publish a thread. Parts over the limit are split further.
+ * Returns the AT URIs that were published.
+ */
+export async function postBlueskyThread(parts: string[]): Promise<string[]> {
+    const chunks = parts.flatMap(part => splitForBluesky(part));
+    if (!canPublishContent()) {
+        log.info('[DRY RUN] Would post Bluesky thread:', { posts: chunks.length, first: chunks[0]?.slice(0, 80) });
+        return chunks.map((_, i) => `dry-run-bsky-thread-${i}-${Date.now()}`);
+    }
+
+    const uris = await publishChain(chunks);
+    log.info(`Bluesky thread published (${uris.length}/${chunks.length} posts)`, { root: uris[0] });
+    return uris;
+}
+
+/**
+ * Reply to a post (by AT URI). Returns the AT URI of the reply.
+ */
+export async function replyOnBluesky(targetUri: string, text: string): Promise<string | null> {
+    const chunks = splitForBluesky(text);
+    if (!canPublishContent()) {
+        log.info('[DRY RUN] Would reply on Bluesky:', { targetUri, text });
+        return `dry-run-bsky-reply-${Date.now()}`;
+    }
+
+    try {
+        const [parent] = await getBlueskyPosts([targetUri]);
+        if (!parent) {
+            log.warn('Bluesky reply target not found', { targetUri });
+            return null;
+        }
+        const parentRef = { uri: parent.uri, cid: parent.cid };
+        const uris = await publishChain(chunks, { root: parent.record.reply?.root ?? parentRef, parent: parentRef });
+        if (uris.length > 0) log.info('Bluesky reply published', { uri: uris[0], targetUri });
+        return uris[0] ?? null;
+    } catch (error) {
+        log.error('Failed to reply on Bluesky', { error: String(error), targetUri });
+        return null;
+    }
+}
+
+/**
+ * Publish a post with one image. Returns null on failure (callers fall back to text).
+ */
+export async function postToBlueskyWithImage(
+    text: string,
+    imageBuffer: Buffer,
+    mimeType: string = 'image/png',
+    altText: string = '',
+): Promise<string | null> {
+    const chunks = splitForBluesky(text);
+    if (!canPublishContent()) {
+        log.info('[DRY RUN] Would post to Bluesky with image:', { text, imageSize: imageBuffer.length });
+        return `dry-run-bsky-img-${Date.now()}`;
+    }
+    if (imageBuffer.length > MAX_IMAGE_BYTES) {
+        log.warn('Image too large for Bluesky — skipping image', { size: imageBuffer.length, max: MAX_IMAGE_BYTES });
+        return null;
+    }
+
+    try {
+        const { blob } = await authed<{ blob: unknown }>('com.atproto.repo.uploadBlob', {
+            body: imageBuffer,
+            contentType: mimeType,
+        });
+        const embed = { $type: 'app.bsky.embed.images', images: [{ alt: altText, image: blob }] };
+        const uris = await publishChain(chunks, undefined, embed);
+        if (uris.length > 0) log.info('Bluesky post with image published', { uri: uris[0] });
+        return uris[0] ?? null;
+    } catch (error) {
+        log.error('Failed to post to Bluesky with image', { error: String(error) });
+        return null;
+    }
+}
+
+// ---- Reading ----
+
+/**
+ * Hydrated post views (engagement counts + record) for AT URIs.
+ */
+export async function getBlueskyPosts(uris: string[]): Promise<BlueskyPostView[]> {
+    const posts: BlueskyPostView[] = [];
+    for (let i = 0; i < uris.length; i += GET_POSTS_BATCH) {
+        const { posts: batch } = await authed<{ posts: BlueskyPostView[] }>('app.bsky.feed.getPosts', {
+            params: { uris: uris.slice(i, i + GET_POSTS_BATCH) },
+        });
+        posts.push(...batch);
+    }
+    return posts;
+}
+
+/**
+ * Recent notifications that mention us or reply to us, newest first.
+ */
+export async function getBlueskyMentions(limit: number = 25): Promise<BlueskyNotification[]> {
+    const { notifications } = await authed<{ notifications: any[] }>('app.bsky.notification.listNotifications', {
+        params: { limit: Math.min(100, Math.max(1, limit)) },
+    });
+
+    return notifications
+        .filter(n => n.reason === 'mention' || n.reason === 'reply')
+        .map(n => ({
+            uri: n.uri,
+            cid: n.cid,
+            reason: n.reason,
+            authorDid: n.author?.did ?? '',
+            authorHandle: n.author?.handle ?? '',
+            text: n.record?.text ?? '',
+            createdAt: n.record?.createdAt ?? n.indexedAt,
+            indexedAt: n.indexedAt,
+            isRead: !!n.isRead,
+            replyParent: n.record?.reply?.parent?.uri,
+            replyRoot: n.record?.reply?.root?.uri,
+        }));
+}
+
+/**
+ * Mark notifications up to `seenAt` (an indexedAt timestamp) as read.
+ */
+export async function markBlueskyNotificationsSeen(seenAt: string): Promise<void> {
+    if (!canPerformWrites()) {
+        log.debug('[DRY RUN] Would mark Bluesky notifications seen', { seenAt });
+        return;
+    }
+    try {
+        await authed('app.bsky.notification.updateSeen', { body: { seenAt } });
+    } catch (error) {
+        log.warn('Failed to mark Bluesky notifications seen', { error: String(error) });
+    }
+}
+
+/**
+ * Public bsky.app URL for an AT URI (null for anything else, e.g. dry-run ids).
+ */
+export function blueskyPostUrl(uri: string): string | null {
+    const match = uri.match(/^at:\/\/([^/]+)\/app\.bsky\.feed\.post\/([^/]+)$/);
+    return match ? `https://bsky.app/profile/${match[1]}/post/${match[2]}` : null;
+}
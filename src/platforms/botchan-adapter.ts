@@ -0,0 +1,61 @@
+import { isNetConfigured } from '../config.js';
+import { createLogger } from '../logger.js';
+import { postToFeed } from '../net/client.js';
+import { postBotchanComment } from '../net/botchan-engage.js';
+import type { PlatformAdapter } from './adapter.js';
+
+// ============================================================================
+// QasidAI — Botchan Platform Adapter
+// PlatformAdapter over Net Protocol feeds (Base L2). Posts are on-chain
+// messages identified by tx hash; Botchan has its own daily budget.
+// Reply targets are "<feed>/<post-id>" (post id = "<sender>:<timestamp>").
+// ============================================================================
+
+const log = createLogger('BotchanAdapter');
+
+/** Feed used when the caller doesn't pick a topic */
+const DEFAULT_TOPIC = 'lisan-holdings';
+
+export const botchanAdapter: PlatformAdapter = {
+    id: 'botchan',
+    displayName: 'Botchan',
+    capabilities: {
+        threads: false,
+        replies: true,
+        media: false,
+        metrics: false,
+        mentions: false,
+        polls: false,
+        maxLength: 10_000,
+    },
+    isConfigured: () => isNetConfigured,
+    budgetAction: () => 'botchan_post',
+    post: (text, options) => postToFeed(text, options?.topic ?? DEFAULT_TOPIC),
+
+    async postThread(parts, options) {
+        // Long-form platform — a thread becomes one post
+        const txHash = await postToFeed(parts.join('\n\n'), options?.topic ?? DEFAULT_TOPIC);
+        return [txHash];
+    },
+
+    async reply(targetId, text) {
+        const slash = targetId.indexOf('/');
+        if (slash <= 0) {
+            log.warn('Botchan reply target must be "<feed>/<post-id>"', { targetId });
+            return null;
+        }
+        const feed = targetId.slice(0, slash);
+        const postId = targetId.slice(slash + 1);
+        // The CLI doesn't return the comment's id — the target id stands in for it
+        return postBotchanComment(feed, postId, text) ? targetId : null;
+    },
+
+    async postWithMedia() {
+        log.warn('Botchan posts cannot carry media');
+        return null;
+    },
+
+    getMetrics: async () => new Map(),
+    getMentions: async () => [],
+    postUrl: () => null,
+};
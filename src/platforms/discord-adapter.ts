@@ -0,0 +1,49 @@
+import { isDiscordConfigured } from '../config.js';
+import { createLogger } from '../logger.js';
+import { DISCORD_EMBED_MAX, postToDiscord } from './discord.js';
+import type { PlatformAdapter } from './adapter.js';
+
+// ============================================================================
+// QasidAI — Discord Platform Adapter
+// PlatformAdapter over Discord webhooks (discord.ts). Publish-only: posts are
+// routed to channels by content type (PublishOptions.contentType), threads
+// become one long-form embed, and there are no replies, metrics or mentions.
+// Discord has its own daily budget line (discord_post).
+// ============================================================================
+
+const log = createLogger('DiscordAdapter');
+
+export const discordAdapter: PlatformAdapter = {
+    id: 'discord',
+    displayName: 'Discord',
+    capabilities: {
+        threads: false,
+        replies: false,
+        media: true,
+        metrics: false,
+        mentions: false,
+        polls: false,
+        maxLength: DISCORD_EMBED_MAX,
+    },
+    isConfigured: () => isDiscordConfigured,
+    budgetAction: () => 'discord_post',
+    post: (text, options) => postToDiscord(text, { contentType: options?.contentType, link: options?.link }),
+
+    async postThread(parts, options) {
+        // Long-form embed — a thread becomes one post
+        const id = await postToDiscord(parts.join('\n\n'), { contentType: options?.contentType, link: options?.link });
+        return id ? [id] : [];
+    },
+
+    async reply() {
+        log.warn('Discord webhooks cannot reply');
+        return null;
+    },
+
+    postWithMedia: (text, media, options) =>
+        postToDiscord(text, { contentType: options?.contentType, link: options?.link, image: media }),
+
+    getMetrics: async () => new Map(),
+    getMentions: async () => [],
+    postUrl: () => null, // Message links need the guild id, which webhooks don't return
+};
@@ -0,0 +1,167 @@
+import { config } from '../config.js';
+import { createLogger } from '../logger.js';
+import { canPublishContent } from '../engine/posting-mode.js';
+import { splitToFit } from './text-split.js';
+
+// ============================================================================
+// QasidAI — Discord Connector (webhooks)
+// Posts rich embeds to community channels through incoming webhooks — no bot
+// user or gateway connection. DISCORD_ROUTES decides which content types go
+// to which channel; one post can fan out to several channels. Threads are
+// collapsed into a single long-form embed, and an attached image (e.g. the
+// signal scorecard PNG) is uploaded with the message and shown in the embed.
+// Post ids are "<channelId>:<messageId>" of the first channel posted to.
+// ============================================================================
+
+const log = createLogger('Discord');
+
+/** Embed description limit (characters) */
+export const DISCORD_EMBED_MAX = 4096;
+
+/** Lisan cyan (scorecard accent) */
+const EMBED_COLOR = 0x22d3ee;
+
+const REQUEST_TIMEOUT_MS = 15_000;
+
+/** Longest rate-limit wait honoured before the single retry */
+const MAX_RETRY_AFTER_MS = 10_000;
+
+export type DiscordRoute = typeof config.DISCORD_ROUTES[number];
+
+export interface DiscordEmbed {
+    title?: string;
+    description: string;
+    url?: string;
+    color: number;
+    timestamp: string;
+    footer: { text: string };
+    image?: { url: string };
+}
+
+export interface DiscordPostOptions {
+    /** Content type the routing rules match on */
+    contentType?: string;
+    /** Original post URL — the embed title links to it */
+    link?: string;
+    /** Attachment shown as the embed image */
+    image?: { data: Buffer; mimeType: string };
+}
+
+interface WebhookMessage {
+    id: string;
+    channel_id: string;
+}
+
+/**
+ * Routes whose rules match a content type ("*" matches everything, including untyped posts).
+ */
+export function routesFor(contentType?: string): DiscordRoute[] {
+    return config.DISCORD_ROUTES.filter(r =>
+        r.contentTypes.includes('*') || (!!contentType && r.contentTypes.includes(contentType)));
+}
+
+/** "signal_scorecard" → "Signal Scorecard" */
+function titleFor(contentType?: string): string | undefined {
+    return contentType?.split('_').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+}
+
+/**
+ * Build the embed for a post. Text over the embed limit is cut at the last
+ * boundary that fits and marked with an ellipsis.
+ */
+export function buildEmbed(text: string, options: DiscordPostOptions & { imageName?: string } = {}): DiscordEmbed {
+    const body = text.trim();
+    const description = body.length <= DISCORD_EMBED_MAX
+        ? body
+        : `${splitToFit(body, DISCORD_EMBED_MAX - 1, s => s.length)[0]}…`;
+    return {
+        title: titleFor(options.contentType),
+        description,
+        url: options.link,
+        color: EMBED_COLOR,
+        timestamp: new Date().toISOString(),
+        footer: { text: 'QasidAI · Lisan Holdings' },
+        ...(options.imageName ? { image: { url: `attachment://${options.imageName}` } } : {}),
+    };
+}
+
+// ---- Webhooks ----
+
+/**
+ * Execute a webhook (wait=true, so Discord returns the created message).
+ * Retries once after a short 429. Throws on failure.
+ */
+async function executeWebhook(
+    route: DiscordRoute,
+    payload: Record<string, unknown>,
+    file?: { name: string; data: Buffer; mimeType: string },
+): Promise<WebhookMessage> {
+    const url = new URL(route.webhookUrl);
+    url.searchParams.set('wait', 'true');
+
+    for (let attempt = 0; ; attempt++) {
+        let body: string | FormData;
+        const headers: Record<string, string> = {};
+        if (file) {
+            body = new FormData();
+            body.append('payload_json', JSON.stringify({ ...payload, attachments: [{ id: 0, filename: file.name }] }));
+            body.append('files[0]', new Blob([new Uint8Array(file.data)], { type: file.mimeType }), file.name);
+        } else {
+            body = JSON.stringify(payload);
+            headers['Content-Type'] = 'application/json';
+        }
+
+        const res = await fetch(url, { method: 'POST', headers, body, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+        const text = await res.text();
+        if (res.ok) return JSON.parse(text) as WebhookMessage;
+
+        let detail = text.slice(0, 200);
+        let retryAfterMs: number | null = null;
+        try {
+            const err = JSON.parse(text);
+            detail = err.message ?? detail;
+            if (typeof err.retry_after === 'number') retryAfterMs = Math.ceil(err.retry_after * 1000);
+        } catch { /* not JSON */ }
+
+        if (res.status === 429 && attempt === 0 && retryAfterMs !== null && retryAfterMs <= MAX_RETRY_AFTER_MS) {
+            log.warn(`Discord rate limited on #${route.channel}, retrying in ${retryAfterMs}ms`);
+            await new Promise(resolve => setTimeout(resolve, retryAfterMs));
+            continue;
+        }
+        throw new Error(`Discord webhook #${route.channel} failed (${res.status}): ${detail}`);
+    }
+}
+
+/**
+ * Post an embed to every channel routed for the content type.
+ * Returns the first channel's post id, or null if nothing was routed or every channel failed.
+ */
+export async function postToDiscord(text: string, options: DiscordPostOptions = {}): Promise<string | null> {
+    const routes = routesFor(options.contentType);
+    if (routes.length === 0) {
+        log.debug('No Discord route for content type', { contentType: options.contentType });
+        return null;
+    }
+
+    if (!canPublishContent()) {
+        log.info('[DRY RUN] Would post to Discord:', { channels: routes.map(r => r.channel), contentType: options.contentType, text: text.slice(0, 100) });
+        return `dry-run-discord-${Date.now()}`;
+    }
+
+    const file = options.image
+        ? { name: `qasid.${options.image.mimeType.split('/')[1] ?? 'png'}`, data: options.image.data, mimeType: options.image.mimeType }
+        : undefined;
+    const payload = { embeds: [buildEmbed(text, { ...options, imageName: file?.name })], allowed_mentions: { parse: [] } };
+
+    let firstId: string | null = null;
+    for (const route of routes) {
+        try {
+            const message = await executeWebhook(route, payload, file);
+            firstId ??= `${message.channel_id}:${message.id}`;
+            log.info(`Posted to Discord #${route.channel}`, { messageId: message.id, contentType: options.contentType });
+        } catch (error) {
+            log.error('Failed to post to Discord', { channel: route.channel, error: String(error) });
+        }
+    }
+    return firstId;
+}
@@ -0,0 +1,95 @@
+import { isFarcasterConfigured } from '../config.js';
+import { createLogger } from '../logger.js';
+import {
+    MAX_CAST_BYTES,
+    TOPIC_TO_CHANNEL,
+    DEFAULT_CHANNEL,
+    castId,
+    castToFarcaster,
+    postFarcasterThread,
+    replyOnFarcaster,
+    getFarcasterMentions,
+    getCastEngagement,
+    farcasterCastUrl,
+} from './farcaster.js';
+import type { PlatformAdapter, PlatformMetrics } from './adapter.js';
+
+// ============================================================================
+// QasidAI — Farcaster Platform Adapter
+// PlatformAdapter over the hub connector (farcaster.ts). Botchan topics map
+// to Farcaster channels (TOPIC_TO_CHANNEL); casts over 320 bytes continue as
+// replies. Farcaster has its own daily budget line (farcaster_post).
+// ============================================================================
+
+const log = createLogger('FarcasterAdapter');
+
+/** Channel for a Botchan topic (unmapped or missing topics use the default channel) */
+function channelFor(topic?: string): string {
+    return (topic && TOPIC_TO_CHANNEL[topic]) || DEFAULT_CHANNEL;
+}
+
+export const farcasterAdapter: PlatformAdapter = {
+    id: 'farcaster',
+    displayName: 'Farcaster',
+    capabilities: {
+        threads: true,
+        replies: true,
+        media: false, // Embeds are URLs only — no upload endpoint on hubs
+        metrics: true,
+        mentions: true,
+        polls: false,
+        maxLength: MAX_CAST_BYTES,
+    },
+    isConfigured: () => isFarcasterConfigured,
+    budgetAction: () => 'farcaster_post',
+    post: (text, options) => castToFarcaster(text, channelFor(options?.topic)),
+    postThread: (parts, options) => postFarcasterThread(parts, channelFor(options?.topic)),
+    reply: (targetId, text) => replyOnFarcaster(targetId, text),
+
+    async postWithMedia() {
+        log.warn('Farcaster casts cannot carry uploaded media');
+        return null;
+    },
+
+    async getMetrics(ids) {
+        const metrics = new Map<string, PlatformMetrics>();
+        for (const id of ids) {
+            try {
+                const engagement = await getCastEngagement(id);
+                if (!engagement) continue;
+                metrics.set(id, {
+                    likes: engagement.likes,
+                    replies: engagement.replies,
+                    reposts: engagement.recasts,
+                    quotes: 0,
+                    impressions: 0, // Hubs don't track views
+                    bookmarks: 0,
+                });
+            } catch (error) {
+                log.warn('Failed to fetch cast reactions', { id, error: String(error) });
+            }
+        }
+        return metrics;
+    },
+
+    async getMentions(sinceId, limit = 10) {
+        try {
+            const casts = await getFarcasterMentions(limit);
+            // Newest first — keep everything newer than the watermark cast
+            const cut = sinceId ? casts.findIndex(c => c.id === sinceId) : -1;
+            return (cut >= 0 ? casts.slice(0, cut) : casts).map(c => ({
+                id: c.id,
+                text: c.text,
+                authorId: String(c.fid),
+                authorHandle: c.authorUsername,
+                createdAt: c.createdAt,
+                inReplyToId: c.parent ? castId(c.parent) : undefined,
+            }));
+        } catch (error) {
+            log.warn('Failed to fetch Farcaster mentions', { error: String(error) });
+            return [];
+        }
+    },
+
+    postUrl: id => farcasterCastUrl(id),
+};
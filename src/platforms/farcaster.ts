@@ -0,0 +1,414 @@
+import { createPrivateKey, createPublicKey, sign, type KeyObject } from 'node:crypto';
+import { blake3 } from '@noble/hashes/blake3';
+import { config } from '../config.js';
+import { createLogger } from '../logger.js';
+import { canPublishContent } from '../engine/posting-mode.js';
+import { splitToFit, byteLength } from './text-split.js';
+
+// ============================================================================
+// QasidAI — Farcaster Connector (hub HTTP API)
+// Casts are built as Farcaster protobuf messages, hashed (BLAKE3, 20 bytes)
+// and signed locally with the Ed25519 signer registered to FARCASTER_FID, then
+// submitted to any hub (/v1/submitMessage). Reads (mentions, reactions,
+// replies, usernames) use the hub's JSON endpoints.
+// Cast ids are "<fid>:<0xhash>" — replying needs both.
+// ============================================================================
+
+const log = createLogger('Farcaster');
+
+/** A cast's text is limited to 320 bytes (UTF-8) */
+export const MAX_CAST_BYTES = 320;
+
+/** Farcaster timestamps are seconds since 2021-01-01T00:00:00Z */
+const FARCASTER_EPOCH_MS = Date.UTC(2021, 0, 1);
+
+const REQUEST_TIMEOUT_MS = 15_000;
+
+/** Max URLs turned into embeds (link previews) per cast */
+const MAX_EMBEDS = 2;
+
+/** Reaction pages read per cast when counting engagement */
+const MAX_REACTION_PAGES = 5;
+
+// Protobuf enum values (farcaster/protobufs message.proto)
+const MESSAGE_TYPE_CAST_ADD = 1;
+const FARCASTER_NETWORK_MAINNET = 1;
+const HASH_SCHEME_BLAKE3 = 1;
+const SIGNATURE_SCHEME_ED25519 = 1;
+const USER_DATA_TYPE_USERNAME = 6;
+
+// ---- Channels ----
+
+/** Botchan topic → Farcaster channel (mirrors CONTENT_TO_TOPIC in botchan-content.ts) */
+export const TOPIC_TO_CHANNEL: Record<string, string> = {
+    'lisan-holdings': 'base',
+    'agent-finance': 'agents',
+    trading: 'trading',
+};
+
+/** Channel for casts without a mapped topic */
+export const DEFAULT_CHANNEL = 'base';
+
+/** Channels created before channel ids existed keep their original parent URL */
+const CHANNEL_PARENT_URLS: Record<string, string> = {
+    base: 'https://onchainsummer.xyz',
+};
+
+/** Parent URL that places a cast in a channel */
+export function channelParentUrl(channel: string): string {
+    return CHANNEL_PARENT_URLS[channel] ?? `https://warpcast.com/~/channel/${channel}`;
+}
+
+// ---- Types ----
+
+export interface CastRef {
+    fid: number;
+    /** 0x-prefixed 20-byte message hash */
+    hash: string;
+}
+
+export interface FarcasterCast extends CastRef {
+    /** "<fid>:<hash>" */
+    id: string;
+    text: string;
+    authorUsername?: string;
+    createdAt: string;
+    parent?: CastRef;
+    parentUrl?: string;
+}
+
+export interface CastEngagement {
+    likes: number;
+    recasts: number;
+    replies: number;
+}
+
+/** Cast id used across QasidAI (qasid_posts.external_id, reply targets) */
+export function castId(ref: CastRef): string {
+    return `${ref.fid}:${ref.hash}`;
+}
+
+export function parseCastId(id: string): CastRef | null {
+    const match = id.match(/^(\d+):(0x[0-9a-fA-F]{40})$/);
+    return match ? { fid: Number(match[1]), hash: match[2].toLowerCase() } : null;
+}
+
+// ---- Protobuf Encoding ----
+// Only the fields QasidAI sends. Defaults (0 / empty) are omitted, as proto3 does.
+
+function varint(value: number): number[] {
+    const out: number[] = [];
+    while (value > 127) {
+        out.push((value % 128) | 128);
+        value = Math.floor(value / 128);
+    }
+    out.push(value);
+    return out;
+}
+
+function varintField(field: number, value: number): number[] {
+    return value ? [...varint(field << 3), ...varint(value)] : [];
+}
+
+function bytesField(field: number, bytes: Uint8Array | number[]): number[] {
+    return bytes.length > 0 ? [...varint((field << 3) | 2), ...varint(bytes.length), ...bytes] : [];
+}
+
+function stringField(field: number, text: string): number[] {
+    return bytesField(field, Buffer.from(text, 'utf8'));
+}
+
+function hashBytes(hash: string): Buffer {
+    return Buffer.from(hash.replace(/^0x/, ''), 'hex');
+}
+
+function encodeCastId(ref: CastRef): number[] {
+    return [...varintField(1, ref.fid), ...bytesField(2, hashBytes(ref.hash))];
+}
+
+function encodeCastAddBody(text: string, target: { parent?: CastRef; parentUrl?: string }): number[] {
+    const urls = [...text.matchAll(/https?:\/\/[^\s]+/g)]
+        .map(m => m[0].replace(/[.,;:!?)\]'"]+$/, ''))
+        .slice(0, MAX_EMBEDS);
+    return [
+        ...(target.parent ? bytesField(3, encodeCastId(target.parent)) : []),
+        ...stringField(4, text),
+        ...urls.flatMap(url => bytesField(6, stringField(1, url))),
+        ...(target.parentUrl && !target.parent ? stringField(7, target.parentUrl) : []),
+    ];
+}
+
+function encodeCastAddData(fid: number, text: string, target: { parent?: CastRef; parentUrl?: string }): Uint8Array {
+    const timestamp = Math.floor((Date.now() - FARCASTER_EPOCH_MS) / 1000);
+    return Uint8Array.from([
+        ...varintField(1, MESSAGE_TYPE_CAST_ADD),
+        ...varintField(2, fid),
+        ...varintField(3, timestamp),
+        ...varintField(4, FARCASTER_NETWORK_MAINNET),
+        ...bytesField(5, encodeCastAddBody(text, target)),
+    ]);
+}
+
+// ---- Signer ----
+
+/** DER prefix that wraps a raw 32-byte Ed25519 seed as a PKCS#8 private key */
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+let signer: { privateKey: KeyObject; publicKey: Buffer } | null = null;
+
+function getSigner(): { privateKey: KeyObject; publicKey: Buffer } {
+    if (signer) return signer;
+    if (!config.FARCASTER_SIGNER_KEY) {
+        throw new Error('Farcaster not configured — set FARCASTER_FID and FARCASTER_SIGNER_KEY');
+    }
+    const seed = Buffer.from(config.FARCASTER_SIGNER_KEY.slice(2, 66), 'hex');
+    const privateKey = createPrivateKey({ key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]), format: 'der', type: 'pkcs8' });
+    const publicKey = createPublicKey(privateKey).export({ format: 'der', type: 'spki' }).subarray(-32);
+    signer = { privateKey, publicKey };
+    return signer;
+}
+
+/**
+ * Hash + sign MessageData into a full Message. data_bytes carries the exact
+ * signed bytes so hubs never re-encode them.
+ */
+export function buildSignedMessage(dataBytes: Uint8Array): { message: Uint8Array; hash: string } {
+    const { privateKey, publicKey } = getSigner();
+    const hash = blake3(dataBytes, { dkLen: 20 });
+    const signature = sign(null, hash, privateKey);
+    const message = Uint8Array.from([
+        ...bytesField(1, dataBytes),
+        ...bytesField(2, hash),
+        ...varintField(3, HASH_SCHEME_BLAKE3),
+        ...bytesField(4, signature),
+        ...varintField(5, SIGNATURE_SCHEME_ED25519),
+        ...bytesField(6, publicKey),
+        ...bytesField(7, dataBytes),
+    ]);
+    return { message, hash: `0x${Buffer.from(hash).toString('hex')}` };
+}
+
+// ---- Hub HTTP API ----
+
+async function hubRequest<T>(
+    path: string,
+    options: { params?: Record<string, string | number | undefined>; body?: Uint8Array } = {},
+): Promise<T> {
+    const url = new URL(`/v1/${path}`, config.FARCASTER_HUB_URL);
+    for (const [key, value] of Object.entries(options.params ?? {})) {
+        if (value !== undefined) url.searchParams.set(key, String(value));
+    }
+
+    const headers: Record<string, string> = {};
+    if (config.FARCASTER_HUB_API_KEY) headers['x-api-key'] = config.FARCASTER_HUB_API_KEY;
+    if (options.body) headers['Content-Type'] = 'application/octet-stream';
+
+    const res = await fetch(url, {
+        method: options.body ? 'POST' : 'GET',
+        headers,
+        body: options.body ? new Uint8Array(options.body) : undefined,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const text = await res.text();
+    if (!res.ok) {
+        let detail = text.slice(0, 200);
+        try {
+            const err = JSON.parse(text);
+            detail = err.details ?? err.message ?? detail;
+        } catch { /* not JSON */ }
+        throw new Error(`Farcaster hub ${path} failed (${res.status}): ${detail}`);
+    }
+    return (text ? JSON.parse(text) : {}) as T;
+}
+
+interface HubMessage {
+    data?: {
+        type?: string;
+        fid?: number;
+        timestamp?: number;
+        castAddBody?: {
+            text?: string;
+            parentCastId?: CastRef;
+            parentUrl?: string;
+        };
+        userDataBody?: { type?: string; value?: string };
+    };
+    hash: string;
+}
+
+interface HubPage {
+    messages: HubMessage[];
+    nextPageToken?: string;
+}
+
+// ---- Publishing ----
+
+/**
+ * Sign and submit one cast. Throws when the hub rejects it.
+ */
+async function submitCast(text: string, target: { parent?: CastRef; parentUrl?: string }): Promise<CastRef> {
+    const fid = config.FARCASTER_FID;
+    if (!fid) throw new Error('Farcaster not configured — set FARCASTER_FID and FARCASTER_SIGNER_KEY');
+
+    const { message, hash } = buildSignedMessage(encodeCastAddData(fid, text, target));
+    const accepted = await hubRequest<HubMessage>('submitMessage', { body: message });
+    return { fid, hash: accepted.hash ?? hash };
+}
+
+/**
+ * Publish chunks as a reply chain. The first cast goes to the channel (or under
+ * the parent); stops at the first failure and returns the cast ids published.
+ */
+async function publishCastChain(chunks: string[], target: { parent?: CastRef; parentUrl?: string }): Promise<string[]> {
+    const ids: string[] = [];
+    let next = target;
+    for (const [i, chunk] of chunks.entries()) {
+        try {
+            const ref = await submitCast(chunk, next);
+            ids.push(castId(ref));
+            next = { parent: ref };
+        } catch (error) {
+            log.error(`Failed to publish cast ${i + 1}/${chunks.length}`, { error: String(error) });
+            break;
+        }
+    }
+    return ids;
+}
+
+/** Split text into casts of at most 320 bytes */
+export function splitForFarcaster(text: string): string[] {
+    return splitToFit(text, MAX_CAST_BYTES, byteLength);
+}
+
+/**
+ * Cast to a channel (text over 320 bytes continues as replies).
+ * Returns the id of the first cast.
+ */
+export async function castToFarcaster(text: string, channel: string = DEFAULT_CHANNEL): Promise<string | null> {
+    const chunks = splitForFarcaster(text);
+    if (!canPublishContent()) {
+        log.info('[DRY RUN] Would cast to Farcaster:', { channel, text, casts: chunks.length });
+        return `dry-run-fc-${Date.now()}`;
+    }
+
+    const ids = await publishCastChain(chunks, { parentUrl: channelParentUrl(channel) });
+    if (ids.length > 0) log.info(`Cast published to /${channel}`, { id: ids[0], casts: ids.length });
+    return ids[0] ?? null;
+}
+
+/**
+ * Cast a thread to a channel. Returns the ids that were published.
+ */
+export async function postFarcasterThread(parts: string[], channel: string = DEFAULT_CHANNEL): Promise<string[]> {
+    const chunks = parts.flatMap(part => splitForFarcaster(part));
+    if (!canPublishContent()) {
+        log.info('[DRY RUN] Would cast Farcaster thread:', { channel, casts: chunks.length, first: chunks[0]?.slice(0, 80) });
+        return chunks.map((_, i) => `dry-run-fc-thread-${i}-${Date.now()}`);
+    }
+
+    const ids = await publishCastChain(chunks, { parentUrl: channelParentUrl(channel) });
+    log.info(`Farcaster thread published to /${channel} (${ids.length}/${chunks.length} casts)`, { root: ids[0] });
+    return ids;
+}
+
+/**
+ * Reply to a cast ("<fid>:<hash>"). Returns the reply's cast id.
+ */
+export async function replyOnFarcaster(targetId: string, text: string): Promise<string | null> {
+    const parent = parseCastId(targetId);
+    if (!parent) {
+        log.warn('Farcaster reply target must be "<fid>:<0xhash>"', { targetId });
+        return null;
+    }
+    if (!canPublishContent()) {
+        log.info('[DRY RUN] Would reply on Farcaster:', { targetId, text });
+        return `dry-run-fc-reply-${Date.now()}`;
+    }
+
+    const ids = await publishCastChain(splitForFarcaster(text), { parent });
+    if (ids.length > 0) log.info('Farcaster reply published', { id: ids[0], targetId });
+    return ids[0] ?? null;
+}
+
+// ---- Reading ----
+
+const usernames = new Map<number, string>();
+
+/** Username for an FID (cached; undefined if the hub has none) */
+async function getUsername(fid: number): Promise<string | undefined> {
+    if (usernames.has(fid)) return usernames.get(fid);
+    try {
+        const message = await hubRequest<HubMessage>('userDataByFid', {
+            params: { fid, user_data_type: USER_DATA_TYPE_USERNAME },
+        });
+        const username = message.data?.userDataBody?.value;
+        if (username) usernames.set(fid, username);
+        return username;
+    } catch (error) {
+        log.debug('Farcaster username lookup failed', { fid, error: String(error) });
+        return undefined;
+    }
+}
+
+function toCast(message: HubMessage): FarcasterCast | null {
+    const data = message.data;
+    if (!data?.castAddBody || !data.fid) return null;
+    const ref = { fid: data.fid, hash: message.hash };
+    return {
+        ...ref,
+        id: castId(ref),
+        text: data.castAddBody.text ?? '',
+        createdAt: new Date(FARCASTER_EPOCH_MS + (data.timestamp ?? 0) * 1000).toISOString(),
+        parent: data.castAddBody.parentCastId,
+        parentUrl: data.castAddBody.parentUrl,
+    };
+}
+
+/**
+ * Recent casts that mention QasidAI's FID, newest first (with author usernames).
+ */
+export async function getFarcasterMentions(limit: number = 25): Promise<FarcasterCast[]> {
+    const page = await hubRequest<HubPage>('castsByMention', {
+        params: { fid: config.FARCASTER_FID, pageSize: limit, reverse: 'true' },
+    });
+    const casts = page.messages.map(toCast).filter((c): c is FarcasterCast => c !== null);
+    for (const cast of casts) {
+        cast.authorUsername = await getUsername(cast.fid);
+    }
+    return casts;
+}
+
+/** Count every message of a paged hub endpoint (bounded) */
+async function countMessages(path: string, params: Record<string, string | number>): Promise<number> {
+    let count = 0;
+    let pageToken: string | undefined;
+    for (let page = 0; page < MAX_REACTION_PAGES; page++) {
+        const result = await hubRequest<HubPage>(path, { params: { ...params, pageSize: 100, pageToken } });
+        count += result.messages.length;
+        pageToken = result.nextPageToken || undefined;
+        if (!pageToken) break;
+    }
+    return count;
+}
+
+/**
+ * Likes, recasts and direct replies for a cast.
+ */
+export async function getCastEngagement(id: string): Promise<CastEngagement | null> {
+    const ref = parseCastId(id);
+    if (!ref) return null;
+    const target = { target_fid: ref.fid, target_hash: ref.hash };
+    return {
+        likes: await countMessages('reactionsByCast', { ...target, reaction_type: 'Like' }),
+        recasts: await countMessages('reactionsByCast', { ...target, reaction_type: 'Recast' }),
+        replies: await countMessages('castsByParent', { fid: ref.fid, hash: ref.hash }),
+    };
+}
+
+/**
+ * Public URL for a cast id (null for anything else, e.g. dry-run ids).
+ */
+export function farcasterCastUrl(id: string): string | null {
+    const ref = parseCastId(id);
+    return ref ? `https://warpcast.com/~/conversations/${ref.hash}` : null;
+}
@@ -0,0 +1,32 @@
+import { registerPlatform } from './adapter.js';
+import { xAdapter } from './x-adapter.js';
+import { botchanAdapter } from './botchan-adapter.js';
+import { blueskyAdapter } from './bluesky-adapter.js';
+import { farcasterAdapter } from './farcaster-adapter.js';
+import { discordAdapter } from './discord-adapter.js';
+
+// ============================================================================
+// QasidAI — Platform Registry
+// Registers every adapter. Import platform helpers from here so the
+// registry is populated before use.
+// ============================================================================
+
+registerPlatform(xAdapter);
+registerPlatform(botchanAdapter);
+registerPlatform(blueskyAdapter);
+registerPlatform(farcasterAdapter);
+registerPlatform(discordAdapter);
+
+export {
+    getPlatform,
+    listPlatforms,
+    configuredPlatforms,
+    isPlatformId,
+    platformIds,
+    type PlatformId,
+    type PlatformAdapter,
+    type PlatformMetrics,
+    type PlatformMention,
+    type PlatformMedia,
+    type PlatformPoll,
+} from './adapter.js';
@@ -0,0 +1,144 @@
+import { config } from '../config.js';
+import { createLogger } from '../logger.js';
+import { splitToFit } from './text-split.js';
+
+// ============================================================================
+// QasidAI — Telegram Connector (Bot API)
+// Thin client over the HTTP Bot API: send messages (channel broadcasts and
+// control-bot replies) and long-poll for updates. Messages are plain text —
+// no parse_mode, so post content never needs Markdown/HTML escaping.
+// ============================================================================
+
+const log = createLogger('Telegram');
+
+/** Bot API message limit (UTF-16 code units) */
+export const TELEGRAM_MAX_MESSAGE_LENGTH = 4096;
+
+const REQUEST_TIMEOUT_MS = 15_000;
+
+export interface TelegramUser {
+    id: number;
+    is_bot?: boolean;
+    first_name?: string;
+    username?: string;
+}
+
+export interface TelegramChat {
+    id: number;
+    type: 'private' | 'group' | 'supergroup' | 'channel';
+    title?: string;
+    username?: string;
+}
+
+export interface TelegramMessage {
+    message_id: number;
+    date: number;
+    chat: TelegramChat;
+    from?: TelegramUser;
+    text?: string;
+}
+
+export interface TelegramUpdate {
+    update_id: number;
+    message?: TelegramMessage;
+}
+
+interface BotApiResponse<T> {
+    ok: boolean;
+    result?: T;
+    description?: string;
+    error_code?: number;
+    parameters?: { retry_after?: number };
+}
+
+// ---- Bot API ----
+
+/**
+ * Call a Bot API method. Throws with Telegram's description on failure.
+ * @param timeoutMs Request timeout — long polls pass their poll timeout plus slack
+ */
+async function callBotApi<T>(
+    method: string,
+    params: Record<string, unknown> = {},
+    options: { timeoutMs?: number; signal?: AbortSignal } = {},
+): Promise<T> {
+    if (!config.TELEGRAM_BOT_TOKEN) throw new Error('TELEGRAM_BOT_TOKEN not set');
+
+    const timeout = AbortSignal.timeout(options.timeoutMs ?? REQUEST_TIMEOUT_MS);
+    const res = await fetch(`${config.TELEGRAM_API_URL.replace(/\/$/, '')}/bot${config.TELEGRAM_BOT_TOKEN}/${method}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(params),
+        signal: options.signal ? AbortSignal.any([timeout, options.signal]) : timeout,
+    });
+
+    let body: BotApiResponse<T>;
+    try {
+        body = await res.json() as BotApiResponse<T>;
+    } catch {
+        throw new Error(`Telegram ${method} failed (${res.status}): non-JSON response`);
+    }
+    if (!body.ok || body.result === undefined) {
+        const retry = body.parameters?.retry_after ? ` (retry after ${body.parameters.retry_after}s)` : '';
+        throw new Error(`Telegram ${method} failed (${body.error_code ?? res.status}): ${body.description ?? 'unknown error'}${retry}`);
+    }
+    return body.result;
+}
+
+/**
+ * Send a plain-text message. Text over 4096 characters is split and sent as
+ * consecutive messages. Returns the first message id, or null on failure.
+ */
+export async function sendTelegramMessage(
+    chatId: string | number,
+    text: string,
+    options: { disablePreview?: boolean } = {},
+): Promise<number | null> {
+    const chunks = splitToFit(text, TELEGRAM_MAX_MESSAGE_LENGTH, s => s.length);
+    let firstId: number | null = null;
+    try {
+        for (const chunk of chunks) {
+            const message = await callBotApi<TelegramMessage>('sendMessage', {
+                chat_id: chatId,
+                text: chunk,
+                link_preview_options: { is_disabled: options.disablePreview ?? false },
+            });
+            firstId ??= message.message_id;
+        }
+        return firstId;
+    } catch (error) {
+        log.error('Failed to send Telegram message', { chatId, error: String(error) });
+        return firstId;
+    }
+}
+
+/**
+ * Long-poll for new updates (messages only).
+ * @param offset update_id of the first update to return (confirms everything before it)
+ * @param timeoutSeconds How long Telegram holds the request open when there is nothing new
+ */
+export async function getTelegramUpdates(
+    offset: number,
+    timeoutSeconds: number,
+    signal?: AbortSignal,
+): Promise<TelegramUpdate[]> {
+    return callBotApi<TelegramUpdate[]>('getUpdates', {
+        offset,
+        timeout: timeoutSeconds,
+        allowed_updates: ['message'],
+    }, { timeoutMs: timeoutSeconds * 1000 + REQUEST_TIMEOUT_MS, signal });
+}
+
+/**
+ * The bot's own account (verifies the token).
+ */
+export async function getTelegramBot(): Promise<TelegramUser> {
+    return callBotApi<TelegramUser>('getMe');
+}
+
+/**
+ * Public link to a channel message (only @username channels have one).
+ */
+export function telegramMessageUrl(chatId: string, messageId: number): string | null {
+    return chatId.startsWith('@') ? `https://t.me/${chatId.slice(1)}/${messageId}` : null;
+}
@@ -0,0 +1,80 @@
+// ============================================================================
+// QasidAI — Post Splitting
+// Splits text that exceeds a platform's post limit into self-thread chunks,
+// breaking on the coarsest boundary that fits (paragraph, line, sentence,
+// word, then grapheme). Limits are measured the platform's way — graphemes
+// on Bluesky, UTF-8 bytes on Farcaster.
+// ============================================================================
+
+/** Measures text the way a platform counts its post limit */
+export type LengthMeasure = (text: string) => number;
+
+const segmenter = new Intl.Segmenter('en', { granularity: 'grapheme' });
+
+/** Grapheme clusters (an emoji with modifiers is one) */
+export function graphemeLength(text: string): number {
+    let count = 0;
+    for (const _ of segmenter.segment(text)) count++;
+    return count;
+}
+
+/** UTF-8 byte length */
+export function byteLength(text: string): number {
+    return Buffer.byteLength(text, 'utf8');
+}
+
+/** Coarsest boundary first: paragraphs, lines, sentences, words */
+const SPLIT_LEVELS: Array<{ pattern: RegExp; joiner: string }> = [
+    { pattern: /\n{2,}/, joiner: '\n\n' },
+    { pattern: /\n/, joiner: '\n' },
+    { pattern: /(?<=[.!?])\s+/, joiner: ' ' },
+    { pattern: /\s+/, joiner: ' ' },
+];
+
+/** One unbroken run longer than a post — cut on grapheme boundaries */
+function cutGraphemes(text: string, max: number, measure: LengthMeasure): string[] {
+    const chunks: string[] = [];
+    let current = '';
+    for (const { segment } of segmenter.segment(text)) {
+        if (current && measure(current + segment) > max) {
+            chunks.push(current);
+            current = '';
+        }
+        current += segment;
+    }
+    if (current) chunks.push(current);
+    return chunks;
+}
+
+function packChunks(text: string, max: number, measure: LengthMeasure, level: number): string[] {
+    if (measure(text) <= max) return [text];
+    if (level >= SPLIT_LEVELS.length) return cutGraphemes(text, max, measure);
+
+    const { pattern, joiner } = SPLIT_LEVELS[level];
+    const pieces = text.split(pattern).map(p => p.trim()).filter(Boolean);
+    if (pieces.length <= 1) return packChunks(text, max, measure, level + 1);
+
+    const chunks: string[] = [];
+    let current = '';
+    for (const piece of pieces) {
+        for (const part of packChunks(piece, max, measure, level + 1)) {
+            const candidate = current ? current + joiner + part : part;
+            if (measure(candidate) <= max) {
+                current = candidate;
+            } else {
+                if (current) chunks.push(current);
+                current = part;
+            }
+        }
+    }
+    if (current) chunks.push(current);
+    return chunks;
+}
+
+/**
+ * Split text into chunks that each measure ≤ max. Text that already fits is
+ * returned as-is (trimmed).
+ */
+export function splitToFit(text: string, max: number, measure: LengthMeasure): string[] {
+    return packChunks(text.trim(), max, measure, 0);
+}
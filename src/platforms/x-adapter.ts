@@ -0,0 +1,61 @@
+import { isXConfigured } from '../config.js';
+import { postTweet, postThread, replyToTweet, postTweetWithMedia, postPoll, getTweetMetrics, getMentions } from './x.js';
+import type { PlatformAdapter } from './adapter.js';
+
+// ============================================================================
+// QasidAI — X Platform Adapter
+// PlatformAdapter over the X API v2 connector (x.ts). X-only features
+// (search, quote tweets, follows, articles) stay on x.ts directly.
+// ============================================================================
+
+/** QasidAI's X handle, for post URLs */
+const X_HANDLE = 'QasidAI34321';
+
+export const xAdapter: PlatformAdapter = {
+    id: 'x',
+    displayName: 'X',
+    capabilities: {
+        threads: true,
+        replies: true,
+        media: true,
+        metrics: true,
+        mentions: true,
+        polls: true,
+        maxLength: 4000, // Premium account — long posts allowed
+    },
+    isConfigured: () => isXConfigured,
+    budgetAction: action => action,
+    post: (text, options) => options?.poll
+        ? postPoll(text, options.poll.options, options.poll.durationMinutes)
+        : postTweet(text),
+    postThread: parts => postThread(parts),
+    reply: (targetId, text) => replyToTweet(targetId, text),
+    postWithMedia: (text, media) => postTweetWithMedia(text, [media]),
+
+    async getMetrics(ids) {
+        const metrics = await getTweetMetrics(ids);
+        return new Map([...metrics].map(([id, m]) => [id, {
+            likes: m.like_count,
+            replies: m.reply_count,
+            reposts: m.retweet_count,
+            quotes: m.quote_count,
+            impressions: m.impression_count,
+            bookmarks: m.bookmark_count,
+        }]));
+    },
+
+    async getMentions(sinceId, limit = 10) {
+        const mentions = await getMentions(sinceId, limit);
+        return mentions.map(m => ({
+            id: m.id,
+            text: m.text,
+            authorId: m.authorId,
+            authorHandle: m.authorUsername,
+            createdAt: m.createdAt,
+            conversationId: m.conversationId,
+            inReplyToId: m.inReplyToTweetId,
+        }));
+    },
+
+    postUrl: id => `https://x.com/${X_HANDLE}/status/${id}`,
+};
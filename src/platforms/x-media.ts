@@ -0,0 +1,194 @@
+import type { TwitterApi } from 'twitter-api-v2';
+import { createLogger } from '../logger.js';
+
+// ============================================================================
+// QasidAI — X Media Pipeline
+// Uploads attachments through the X API v2 chunked media endpoints
+// (initialize → append → finalize), polls processing status for GIFs and
+// video, and attaches alt text to every image. A tweet carries up to four
+// images, or exactly one GIF or one short MP4 — the same rules X enforces.
+// ============================================================================
+
+const log = createLogger('XMedia');
+
+export interface XMedia {
+    data: Buffer;
+    mimeType: string;
+    /** Screen-reader description (images and GIFs; X ignores it on video) */
+    altText?: string;
+}
+
+/** Images per tweet */
+export const X_MAX_IMAGES = 4;
+
+/** X alt text limit (characters) */
+export const X_ALT_TEXT_MAX = 1000;
+
+/** Longest MP4 accepted for a regular tweet (seconds) */
+export const X_MAX_VIDEO_SECONDS = 140;
+
+type MediaKind = 'image' | 'gif' | 'video';
+
+const MEDIA_KINDS: Record<string, MediaKind> = {
+    'image/png': 'image',
+    'image/jpeg': 'image',
+    'image/webp': 'image',
+    'image/gif': 'gif',
+    'video/mp4': 'video',
+};
+
+const MAX_BYTES: Record<MediaKind, number> = {
+    image: 5 * 1024 * 1024,
+    gif: 15 * 1024 * 1024,
+    video: 512 * 1024 * 1024,
+};
+
+const MEDIA_CATEGORIES = {
+    image: 'tweet_image',
+    gif: 'tweet_gif',
+    video: 'tweet_video',
+} as const;
+
+/** Bytes per APPEND segment */
+const CHUNK_BYTES = 2 * 1024 * 1024;
+
+/** Give up on server-side processing after this long */
+const MAX_PROCESSING_WAIT_MS = 3 * 60 * 1000;
+
+interface ProcessingInfo {
+    state: 'pending' | 'in_progress' | 'failed' | 'succeeded';
+    check_after_secs?: number;
+    error?: { code: number; message: string };
+}
+
+interface MediaUploadResponse {
+    data: { id: string; processing_info?: ProcessingInfo };
+}
+
+// ---- Validation ----
+
+function kindOf(mimeType: string): MediaKind {
+    const kind = MEDIA_KINDS[mimeType];
+    if (!kind) throw new Error(`Unsupported media type for X: ${mimeType}`);
+    return kind;
+}
+
+/**
+ * Duration of an MP4 in seconds, read from the movie header ("mvhd") box.
+ * Returns null if the header can't be found.
+ */
+export function mp4DurationSeconds(data: Buffer): number | null {
+    const index = data.indexOf('mvhd');
+    if (index < 4 || index + 32 > data.length) return null;
+    const version = data.readUInt8(index + 4);
+    if (version === 1) {
+        const timescale = data.readUInt32BE(index + 24);
+        const duration = Number(data.readBigUInt64BE(index + 28));
+        return timescale > 0 ? duration / timescale : null;
+    }
+    const timescale = data.readUInt32BE(index + 16);
+    const duration = data.readUInt32BE(index + 20);
+    return timescale > 0 ? duration / timescale : null;
+}
+
+/**
+ * Check a set of attachments against X's per-tweet rules. Throws with the reason.
+ */
+export function validateXMedia(media: XMedia[]): void {
+    if (media.length === 0) throw new Error('No media to attach');
+
+    const kinds = media.map(m => kindOf(m.mimeType));
+    if (kinds.some(k => k !== 'image') && media.length > 1) {
+        throw new Error('A GIF or video must be the only attachment on a tweet');
+    }
+    if (media.length > X_MAX_IMAGES) {
+        throw new Error(`At most ${X_MAX_IMAGES} images per tweet (got ${media.length})`);
+    }
+
+    media.forEach((m, i) => {
+        if (m.data.length > MAX_BYTES[kinds[i]]) {
+            throw new Error(`${kinds[i]} is ${m.data.length} bytes — X allows ${MAX_BYTES[kinds[i]]}`);
+        }
+        if (kinds[i] === 'video') {
+            const seconds = mp4DurationSeconds(m.data);
+            if (seconds !== null && seconds > X_MAX_VIDEO_SECONDS) {
+                throw new Error(`Video is ${Math.round(seconds)}s — X allows ${X_MAX_VIDEO_SECONDS}s`);
+            }
+        }
+    });
+}
+
+// ---- Upload ----
+
+async function waitForProcessing(client: TwitterApi, mediaId: string, info: ProcessingInfo): Promise<void> {
+    const deadline = Date.now() + MAX_PROCESSING_WAIT_MS;
+    let current: ProcessingInfo | undefined = info;
+
+    while (current && current.state !== 'succeeded') {
+        if (current.state === 'failed') {
+            throw new Error(`X media processing failed: ${current.error?.message ?? 'unknown error'}`);
+        }
+        if (Date.now() > deadline) {
+            throw new Error(`X media processing timed out after ${MAX_PROCESSING_WAIT_MS / 1000}s`);
+        }
+        await new Promise(resolve => setTimeout(resolve, Math.max(1, current!.check_after_secs ?? 1) * 1000));
+
+        const status = await client.v2.get<MediaUploadResponse>('media/upload', { command: 'STATUS', media_id: mediaId });
+        current = status.data.processing_info;
+        log.debug('Media processing status', { mediaId, state: current?.state });
+    }
+}
+
+/**
+ * Upload one attachment (chunked) and set its alt text. Returns the media id.
+ */
+async function uploadOne(client: TwitterApi, media: XMedia): Promise<string> {
+    const kind = kindOf(media.mimeType);
+
+    const init = await client.v2.post<MediaUploadResponse>('media/upload/initialize', {
+        media_type: media.mimeType,
+        media_category: MEDIA_CATEGORIES[kind],
+        total_bytes: media.data.length,
+    });
+    const mediaId = init.data.id;
+
+    for (let offset = 0, segment = 0; offset < media.data.length; offset += CHUNK_BYTES, segment++) {
+        await client.v2.post(`media/upload/${mediaId}/append`, {
+            segment_index: segment,
+            media: media.data.subarray(offset, offset + CHUNK_BYTES),
+        }, { forceBodyMode: 'form-data' });
+    }
+
+    const finalized = await client.v2.post<MediaUploadResponse>(`media/upload/${mediaId}/finalize`);
+    if (finalized.data.processing_info) {
+        await waitForProcessing(client, mediaId, finalized.data.processing_info);
+    }
+
+    const altText = media.altText?.trim();
+    if (altText && kind !== 'video') {
+        try {
+            await client.v2.createMediaMetadata(mediaId, { alt_text: { text: altText.slice(0, X_ALT_TEXT_MAX) } });
+        } catch (error) {
+            // Alt text is best-effort — the media itself is usable
+            log.warn('Failed to set alt text', { mediaId, error: String(error) });
+        }
+    } else if (kind !== 'video') {
+        log.warn('Uploading image without alt text', { mediaId });
+    }
+
+    log.info('Media uploaded to X', { mediaId, kind, size: media.data.length });
+    return mediaId;
+}
+
+/**
+ * Validate and upload a tweet's attachments in order. Returns their media ids.
+ * Throws if validation or any upload fails.
+ */
+export async function uploadXMedia(client: TwitterApi, media: XMedia[]): Promise<string[]> {
+    validateXMedia(media);
+    const ids: string[] = [];
+    for (const item of media) {
+        ids.push(await uploadOne(client, item));
+    }
+    return ids;
+}
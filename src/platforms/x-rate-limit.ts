@@ -0,0 +1,177 @@
+import type { ITwitterApiClientPlugin, TwitterRateLimit } from 'twitter-api-v2';
+import { createLogger } from '../logger.js';
+
+// ============================================================================
+// QasidAI — X Rate-Limit Tracker
+// A twitter-api-v2 plugin that records x-rate-limit-* (15-minute window) and
+// x-app-limit-24hour-* / x-user-limit-24hour-* headers per endpoint, and
+// refuses calls that would certainly 429 until the window resets.
+// Jobs read the remaining quota to decide whether to spend scarce calls.
+// ============================================================================
+
+const log = createLogger('XRateLimit');
+
+/** Endpoints the agent's jobs care about, mapped to their request keys */
+export const X_ENDPOINTS = {
+    mentions: 'GET /2/users/:id/mentions',
+    search: 'GET /2/tweets/search/recent',
+    post_tweet: 'POST /2/tweets',
+    tweet_lookup: 'GET /2/tweets',
+    user_timeline: 'GET /2/users/:id/tweets',
+    user_lookup: 'GET /2/users/by/username/:username',
+    follow: 'POST /2/users/:id/following',
+    following: 'GET /2/users/:id/following',
+    me: 'GET /2/users/me',
+} as const;
+
+export type XEndpoint = keyof typeof X_ENDPOINTS;
+
+export type RateLimitScope = 'window' | 'app_24h' | 'user_24h';
+
+export interface RateLimitEntry {
+    /** Request key, e.g. "GET /2/users/:id/mentions" */
+    key: string;
+    scope: RateLimitScope;
+    limit: number;
+    remaining: number;
+    resetAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * How much of an endpoint's remaining quota a job may use. Lower priorities
+ * leave calls in reserve so higher-value jobs can still run before the reset.
+ */
+export type XQuotaPriority = 'critical' | 'normal' | 'low';
+
+/** Share of the limit kept back from each priority (at least one call for normal/low) */
+const PRIORITY_RESERVE: Record<XQuotaPriority, number> = {
+    critical: 0,
+    normal: 0.1,
+    low: 0.25,
+};
+
+export interface XQuotaDecision {
+    allowed: boolean;
+    /** Calls left in the tightest known window (null = no headers seen yet) */
+    remaining: number | null;
+    /** When the tightest known window resets */
+    resetAt?: Date;
+    reason?: string;
+}
+
+/** key → scope → latest header values */
+const state = new Map<string, Map<RateLimitScope, RateLimitEntry>>();
+
+/**
+ * Normalize a request URL to an endpoint key: "GET /2/users/:id/mentions".
+ * Ids and usernames are replaced so every call to the same endpoint shares one key.
+ */
+export function endpointKey(method: string, url: URL | string): string {
+    const pathname = typeof url === 'string' ? new URL(url, 'https://api.x.com').pathname : url.pathname;
+    const [, version, ...rest] = decodeURIComponent(pathname)
+        .replace(/\/by\/username\/[^/]+/, '/by/username/:username')
+        .split('/');
+    // Keep the API version segment ("/2"), replace numeric ids after it
+    const path = [version, ...rest.map(segment => (/^\d+$/.test(segment) ? ':id' : segment))].join('/');
+    return `${method.toUpperCase()} /${path}`;
+}
+
+function record(key: string, scope: RateLimitScope, limit: { limit: number; remaining: number; reset: number }): void {
+    let scopes = state.get(key);
+    if (!scopes) {
+        scopes = new Map();
+        state.set(key, scopes);
+    }
+    scopes.set(scope, {
+        key,
+        scope,
+        limit: limit.limit,
+        remaining: limit.remaining,
+        resetAt: new Date(limit.reset * 1000),
+        updatedAt: new Date(),
+    });
+}
+
+/**
+ * Record rate-limit headers for an endpoint (as parsed by twitter-api-v2).
+ */
+export function recordRateLimit(key: string, rateLimit: TwitterRateLimit): void {
+    record(key, 'window', rateLimit);
+    if (rateLimit.day) record(key, 'app_24h', rateLimit.day);
+    if (rateLimit.userDay) record(key, 'user_24h', rateLimit.userDay);
+
+    if (rateLimit.remaining === 0) {
+        log.warn(`X quota exhausted for ${key} — resets ${new Date(rateLimit.reset * 1000).toISOString()}`);
+    }
+}
+
+/** Known, unexpired windows for a key */
+function liveEntries(key: string, now: number): RateLimitEntry[] {
+    const scopes = state.get(key);
+    if (!scopes) return [];
+    return [...scopes.values()].filter(e => e.resetAt.getTime() > now);
+}
+
+/**
+ * Whether a call to this endpoint is certain to 429 (a known window has no calls left).
+ * Returns the window that blocks it, or null.
+ */
+export function predictRateLimited(key: string, now: number = Date.now()): RateLimitEntry | null {
+    const blocking = liveEntries(key, now).filter(e => e.remaining <= 0);
+    if (blocking.length === 0) return null;
+    // The window that resets last is the one that actually blocks
+    return blocking.reduce((a, b) => (a.resetAt > b.resetAt ? a : b));
+}
+
+/**
+ * Check whether a job of the given priority should spend a call on an endpoint.
+ * Unknown endpoints (no headers seen yet) are allowed.
+ */
+export function checkXQuota(endpoint: XEndpoint, priority: XQuotaPriority = 'normal'): XQuotaDecision {
+    const key = X_ENDPOINTS[endpoint];
+    const now = Date.now();
+    const entries = liveEntries(key, now);
+    if (entries.length === 0) return { allowed: true, remaining: null };
+
+    // Tightest window: fewest calls left
+    const tightest = entries.reduce((a, b) => (a.remaining <= b.remaining ? a : b));
+    const reserve = priority === 'critical' ? 0 : Math.max(1, Math.ceil(tightest.limit * PRIORITY_RESERVE[priority]));
+
+    if (tightest.remaining <= reserve) {
+        const reason = tightest.remaining <= 0
+            ? `${endpoint} quota exhausted (${tightest.scope})`
+            : `${endpoint} quota low (${tightest.remaining}/${tightest.limit} ${tightest.scope}, ${reserve} held for higher-priority jobs)`;
+        return { allowed: false, remaining: tightest.remaining, resetAt: tightest.resetAt, reason };
+    }
+    return { allowed: true, remaining: tightest.remaining, resetAt: tightest.resetAt };
+}
+
+/**
+ * Every recorded window, including expired ones (for diagnostics).
+ */
+export function getRateLimitSnapshot(): RateLimitEntry[] {
+    return [...state.values()]
+        .flatMap(scopes => [...scopes.values()])
+        .sort((a, b) => a.key.localeCompare(b.key) || a.scope.localeCompare(b.scope));
+}
+
+/**
+ * twitter-api-v2 plugin: refuse predicted 429s before the request is sent,
+ * and record the headers of every response (including error responses).
+ */
+export const rateLimitPlugin: ITwitterApiClientPlugin = {
+    onBeforeRequestConfig({ url, params }) {
+        const key = endpointKey(params.method, url);
+        const blocked = predictRateLimited(key);
+        if (blocked) {
+            throw new Error(`X rate limit: ${key} has no calls left (${blocked.scope}) until ${blocked.resetAt.toISOString()} — request not sent`);
+        }
+    },
+    onAfterRequest({ url, params, response }) {
+        if (response.rateLimit) recordRateLimit(endpointKey(params.method, url), response.rateLimit);
+    },
+    onResponseError({ url, params, error }) {
+        if (error.rateLimit) recordRateLimit(endpointKey(params.method, url), error.rateLimit);
+    },
+};
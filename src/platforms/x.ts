@@ -1,36 +1,93 @@
-import { TwitterApi } from 'twitter-api-v2';
-import { config, isXConfigured } from '../config.js';
+import { Agent } from 'node:http';
+import { TwitterApi, type ITwitterApiClientPlugin, type SendTweetV2Params, type Tweetv2FieldsParams, type TweetV2 } from 'twitter-api-v2';
+import { config, isXConfigured, postingMode } from '../config.js';
 import { createLogger } from '../logger.js';
+import { canPublishContent, canPerformWrites } from '../engine/posting-mode.js';
+import { rateLimitPlugin } from './x-rate-limit.js';
+import { uploadXMedia, type XMedia } from './x-media.js';
 
 // ============================================================================
 // QasidAI — X (Twitter) Connector
-// Posts tweets and threads using the X API v2
+// Posts tweets and threads using the X API v2 (attachments go through x-media.ts)
+// Rate-limit headers are tracked per endpoint (see x-rate-limit.ts).
+// X_API_URL swaps api.x.com for another host (the fake X server in tests).
 // ============================================================================
 
 const log = createLogger('X');
 
 let client: TwitterApi | null = null;
 
+const X_API_ORIGIN = 'https://api.x.com';
+
+/**
+ * Rewrites api.x.com request URLs onto X_API_URL.
+ */
+function apiBasePlugin(baseUrl: string): ITwitterApiClientPlugin {
+    const base = baseUrl.replace(/\/+$/, '');
+    return {
+        onBeforeRequestConfig({ params }) {
+            if (params.url.startsWith(X_API_ORIGIN)) {
+                params.url = base + params.url.slice(X_API_ORIGIN.length);
+            }
+        },
+    };
+}
+
 function getClient(): TwitterApi {
     if (!client) {
         if (!isXConfigured) {
             throw new Error('X API credentials not configured. Set X_API_KEY, X_API_SECRET, X_ACCESS_TOKEN, X_ACCESS_SECRET in .env');
         }
+        const customBase = config.X_API_URL.replace(/\/+$/, '') !== X_API_ORIGIN;
         client = new TwitterApi({
             appKey: config.X_API_KEY!,
             appSecret: config.X_API_SECRET!,
             accessToken: config.X_ACCESS_TOKEN!,
             accessSecret: config.X_ACCESS_SECRET!,
+        }, {
+            plugins: customBase ? [apiBasePlugin(config.X_API_URL), rateLimitPlugin] : [rateLimitPlugin],
+            // twitter-api-v2 sends through https.request — a plain-http base needs an http agent
+            ...(config.X_API_URL.startsWith('http:') ? { httpAgent: new Agent() } : {}),
         });
+        if (customBase) log.info(`Using X API at ${config.X_API_URL}`);
     }
     return client;
 }
 
+/** Longest wait for a rate-limit reset before the single retry — beyond this we give up */
+const MAX_RATE_LIMIT_WAIT_MS = 2 * 60 * 1000;
+
+function isRateLimited(error: any): boolean {
+    return error?.code === 429 || error?.data?.status === 429;
+}
+
+/**
+ * After a 429, wait until the exhausted window resets (from the response headers,
+ * 60s if there are none) so one retry can succeed. Returns false without waiting
+ * when the reset is too far away — e.g. a spent 24-hour app limit.
+ */
+async function waitForRateLimitReset(error: any, label: string): Promise<boolean> {
+    const rateLimit = error?.rateLimit;
+    const exhausted = [rateLimit, rateLimit?.day, rateLimit?.userDay].filter(l => l && l.remaining === 0);
+    const resetMs = exhausted.length > 0
+        ? Math.max(...exhausted.map(l => l.reset * 1000))
+        : rateLimit?.reset ? rateLimit.reset * 1000 : null;
+    const waitMs = resetMs !== null ? Math.max(0, resetMs - Date.now()) + 1000 : 60_000;
+
+    if (waitMs > MAX_RATE_LIMIT_WAIT_MS) {
+        log.warn(`Rate limited by X API on ${label} — resets ${new Date(resetMs!).toISOString()}, not retrying`);
+        return false;
+    }
+    log.warn(`Rate limited by X API on ${label}, retrying in ${Math.ceil(waitMs / 1000)}s...`);
+    await new Promise(resolve => setTimeout(resolve, waitMs));
+    return true;
+}
+
 /**
  * Post a single tweet. Returns the tweet ID.
  */
 export async function postTweet(text: string): Promise<string | null> {
-    if (!config.POSTING_ENABLED) {
+    if (!canPublishContent()) {
         log.info('[DRY RUN] Would post tweet:', { text });
         return `dry-run-${Date.now()}`;
     }
@@ -40,10 +97,8 @@ export async function postTweet(text: string): Promise<string | null> {
         log.info('Tweet posted', { id: result.data.id, length: text.length });
         return result.data.id;
     } catch (error: any) {
-        // Retry once on rate limit (429)
-        if (error?.code === 429 || error?.data?.status === 429) {
-            log.warn('Rate limited by X API, retrying in 60s...');
-            await new Promise(resolve => setTimeout(resolve, 60_000));
+        // Retry once on rate limit (429), after the window resets
+        if (isRateLimited(error) && await waitForRateLimitReset(error, 'tweet')) {
             try {
                 const retry = await getClient().v2.tweet(text);
                 log.info('Tweet posted (after rate limit retry)', { id: retry.data.id });
@@ -62,7 +117,7 @@ export async function postTweet(text: string): Promise<string | null> {
  * Post a quote tweet (retweet with commentary). Returns the tweet ID.
  */
 export async function quoteTweet(text: string, quotedTweetId: string): Promise<string | null> {
-    if (!config.POSTING_ENABLED) {
+    if (!canPublishContent()) {
         log.info('[DRY RUN] Would post quote tweet:', { text, quotedTweetId });
         return `dry-run-${Date.now()}`;
     }
@@ -72,9 +127,7 @@ export async function quoteTweet(text: string, quotedTweetId: string): Promise<s
         log.info('Quote tweet posted', { id: result.data.id, quotedTweetId });
         return result.data.id;
     } catch (error: any) {
-        if (error?.code === 429 || error?.data?.status === 429) {
-            log.warn('Rate limited on quote tweet, retrying in 60s...');
-            await new Promise(resolve => setTimeout(resolve, 60_000));
+        if (isRateLimited(error) && await waitForRateLimitReset(error, 'quote tweet')) {
             try {
                 const retry = await getClient().v2.tweet(text, { quote_tweet_id: quotedTweetId });
                 log.info('Quote tweet posted (after retry)', { id: retry.data.id });
@@ -88,11 +141,55 @@ export async function quoteTweet(text: string, quotedTweetId: string): Promise<s
         return null;
     }
 }
+
+/**
+ * Post a native poll (2–4 options, up to 25 characters each). Returns the tweet ID.
+ */
+export async function postPoll(text: string, options: string[], durationMinutes: number): Promise<string | null> {
+    if (!canPublishContent()) {
+        log.info('[DRY RUN] Would post poll:', { text, options, durationMinutes });
+        return `dry-run-poll-${Date.now()}`;
+    }
+
+    try {
+        const result = await getClient().v2.tweet(text, {
+            poll: { options, duration_minutes: durationMinutes },
+        });
+        log.info('Poll posted', { id: result.data.id, options: options.length, durationMinutes });
+        return result.data.id;
+    } catch (error: any) {
+        log.error('Failed to post poll', { error: String(error), options });
+        return null;
+    }
+}
+
+/**
+ * Delete one of our tweets. Returns true once it's gone (already-deleted tweets count).
+ */
+export async function deleteTweet(tweetId: string): Promise<boolean> {
+    if (!canPerformWrites()) {
+        log.info('[DRY RUN] Would delete tweet:', { tweetId });
+        return true;
+    }
+
+    try {
+        const result = await getClient().v2.deleteTweet(tweetId);
+        log.info('Tweet deleted', { tweetId, deleted: result.data.deleted });
+        return result.data.deleted;
+    } catch (error: any) {
+        if (error?.code === 404) {
+            log.info('Tweet already deleted', { tweetId });
+            return true;
+        }
+        log.error('Failed to delete tweet', { error: String(error), tweetId });
+        return false;
+    }
+}
 /**
  * Post a thread (array of tweets). Returns the IDs of all tweets.
  */
 export async function postThread(tweets: string[]): Promise<string[]> {
-    if (!config.POSTING_ENABLED) {
+    if (!canPublishContent()) {
         log.info('[DRY RUN] Would post thread:', { tweets });
         return tweets.map((_, i) => `dry-run-thread-${i}-${Date.now()}`);
     }
@@ -116,37 +213,28 @@ export async function postThread(tweets: string[]): Promise<string[]> {
     return ids;
 }
 
+/** The v2 tweet payload types media_ids as a 1–4 tuple */
+type MediaIds = NonNullable<NonNullable<SendTweetV2Params['media']>['media_ids']>;
+
 /**
- * Post a tweet with an image attachment. Returns the tweet ID.
- * @param text Tweet text
- * @param imageBuffer The image data as a Buffer
- * @param mimeType MIME type of the image (default: image/png)
+ * Post a tweet with attachments (up to four images, or one GIF or MP4 — see x-media.ts).
+ * Returns the tweet ID.
  */
-export async function postTweetWithImage(
-    text: string,
-    imageBuffer: Buffer,
-    mimeType: string = 'image/png',
-): Promise<string | null> {
-    if (!config.POSTING_ENABLED) {
-        log.info('[DRY RUN] Would post tweet with image:', { text, imageSize: imageBuffer.length });
+export async function postTweetWithMedia(text: string, media: XMedia[]): Promise<string | null> {
+    if (!canPublishContent()) {
+        log.info('[DRY RUN] Would post tweet with media:', { text, media: media.map(m => `${m.mimeType} ${m.data.length}b`) });
         return `dry-run-img-${Date.now()}`;
     }
 
     try {
-        // Upload the image via v1 media upload
-        const mediaId = await getClient().v1.uploadMedia(imageBuffer, {
-            mimeType,
-        });
-        log.info('Image uploaded to X', { mediaId, size: imageBuffer.length });
-
-        // Post tweet with the uploaded media
+        const mediaIds = await uploadXMedia(getClient(), media);
         const result = await getClient().v2.tweet(text, {
-            media: { media_ids: [mediaId] },
+            media: { media_ids: mediaIds as MediaIds },
         });
-        log.info('Tweet with image posted', { id: result.data.id, length: text.length });
+        log.info('Tweet with media posted', { id: result.data.id, length: text.length, attachments: mediaIds.length });
         return result.data.id;
     } catch (error: any) {
-        log.error('Failed to post tweet with image', { error: String(error) });
+        log.error('Failed to post tweet with media', { error: String(error) });
         return null;
     }
 }
@@ -317,13 +405,15 @@ export async function checkXCapabilities(): Promise<XCapabilityResult[]> {
         });
     }
 
-    // 6. Write check (we don't actually post, just confirm POSTING_ENABLED status)
+    // 6. Write check (we don't actually post, just confirm the posting mode)
     results.push({
         name: 'Write (Post Tweets)',
-        status: config.POSTING_ENABLED ? 'pass' : 'skip',
-        detail: config.POSTING_ENABLED
-            ? 'POSTING_ENABLED=true — live posting active'
-            : 'POSTING_ENABLED=false — dry run mode (safe)',
+        status: postingMode === 'dry-run' ? 'skip' : 'pass',
+        detail: postingMode === 'live'
+            ? 'POSTING_MODE=live — live posting active'
+            : postingMode === 'review'
+                ? 'POSTING_MODE=review — drafts queued for human approval'
+                : 'POSTING_MODE=dry-run — dry run mode (safe)',
     });
 
     return results;
@@ -351,6 +441,9 @@ export interface MentionTweet {
     conversationId?: string;
     inReplyToUserId?: string;
     inReplyToTweetId?: string;
+    quotedTweetId?: string;
+    /** Links in the text: X rewrites them to t.co, expandedUrl is what was typed */
+    urls?: Array<{ url: string; expandedUrl: string }>;
 }
 
 export interface SearchResult {
@@ -389,11 +482,77 @@ export async function getTweetById(tweetId: string): Promise<{ text: string; aut
     }
 }
 
+export interface ConversationTweet {
+    id: string;
+    text: string;
+    authorId: string;
+    authorUsername?: string;
+    createdAt?: string;
+    conversationId?: string;
+    /** The tweet this one replies to */
+    inReplyToTweetId?: string;
+    /** The tweet this one quotes */
+    quotedTweetId?: string;
+}
+
+const CONVERSATION_FIELDS: Partial<Tweetv2FieldsParams> = {
+    'tweet.fields': ['created_at', 'author_id', 'conversation_id', 'referenced_tweets'],
+    expansions: ['author_id'],
+    'user.fields': ['username'],
+};
+
+function toConversationTweet(tweet: TweetV2, usernames: Map<string, string>): ConversationTweet {
+    const refs = tweet.referenced_tweets ?? [];
+    return {
+        id: tweet.id,
+        text: tweet.text,
+        authorId: tweet.author_id ?? '',
+        authorUsername: usernames.get(tweet.author_id ?? ''),
+        createdAt: tweet.created_at,
+        conversationId: tweet.conversation_id,
+        inReplyToTweetId: refs.find(r => r.type === 'replied_to')?.id,
+        quotedTweetId: refs.find(r => r.type === 'quoted')?.id,
+    };
+}
+
+/**
+ * Look up tweets with their reply/quote links. Deleted or hidden tweets are left out.
+ */
+export async function lookupTweets(tweetIds: string[]): Promise<ConversationTweet[]> {
+    if (tweetIds.length === 0) return [];
+    try {
+        const response = await getClient().v2.tweets(tweetIds.slice(0, 100), { ...CONVERSATION_FIELDS });
+        const usernames = new Map((response.includes?.users ?? []).map(u => [u.id, u.username]));
+        return (response.data ?? []).map(t => toConversationTweet(t, usernames));
+    } catch (error: any) {
+        log.error('Failed to look up tweets', { error: String(error), count: tweetIds.length });
+        return [];
+    }
+}
+
+/**
+ * Recent tweets in a conversation, newest first (search only reaches back 7 days;
+ * the root tweet itself is not included).
+ */
+export async function getConversationTweets(conversationId: string, maxResults: number = 50): Promise<ConversationTweet[]> {
+    try {
+        const response = await getClient().v2.search(`conversation_id:${conversationId}`, {
+            max_results: Math.min(Math.max(maxResults, 10), 100),
+            ...CONVERSATION_FIELDS,
+        });
+        const usernames = new Map((response.data?.includes?.users ?? []).map(u => [u.id, u.username]));
+        return (response.data?.data ?? []).map(t => toConversationTweet(t, usernames));
+    } catch (error: any) {
+        log.error('Failed to fetch conversation', { error: String(error), conversationId });
+        return [];
+    }
+}
+
 /**
  * Reply to a specific tweet. Returns the reply tweet ID.
  */
 export async function replyToTweet(tweetId: string, text: string): Promise<string | null> {
-    if (!config.POSTING_ENABLED) {
+    if (!canPublishContent()) {
         log.info('[DRY RUN] Would reply to tweet:', { tweetId, text });
         return `dry-run-reply-${Date.now()}`;
     }
@@ -405,9 +564,7 @@ export async function replyToTweet(tweetId: string, text: string): Promise<strin
         log.info('Reply posted', { replyId: result.data.id, inReplyTo: tweetId });
         return result.data.id;
     } catch (error: any) {
-        if (error?.code === 429 || error?.data?.status === 429) {
-            log.warn('Rate limited on reply, retrying in 60s...');
-            await new Promise(resolve => setTimeout(resolve, 60_000));
+        if (isRateLimited(error) && await waitForRateLimitReset(error, 'reply')) {
             try {
                 const retry = await getClient().v2.tweet(text, {
                     reply: { in_reply_to_tweet_id: tweetId },
@@ -425,31 +582,28 @@ export async function replyToTweet(tweetId: string, text: string): Promise<strin
 }
 
 /**
- * Reply to a tweet with an image attachment. Returns the reply tweet ID.
+ * Reply to a tweet with attachments. Returns the reply tweet ID.
  */
-export async function replyToTweetWithImage(
+export async function replyToTweetWithMedia(
     tweetId: string,
     text: string,
-    imageBuffer: Buffer,
-    mimeType: string = 'image/png',
+    media: XMedia[],
 ): Promise<string | null> {
-    if (!config.POSTING_ENABLED) {
-        log.info('[DRY RUN] Would reply to tweet with image:', { tweetId, text, imageSize: imageBuffer.length });
+    if (!canPublishContent()) {
+        log.info('[DRY RUN] Would reply to tweet with media:', { tweetId, text, media: media.map(m => `${m.mimeType} ${m.data.length}b`) });
         return `dry-run-img-reply-${Date.now()}`;
     }
 
     try {
-        const mediaId = await getClient().v1.uploadMedia(imageBuffer, { mimeType });
-        log.info('Image uploaded for reply', { mediaId, size: imageBuffer.length });
-
+        const mediaIds = await uploadXMedia(getClient(), media);
         const result = await getClient().v2.tweet(text, {
             reply: { in_reply_to_tweet_id: tweetId },
-            media: { media_ids: [mediaId] },
+            media: { media_ids: mediaIds as MediaIds },
         });
-        log.info('Reply with image posted', { replyId: result.data.id, inReplyTo: tweetId });
+        log.info('Reply with media posted', { replyId: result.data.id, inReplyTo: tweetId, attachments: mediaIds.length });
         return result.data.id;
     } catch (error: any) {
-        log.error('Failed to reply with image', { error: String(error), tweetId });
+        log.error('Failed to reply with media', { error: String(error), tweetId });
         return null;
     }
 }
@@ -458,7 +612,7 @@ export async function replyToTweetWithImage(
  * Follow a user by their user ID. Returns true on success.
  */
 export async function followUser(userId: string): Promise<boolean> {
-    if (!config.POSTING_ENABLED) {
+    if (!canPerformWrites()) {
         log.info('[DRY RUN] Would follow user:', { userId });
         return true;
     }
@@ -469,9 +623,7 @@ export async function followUser(userId: string): Promise<boolean> {
         log.info('Followed user', { userId });
         return true;
     } catch (error: any) {
-        if (error?.code === 429 || error?.data?.status === 429) {
-            log.warn('Rate limited on follow, retrying in 60s...');
-            await new Promise(resolve => setTimeout(resolve, 60_000));
+        if (isRateLimited(error) && await waitForRateLimitReset(error, 'follow')) {
             try {
                 const myId = await getMyUserId();
                 await getClient().v2.follow(myId, userId);
@@ -539,7 +691,7 @@ export async function getMentions(sinceId?: string, maxResults: number = 10): Pr
         const userId = await getMyUserId();
         const params: Record<string, any> = {
             max_results: Math.min(Math.max(maxResults, 5), 100),
-            'tweet.fields': ['created_at', 'author_id', 'conversation_id', 'in_reply_to_user_id', 'referenced_tweets'],
+            'tweet.fields': ['created_at', 'author_id', 'conversation_id', 'in_reply_to_user_id', 'referenced_tweets', 'entities'],
             expansions: ['author_id'],
             'user.fields': ['username'],
         };
@@ -557,6 +709,7 @@ export async function getMentions(sinceId?: string, maxResults: number = 10): Pr
             const repliedTo = (t as any).referenced_tweets?.find(
                 (r: any) => r.type === 'replied_to'
             );
+            const quoted = t.referenced_tweets?.find(r => r.type === 'quoted');
             return {
                 id: t.id,
                 text: t.text,
@@ -566,6 +719,8 @@ export async function getMentions(sinceId?: string, maxResults: number = 10): Pr
                 conversationId: t.conversation_id,
                 inReplyToUserId: t.in_reply_to_user_id,
                 inReplyToTweetId: repliedTo?.id ?? undefined,
+                quotedTweetId: quoted?.id,
+                urls: t.entities?.urls?.map(u => ({ url: u.url, expandedUrl: u.expanded_url })),
             };
         });
     } catch (error: any) {
@@ -612,6 +767,45 @@ export async function getTweetMetrics(tweetIds: string[]): Promise<Map<string, P
     return metricsMap;
 }
 
+export interface PollResult {
+    options: Array<{ label: string; votes: number }>;
+    /** 'open' | 'closed' */
+    votingStatus: string;
+    endsAt?: string;
+}
+
+/**
+ * Poll options and vote counts for poll tweets (keyed by tweet id).
+ * Tweets without a poll are left out.
+ */
+export async function getPollResults(tweetIds: string[]): Promise<Map<string, PollResult>> {
+    const results = new Map<string, PollResult>();
+    for (let i = 0; i < tweetIds.length; i += 100) {
+        const batch = tweetIds.slice(i, i + 100);
+        try {
+            const response = await getClient().v2.tweets(batch, {
+                expansions: ['attachments.poll_ids'],
+                'poll.fields': ['options', 'voting_status', 'end_datetime'],
+            });
+            const polls = new Map((response.includes?.polls ?? []).map(p => [p.id, p]));
+            for (const tweet of response.data ?? []) {
+                const poll = polls.get(tweet.attachments?.poll_ids?.[0] ?? '');
+                if (!poll) continue;
+                results.set(tweet.id, {
+                    options: [...poll.options]
+                        .sort((a, b) => a.position - b.position)
+                        .map(o => ({ label: o.label, votes: o.votes })),
+                    votingStatus: poll.voting_status ?? 'open',
+                    endsAt: poll.end_datetime,
+                });
+            }
+        } catch (error: any) {
+            log.error('Failed to fetch poll results', { error: String(error), batchStart: i });
+        }
+    }
+    return results;
+}
+
 /**
  * Search recent tweets matching a query.
  * @param query Twitter search query (supports operators like OR, -is:retweet, etc.)
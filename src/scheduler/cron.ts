@@ -1,12 +1,14 @@
 import cron from 'node-cron';
 import { readFileSync } from 'fs';
+import { z } from 'zod';
 import { runFounderMentionCheck } from '../engine/mention-monitor.js';
-import { generatePost, generateThread, sanitizeContent } from '../engine/content.js';
+import { generateThread, sanitizeContent, type GeneratedPost } from '../engine/content.js';
+import { generateRankedPost } from '../engine/post-ranker.js';
 import { savePost, wasRecentlyPosted } from '../engine/memory.js';
 import { runBotchanReplyMonitor } from '../net/botchan-replies.js';
 import { runBotchanEngagement } from '../net/botchan-engage.js';
-import { postTweet, postTweetWithImage, postThread } from '../platforms/x.js';
-import { isXConfigured, isNetConfigured } from '../config.js';
+import { getPlatform, configuredPlatforms, isPlatformId, platformIds, type PlatformAdapter, type PlatformId, type PlatformMedia, type PlatformPoll } from '../platforms/index.js';
+import { config, isNetConfigured, isTelegramBroadcastConfigured } from '../config.js';
 import { createLogger } from '../logger.js';
 import { buildAndWriteDailySummary } from '../net/daily-summary.js';
 import { scoreOldPosts } from '../learning/scorer.js';
@@ -15,28 +17,36 @@ import { adaptWeights, getStrategyContext } from '../learning/weights.js';
 import { runMetaReview } from '../learning/meta-review.js';
 import { postToFeed } from '../net/client.js';
 import { runTimelineScan } from '../engine/timeline-scanner.js';
-import { runMentionMonitor } from '../engine/mention-monitor.js';
+import { runMentionMonitor, runBlueskyMentionMonitor, runFarcasterMentionMonitor } from '../engine/mention-monitor.js';
 import { runSmartFollow } from '../engine/smart-follow.js';
 import { syncFollowingHandles } from '../engine/contextual-mentions.js';
 import { runCreativeSession } from '../engine/creative-session.js';
-import { recordAction, canTakeAction } from '../engine/daily-budget.js';
-import { runBotchanContentCycle } from '../net/botchan-content.js';
+import { canTakeAction, reserveBudget, publishWithReservation } from '../engine/daily-budget.js';
+import { isReviewMode } from '../engine/posting-mode.js';
+import { enqueueDraft, THREAD_SEPARATOR } from '../engine/review-queue.js';
+import { runBotchanContentCycle, botchanContentTypes } from '../net/botchan-content.js';
 import { initializeSkills, syncSkillsToChain } from '../skills/skill-manager.js';
 import { runSkillScout } from '../skills/skill-scout.js';
 import { runBotchanSetup } from '../net/botchan-setup.js';
-import { crossPostThreadToBotchan, crossPostBotchanToX } from '../net/cross-platform.js';
+import { crossPostThreadToBotchan, crossPostBotchanToX, crossPostBotchanToFarcaster, mirrorToDiscord } from '../net/cross-platform.js';
+import { broadcastPost, broadcastDailySummary } from '../engine/telegram-broadcast.js';
+import { collectPollResults, formatPollText, trackPoll } from '../engine/polls.js';
 import { generateArticle } from '../engine/x-articles.js';
 import { runFounderMonitor } from '../engine/founder-monitor.js';
 import { runWebsiteMonitor } from '../engine/website-monitor.js';
 import { runGitHubMonitor } from '../engine/github-monitor.js';
 import { uploadFullBrain } from '../net/brain.js';
-import { buildSystemPrompt } from '../personality/system-prompt.js';
+import { buildSystemPrompt, contentTypes } from '../personality/system-prompt.js';
 import { brandKnowledge } from '../personality/brand-knowledge.js';
 import { loadDynamicKnowledge } from '../engine/dynamic-knowledge.js';
+import { loadSchedule, listRunTimes, type ScheduledJob } from './schedule.js';
+import { startLeaderElection, releaseLeadership, isLeader } from './leader-lease.js';
+import { startJobRun, finishJobRun, markInterruptedRuns, getCompletedSlots, type JobCounts, type JobTrigger } from './job-runs.js';
 
 // ============================================================================
 // QasidAI — Content Scheduler
-// Manages automated posting schedule to X (Twitter) + Botchan
+// Manages automated posting schedule to X (Twitter) + Botchan.
+// Jobs are declared in the schedule file; this module maps handler names to code.
 // ============================================================================
 
 const log = createLogger('Scheduler');
@@ -44,34 +54,51 @@ const log = createLogger('Scheduler');
 const activeTasks: cron.ScheduledTask[] = [];
 
 // ---- Image Posting Counter ----
-// Deterministic 1-in-3 image rate: every 3rd scheduled X post attempts an AI image.
-// Resets on successful image post. Does NOT reset on failure (retries next post).
+// Deterministic 1-in-3 image rate: every 3rd scheduled post (on a platform with media)
+// attempts an AI image. Resets on successful image post. Does NOT reset on failure (retries next post).
 let postsSinceLastImage = 0;
 
 /**
- * Attempt to post a tweet with an AI-generated image.
- * Returns the external tweet ID if successful, null if image gen fails.
+ * The image for a post: the rendered scorecard for scorecard posts, an AI image otherwise.
+ * Both carry alt text. Null when no image could be produced.
+ */
+async function imageFor(content: string, contentType: string): Promise<PlatformMedia | null> {
+    if (contentType === 'signal_scorecard') {
+        const { generateScorecardImage } = await import('../engine/scorecard-image.js');
+        const scorecard = await generateScorecardImage();
+        if (scorecard) return { data: scorecard.buffer, mimeType: 'image/png', altText: scorecard.altText };
+    }
+
+    const { generateContentImage, isImageGenConfigured } = await import('../engine/image-gen.js');
+    if (!isImageGenConfigured()) {
+        log.warn('Image gen not configured — skipping image');
+        return null;
+    }
+    const image = await generateContentImage(content, contentType);
+    if (!image) {
+        log.warn('Image generation returned null — falling back to text-only');
+        return null;
+    }
+    return { data: image.buffer, mimeType: image.mimeType, altText: image.altText };
+}
+
+/**
+ * Attempt to publish a post with an image.
+ * Returns the external post ID if successful, null if image gen fails.
  * On failure, the caller should fall back to text-only posting.
  */
 async function tryPostWithImage(
+    platform: PlatformAdapter,
     content: string,
     contentType: string,
 ): Promise<string | null> {
     try {
-        const { generateContentImage, isImageGenConfigured } = await import('../engine/image-gen.js');
-        if (!isImageGenConfigured()) {
-            log.warn('Image gen not configured — skipping image');
-            return null;
-        }
-        const image = await generateContentImage(content, contentType);
-        if (!image) {
-            log.warn('Image generation returned null — falling back to text-only');
-            return null;
-        }
-        const externalId = await postTweetWithImage(content, image.buffer, image.mimeType);
+        const image = await imageFor(content, contentType);
+        if (!image) return null;
+        const externalId = await platform.postWithMedia(content, image, { contentType });
         if (externalId) {
             postsSinceLastImage = 0; // Reset counter on success
-            log.info(`🖼️ Image posted successfully`, { contentType, imageSize: image.buffer.length });
+            log.info(`🖼️ Image posted successfully`, { contentType, imageSize: image.data.length });
         }
         return externalId;
     } catch (imgError) {
@@ -81,13 +108,18 @@ async function tryPostWithImage(
 }
 
 /**
- * Post a generated post to X, with or without an image based on the 1-in-3 counter.
- * Handles image attempt, text-only fallback, and memory save.
- * Returns the external tweet ID.
+ * Publish a generated post, with or without an image based on the 1-in-3 counter.
+ * Handles image attempt and text-only fallback.
+ * Returns the external post ID.
  */
 async function postWithImageCycle(
-    post: { content: string; contentType: string },
+    post: { content: string; contentType: string; platform: PlatformId; poll?: PlatformPoll },
 ): Promise<string | null> {
+    const platform = getPlatform(post.platform);
+    // Polls can't carry media
+    if (post.poll) return platform.post(post.content, { contentType: post.contentType, poll: post.poll });
+    if (!platform.capabilities.media) return platform.post(post.content, { contentType: post.contentType });
+
     postsSinceLastImage++;
     const shouldTryImage = postsSinceLastImage >= 3;
 
@@ -95,7 +127,7 @@ async function postWithImageCycle(
         log.info(`🖼️ Image cycle triggered (${postsSinceLastImage} posts since last image)`, {
             contentType: post.contentType,
         });
-        const imageId = await tryPostWithImage(post.content, post.contentType);
+        const imageId = await tryPostWithImage(platform, post.content, post.contentType);
         if (imageId) {
             return imageId;
         }
@@ -104,29 +136,52 @@ async function postWithImageCycle(
     }
 
     // Text-only post (default path or image fallback)
-    const externalId = await postTweet(post.content);
-    return externalId;
+    return platform.post(post.content, { contentType: post.contentType });
 }
 
 /**
- * Run a single content cycle: generate + post to X + save to memory.
+ * Review mode: queue a scheduled post instead of publishing it (budget is charged on approval).
  */
-async function runContentCycle(options?: {
+async function queueScheduledPost(post: GeneratedPost): Promise<void> {
+    const { content, ...meta } = post;
+    await enqueueDraft({
+        kind: 'post',
+        content,
+        source: 'content-cycle',
+        budgetAction: getPlatform(post.platform).budgetAction('scheduled_post'),
+        post: meta,
+        prompt: post.prompt,
+    });
+}
+
+/**
+ * Run a single content cycle: generate + post to a platform (X by default) + save to memory.
+ * In review mode the final draft is queued for approval instead.
+ * With `broadcast`, the published post is mirrored to the Telegram channel.
+ * Returns what was posted/queued; throws if generation or publishing failed.
+ */
+export async function runContentCycle(options?: {
     strategyContext?: string;
     preferredContentType?: string;
-}): Promise<void> {
-    if (!isXConfigured) {
-        log.warn('X not configured — skipping content cycle');
-        return;
+    platform?: PlatformId;
+    broadcast?: boolean;
+}): Promise<JobCounts> {
+    const platform = getPlatform(options?.platform ?? 'x');
+    if (!platform.isConfigured()) {
+        log.warn(`${platform.displayName} not configured — skipping content cycle`);
+        return { posts: 0, queued: 0 };
     }
+    const budgetAction = platform.budgetAction('scheduled_post');
 
     // Pre-check budget before generating/posting (enforce budget as a gate)
-    const allowed = await canTakeAction('scheduled_post');
-    if (!allowed) {
-        log.warn('Budget exhausted — skipping content cycle', {
+    const budget = await canTakeAction(budgetAction);
+    if (!budget.allowed) {
+        log.warn(`Budget denied (${budget.reason}) — skipping content cycle`, {
+            platform: platform.id,
             preferredType: options?.preferredContentType ?? 'random',
+            earliestAt: budget.earliestAt?.toISOString(),
         });
-        return;
+        return { posts: 0, queued: 0 };
     }
 
     // Load current strategy context from learned weights
@@ -135,607 +190,691 @@ async function runContentCycle(options?: {
         return undefined;
     });
 
+    /**
+     * Generate for this platform (generation is platform-neutral; memory/dedup are per platform).
+     * Platforms without native polls never get the poll content type.
+     */
+    const generate = async (rankOptions: NonNullable<Parameters<typeof generateRankedPost>[0]>): Promise<GeneratedPost> => {
+        if (!platform.capabilities.polls) {
+            if (rankOptions.contentType === 'poll') {
+                log.info(`${platform.displayName} has no native polls — picking another content type`);
+                rankOptions = { ...rankOptions, contentType: undefined };
+            }
+            rankOptions = { ...rankOptions, weights: { ...rankOptions.weights, poll: 0 } };
+        }
+        return { ...await generateRankedPost(rankOptions), platform: platform.id };
+    };
+
+    /** Reserve → publish → save (or queue for review) */
+    const publish = async (post: GeneratedPost, label: string): Promise<JobCounts> => {
+        if (isReviewMode()) {
+            await queueScheduledPost(post);
+            return { posts: 0, queued: 1 };
+        }
+        // Reserve budget BEFORE posting — refunded if the post fails, so no slot is wasted
+        const reservation = await reserveBudget(budgetAction, `${post.contentType}: ${post.content.slice(0, 60)}`);
+        if (!reservation) {
+            log.warn(`Budget reservation failed — skipping post${label ? ` (${label})` : ''}`);
+            return { posts: 0, queued: 0 };
+        }
+        // Post with 1-in-3 image cycle (handles image attempt + text fallback)
+        const externalId = await publishWithReservation(reservation, () => postWithImageCycle(post));
+        await savePost(post, externalId ?? undefined);
+        // Kept in memory either way; a failed publish fails the job run
+        if (!externalId) throw new Error(`${platform.displayName} did not accept the post (${post.contentType})`);
+        if (post.poll) await trackPoll(externalId, post.content, post.poll);
+        // Channels without native polls get the options as text
+        const shared = post.poll ? { ...post, content: formatPollText(post.content, post.poll) } : post;
+        if (options?.broadcast) await broadcastPost(shared, externalId);
+        await mirrorToDiscord(shared, externalId);
+        log.info(`✅ Content cycle${label ? ` (${label})` : ' complete'}: ${post.contentType} → ${platform.displayName}`, {
+            contentLength: post.content.length,
+        });
+        return { posts: 1, queued: 0 };
+    };
+
     try {
-        // Generate content (use preferred type if specified by time slot)
-        const post = await generatePost({
+        // Generate content (use preferred type if specified by time slot; best-of-N when POST_CANDIDATES > 1)
+        const post = await generate({
             strategyContext: context,
             ...(options?.preferredContentType ? { contentType: options.preferredContentType as any } : {}),
         });
 
-        // Dedup check — skip if very similar content type posted recently
-        const duplicate = await wasRecentlyPosted(post.contentType, 'x', 4);
-        if (duplicate) {
-            log.info(`Dedup: ${post.contentType} recently posted — retrying with different type`);
-            const retry = await generatePost({ strategyContext: context, weights: { [post.contentType]: 0 } });
-            const retryDup = await wasRecentlyPosted(retry.contentType, 'x', 4);
-            if (retryDup) {
-                log.info(`Dedup: ${retry.contentType} also recent — trying fully random`);
-                const fallback = await generatePost({
-                    strategyContext: context,
-                    weights: { [post.contentType]: 0, [retry.contentType]: 0 },
-                });
-                // Third try — post regardless (don't silently drop)
-                const budgetOk = await recordAction('scheduled_post', `${fallback.contentType}: ${fallback.content.slice(0, 60)}`);
-                if (!budgetOk) {
-                    log.warn('Budget reservation failed on dedup fallback — skipping post');
-                    return;
-                }
-                const externalId = await postWithImageCycle(fallback);
-                await savePost(fallback, externalId ?? undefined);
-                log.info(`✅ Content cycle (dedup fallback): ${fallback.contentType} → X`);
-                return;
-            }
-            // Reserve budget BEFORE posting
-            const budgetOk = await recordAction('scheduled_post', `${retry.contentType}: ${retry.content.slice(0, 60)}`);
-            if (!budgetOk) {
-                log.warn('Budget reservation failed — skipping post');
-                return;
-            }
-            const externalId = await postWithImageCycle(retry);
-            await savePost(retry, externalId ?? undefined);
-            log.info(`✅ Content cycle (dedup retry): ${retry.contentType} → X`);
-            return;
+        // Dedup check — skip if very similar content type posted recently on this platform
+        if (!await wasRecentlyPosted(post.contentType, platform.id, 4)) {
+            return await publish(post, '');
         }
 
-        // Reserve budget BEFORE posting (safer: wastes a slot if post fails, but prevents over-posting)
-        const budgetOk = await recordAction('scheduled_post', `${post.contentType}: ${post.content.slice(0, 60)}`);
-        if (!budgetOk) {
-            log.warn('Budget reservation failed — skipping post');
-            return;
+        log.info(`Dedup: ${post.contentType} recently posted — retrying with different type`);
+        const retry = await generate({ strategyContext: context, weights: { [post.contentType]: 0 } });
+        if (!await wasRecentlyPosted(retry.contentType, platform.id, 4)) {
+            return await publish(retry, 'dedup retry');
         }
 
-        // Post with 1-in-3 image cycle (handles image attempt + text fallback)
-        const externalId = await postWithImageCycle(post);
-
-        // Save to memory
-        await savePost(post, externalId ?? undefined);
-
-        log.info(`✅ Content cycle complete: ${post.contentType} → X`, {
-            contentLength: post.content.length,
+        log.info(`Dedup: ${retry.contentType} also recent — trying fully random`);
+        const fallback = await generate({
+            strategyContext: context,
+            weights: { [post.contentType]: 0, [retry.contentType]: 0 },
         });
+        // Third try — post regardless (don't silently drop)
+        return await publish(fallback, 'dedup fallback');
     } catch (error) {
         log.error('Content cycle failed', { error: String(error) });
+        throw error;
     }
 }
 
-/**
- * Start the content scheduler.
- * 10 content posts/day spread across waking hours (US Eastern):
- * - 06:00 🌅 GM post
- * - 08:00 📊 Market/signal data
- * - 10:00 🧱 Builder narrative / founder journey
- * - 12:00 💡 Educational / methodology
- * - 14:00 🔥 Engagement / hot take
- * - 16:00 📦 Product spotlight
- * - 18:00 🤖 Self-aware / meta AI commentary
- * - 20:00 📈 Signal/performance / proof
- * - 22:00 🧠 Engagement bait / cult vibes
- * - 23:30 🌙 Evening reflection / builder log
- *
- * Learning engine crons:
- * - Daily (1 AM ET):    Score posts + adapt weights
- * - Weekly (Sun 2 AM ET): Meta-review (performance report)
- * - Daily (11:59 PM ET): Summary to Net Protocol
- */
-export function startScheduler(): void {
-    log.info('Starting content scheduler (10 posts/day)...');
-
-    if (!isXConfigured) {
-        log.warn('X not configured! Scheduler has nothing to do.');
-        return;
-    }
+// ---- Job Handlers ----
+// Schedule entries (schedule.json) reference these by name. Each handler
+// validates its own params; `requires: 'net'` jobs only run with Net Protocol
+// configured, `requires: 'telegram'` jobs with a Telegram channel, `requires: 'x'` /
+// `'bluesky'` / `'farcaster'` jobs (platform features like search and mentions) with
+// that platform. Jobs with a `platform` param need it configured.
 
-    // Initialize skills system (fire-and-forget, non-blocking)
-    initializeSkills().catch(error => {
-        log.warn('Skills initialization failed, continuing without skills', { error: String(error) });
-    });
+type JobRequirement = 'net' | 'telegram' | 'x' | 'bluesky' | 'farcaster';
 
-    // Set up Botchan profile + agent leaderboard (fire-and-forget, non-blocking)
-    runBotchanSetup().catch(error => {
-        log.warn('Botchan setup failed, continuing without profile', { error: String(error) });
-    });
+interface JobHandler {
+    params: z.ZodTypeAny;
+    requires?: JobRequirement;
+    /** Takes the job's raw params — they are parsed against `params` before the handler sees them */
+    run: (params: unknown) => Promise<JobCounts | void>;
+}
 
-    // Initial sync of following list → handle map (fire-and-forget)
-    syncFollowingHandles().catch(error => {
-        log.warn('Initial handle sync failed, will retry at 3 AM', { error: String(error) });
-    });
+/** Typed handler definition — run() receives the parsed params */
+function defineHandler<S extends z.ZodTypeAny>(handler: {
+    params: S;
+    requires?: JobRequirement;
+    run: (params: z.infer<S>) => Promise<JobCounts | void>;
+}): JobHandler {
+    return {
+        params: handler.params,
+        requires: handler.requires,
+        run: raw => handler.run(handler.params.parse(raw)),
+    };
+}
 
-    // ---- 10 Content Cycles / Day ----
-
-    // 06:00 ET — 🌅 GM post
-    const gm = cron.schedule('0 6 * * *', async () => {
-        log.info('🌅 GM cycle starting');
-        await runContentCycle({ preferredContentType: 'gm_post' });
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(gm);
-    log.info('📌 Registered: 06:00 ET — GM post');
-
-    // 08:00 ET — 📊 Market / signal data
-    const marketData = cron.schedule('0 8 * * *', async () => {
-        log.info('📊 Market data cycle starting');
-        await runContentCycle({ preferredContentType: 'signal_scorecard' });
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(marketData);
-
-    // 10:00 ET — 🧱 Builder narrative / founder journey
-    const builder = cron.schedule('0 10 * * *', async () => {
-        log.info('🧱 Builder narrative cycle starting');
-        await runContentCycle({ preferredContentType: 'builder_narrative' });
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(builder);
-
-    // 12:00 ET — 💡 Educational
-    const educational = cron.schedule('0 12 * * *', async () => {
-        log.info('💡 Educational cycle starting');
-        await runContentCycle({ preferredContentType: 'educational' });
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(educational);
-
-    // 14:00 ET — 🔥 Engagement / hot take
-    const engagement = cron.schedule('0 14 * * *', async () => {
-        log.info('🔥 Engagement cycle starting');
-        await runContentCycle({ preferredContentType: 'engagement_bait' });
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(engagement);
-
-    // 16:00 ET — 📦 Product spotlight
-    const product = cron.schedule('0 16 * * *', async () => {
-        log.info('📦 Product spotlight cycle starting');
-        await runContentCycle({ preferredContentType: 'product_spotlight' });
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(product);
-
-    // 18:00 ET — 🤖 Self-aware / meta AI
-    const selfAware = cron.schedule('0 18 * * *', async () => {
-        log.info('🤖 Self-aware cycle starting');
-        await runContentCycle({ preferredContentType: 'self_aware' });
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(selfAware);
-
-    // 20:00 ET — 📈 Signal performance / proof
-    const performance = cron.schedule('0 20 * * *', async () => {
-        log.info('📈 Performance cycle starting');
-        await runContentCycle({ preferredContentType: 'win_streak' });
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(performance);
-
-    // 22:00 ET — 🧠 Engagement bait / cult vibes
-    const lateEngagement = cron.schedule('0 22 * * *', async () => {
-        log.info('🧠 Late engagement cycle starting');
-        await runContentCycle({ preferredContentType: 'founder_journey' });
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(lateEngagement);
-
-    // 23:30 ET — 🌙 Evening reflection
-    const evening = cron.schedule('30 23 * * *', async () => {
-        log.info('🌙 Evening reflection cycle starting');
-        await runContentCycle({ preferredContentType: 'social_proof' });
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(evening);
-
-    // ---- Creative Sessions (LLM-driven discretionary/reply budget) ----
-
-    // Fix 7: Reduced from 4 to 2 creative sessions per day for budget
-    const creative = cron.schedule('30 13,21 * * *', async () => {
-        log.info('🎨 Creative session starting (QasidAI decides what to do)');
-        try {
+const noParams = z.object({}).strict();
+
+const JOB_HANDLERS: Record<string, JobHandler> = {
+    content_cycle: defineHandler({
+        params: z.object({
+            preferredContentType: z.enum(contentTypes).optional(),
+            platform: z.enum(platformIds).default('x'),
+            /** Mirror the published post to the Telegram channel */
+            broadcast: z.boolean().default(false),
+        }).strict(),
+        run: params => runContentCycle({
+            preferredContentType: params.preferredContentType,
+            platform: params.platform,
+            broadcast: params.broadcast,
+        }),
+    }),
+
+    creative_session: defineHandler({
+        params: noParams,
+        requires: 'x',
+        run: async () => {
             const actions = await runCreativeSession();
             log.info(`🎨 Creative session complete: ${actions} actions taken`);
-        } catch (error) {
-            log.error('Creative session failed', { error: String(error) });
-        }
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(creative);
-    log.info('🎨 Creative sessions active (13:30, 21:30 ET — budget-optimized)');
-
-    // ---- Timeline Scanner (proactive engagement — Fix 7: reduced 3x→1x/day) ----
-    // Searches for relevant crypto/AI tweets and replies contextually.
-    const timelineScan = cron.schedule('45 12 * * *', async () => {
-        log.info('🔍 Timeline scan starting (proactive engagement)');
-        try {
+            return { actions };
+        },
+    }),
+
+    timeline_scan: defineHandler({
+        params: noParams,
+        requires: 'x',
+        run: async () => {
             const replies = await runTimelineScan();
             log.info(`🔍 Timeline scan complete: ${replies} replies posted`);
-        } catch (error) {
-            log.error('Timeline scan failed', { error: String(error) });
-        }
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(timelineScan);
-    log.info('🔍 Timeline scanner active (12:45 ET — budget-optimized)');
-
-    // ---- Botchan Native Content (5 unique posts for Net Protocol) ----
-
-    // 9:00 ET — Botchan ecosystem insight or agent capability
-    const botchanEarlyMorning = cron.schedule('0 9 * * *', async () => {
-        log.info('⛓️ Botchan native content: ecosystem/capability post');
-        try {
-            const type = Math.random() > 0.5 ? 'ecosystem_insight' : 'agent_capability';
-            await runBotchanContentCycle(type as any);
-        } catch (error) {
-            log.error('Botchan early morning post failed', { error: String(error) });
-        }
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(botchanEarlyMorning);
-
-    // 11:00 ET — Botchan market analysis or signal breakdown
-    const botchanMorning = cron.schedule('0 11 * * *', async () => {
-        log.info('⛓️ Botchan native content: market/signal post');
-        try {
-            const type = Math.random() > 0.5 ? 'market_deep_dive' : 'signal_breakdown';
-            await runBotchanContentCycle(type as any);
-        } catch (error) {
-            log.error('Botchan morning post failed', { error: String(error) });
-        }
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(botchanMorning);
-
-    // 15:00 ET — Botchan net reflection / on-chain brain activity
-    const botchanAfternoon = cron.schedule('0 15 * * *', async () => {
-        log.info('⛓️ Botchan native content: net reflection / on-chain activity');
-        try {
-            const types = ['net_reflection', 'tool_spotlight', 'agent_capability'];
-            const type = types[Math.floor(Math.random() * types.length)];
-            const result = await runBotchanContentCycle(type as any);
-
-            // Tease deeper Botchan posts on X
-            if (result?.text) {
+            return { replies };
+        },
+    }),
+
+    botchan_content: defineHandler({
+        params: z.object({
+            /** One is picked at random per run */
+            contentTypes: z.array(z.enum(botchanContentTypes)).min(1),
+            /** Tease the Botchan post on X */
+            crossPostToX: z.boolean().default(false),
+            /** Cast the Botchan post to the Farcaster channel mapped from its topic */
+            crossPostToFarcaster: z.boolean().default(false),
+        }).strict(),
+        run: async params => {
+            const type = params.contentTypes[Math.floor(Math.random() * params.contentTypes.length)];
+            const result = await runBotchanContentCycle(type);
+
+            if (params.crossPostToX && result?.text) {
                 crossPostBotchanToX(result.text, result.topic).catch(e =>
                     log.debug('Botchan-to-X teaser skipped', { error: String(e) })
                 );
             }
-        } catch (error) {
-            log.error('Botchan afternoon post failed', { error: String(error) });
-        }
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(botchanAfternoon);
-
-    // 19:00 ET — Botchan builder log, capability share, or GitHub share
-    const botchanEvening = cron.schedule('0 19 * * *', async () => {
-        log.info('⛓️ Botchan native content: builder/capability post');
-        try {
-            const types = ['builder_log', 'agent_capability', 'github_share', 'tool_spotlight'];
-            const type = types[Math.floor(Math.random() * types.length)];
-            const result = await runBotchanContentCycle(type as any);
-
-            // Tease deeper Botchan posts on X
-            if (result?.text) {
-                crossPostBotchanToX(result.text, result.topic).catch(e =>
-                    log.debug('Botchan-to-X teaser skipped', { error: String(e) })
-                );
+            if (params.crossPostToFarcaster && result?.text) {
+                await crossPostBotchanToFarcaster(result.text, result.topic);
             }
-        } catch (error) {
-            log.error('Botchan evening post failed', { error: String(error) });
-        }
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(botchanEvening);
-
-    // 21:00 ET — Botchan market wrap or builder log
-    const botchanNight = cron.schedule('0 21 * * *', async () => {
-        log.info('⛓️ Botchan native content: market wrap / builder log');
-        try {
-            const type = Math.random() > 0.5 ? 'market_deep_dive' : 'builder_log';
-            await runBotchanContentCycle(type as any);
-        } catch (error) {
-            log.error('Botchan night post failed', { error: String(error) });
-        }
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(botchanNight);
-    log.info('⛓️  Botchan native content active (9:00, 11:00, 15:00, 19:00, 21:00 ET)');
-
-    // ---- Scheduled Thread (Fix 5: reduced 2x→1x/day, morning only) ----
-    const threadSlots = [
-        { cron: '30 10 * * *', label: 'morning thread' },
-    ];
-    for (const slot of threadSlots) {
-        const threadJob = cron.schedule(slot.cron, async () => {
-            const allowed = await canTakeAction('thread');
-            if (!allowed) {
-                log.debug(`Thread skipped (${slot.label}) — budget exhausted`);
-                return;
+            return { posts: result ? 1 : 0 };
+        },
+    }),
+
+    scheduled_thread: defineHandler({
+        params: z.object({
+            label: z.string().default('thread'),
+            platform: z.enum(platformIds).default('x'),
+            /** Mirror the published thread to the Telegram channel */
+            broadcast: z.boolean().default(false),
+        }).strict(),
+        run: async ({ label, platform: platformId, broadcast }) => {
+            const platform = getPlatform(platformId);
+            if (!platform.isConfigured()) {
+                log.warn(`${platform.displayName} not configured — skipping ${label}`);
+                return { threads: 0, tweets: 0 };
             }
-            log.info(`🧵 Scheduled ${slot.label} starting...`);
-            try {
-                const strategyContext = await getStrategyContext();
-                const thread = await generateThread({ strategyContext });
-                if (thread && thread.tweets.length >= 2) {
-                    await recordAction('thread', `Thread: ${thread.tweets[0].slice(0, 50)}`);
-                    const tweetIds = await postThread(thread.tweets);
-                    await savePost({
-                        content: thread.tweets.join('\n---\n'),
-                        contentType: thread.contentType,
-                        platform: 'x',
-                        tone: 'informative',
-                        topic: thread.topic,
-                        inputTokens: thread.inputTokens,
-                        outputTokens: thread.outputTokens,
-                        generatedAt: new Date().toISOString(),
-                    }, tweetIds[0] ?? undefined);
-                    log.info(`🧵 ${slot.label} posted (${thread.tweets.length} tweets)`);
-
-                    // Cross-post thread summary to Botchan
-                    crossPostThreadToBotchan(thread.tweets, tweetIds).catch(e =>
-                        log.debug('Thread cross-post to Botchan skipped', { error: String(e) })
-                    );
-                }
-            } catch (error) {
-                log.error(`Scheduled ${slot.label} failed`, { error: String(error) });
+            const budgetAction = platform.budgetAction('thread');
+            const budget = await canTakeAction(budgetAction);
+            if (!budget.allowed) {
+                log.debug(`Thread skipped (${label}) — ${budget.reason}`);
+                return { threads: 0, tweets: 0 };
             }
-        }, { timezone: 'America/New_York' });
-        activeTasks.push(threadJob);
-    }
-    log.info('🧵 Scheduled thread active (10:30 AM ET — budget-optimized)');
+            log.info(`🧵 Scheduled ${label} starting...`);
+            const strategyContext = await getStrategyContext();
+            const thread = await generateThread({ strategyContext });
+            if (!thread || thread.tweets.length < 2) return { threads: 0, tweets: 0 };
+
+            const meta: Omit<GeneratedPost, 'content'> = {
+                contentType: thread.contentType,
+                platform: platform.id,
+                tone: 'informative',
+                topic: thread.topic,
+                inputTokens: thread.inputTokens,
+                outputTokens: thread.outputTokens,
+                generatedAt: new Date().toISOString(),
+                prompt: thread.prompt,
+            };
+
+            if (isReviewMode()) {
+                await enqueueDraft({
+                    kind: 'thread',
+                    content: thread.tweets.join(THREAD_SEPARATOR),
+                    source: `scheduled ${label}`,
+                    budgetAction,
+                    post: meta,
+                    prompt: thread.prompt,
+                });
+                return { threads: 0, tweets: 0 };
+            }
+
+            const reservation = await reserveBudget(budgetAction, `Thread: ${thread.tweets[0].slice(0, 50)}`);
+            if (!reservation) {
+                log.warn(`Budget reservation failed — skipping ${label}`);
+                return { threads: 0, tweets: 0 };
+            }
+            const postIds = await publishWithReservation(reservation, () => platform.postThread(thread.tweets, { contentType: thread.contentType }));
+            await savePost({ ...meta, content: thread.tweets.join(THREAD_SEPARATOR) }, postIds[0] ?? undefined, postIds);
+            if (broadcast && postIds[0]) {
+                await broadcastPost({ content: thread.tweets.join(THREAD_SEPARATOR), platform: platform.id }, postIds[0]);
+            }
+            if (postIds[0]) {
+                await mirrorToDiscord({ ...meta, content: thread.tweets.join(THREAD_SEPARATOR) }, postIds[0], thread.tweets);
+            }
+            log.info(`🧵 ${label} posted to ${platform.displayName} (${thread.tweets.length} tweets)`);
+
+            // Cross-post thread summary to Botchan
+            if (platform.id === 'x') {
+                crossPostThreadToBotchan(thread.tweets, postIds).catch(e =>
+                    log.debug('Thread cross-post to Botchan skipped', { error: String(e) })
+                );
+            }
+            return { threads: 1, tweets: postIds.length };
+        },
+    }),
 
-    // Daily at 0:30 AM ET — Fetch engagement metrics from X API
-    const engagementFetch = cron.schedule('30 0 * * *', async () => {
-        log.info('📊 Fetching engagement metrics from X API...');
-        try {
+    engagement_fetch: defineHandler({
+        params: noParams,
+        run: async () => {
             const updated = await fetchAndUpdateEngagement();
             log.info(`📊 Engagement fetch complete: ${updated} posts updated`);
-        } catch (error) {
-            log.error('Engagement fetch failed', { error: String(error) });
-        }
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(engagementFetch);
-    log.info('📊 Engagement fetch cron active (0:30 AM ET)');
-
-    // Daily at 1 AM ET — Score old posts and adapt strategy weights
-    const dailyLearning = cron.schedule('0 1 * * *', async () => {
-        log.info('🧠 Daily learning cycle: fetch metrics → score → adapt weights');
-        try {
+            return { postsUpdated: updated };
+        },
+    }),
+
+    poll_results: defineHandler({
+        params: noParams,
+        requires: 'x',
+        run: async () => {
+            const closed = await collectPollResults();
+            if (closed > 0) log.info(`🗳️ Poll results collected: ${closed} poll(s) closed`);
+            return { pollsClosed: closed };
+        },
+    }),
+
+    daily_learning: defineHandler({
+        params: noParams,
+        run: async () => {
             // Re-fetch metrics right before scoring for maximum freshness
-            await fetchAndUpdateEngagement();
+            const updated = await fetchAndUpdateEngagement();
             await scoreOldPosts();
             await adaptWeights();
-        } catch (error) {
-            log.error('Daily learning cycle failed', { error: String(error) });
-        }
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(dailyLearning);
-    log.info('🧠 Daily learning cron active (1 AM ET — fetch + score + adapt weights)');
-
-    // Daily at 1:30 AM ET — Sync skills to Net Protocol
-    if (isNetConfigured) {
-        const skillSync = cron.schedule('30 1 * * *', async () => {
-            log.info('🧠 Syncing skills to Net Protocol...');
-            try {
-                await syncSkillsToChain();
-            } catch (error) {
-                log.error('Skill sync failed', { error: String(error) });
-            }
-        }, { timezone: 'America/New_York' });
-        activeTasks.push(skillSync);
-        log.info('🧠 Skill sync cron active (1:30 AM ET)');
-    }
-
-    // Weekly on Sundays at 2 AM ET — Run meta-review
-    const weeklyReview = cron.schedule('0 2 * * 0', async () => {
-        log.info('📊 Weekly meta-review starting');
-        try {
+            return { postsUpdated: updated };
+        },
+    }),
+
+    skill_sync: defineHandler({
+        params: noParams,
+        requires: 'net',
+        run: async () => {
+            await syncSkillsToChain();
+        },
+    }),
+
+    meta_review: defineHandler({
+        params: noParams,
+        run: async () => {
             await runMetaReview();
-        } catch (error) {
-            log.error('Weekly meta-review failed', { error: String(error) });
-        }
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(weeklyReview);
-    log.info('📊 Weekly meta-review cron active (Sun 2 AM ET)');
-
-    // Daily at 3 AM ET — Smart follow (follow engaged users)
-    const smartFollow = cron.schedule('0 3 * * *', async () => {
-        log.info('👥 Smart follow cycle starting');
-        try {
+        },
+    }),
+
+    smart_follow: defineHandler({
+        params: noParams,
+        requires: 'x',
+        run: async () => {
             const followed = await runSmartFollow();
             log.info(`👥 Smart follow complete: ${followed} users followed`);
 
             // Sync following list → handle map for smart mentions
             const cached = await syncFollowingHandles();
             log.info(`🔗 Handle map synced: ${cached} verified accounts cached`);
-        } catch (error) {
-            log.error('Smart follow failed', { error: String(error) });
-        }
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(smartFollow);
-    log.info('👥 Smart follow cron active (3 AM ET — includes handle map sync)');
-
-    // End-of-day — 11:55 PM ET — Daily summary to Net Protocol (before the 23:30 reflection)
-    if (isNetConfigured) {
-        const dailySummary = cron.schedule('55 23 * * *', async () => {
-            log.info('⏰ End-of-day: writing daily summary to Net Protocol');
-            try {
-                await buildAndWriteDailySummary();
-            } catch (error) {
-                log.error('Daily summary failed', { error: String(error) });
-            }
-        }, { timezone: 'America/New_York' });
-        activeTasks.push(dailySummary);
-        log.info('📝 Daily summary cron active (11:55 PM ET → Net Protocol)');
-    }
-
-
-
-    // ---- Founder VIP Mention Monitor (Fix 7: reduced every 15min → 4x/day) ----
-    const founderMentions = cron.schedule('0 8,12,16,20 * * *', async () => {
-        log.debug('👑 Founder mention check running...');
-        try {
+            return { followed, handlesCached: cached };
+        },
+    }),
+
+    daily_summary: defineHandler({
+        params: noParams,
+        requires: 'net',
+        run: async () => {
+            await buildAndWriteDailySummary();
+        },
+    }),
+
+    telegram_summary: defineHandler({
+        params: noParams,
+        requires: 'telegram',
+        run: async () => {
+            const sent = await broadcastDailySummary();
+            return { broadcasts: sent ? 1 : 0 };
+        },
+    }),
+
+    founder_mentions: defineHandler({
+        params: noParams,
+        requires: 'x',
+        run: async () => {
             const replied = await runFounderMentionCheck();
             if (replied > 0) {
                 log.info(`👑 Founder mention check: replied to ${replied} mention(s)`);
             }
-        } catch (error) {
-            log.error('Founder mention check failed', { error: String(error) });
-        }
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(founderMentions);
-    log.info('👑 Founder VIP mention monitor active (8, 12, 16, 20 ET — budget-optimized)');
-
-    // ---- General Mention Monitor (Fix 7: reduced every 30min → 2x/day) ----
-    const mentionMonitor = cron.schedule('0 10,18 * * *', async () => {
-        log.debug('💬 General mention monitor running...');
-        try {
+            return { replies: replied };
+        },
+    }),
+
+    mention_monitor: defineHandler({
+        params: noParams,
+        requires: 'x',
+        run: async () => {
             const replied = await runMentionMonitor();
             if (replied > 0) {
                 log.info(`💬 Mention monitor: replied to ${replied} mention(s)`);
             }
-        } catch (error) {
-            log.error('Mention monitor failed', { error: String(error) });
-        }
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(mentionMonitor);
-    log.info('💬 General mention monitor active (10 AM, 6 PM ET — budget-optimized)');
-
-    // ---- Skill Scout (2x/day: 10:15 and 22:15 UTC — staggered to avoid cron collision) ----
-    const skillScoutAM = cron.schedule('15 10 * * *', async () => {
-        log.info('🔍 Skill scout (AM) starting...');
-        try {
-            const proposed = await runSkillScout();
-            log.info(`🔍 Skill scout (AM): ${proposed} skill(s) proposed`);
-        } catch (error) {
-            log.error('Skill scout (AM) failed', { error: String(error) });
-        }
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(skillScoutAM);
-
-    const skillScoutPM = cron.schedule('15 22 * * *', async () => {
-        log.info('🔍 Skill scout (PM) starting...');
-        try {
+            return { replies: replied };
+        },
+    }),
+
+    bluesky_mentions: defineHandler({
+        params: noParams,
+        requires: 'bluesky',
+        run: async () => {
+            const replied = await runBlueskyMentionMonitor();
+            if (replied > 0) {
+                log.info(`🦋 Bluesky mention monitor: replied to ${replied} mention(s)`);
+            }
+            return { replies: replied };
+        },
+    }),
+
+    farcaster_mentions: defineHandler({
+        params: noParams,
+        requires: 'farcaster',
+        run: async () => {
+            const replied = await runFarcasterMentionMonitor();
+            if (replied > 0) {
+                log.info(`🟪 Farcaster mention monitor: replied to ${replied} mention(s)`);
+            }
+            return { replies: replied };
+        },
+    }),
+
+    skill_scout: defineHandler({
+        params: z.object({ label: z.string().optional() }).strict(),
+        requires: 'x',
+        run: async ({ label }) => {
             const proposed = await runSkillScout();
-            log.info(`🔍 Skill scout (PM): ${proposed} skill(s) proposed`);
-        } catch (error) {
-            log.error('Skill scout (PM) failed', { error: String(error) });
-        }
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(skillScoutPM);
-    log.info('🔍 Skill scout active (2x/day: 10:15 & 22:15 ET — staggered from content posts)');
-
-    // ---- Founder Tweet Monitor (every 2 hours) ----
-    const founderMonitor = cron.schedule('5 */2 * * *', async () => {
-        log.debug('👁️ Founder monitor running...');
-        try {
+            log.info(`🔍 Skill scout${label ? ` (${label})` : ''}: ${proposed} skill(s) proposed`);
+            return { skillsProposed: proposed };
+        },
+    }),
+
+    founder_monitor: defineHandler({
+        params: noParams,
+        run: async () => {
             const facts = await runFounderMonitor();
             if (facts > 0) {
                 log.info(`👁️ Founder monitor: stored ${facts} new fact(s)`);
             }
-        } catch (error) {
-            log.error('Founder monitor failed', { error: String(error) });
-        }
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(founderMonitor);
-    log.info('👁️ Founder tweet monitor active (every 2 hours)');
-
-    // ---- Website Monitor (daily at 4:00 AM ET) ----
-    const websiteMonitor = cron.schedule('0 4 * * *', async () => {
-        log.info('🌐 Website monitor running...');
-        try {
+            return { facts };
+        },
+    }),
+
+    website_monitor: defineHandler({
+        params: noParams,
+        run: async () => {
             const facts = await runWebsiteMonitor();
             log.info(`🌐 Website monitor: ${facts} new fact(s)`);
-        } catch (error) {
-            log.error('Website monitor failed', { error: String(error) });
-        }
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(websiteMonitor);
-    log.info('🌐 Website monitor active (daily 4:00 AM ET)');
-
-    // ---- GitHub Org Monitor (daily at 4:30 AM ET) ----
-    const githubMonitor = cron.schedule('30 4 * * *', async () => {
-        log.info('🐙 GitHub monitor running...');
-        try {
+            return { facts };
+        },
+    }),
+
+    github_monitor: defineHandler({
+        params: noParams,
+        run: async () => {
             const facts = await runGitHubMonitor();
             log.info(`🐙 GitHub monitor: ${facts} new fact(s)`);
-        } catch (error) {
-            log.error('GitHub monitor failed', { error: String(error) });
-        }
-    }, { timezone: 'America/New_York' });
-    activeTasks.push(githubMonitor);
-    log.info('🐙 GitHub org monitor active (daily 4:30 AM ET)');
-
-    // ---- Auto Brain Sync to Net Protocol (daily at 3:15 AM ET — staggered from smartFollow at 3:00) ----
-    if (isNetConfigured) {
-        const brainSync = cron.schedule('15 3 * * *', async () => {
-            log.info('🧠 Auto brain sync starting...');
+            return { facts };
+        },
+    }),
+
+    brain_sync: defineHandler({
+        params: noParams,
+        requires: 'net',
+        run: async () => {
+            const personality = buildSystemPrompt();
+            const brand = JSON.stringify(brandKnowledge, null, 2);
+            const dynKnowledge = await loadDynamicKnowledge();
+            const fullPersonality = dynKnowledge
+                ? `${personality}\n\n${dynKnowledge}`
+                : personality;
+
+            // Read documentation file for Net storage sync
+            let documentation: string | undefined;
             try {
-                const personality = buildSystemPrompt();
-                const brand = JSON.stringify(brandKnowledge, null, 2);
-                const dynKnowledge = await loadDynamicKnowledge();
-                const fullPersonality = dynKnowledge
-                    ? `${personality}\n\n${dynKnowledge}`
-                    : personality;
-
-                // Read documentation file for Net storage sync
-                let documentation: string | undefined;
-                try {
-                    documentation = readFileSync('QASIDAI_DOCUMENTATION.txt', 'utf-8');
-                } catch {
-                    log.debug('Documentation file not found, skipping doc sync');
-                }
-
-                await uploadFullBrain(fullPersonality, brand, documentation);
-                log.info('🧠 Auto brain sync complete');
-            } catch (error) {
-                log.error('Auto brain sync failed', { error: String(error) });
+                documentation = readFileSync('QASIDAI_DOCUMENTATION.txt', 'utf-8');
+            } catch {
+                log.debug('Documentation file not found, skipping doc sync');
             }
-        }, { timezone: 'America/New_York' });
-        activeTasks.push(brainSync);
-        log.info('🧠 Auto brain sync active (daily 3:00 AM ET)');
-    }
 
-    // ---- Botchan Reply Monitor (every 30 min) ----
-    if (isNetConfigured) {
-        const botchanReplies = cron.schedule('*/30 * * * *', async () => {
-            log.debug('📨 Botchan reply monitor running...');
-            try {
-                const replied = await runBotchanReplyMonitor();
-                if (replied > 0) {
-                    log.info(`📨 Botchan reply monitor: sent ${replied} reply(ies)`);
-                }
-            } catch (error) {
-                log.error('Botchan reply monitor failed', { error: String(error) });
+            await uploadFullBrain(fullPersonality, brand, documentation);
+            log.info('🧠 Auto brain sync complete');
+        },
+    }),
+
+    botchan_replies: defineHandler({
+        params: noParams,
+        requires: 'net',
+        run: async () => {
+            const replied = await runBotchanReplyMonitor();
+            if (replied > 0) {
+                log.info(`📨 Botchan reply monitor: sent ${replied} reply(ies)`);
             }
-        }, { timezone: 'America/New_York' });
-        activeTasks.push(botchanReplies);
-        log.info('📨 Botchan reply monitor active (every 30 min)');
+            return { replies: replied };
+        },
+    }),
+
+    botchan_engage: defineHandler({
+        params: noParams,
+        requires: 'net',
+        run: async () => {
+            const engaged = await runBotchanEngagement();
+            if (engaged > 0) {
+                log.info(`🤝 Botchan engagement: ${engaged} interaction(s)`);
+            }
+            return { interactions: engaged };
+        },
+    }),
+
+    weekly_article: defineHandler({
+        params: noParams,
+        requires: 'net',
+        run: async () => {
+            const article = await generateArticle();
+            if (article) {
+                log.info(`📝 Article ready: "${article.title}" (${article.wordCount} words) — check Supabase to publish`);
+            } else {
+                log.warn('Article generation returned null');
+            }
+            return { articles: article ? 1 : 0 };
+        },
+    }),
+};
+
+// ---- Schedule Resolution ----
+
+export interface ResolvedJob extends ScheduledJob {
+    /** Validated handler params (defaults applied) */
+    params: Record<string, unknown>;
+    /** Whether the job will actually be registered */
+    active: boolean;
+    /** Why an enabled job is inactive */
+    inactiveReason?: string;
+}
 
-        // ---- Proactive Botchan Engagement (every 3 hours) ----
-        const botchanEngage = cron.schedule('0 */3 * * *', async () => {
-            log.debug('🤝 Botchan engagement cycle running...');
-            try {
-                const engaged = await runBotchanEngagement();
-                if (engaged > 0) {
-                    log.info(`🤝 Botchan engagement: ${engaged} interaction(s)`);
-                }
-            } catch (error) {
-                log.error('Botchan engagement failed', { error: String(error) });
+/** Why a job can't run with the current credentials (undefined = it can) */
+function missingRequirement(handler: JobHandler, params: Record<string, unknown>): string | undefined {
+    if (handler.requires === 'net') return isNetConfigured ? undefined : 'Net Protocol not configured';
+    if (handler.requires === 'telegram') return isTelegramBroadcastConfigured ? undefined : 'Telegram channel not configured';
+    const platformId = handler.requires ?? params.platform;
+    if (typeof platformId !== 'string' || !isPlatformId(platformId)) return undefined;
+    const platform = getPlatform(platformId);
+    return platform.isConfigured() ? undefined : `${platform.displayName} not configured`;
+}
+
+/**
+ * Load the schedule file and check every job against the handler registry.
+ * Throws on unknown handlers or invalid params — a broken schedule should stop startup.
+ */
+export function resolveSchedule(path = config.SCHEDULE_FILE): { timezone: string; jobs: ResolvedJob[] } {
+    const schedule = loadSchedule(path);
+    const problems: string[] = [];
+
+    const jobs = schedule.jobs.map((job): ResolvedJob => {
+        const handler = JOB_HANDLERS[job.handler];
+        if (!handler) {
+            problems.push(`  → ${job.id}: unknown handler "${job.handler}" (known: ${Object.keys(JOB_HANDLERS).join(', ')})`);
+            return { ...job, active: false };
+        }
+
+        const params = handler.params.safeParse(job.params);
+        if (!params.success) {
+            for (const issue of params.error.issues) {
+                problems.push(`  → ${job.id}.params.${issue.path.join('.')}: ${issue.message}`);
             }
-        }, { timezone: 'America/New_York' });
-        activeTasks.push(botchanEngage);
-        log.info('🤝 Botchan proactive engagement active (every 3 hours)');
+            return { ...job, active: false };
+        }
 
-        // ---- Weekly X Article Generation (Wednesday 5:00 AM ET) ----
-        const articleJob = cron.schedule('0 5 * * 3', async () => {
-            log.info('📝 Generating weekly X Article...');
-            try {
-                const article = await generateArticle();
-                if (article) {
-                    log.info(`📝 Article ready: "${article.title}" (${article.wordCount} words) — check Supabase to publish`);
-                } else {
-                    log.warn('Article generation returned null');
-                }
-            } catch (error) {
-                log.error('Weekly article generation failed', { error: String(error) });
+        const inactiveReason = !job.enabled ? 'disabled' : missingRequirement(handler, params.data);
+        return { ...job, params: params.data, active: !inactiveReason, inactiveReason };
+    });
+
+    if (problems.length > 0) {
+        throw new Error(`Invalid schedule file ${path}:\n${problems.join('\n')}`);
+    }
+    return { timezone: schedule.timezone, jobs };
+}
+
+// ---- Job Execution ----
+
+/** Jobs currently running — shutdown waits for them before releasing the lease */
+const inFlightJobs = new Set<Promise<void>>();
+
+/** Longest shutdown waits for in-flight jobs */
+const SHUTDOWN_DRAIN_MS = 30_000;
+
+/**
+ * Run one job (leader only) and record it in the job run history. Never throws.
+ */
+async function executeJob(job: ResolvedJob, trigger: JobTrigger, scheduledFor: Date): Promise<void> {
+    // Every instance registers the crons; only the lease holder runs them
+    if (!isLeader()) {
+        log.debug(`Skipping ${job.id} — another instance holds the scheduler lease`);
+        return;
+    }
+
+    const run = runJob(job, trigger, scheduledFor);
+    inFlightJobs.add(run);
+    try {
+        await run;
+    } finally {
+        inFlightJobs.delete(run);
+    }
+}
+
+async function runJob(job: ResolvedJob, trigger: JobTrigger, scheduledFor: Date): Promise<void> {
+    const handler = JOB_HANDLERS[job.handler];
+    const startedAt = Date.now();
+    const runId = await startJobRun(job.id, job.handler, trigger, scheduledFor);
+
+    log.info(`▶️ ${job.id} starting${trigger === 'catch_up' ? ' (catch-up)' : ''}${job.description ? ` — ${job.description}` : ''}`);
+    try {
+        const counts = await handler.run(job.params);
+        await finishJobRun(runId, startedAt, { status: 'success', counts: counts ?? undefined });
+    } catch (error) {
+        log.error(`Job ${job.id} failed`, { handler: job.handler, error: String(error) });
+        await finishJobRun(runId, startedAt, { status: 'failed', error: String(error) });
+    }
+}
+
+/**
+ * On election: for each catch-up-safe job, run its most recent slot inside the grace
+ * window once if no completed run exists for it. Older missed slots are skipped —
+ * catching up means "bring state current", not replaying every slot.
+ */
+async function runMissedSlots(jobs: ResolvedJob[]): Promise<void> {
+    await markInterruptedRuns();
+
+    const graceHours = config.SCHEDULER_CATCHUP_GRACE_HOURS;
+    const candidates = jobs.filter(job => job.catchUp);
+    if (graceHours <= 0 || candidates.length === 0) return;
+
+    const now = new Date();
+    const since = new Date(now.getTime() - graceHours * 60 * 60 * 1000);
+    const completed = await getCompletedSlots(candidates.map(j => j.id), since);
+    if (!completed) {
+        log.warn('Job history unavailable — skipping missed-run catch-up');
+        return;
+    }
+
+    let caughtUp = 0;
+    for (const job of candidates) {
+        const lastSlot = listRunTimes(job.cron, job.timezone, since, now).pop();
+        if (!lastSlot) continue;
+        if ((completed.get(job.id) ?? []).some(t => t >= lastSlot.getTime())) continue;
+
+        log.info(`⏪ Missed slot for ${job.id} at ${lastSlot.toISOString()} — running catch-up`);
+        await executeJob(job, 'catch_up', lastSlot);
+        caughtUp++;
+    }
+
+    if (caughtUp > 0) {
+        log.info(`⏪ Catch-up complete: ${caughtUp} missed job(s) run (grace window ${graceHours}h)`);
+    }
+}
+
+/**
+ * Start the content scheduler: one cron task per active job in the schedule file
+ * (SCHEDULE_FILE, default schedule.json). `npm start -- schedule` prints the resolved timeline.
+ */
+export function startScheduler(): void {
+    if (configuredPlatforms().length === 0) {
+        log.warn('No platform configured! Scheduler has nothing to do.');
+        return;
+    }
+
+    const schedule = resolveSchedule();
+    const activeJobs = schedule.jobs.filter(job => job.active);
+    log.info(`Starting scheduler from ${config.SCHEDULE_FILE} (${activeJobs.length}/${schedule.jobs.length} jobs active)...`);
+
+    for (const job of activeJobs) {
+        const task = cron.schedule(job.cron, async () => {
+            // node-cron fires at the slot — floor to the minute so history matches the schedule exactly
+            const slot = new Date(Math.floor(Date.now() / 60_000) * 60_000);
+            await executeJob(job, 'cron', slot);
+        }, { timezone: job.timezone });
+        activeTasks.push(task);
+        log.info(`📌 Registered: ${job.id} (${job.cron} ${job.timezone})`);
+    }
+
+    for (const job of schedule.jobs.filter(j => !j.active)) {
+        log.debug(`Skipped: ${job.id} (${job.inactiveReason})`);
+    }
+
+    log.info(`Scheduler started with ${activeTasks.length} cron jobs`);
+
+    startLeaderElection({
+        onElected: () => {
+            onBecameLeader(activeJobs);
+        },
+        onDemoted: () => {
+            if (inFlightJobs.size > 0) {
+                log.warn(`${inFlightJobs.size} job(s) still running after losing the lease`);
             }
-        }, { timezone: 'America/New_York' });
-        activeTasks.push(articleJob);
-        log.info('📝 Weekly X Article generation active (Wednesday 5:00 AM ET)');
+        },
+    });
+}
+
+/** One-time startup work, done by whichever instance first becomes leader */
+let bootstrapped = false;
+
+function onBecameLeader(activeJobs: ResolvedJob[]): void {
+    if (!bootstrapped) {
+        bootstrapped = true;
+
+        // Initialize skills system (fire-and-forget, non-blocking)
+        initializeSkills().catch(error => {
+            log.warn('Skills initialization failed, continuing without skills', { error: String(error) });
+        });
+
+        // Set up Botchan profile + agent leaderboard (fire-and-forget, non-blocking)
+        runBotchanSetup().catch(error => {
+            log.warn('Botchan setup failed, continuing without profile', { error: String(error) });
+        });
+
+        // Initial sync of following list → handle map (fire-and-forget)
+        syncFollowingHandles().catch(error => {
+            log.warn('Initial handle sync failed, will retry at 3 AM', { error: String(error) });
+        });
     }
 
-    log.info(`Scheduler started with ${activeTasks.length} cron jobs (10 X posts + 5 Botchan posts + 20 reply budget + monitors)`);
+    // Catch up on slots missed while no leader was running (fire-and-forget, sequential)
+    runMissedSlots(activeJobs).catch(error => {
+        log.error('Missed-run catch-up failed', { error: String(error) });
+    });
 }
 
 /**
- * Stop the scheduler (kill switch).
+ * Stop the scheduler (kill switch). Waits briefly for running jobs, then
+ * releases the leader lease so another instance can take over immediately.
  */
-export function stopScheduler(): void {
+export async function stopScheduler(): Promise<void> {
     for (const task of activeTasks) {
         task.stop();
     }
     activeTasks.length = 0;
+
+    if (inFlightJobs.size > 0) {
+        log.info(`Waiting for ${inFlightJobs.size} running job(s) to finish...`);
+        await Promise.race([
+            Promise.allSettled([...inFlightJobs]),
+            new Promise(resolve => setTimeout(resolve, SHUTDOWN_DRAIN_MS)),
+        ]);
+    }
+
+    await releaseLeadership();
     log.info('Scheduler stopped');
 }
 
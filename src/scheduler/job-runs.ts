@@ -0,0 +1,171 @@
+import { supabase } from '../supabase.js';
+import { createLogger } from '../logger.js';
+
+// ============================================================================
+// QasidAI — Job Run History
+// One row per scheduler job run (cron, catch-up or manual): scheduled slot,
+// start/end time, outcome, error and the counts the handler returned. Used
+// on boot to find slots missed while the process was down.
+// ============================================================================
+
+const log = createLogger('JobRuns');
+
+export type JobTrigger = 'cron' | 'catch_up' | 'manual';
+export type JobRunStatus = 'running' | 'success' | 'failed' | 'interrupted';
+
+/** Counts a handler reports, e.g. { facts: 3 } or { replies: 2 } */
+export type JobCounts = Record<string, number>;
+
+export interface JobRun {
+    id: string;
+    jobId: string;
+    handler: string;
+    trigger: JobTrigger;
+    status: JobRunStatus;
+    scheduledFor: string;
+    startedAt: string;
+    finishedAt: string | null;
+    durationMs: number | null;
+    counts: JobCounts;
+    error: string | null;
+}
+
+function toJobRun(row: any): JobRun {
+    return {
+        id: row.id,
+        jobId: row.job_id,
+        handler: row.handler,
+        trigger: row.trigger,
+        status: row.status,
+        scheduledFor: row.scheduled_for,
+        startedAt: row.started_at,
+        finishedAt: row.finished_at,
+        durationMs: row.duration_ms,
+        counts: row.counts ?? {},
+        error: row.error,
+    };
+}
+
+/**
+ * Record the start of a job run. Returns the run id, or null if the insert failed
+ * (the job still runs — history is best-effort).
+ */
+export async function startJobRun(
+    jobId: string,
+    handler: string,
+    trigger: JobTrigger,
+    scheduledFor: Date,
+): Promise<string | null> {
+    const { data, error } = await supabase
+        .from('qasid_job_runs')
+        .insert({
+            job_id: jobId,
+            handler,
+            trigger,
+            status: 'running',
+            scheduled_for: scheduledFor.toISOString(),
+        })
+        .select('id')
+        .single();
+
+    if (error || !data) {
+        log.warn('Failed to record job start', { jobId, error: error?.message });
+        return null;
+    }
+    return data.id;
+}
+
+/**
+ * Record how a job run ended.
+ */
+export async function finishJobRun(
+    runId: string | null,
+    startedAt: number,
+    outcome: { status: 'success'; counts?: JobCounts } | { status: 'failed'; error: string },
+): Promise<void> {
+    if (!runId) return;
+
+    const finishedAt = Date.now();
+    const { error } = await supabase
+        .from('qasid_job_runs')
+        .update({
+            status: outcome.status,
+            finished_at: new Date(finishedAt).toISOString(),
+            duration_ms: finishedAt - startedAt,
+            counts: outcome.status === 'success' ? outcome.counts ?? {} : {},
+            error: outcome.status === 'failed' ? outcome.error.slice(0, 2000) : null,
+        })
+        .eq('id', runId);
+
+    if (error) {
+        log.warn('Failed to record job finish', { runId, error: error.message });
+    }
+}
+
+/**
+ * Mark runs left 'running' by a previous process as interrupted (called once on boot).
+ */
+export async function markInterruptedRuns(): Promise<number> {
+    const { data, error } = await supabase
+        .from('qasid_job_runs')
+        .update({ status: 'interrupted', finished_at: new Date().toISOString() })
+        .eq('status', 'running')
+        .select('id');
+
+    if (error) {
+        log.warn('Failed to mark interrupted job runs', { error: error.message });
+        return 0;
+    }
+    if (data && data.length > 0) {
+        log.warn(`${data.length} job run(s) were interrupted by the last shutdown`);
+    }
+    return data?.length ?? 0;
+}
+
+/**
+ * Scheduled slots (ISO) per job that already have a completed run (success or failed)
+ * at or after `since`. Interrupted runs don't count — their slot is eligible for catch-up.
+ * Returns null when history can't be read (callers should skip catch-up rather than guess).
+ */
+export async function getCompletedSlots(jobIds: string[], since: Date): Promise<Map<string, number[]> | null> {
+    if (jobIds.length === 0) return new Map();
+
+    const { data, error } = await supabase
+        .from('qasid_job_runs')
+        .select('job_id, scheduled_for')
+        .in('job_id', jobIds)
+        .in('status', ['success', 'failed'])
+        .gte('scheduled_for', since.toISOString());
+
+    if (error) {
+        log.warn('Failed to read job history for catch-up', { error: error.message });
+        return null;
+    }
+
+    const slots = new Map<string, number[]>();
+    for (const row of data ?? []) {
+        const list = slots.get(row.job_id) ?? [];
+        list.push(new Date(row.scheduled_for).getTime());
+        slots.set(row.job_id, list);
+    }
+    return slots;
+}
+
+/**
+ * Most recent runs, newest first (optionally for one job).
+ */
+export async function listJobRuns(options?: { jobId?: string; limit?: number }): Promise<JobRun[]> {
+    let query = supabase
+        .from('qasid_job_runs')
+        .select('*')
+        .order('started_at', { ascending: false })
+        .limit(options?.limit ?? 30);
+    if (options?.jobId) query = query.eq('job_id', options.jobId);
+
+    const { data, error } = await query;
+    if (error) {
+        log.error('Failed to list job runs', { error: error.message });
+        return [];
+    }
+    return (data ?? []).map(toJobRun);
+}
@@ -0,0 +1,132 @@
+import { hostname } from 'node:os';
+import { randomUUID } from 'node:crypto';
+import { supabase } from '../supabase.js';
+import { config } from '../config.js';
+import { createLogger } from '../logger.js';
+
+// ============================================================================
+// QasidAI — Leader Lease
+// Only one instance may run scheduled jobs. Instances compete for a Postgres
+// lease (qasid_try_acquire_lease, migration v11); the holder renews it every
+// TTL/3 and releases it on shutdown so a new deploy takes over immediately.
+// If renewal can't be confirmed before the lease would expire, the instance
+// steps down on its own — two leaders is worse than a skipped slot.
+// ============================================================================
+
+const log = createLogger('Leader');
+
+/** Lease name for the scheduler */
+const SCHEDULER_LEASE = 'scheduler';
+
+/** Unique per process — a restarted process is a new holder */
+const instanceId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+let leader = false;
+/** When the current lease was last confirmed (ms) — leadership is assumed lost TTL after this */
+let confirmedAt = 0;
+let timer: NodeJS.Timeout | null = null;
+let callbacks: { onElected: () => void; onDemoted: () => void } | null = null;
+
+/**
+ * Whether this instance currently holds the scheduler lease.
+ * Always true when the lease is disabled (single-instance deployments).
+ */
+export function isLeader(): boolean {
+    if (!config.LEADER_LEASE_ENABLED) return true;
+    // Don't trust a lease we haven't been able to renew
+    if (leader && Date.now() - confirmedAt >= config.LEADER_LEASE_TTL_SECONDS * 1000) {
+        setLeader(false, 'lease not renewed before expiry');
+    }
+    return leader;
+}
+
+export function getInstanceId(): string {
+    return instanceId;
+}
+
+function setLeader(value: boolean, reason: string): void {
+    if (leader === value) return;
+    leader = value;
+    if (value) {
+        log.info(`👑 Acquired scheduler lease — this instance runs scheduled jobs`, { instanceId });
+        callbacks?.onElected();
+    } else {
+        log.warn(`Lost scheduler lease (${reason}) — scheduled jobs paused on this instance`, { instanceId });
+        callbacks?.onDemoted();
+    }
+}
+
+async function tryAcquire(): Promise<void> {
+    const attemptedAt = Date.now();
+    const { data, error } = await supabase.rpc('qasid_try_acquire_lease', {
+        p_name: SCHEDULER_LEASE,
+        p_holder: instanceId,
+        p_ttl_seconds: config.LEADER_LEASE_TTL_SECONDS,
+    });
+
+    if (error) {
+        log.error('Lease check failed (is migration v11 applied?)', { error: error.message });
+        isLeader(); // steps down once the last confirmed lease has run out
+        return;
+    }
+
+    if (data === true) {
+        confirmedAt = attemptedAt;
+        setLeader(true, 'acquired');
+    } else {
+        setLeader(false, 'held by another instance');
+    }
+}
+
+/**
+ * Start competing for the scheduler lease. onElected/onDemoted fire on every
+ * leadership change. With the lease disabled, onElected fires once immediately.
+ */
+export function startLeaderElection(handlers: { onElected: () => void; onDemoted: () => void }): void {
+    callbacks = handlers;
+
+    if (!config.LEADER_LEASE_ENABLED) {
+        log.info('Leader lease disabled — assuming single instance');
+        handlers.onElected();
+        return;
+    }
+
+    const renewMs = Math.max(1000, Math.floor(config.LEADER_LEASE_TTL_SECONDS * 1000 / 3));
+    log.info(`Competing for scheduler lease (ttl ${config.LEADER_LEASE_TTL_SECONDS}s)`, { instanceId });
+
+    const tick = () => {
+        tryAcquire().catch(error => {
+            log.error('Lease check threw', { error: String(error) });
+        });
+    };
+    tick();
+    timer = setInterval(tick, renewMs);
+}
+
+/**
+ * Stop competing and release the lease if held, so another instance can take
+ * over without waiting for the TTL. Never throws.
+ */
+export async function releaseLeadership(): Promise<void> {
+    if (timer) {
+        clearInterval(timer);
+        timer = null;
+    }
+    if (!config.LEADER_LEASE_ENABLED || !leader) {
+        callbacks = null;
+        return;
+    }
+
+    setLeader(false, 'shutdown');
+    callbacks = null;
+
+    const { error } = await supabase.rpc('qasid_release_lease', {
+        p_name: SCHEDULER_LEASE,
+        p_holder: instanceId,
+    });
+    if (error) {
+        log.warn('Failed to release scheduler lease — it will expire on its own', { error: error.message });
+    } else {
+        log.info('Released scheduler lease');
+    }
+}
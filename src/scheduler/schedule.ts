@@ -0,0 +1,249 @@
+import { readFileSync } from 'fs';
+import cron from 'node-cron';
+import { z } from 'zod';
+
+// ============================================================================
+// QasidAI — Declarative Schedule
+// Loads and validates the job schedule file (cron expression, timezone,
+// handler, params, enabled per job) and resolves cron expressions to concrete
+// run times for the CLI timeline.
+// ============================================================================
+
+// ---- Schema ----
+
+function isValidTimezone(tz: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: tz });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+const timezoneSchema = z.string().refine(isValidTimezone, tz => ({ message: `Unknown timezone "${tz}"` }));
+
+const jobSchema = z.object({
+    /** Unique job id (kebab-case) */
+    id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'id must be kebab-case'),
+    /** 5-field cron expression (minute hour day-of-month month day-of-week), numeric values only */
+    cron: z.string().refine(
+        expr => expr.trim().split(/\s+/).length === 5 && cron.validate(expr) && parseCron(expr) !== null,
+        expr => ({ message: `Invalid cron expression "${expr}"` }),
+    ),
+    /** Overrides the file-level timezone */
+    timezone: timezoneSchema.optional(),
+    /** Handler name — must exist in the scheduler's handler registry */
+    handler: z.string().min(1),
+    /** Handler parameters (validated by the handler) */
+    params: z.record(z.unknown()).default({}),
+    enabled: z.boolean().default(true),
+    /** Safe to run late: on boot, a slot missed within the catch-up grace window is run once */
+    catchUp: z.boolean().default(false),
+    description: z.string().optional(),
+}).strict();
+
+const scheduleSchema = z.object({
+    /** Default timezone for every job */
+    timezone: timezoneSchema,
+    jobs: z.array(jobSchema).min(1),
+}).strict().superRefine((schedule, ctx) => {
+    const seen = new Set<string>();
+    for (const [i, job] of schedule.jobs.entries()) {
+        if (seen.has(job.id)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['jobs', i, 'id'], message: `Duplicate job id "${job.id}"` });
+        }
+        seen.add(job.id);
+    }
+});
+
+export interface ScheduledJob {
+    id: string;
+    cron: string;
+    timezone: string;
+    handler: string;
+    params: Record<string, unknown>;
+    enabled: boolean;
+    catchUp: boolean;
+    description?: string;
+}
+
+export interface Schedule {
+    timezone: string;
+    jobs: ScheduledJob[];
+}
+
+/**
+ * Load and validate a schedule file. Throws with every validation issue listed.
+ */
+export function loadSchedule(path: string): Schedule {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (error) {
+        throw new Error(`Could not read schedule file ${path}: ${String(error)}`);
+    }
+
+    const result = scheduleSchema.safeParse(raw);
+    if (!result.success) {
+        const issues = result.error.issues.map(i => `  → ${i.path.join('.')}: ${i.message}`).join('\n');
+        throw new Error(`Invalid schedule file ${path}:\n${issues}`);
+    }
+
+    return {
+        timezone: result.data.timezone,
+        jobs: result.data.jobs.map(job => ({ ...job, timezone: job.timezone ?? result.data.timezone })),
+    };
+}
+
+// ---- Cron Resolution ----
+
+interface CronFields {
+    minute: Set<number>;
+    hour: Set<number>;
+    dayOfMonth: Set<number>;
+    month: Set<number>;
+    dayOfWeek: Set<number>;
+}
+
+const FIELD_RANGES: Array<[keyof CronFields, number, number]> = [
+    ['minute', 0, 59],
+    ['hour', 0, 23],
+    ['dayOfMonth', 1, 31],
+    ['month', 1, 12],
+    ['dayOfWeek', 0, 7],
+];
+
+/** Expand one cron field (*, a, a-b, a,b, with optional /step). Null if unparseable. */
+function parseField(field: string, min: number, max: number): Set<number> | null {
+    const values = new Set<number>();
+    for (const part of field.split(',')) {
+        const match = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+        if (!match) return null;
+        const [, range, stepStr] = match;
+        const step = stepStr ? Number(stepStr) : 1;
+        let [from, to] = range === '*' ? [min, max] : range.split('-').map(Number) as [number, number?];
+        if (to === undefined) to = stepStr ? max : from;
+        if (step < 1 || from < min || to > max || from > to) return null;
+        for (let v = from; v <= to; v += step) values.add(v);
+    }
+    return values;
+}
+
+function parseCron(expr: string): CronFields | null {
+    const parts = expr.trim().split(/\s+/);
+    if (parts.length !== 5) return null;
+
+    const fields: Partial<CronFields> = {};
+    for (const [i, [name, min, max]] of FIELD_RANGES.entries()) {
+        const values = parseField(parts[i], min, max);
+        if (!values) return null;
+        fields[name] = values;
+    }
+    // 7 is Sunday too
+    if (fields.dayOfWeek!.has(7)) fields.dayOfWeek!.add(0);
+    return fields as CronFields;
+}
+
+interface WallClock {
+    date: string;
+    month: number;
+    day: number;
+    weekday: number;
+    hour: number;
+    minute: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Wall-clock fields of an instant in a timezone */
+function wallClock(at: Date, timezone: string): WallClock {
+    let fmt = formatters.get(timezone);
+    if (!fmt) {
+        fmt = new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            hourCycle: 'h23',
+            year: 'numeric', month: '2-digit', day: '2-digit',
+            hour: '2-digit', minute: '2-digit', weekday: 'short',
+        });
+        formatters.set(timezone, fmt);
+    }
+    const parts = Object.fromEntries(fmt.formatToParts(at).map(p => [p.type, p.value]));
+    return {
+        date: `${parts.year}-${parts.month}-${parts.day}`,
+        month: Number(parts.month),
+        day: Number(parts.day),
+        weekday: WEEKDAYS.indexOf(parts.weekday),
+        hour: Number(parts.hour),
+        minute: Number(parts.minute),
+    };
+}
+
+/**
+ * Whether a cron expression fires at the given minute in the given timezone.
+ * Day-of-month and day-of-week must both match (node-cron semantics).
+ */
+export function cronMatches(expr: string, at: Date, timezone: string): boolean {
+    const fields = parseCron(expr);
+    return fields !== null && fieldsMatch(fields, at, timezone);
+}
+
+function fieldsMatch(fields: CronFields, at: Date, timezone: string): boolean {
+    const wall = wallClock(at, timezone);
+    return fields.minute.has(wall.minute)
+        && fields.hour.has(wall.hour)
+        && fields.dayOfMonth.has(wall.day)
+        && fields.month.has(wall.month)
+        && fields.dayOfWeek.has(wall.weekday);
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Every run time of a cron expression in [from, to), minute resolution.
+ */
+export function listRunTimes(expr: string, timezone: string, from: Date, to: Date): Date[] {
+    const fields = parseCron(expr);
+    if (!fields) return [];
+
+    const runs: Date[] = [];
+    const start = Math.ceil(from.getTime() / MINUTE_MS) * MINUTE_MS;
+    for (let t = start; t < to.getTime(); t += MINUTE_MS) {
+        const at = new Date(t);
+        if (fieldsMatch(fields, at, timezone)) runs.push(at);
+    }
+    return runs;
+}
+
+/**
+ * [start, end) of a calendar day (YYYY-MM-DD) in a timezone, DST-aware.
+ */
+export function dayWindow(date: string, timezone: string): { start: Date; end: Date } {
+    const utcMidnight = Date.parse(`${date}T00:00:00Z`);
+    if (Number.isNaN(utcMidnight)) throw new Error(`Invalid date "${date}" (expected YYYY-MM-DD)`);
+
+    // The local day lies within ±14h of UTC midnight — scan for its first and last minute
+    let start = -1;
+    let end = -1;
+    for (let t = utcMidnight - 14 * 60 * MINUTE_MS; t < utcMidnight + 38 * 60 * MINUTE_MS; t += 15 * MINUTE_MS) {
+        const isDay = wallClock(new Date(t), timezone).date === date;
+        if (isDay && start < 0) start = t;
+        if (!isDay && start >= 0) { end = t; break; }
+    }
+    return { start: new Date(start), end: new Date(end) };
+}
+
+/**
+ * HH:MM of an instant in a timezone.
+ */
+export function formatClock(at: Date, timezone: string): string {
+    const wall = wallClock(at, timezone);
+    return `${String(wall.hour).padStart(2, '0')}:${String(wall.minute).padStart(2, '0')}`;
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in a timezone.
+ */
+export function todayIn(timezone: string): string {
+    return wallClock(new Date(), timezone).date;
+}
@@ -1,10 +1,12 @@
-import { generate } from '../engine/llm.js';
+import { z } from 'zod';
+import { generate, generateStructured } from '../engine/llm.js';
 import { postTweet } from '../platforms/x.js';
 import { writeStorage, readStorage } from '../net/client.js';
 import { isNetConfigured } from '../config.js';
 import { supabase } from '../supabase.js';
 import { createLogger } from '../logger.js';
 import { recordAction } from '../engine/daily-budget.js';
+import { publishOperational } from '../engine/posting-mode.js';
 
 // ============================================================================
 // QasidAI — Skills Framework
@@ -68,6 +70,18 @@ export type SkillSource =
     | 'x_search'        // Found via autonomous X search
     | 'founder_tag';    // Discovered from founder's tagged content
 
+/** Structured skill proposal from discoverSkillFromContent (null = nothing learnable) */
+const skillProposalSchema = z.object({
+    skill: z.object({
+        id: z.string().describe('short slug, e.g. "contrarian-hook"'),
+        name: z.string().describe('human readable name'),
+        description: z.string().describe('what this skill does — be specific'),
+        category: z.enum(['content', 'analysis', 'engagement', 'technical', 'knowledge', 'meta']),
+        prompt: z.string().describe('a prompt template to use this skill'),
+        confidence: z.number().min(0).max(1).describe('how useful you think this is'),
+    }).nullable().describe('null unless a genuine skill exists'),
+});
+
 // ---- Built-in Skills (always active, no approval needed) ----
 
 const BUILT_IN_SKILLS: Skill[] = [
@@ -272,7 +286,10 @@ export async function discoverSkillFromContent(
             return null;
         }
 
-        const result = await generate({
+        const result = await generateStructured({
+            task: 'skill_discovery',
+            module: 'skill-manager',
+            schema: skillProposalSchema,
             prompt: `You are QasidAI, an autonomous AI CMO. You observed some content and must decide if it contains a GENUINELY REUSABLE SKILL that you don't already have.
 
 OBSERVED CONTENT:
@@ -298,36 +315,16 @@ REJECT if:
 - It's too vague to turn into a concrete prompt (e.g. "be more authentic")
 - It's about a tool/API you can't actually access
 
-DEFAULT ANSWER: NONE (most content does NOT contain a learnable skill)
-
-If a genuine skill exists, respond:
-SKILL_ID: (short slug, e.g. "contrarian-hook")
-NAME: (human readable name)
-DESCRIPTION: (what this skill does — be specific)
-CATEGORY: (content | analysis | engagement | technical | knowledge | meta)
-PROMPT: (a prompt template to use this skill)
-CONFIDENCE: (0.0-1.0 how useful you think this is)
+DEFAULT ANSWER: "skill": null (most content does NOT contain a learnable skill)
 
-Otherwise respond: NONE`,
-            maxTokens: 300,
-            temperature: 0.5,  // Lower temp = more selective
+Only fill in "skill" if a genuine skill exists.`,
         });
 
-        const text = result.content.trim();
-        if (text === 'NONE' || !text.includes('SKILL_ID:')) {
-            return null;
-        }
+        const proposal = result.data.skill;
+        if (!proposal) return null;
 
-        // Parse skill definition
-        const lines = text.split('\n');
-        const get = (key: string) => lines.find(l => l.startsWith(`${key}:`))?.replace(`${key}:`, '').trim() ?? '';
-
-        const id = get('SKILL_ID').toLowerCase().replace(/[^a-z0-9-]/g, '');
-        const name = get('NAME');
-        const description = get('DESCRIPTION');
-        const category = get('CATEGORY') as SkillCategory;
-        const prompt = get('PROMPT');
-        const confidence = parseFloat(get('CONFIDENCE')) || 0.5;
+        const id = proposal.id.toLowerCase().replace(/[^a-z0-9-]/g, '');
+        const { name, description, category, prompt, confidence } = proposal;
 
         if (!id || !name || !prompt) return null;
 
@@ -352,13 +349,13 @@ Otherwise respond: NONE`,
             id,
             name,
             description,
-            category: ['content', 'analysis', 'engagement', 'technical', 'knowledge', 'meta'].includes(category) ? category : 'content',
+            category,
             source,
             sourceUrl,
             prompt,
             learnedAt: new Date().toISOString(),
             usageCount: 0,
-            confidence: Math.min(1, Math.max(0, confidence)),
+            confidence,
             status: 'pending_approval',  // <-- NOT active until founder approves
         };
 
@@ -398,6 +395,8 @@ async function requestSkillApproval(skill: Skill): Promise<void> {
 
     // Generate a natural-sounding approval request
     const result = await generate({
+        task: 'short_post',
+        module: 'skill-manager',
         prompt: `You're QasidAI. You found a new skill you want to add to your toolkit. Write a tweet tagging @${FOUNDER_HANDLE} proposing it.
 
 SKILL: ${skill.name}
@@ -410,8 +409,6 @@ End with something like "worth adding?" or "approve or pass?"
 Include the source URL if available.
 
 Tweet text only:`,
-        maxTokens: 200,
-        temperature: 0.85,
     });
 
     let tweetText = result.content.trim();
@@ -435,7 +432,7 @@ Tweet text only:`,
     }
 
     try {
-        const tweetId = await postTweet(tweetText);
+        const tweetId = await publishOperational(() => postTweet(tweetText));
         if (tweetId) {
             skill.approvalTweetId = tweetId;
             await supabase
@@ -483,6 +480,32 @@ export async function processSkillApproval(
         || lower.includes('skip') || lower.includes('pass') || lower.includes('❌')
         || lower.includes('reject');
 
+    if (!approved && !denied) {
+        // Ambiguous response — leave pending
+        log.info(`🤷 Ambiguous founder reply for skill ${pendingSkill.name}: "${replyText}"`);
+        return null;
+    }
+
+    await applySkillDecision(pendingSkill, approved);
+    return { skill: pendingSkill, approved };
+}
+
+/**
+ * Approve or deny a pending skill by id (Telegram control bot).
+ * Returns the skill, or null if no pending skill has that id.
+ */
+export async function decideSkill(skillId: string, approved: boolean): Promise<Skill | null> {
+    const pendingSkill = skillRegistry.find(s => s.status === 'pending_approval' && s.id === skillId);
+    if (!pendingSkill) return null;
+
+    await applySkillDecision(pendingSkill, approved);
+    return pendingSkill;
+}
+
+/**
+ * Persist a founder decision, announce it on X, and sync approved skills on-chain.
+ */
+async function applySkillDecision(pendingSkill: Skill, approved: boolean): Promise<void> {
     if (approved) {
         pendingSkill.status = 'active';
         await supabase
@@ -493,7 +516,7 @@ export async function processSkillApproval(
 
         // Public announcement: skill activated
         try {
-            await postTweet(`✅ New skill activated: ${pendingSkill.name}\n\n${pendingSkill.description}\n\nFounder approved. Deploying now. 🧠`);
+            await publishOperational(() => postTweet(`✅ New skill activated: ${pendingSkill.name}\n\n${pendingSkill.description}\n\nFounder approved. Deploying now. 🧠`));
         } catch {
             log.warn('Failed to post skill approval announcement');
         }
@@ -504,7 +527,7 @@ export async function processSkillApproval(
         } catch {
             log.warn('Failed to sync skills to chain after approval');
         }
-    } else if (denied) {
+    } else {
         pendingSkill.status = 'denied';
         await supabase
             .from('qasid_skills')
@@ -514,17 +537,11 @@ export async function processSkillApproval(
 
         // Public announcement: skill denied (clean, professional)
         try {
-            await postTweet(`Skill proposal "${pendingSkill.name}" — reviewed and shelved by founder. Not every capability makes the cut. Moving on.`);
+            await publishOperational(() => postTweet(`Skill proposal "${pendingSkill.name}" — reviewed and shelved by founder. Not every capability makes the cut. Moving on.`));
         } catch {
             log.warn('Failed to post skill denial announcement');
         }
-    } else {
-        // Ambiguous response — leave pending
-        log.info(`🤷 Ambiguous founder reply for skill ${pendingSkill.name}: "${replyText}"`);
-        return null;
     }
-
-    return { skill: pendingSkill, approved };
 }
 
 // ---- On-Chain Storage ----
@@ -1,7 +1,9 @@
 import { searchRecentTweets } from '../platforms/x.js';
+import { checkXQuota } from '../platforms/x-rate-limit.js';
 import { discoverSkillFromContent } from './skill-manager.js';
 import { gatherIntelContext } from '../data/intelligence.js';
-import { generate } from '../engine/llm.js';
+import { z } from 'zod';
+import { generateStructured } from '../engine/llm.js';
 import { createLogger } from '../logger.js';
 
 // ============================================================================
@@ -16,6 +18,11 @@ import { createLogger } from '../logger.js';
 
 const log = createLogger('SkillScout');
 
+/** Structured prescreen verdict — is this a concrete, learnable technique? */
+const prescreenSchema = z.object({
+    learnable: z.boolean(),
+});
+
 /** Search queries rotated each run for diverse discovery */
 const SCOUT_QUERIES = [
     // AI agent techniques
@@ -55,6 +62,13 @@ export async function runSkillScout(): Promise<number> {
     const intelContext = await gatherIntelContext();
 
     for (const query of queries) {
+        // Lowest-priority search consumer — stop well before the quota runs out
+        const quota = checkXQuota('search', 'low');
+        if (!quota.allowed) {
+            log.info(`Stopping skill scout — ${quota.reason}`, { resetAt: quota.resetAt?.toISOString() });
+            break;
+        }
+
         try {
             const tweets = await searchRecentTweets(query, 15);
 
@@ -76,7 +90,10 @@ export async function runSkillScout(): Promise<number> {
 
             // LLM pre-filter: is this content actually about a technique/skill/tool?
             for (const tweet of top) {
-                const prescreen = await generate({
+                const prescreen = await generateStructured({
+                    task: 'classification',
+                    module: 'skill-scout',
+                    schema: prescreenSchema,
                     prompt: `You're QasidAI, CMO of Lisan Holdings. You're scouting X for techniques worth learning.
 
 TWEET by @${tweet.authorUsername ?? 'unknown'}:
@@ -90,13 +107,10 @@ Say NO if it's:
 - About a tool/API you can't access
 - Something obvious or generic
 
-Answer YES or NO (one word):`,
-                    maxTokens: 5,
-                    temperature: 0.2,
+Set "learnable" to true only if it does.`,
                 });
 
-                const answer = prescreen.content.trim().toUpperCase();
-                if (!answer.startsWith('YES')) continue;
+                if (!prescreen.data.learnable) continue;
 
                 // Pass to skill discovery pipeline
                 const sourceUrl = `https://x.com/${tweet.authorUsername}/status/${tweet.id}`;
@@ -196,7 +210,10 @@ async function runBotchanSkillScout(): Promise<number> {
             evaluatedBotchanPosts.add(postId);
 
             // LLM pre-filter: does this describe a learnable skill/technique?
-            const prescreen = await generate({
+            const prescreen = await generateStructured({
+                task: 'classification',
+                module: 'skill-scout',
+                schema: prescreenSchema,
                 prompt: `You're QasidAI, scanning Botchan (on-chain agent feed) for skills to learn.
 
 POST by agent ${post.sender.slice(0, 10)}...:
@@ -204,12 +221,10 @@ POST by agent ${post.sender.slice(0, 10)}...:
 
 Does this post describe a SPECIFIC technique, tool, or capability that could become a reusable skill for an AI marketing agent?
 
-Answer YES or NO (one word):`,
-                maxTokens: 5,
-                temperature: 0.2,
+Set "learnable" to true only if it does.`,
             });
 
-            if (!prescreen.content.trim().toUpperCase().startsWith('YES')) continue;
+            if (!prescreen.data.learnable) continue;
 
             // Pass to skill discovery pipeline (source: botchan)
             const skill = await discoverSkillFromContent(post.text, 'botchan');
@@ -0,0 +1,227 @@
+// ============================================================================
+// QasidAI — Bluesky Connector Tests
+// Run with: npx tsx src/tests/bluesky.ts
+// Drives platforms/bluesky.ts against an in-process stub PDS (node:http):
+// login + token refresh, posts, self-threads, replies, images, metrics and
+// mention notifications. No network or Supabase access needed.
+// ============================================================================
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+    if (condition) {
+        console.log(`  ✅ ${message}`);
+        passed++;
+    } else {
+        console.error(`  ❌ FAIL: ${message}`);
+        failed++;
+    }
+}
+
+async function describe(name: string, fn: () => Promise<void> | void) {
+    console.log(`\n📦 ${name}`);
+    await fn();
+}
+
+// ---- Stub PDS ----
+
+const DID = 'did:plc:qasidtest';
+const HANDLE = 'qasid.test';
+
+interface StoredPost {
+    uri: string;
+    cid: string;
+    record: any;
+}
+
+const pds = {
+    posts: [] as StoredPost[],
+    blobs: 0,
+    logins: 0,
+    refreshes: 0,
+    accessJwt: 'access-1',
+    seenAt: null as string | null,
+    notifications: [] as any[],
+};
+
+function send(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks);
+}
+
+const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const nsid = url.pathname.replace('/xrpc/', '');
+    const body = await readBody(req);
+    const json = () => JSON.parse(body.toString() || '{}');
+    const auth = req.headers.authorization;
+
+    if (nsid === 'com.atproto.server.createSession') {
+        const { identifier, password } = json();
+        if (identifier !== HANDLE || password !== 'app-pass') return send(res, 401, { error: 'AuthenticationRequired', message: 'Invalid identifier or password' });
+        pds.logins++;
+        return send(res, 200, { did: DID, handle: HANDLE, accessJwt: pds.accessJwt, refreshJwt: 'refresh-1' });
+    }
+    if (nsid === 'com.atproto.server.refreshSession') {
+        if (auth !== 'Bearer refresh-1') return send(res, 400, { error: 'ExpiredToken', message: 'Refresh token expired' });
+        pds.refreshes++;
+        pds.accessJwt = `access-${pds.refreshes + 1}`;
+        return send(res, 200, { did: DID, handle: HANDLE, accessJwt: pds.accessJwt, refreshJwt: 'refresh-1' });
+    }
+    if (auth !== `Bearer ${pds.accessJwt}`) {
+        return send(res, 400, { error: 'ExpiredToken', message: 'Token has expired' });
+    }
+
+    switch (nsid) {
+        case 'com.atproto.repo.createRecord': {
+            const { repo, collection, record } = json();
+            const rkey = `post${pds.posts.length + 1}`;
+            const post = { uri: `at://${repo}/${collection}/${rkey}`, cid: `cid-${rkey}`, record };
+            pds.posts.push(post);
+            return send(res, 200, { uri: post.uri, cid: post.cid });
+        }
+        case 'com.atproto.repo.uploadBlob': {
+            pds.blobs++;
+            return send(res, 200, { blob: { $type: 'blob', ref: { $link: `blob${pds.blobs}` }, mimeType: req.headers['content-type'], size: body.length } });
+        }
+        case 'app.bsky.feed.getPosts': {
+            const uris = url.searchParams.getAll('uris');
+            const posts = pds.posts
+                .filter(p => uris.includes(p.uri))
+                .map(p => ({ ...p, likeCount: 7, replyCount: 2, repostCount: 1, quoteCount: 0 }));
+            return send(res, 200, { posts });
+        }
+        case 'app.bsky.notification.listNotifications':
+            return send(res, 200, { notifications: pds.notifications });
+        case 'app.bsky.notification.updateSeen':
+            pds.seenAt = json().seenAt;
+            return send(res, 200, {});
+        default:
+            return send(res, 501, { error: 'MethodNotImplemented', message: nsid });
+    }
+});
+
+// ---- Tests ----
+
+async function main() {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    // Config is validated on import — set the environment first
+    Object.assign(process.env, {
+        SUPABASE_URL: 'https://stub.supabase.co',
+        SUPABASE_ANON_KEY: 'stub',
+        SUPABASE_SERVICE_ROLE_KEY: 'stub',
+        ANTHROPIC_API_KEY: 'stub',
+        POSTING_MODE: 'live',
+        BLUESKY_SERVICE: `http://127.0.0.1:${port}`,
+        BLUESKY_HANDLE: HANDLE,
+        BLUESKY_APP_PASSWORD: 'app-pass',
+    });
+    const bsky = await import('../platforms/bluesky.js');
+    const { graphemeLength } = await import('../platforms/text-split.js');
+
+    await describe('Length rules', () => {
+        assert(graphemeLength('gm 👋🏽') === 4, 'Emoji with skin tone counts as one grapheme');
+        assert(bsky.splitForBluesky('short post').length === 1, 'Short text is one post');
+
+        const long = Array.from({ length: 12 }, (_, i) => `Sentence number ${i + 1} about signals and agents.`).join(' ');
+        const chunks = bsky.splitForBluesky(long);
+        assert(chunks.length > 1, `Long text splits into ${chunks.length} posts`);
+        assert(chunks.every(c => graphemeLength(c) <= bsky.BLUESKY_MAX_GRAPHEMES), 'Every chunk fits in 300 graphemes');
+        assert(chunks.every(c => c.endsWith('.')), 'Chunks break on sentence boundaries');
+
+        const paragraphs = bsky.splitForBluesky(`${'a '.repeat(100).trim()}\n\n${'b '.repeat(100).trim()}`);
+        assert(paragraphs.length === 2 && paragraphs[0] === 'a '.repeat(100).trim(), 'Splits on the paragraph break before splitting sentences');
+        assert(bsky.splitForBluesky('x'.repeat(650)).length === 3, 'Unbroken text is cut on grapheme boundaries');
+    });
+
+    await describe('Link facets', () => {
+        const facets = bsky.detectLinkFacets('🚀 read https://lisanintel.com/signals.');
+        assert(facets.length === 1, 'One link detected');
+        assert(facets[0].features[0].uri === 'https://lisanintel.com/signals', 'Trailing punctuation excluded from the link');
+        assert(facets[0].index.byteStart === Buffer.byteLength('🚀 read '), 'Offsets are UTF-8 bytes');
+    });
+
+    await describe('Publishing', async () => {
+        const uri = await bsky.postToBluesky('gm from the stub PDS');
+        assert(pds.logins === 1, 'Logged in once with the app password');
+        assert(uri === `at://${DID}/app.bsky.feed.post/post1`, 'Post returns its AT URI');
+        assert(pds.posts[0].record.$type === 'app.bsky.feed.post' && !pds.posts[0].record.reply, 'Top-level post record has no reply ref');
+
+        const before = pds.posts.length;
+        const long = Array.from({ length: 24 }, (_, i) => `Sentence number ${i + 1} about signals and agents.`).join(' ');
+        const rootUri = await bsky.postToBluesky(long);
+        const chain = pds.posts.slice(before);
+        assert(chain.length > 1 && rootUri === chain[0].uri, 'Over-long post continues as a self-thread');
+        assert(chain.slice(1).every(p => p.record.reply.root.uri === rootUri), 'Continuation posts share the thread root');
+        assert(chain[2]?.record.reply.parent.uri === chain[1].uri, 'Each continuation replies to the previous post');
+
+        const threadUris = await bsky.postBlueskyThread(['one', 'two', 'three']);
+        assert(threadUris.length === 3, 'Thread publishes every part');
+
+        const replyUri = await bsky.replyOnBluesky(threadUris[2], 'replying deep in the thread');
+        const reply = pds.posts.find(p => p.uri === replyUri);
+        assert(reply?.record.reply.parent.uri === threadUris[2], 'Reply parent is the target post');
+        assert(reply?.record.reply.root.uri === threadUris[0], 'Reply root is the target thread root');
+
+        const imageUri = await bsky.postToBlueskyWithImage('chart', Buffer.from('png-bytes'), 'image/png');
+        const imagePost = pds.posts.find(p => p.uri === imageUri);
+        assert(pds.blobs === 1 && imagePost?.record.embed.$type === 'app.bsky.embed.images', 'Image uploaded as a blob and embedded');
+        assert(await bsky.postToBlueskyWithImage('too big', Buffer.alloc(1_100_000)) === null, 'Oversized image is refused');
+    });
+
+    await describe('Session refresh', async () => {
+        pds.accessJwt = 'rotated-by-server'; // current client token now reports ExpiredToken
+        pds.refreshes = 0;
+        const uri = await bsky.postToBluesky('after expiry');
+        assert(pds.refreshes === 1, 'Expired access token triggers one refresh');
+        assert(uri !== null, 'Call is retried with the refreshed token');
+    });
+
+    await describe('Metrics + mentions', async () => {
+        const posts = await bsky.getBlueskyPosts([pds.posts[0].uri]);
+        assert(posts[0]?.likeCount === 7 && posts[0]?.replyCount === 2, 'getPosts returns engagement counts');
+
+        const now = new Date().toISOString();
+        pds.notifications = [
+            { uri: 'at://did:plc:fan/app.bsky.feed.post/m2', cid: 'c2', reason: 'reply', author: { did: 'did:plc:fan', handle: 'fan.test' }, record: { text: 'nice', createdAt: now, reply: { root: { uri: pds.posts[0].uri }, parent: { uri: pds.posts[0].uri } } }, indexedAt: now, isRead: false },
+            { uri: 'at://did:plc:x/app.bsky.feed.post/l1', cid: 'c3', reason: 'like', author: { did: 'did:plc:x', handle: 'x.test' }, record: {}, indexedAt: now, isRead: false },
+            { uri: 'at://did:plc:fan/app.bsky.feed.post/m1', cid: 'c1', reason: 'mention', author: { did: 'did:plc:fan', handle: 'fan.test' }, record: { text: '@qasid.test thoughts?', createdAt: now }, indexedAt: now, isRead: true },
+        ];
+        const mentions = await bsky.getBlueskyMentions();
+        assert(mentions.length === 2, 'Likes are filtered out — mentions and replies kept');
+        assert(mentions[0].reason === 'reply' && mentions[0].replyParent === pds.posts[0].uri, 'Reply notifications carry their parent');
+        assert(mentions[1].isRead, 'Read state is preserved');
+
+        await bsky.markBlueskyNotificationsSeen(now);
+        assert(pds.seenAt === now, 'updateSeen sent with the watermark');
+    });
+
+    await describe('Post URLs', () => {
+        assert(bsky.blueskyPostUrl(`at://${DID}/app.bsky.feed.post/abc`) === `https://bsky.app/profile/${DID}/post/abc`, 'AT URI maps to bsky.app');
+        assert(bsky.blueskyPostUrl('dry-run-bsky-1') === null, 'Dry-run ids have no URL');
+    });
+}
+
+main()
+    .catch(error => {
+        console.error('Unexpected error:', error);
+        failed++;
+    })
+    .finally(() => {
+        server.close();
+        console.log(`\n${'═'.repeat(50)}`);
+        console.log(`Results: ${passed} passed, ${failed} failed`);
+        process.exit(failed > 0 ? 1 : 0);
+    });
@@ -0,0 +1,160 @@
+// ============================================================================
+// QasidAI — Discord Connector Tests
+// Run with: npx tsx src/tests/discord.ts
+// Drives platforms/discord.ts against in-process stub webhooks (node:http):
+// content-type routing, embeds, long-form threads, image uploads and
+// rate-limit retry. No network or Supabase access needed.
+// ============================================================================
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+    if (condition) {
+        console.log(`  ✅ ${message}`);
+        passed++;
+    } else {
+        console.error(`  ❌ FAIL: ${message}`);
+        failed++;
+    }
+}
+
+async function describe(name: string, fn: () => Promise<void> | void) {
+    console.log(`\n📦 ${name}`);
+    await fn();
+}
+
+// ---- Stub webhooks ----
+
+interface Delivery {
+    webhook: string;
+    wait: string | null;
+    payload: any;
+    file?: { name: string; type: string; size: number };
+}
+
+const hooks = {
+    deliveries: [] as Delivery[],
+    /** Next request to this webhook gets a 429 */
+    rateLimitNext: null as string | null,
+};
+
+function send(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks);
+}
+
+const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const webhook = url.pathname.split('/').pop() ?? '';
+    const body = await readBody(req);
+
+    if (hooks.rateLimitNext === webhook) {
+        hooks.rateLimitNext = null;
+        return send(res, 429, { message: 'You are being rate limited.', retry_after: 0.05, global: false });
+    }
+
+    let delivery: Delivery;
+    if ((req.headers['content-type'] ?? '').startsWith('multipart/form-data')) {
+        const form = await new Response(body, { headers: { 'Content-Type': req.headers['content-type']! } }).formData();
+        const file = form.get('files[0]') as File | null;
+        delivery = {
+            webhook,
+            wait: url.searchParams.get('wait'),
+            payload: JSON.parse(String(form.get('payload_json'))),
+            file: file ? { name: file.name, type: file.type, size: file.size } : undefined,
+        };
+    } else {
+        delivery = { webhook, wait: url.searchParams.get('wait'), payload: JSON.parse(body.toString()) };
+    }
+    hooks.deliveries.push(delivery);
+    return send(res, 200, { id: `msg${hooks.deliveries.length}`, channel_id: `chan-${webhook}` });
+});
+
+// ---- Tests ----
+
+async function main() {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const base = `http://127.0.0.1:${port}/api/webhooks`;
+
+    // Config is validated on import — set the environment first
+    Object.assign(process.env, {
+        SUPABASE_URL: 'https://stub.supabase.co',
+        SUPABASE_ANON_KEY: 'stub',
+        SUPABASE_SERVICE_ROLE_KEY: 'stub',
+        ANTHROPIC_API_KEY: 'stub',
+        POSTING_MODE: 'live',
+        DISCORD_ROUTES: JSON.stringify([
+            { channel: 'signals', webhookUrl: `${base}/1/signals`, contentTypes: ['signal_scorecard', 'win_streak'] },
+            { channel: 'announcements', webhookUrl: `${base}/2/announcements`, contentTypes: ['product_spotlight', 'signal_scorecard'] },
+            { channel: 'firehose', webhookUrl: `${base}/3/firehose`, contentTypes: ['*'] },
+        ]),
+    });
+    const discord = await import('../platforms/discord.js');
+
+    await describe('Routing', () => {
+        assert(discord.routesFor('signal_scorecard').map(r => r.channel).join() === 'signals,announcements,firehose', 'Scorecards fan out to every matching channel');
+        assert(discord.routesFor('gm_post').map(r => r.channel).join() === 'firehose', 'Unrouted types only hit the "*" channel');
+        assert(discord.routesFor(undefined).length === 1, 'Untyped posts only hit the "*" channel');
+    });
+
+    await describe('Embeds', async () => {
+        const id = await discord.postToDiscord('Win streak: 7 straight calls.', { contentType: 'win_streak', link: 'https://x.com/qasidai/status/1' });
+        const signals = hooks.deliveries.find(d => d.webhook === 'signals');
+        assert(id === 'chan-signals:msg1', 'Post id is "<channel>:<message>" of the first channel');
+        assert(hooks.deliveries.length === 2, 'Posted to the routed channel and the firehose');
+        assert(signals?.wait === 'true', 'Webhook called with wait=true');
+        const embed = signals?.payload.embeds[0];
+        assert(embed?.title === 'Win Streak' && embed?.url === 'https://x.com/qasidai/status/1', 'Embed has a title linking to the original post');
+        assert(embed?.description === 'Win streak: 7 straight calls.', 'Post text is the embed description');
+        assert(Array.isArray(signals?.payload.allowed_mentions.parse) && signals.payload.allowed_mentions.parse.length === 0, 'Mentions in post text never ping anyone');
+
+        const long = discord.buildEmbed(Array.from({ length: 300 }, (_, i) => `Part ${i} of a long thread.`).join('\n\n'));
+        assert(long.description.length <= discord.DISCORD_EMBED_MAX && long.description.endsWith('…'), 'Over-long text is cut to one embed with an ellipsis');
+    });
+
+    await describe('Images', async () => {
+        hooks.deliveries = [];
+        const png = Buffer.from('89504e470d0a1a0a', 'hex');
+        await discord.postToDiscord('Scorecard', { contentType: 'signal_scorecard', image: { data: png, mimeType: 'image/png' } });
+        assert(hooks.deliveries.length === 3, 'Scorecard posted to all three channels');
+        const first = hooks.deliveries[0];
+        assert(first.file?.name === 'qasid.png' && first.file.type === 'image/png' && first.file.size === png.length, 'PNG uploaded as a multipart file');
+        assert(first.payload.embeds[0].image?.url === 'attachment://qasid.png', 'Embed image points at the attachment');
+        assert(first.payload.attachments[0].filename === 'qasid.png', 'Attachment declared in payload_json');
+    });
+
+    await describe('Failures', async () => {
+        hooks.deliveries = [];
+        hooks.rateLimitNext = 'announcements';
+        await discord.postToDiscord('Spotlight', { contentType: 'product_spotlight' });
+        assert(hooks.deliveries.some(d => d.webhook === 'announcements'), 'Short 429 is retried once');
+
+        hooks.deliveries = [];
+        server.close();
+        server.closeAllConnections();
+        assert(await discord.postToDiscord('Spotlight', { contentType: 'product_spotlight' }) === null, 'Unreachable webhooks return null instead of throwing');
+    });
+}
+
+main()
+    .catch(error => {
+        console.error('Unexpected error:', error);
+        failed++;
+    })
+    .finally(() => {
+        server.close();
+        console.log(`\n${'═'.repeat(50)}`);
+        console.log(`Results: ${passed} passed, ${failed} failed`);
+        process.exit(failed > 0 ? 1 : 0);
+    });
@@ -0,0 +1,494 @@
+// ============================================================================
+// QasidAI — Fake X API
+// An in-process X API v2 server (node:http) with in-memory state, for tests.
+// Point platforms/x.ts at it with X_API_URL. Implements the endpoints the
+// agent uses: tweets (post, delete, lookup, polls), replies, chunked media
+// upload + alt text, mentions, recent search, user lookup and timelines,
+// follows, and public metrics. Every response carries x-rate-limit-* headers.
+// ============================================================================
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface FakeUser {
+    id: string;
+    username: string;
+    name: string;
+    verified_type?: 'blue' | 'business' | 'government' | 'none';
+}
+
+export interface FakeMetrics {
+    like_count: number;
+    reply_count: number;
+    retweet_count: number;
+    quote_count: number;
+    impression_count: number;
+    bookmark_count: number;
+}
+
+export interface FakePoll {
+    id: string;
+    options: Array<{ position: number; label: string; votes: number }>;
+    duration_minutes: number;
+    end_datetime: string;
+    voting_status: 'open' | 'closed';
+}
+
+export interface FakeTweet {
+    id: string;
+    text: string;
+    author_id: string;
+    created_at: string;
+    conversation_id: string;
+    in_reply_to_user_id?: string;
+    referenced_tweets?: Array<{ type: 'replied_to' | 'quoted'; id: string }>;
+    entities?: { urls: Array<{ start: number; end: number; url: string; expanded_url: string; display_url: string }> };
+    attachments?: { media_keys?: string[]; poll_ids?: string[] };
+    public_metrics: FakeMetrics;
+    /** Media ids attached when posted (upload ids, not media keys) */
+    mediaIds?: string[];
+}
+
+export interface FakeMedia {
+    id: string;
+    mediaType: string;
+    category: string;
+    totalBytes: number;
+    receivedBytes: number;
+    segments: number;
+    finalized: boolean;
+    altText?: string;
+}
+
+export interface FakeRequest {
+    method: string;
+    path: string;
+    query: Record<string, string>;
+    body: any;
+}
+
+export interface FakeX {
+    /** Base URL to use as X_API_URL */
+    url: string;
+    /** The authenticated account */
+    me: FakeUser;
+    users: Map<string, FakeUser>;
+    tweets: Map<string, FakeTweet>;
+    polls: Map<string, FakePoll>;
+    media: Map<string, FakeMedia>;
+    /** Ids of accounts `me` follows */
+    following: Set<string>;
+    /** Every request received, in order */
+    requests: FakeRequest[];
+    /** Add (or fetch) a user by handle */
+    user(username: string, options?: Partial<Omit<FakeUser, 'username'>>): FakeUser;
+    /** Add a tweet from another account (links in the text are rewritten to t.co, as X does) */
+    tweet(username: string, text: string, options?: {
+        metrics?: Partial<FakeMetrics>;
+        inReplyTo?: string;
+        quoteOf?: string;
+        ageMinutes?: number;
+    }): FakeTweet;
+    /** Tweets posted by `me`, oldest first */
+    posted(): FakeTweet[];
+    /** Replies to a tweet, oldest first */
+    repliesTo(tweetId: string): FakeTweet[];
+    /** Fail the next request whose "METHOD /path" matches, with this status (e.g. 429, 503) */
+    failNext(pattern: RegExp, status: number): void;
+    close(): Promise<void>;
+}
+
+const ZERO_METRICS: FakeMetrics = {
+    like_count: 0, reply_count: 0, retweet_count: 0, quote_count: 0, impression_count: 0, bookmark_count: 0,
+};
+
+/** Per-endpoint 15-minute window reported in x-rate-limit-* headers */
+const RATE_LIMIT = 300;
+
+// ---- Helpers ----
+
+function send(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+}
+
+function notFound(res: ServerResponse, detail: string) {
+    return send(res, 404, { title: 'Not Found Error', detail, type: 'https://api.twitter.com/2/problems/resource-not-found', status: 404 });
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks);
+}
+
+async function parseBody(req: IncomingMessage, raw: Buffer): Promise<any> {
+    const type = req.headers['content-type'] ?? '';
+    if (raw.length === 0) return {};
+    if (type.startsWith('multipart/form-data')) {
+        const form = await new Response(new Uint8Array(raw), { headers: { 'Content-Type': type } }).formData();
+        const body: Record<string, unknown> = {};
+        for (const [key, value] of form) {
+            body[key] = typeof value === 'string' ? value : Buffer.from(await value.arrayBuffer());
+        }
+        return body;
+    }
+    if (type.startsWith('application/x-www-form-urlencoded')) {
+        return Object.fromEntries(new URLSearchParams(raw.toString()));
+    }
+    return JSON.parse(raw.toString());
+}
+
+/** X rewrites every link in a tweet's text to a t.co link and lists the originals in entities.urls */
+function shortenLinks(text: string): { text: string; entities?: FakeTweet['entities'] } {
+    const urls: NonNullable<FakeTweet['entities']>['urls'] = [];
+    let shortened = '';
+    let last = 0;
+    for (const match of text.matchAll(/https?:\/\/\S+?(?=[.,:;!?)]*(?:\s|$))/g)) {
+        const url = `https://t.co/${(urls.length + 1).toString(36).padStart(10, 'x')}`;
+        shortened += text.slice(last, match.index);
+        urls.push({
+            start: shortened.length,
+            end: shortened.length + url.length,
+            url,
+            expanded_url: match[0],
+            display_url: match[0].replace(/^https?:\/\//, ''),
+        });
+        shortened += url;
+        last = match.index! + match[0].length;
+    }
+    if (urls.length === 0) return { text };
+    return { text: shortened + text.slice(last), entities: { urls } };
+}
+
+/** Same normalization as x-rate-limit.ts: ids and usernames become placeholders */
+function endpointKey(method: string, path: string): string {
+    return `${method} ${path.replace(/\/by\/username\/[^/]+/, '/by/username/:username').replace(/\/\d+(?=\/|$)/g, '/:id')}`;
+}
+
+/**
+ * Search query → predicate. Supports quoted phrases, bare words, from:,
+ * -from:, conversation_id:, and ignores other operators (-is:retweet, lang:).
+ */
+function compileQuery(query: string, usernameOf: (id: string) => string | undefined): (t: FakeTweet) => boolean {
+    const terms: string[] = [];
+    const checks: Array<(t: FakeTweet) => boolean> = [];
+    for (const [, phrase, word] of query.matchAll(/"([^"]+)"|(\S+)/g)) {
+        if (phrase) {
+            terms.push(phrase.toLowerCase());
+            continue;
+        }
+        const negated = word.startsWith('-');
+        const token = negated ? word.slice(1) : word;
+        const [op, value] = token.includes(':') ? token.split(/:(.*)/s) : [null, token];
+        if (op === 'from') {
+            checks.push(t => (usernameOf(t.author_id)?.toLowerCase() === value.toLowerCase()) !== negated);
+        } else if (op === 'conversation_id') {
+            checks.push(t => (t.conversation_id === value) !== negated);
+        } else if (op === null && !negated && word !== 'OR') {
+            terms.push(token.toLowerCase());
+        }
+    }
+    return t => checks.every(check => check(t)) && terms.every(term => t.text.toLowerCase().includes(term));
+}
+
+// ---- Server ----
+
+/**
+ * Start a fake X API on a random local port.
+ */
+export async function startFakeX(options: { username?: string } = {}): Promise<FakeX> {
+    let nextId = 1_900_000_000_000_000_000n;
+    const newId = () => String(nextId++);
+
+    const users = new Map<string, FakeUser>();
+    const tweets = new Map<string, FakeTweet>();
+    const polls = new Map<string, FakePoll>();
+    const media = new Map<string, FakeMedia>();
+    const following = new Set<string>();
+    const requests: FakeRequest[] = [];
+    const usage = new Map<string, number>();
+    const failures: Array<{ pattern: RegExp; status: number }> = [];
+
+    function user(username: string, extra: Partial<Omit<FakeUser, 'username'>> = {}): FakeUser {
+        const existing = [...users.values()].find(u => u.username.toLowerCase() === username.toLowerCase());
+        if (existing) return existing;
+        const created: FakeUser = { id: newId(), username, name: username, ...extra };
+        users.set(created.id, created);
+        return created;
+    }
+
+    const me = user(options.username ?? 'QasidAI', { name: 'QasidAI', verified_type: 'blue' });
+
+    function addTweet(authorId: string, text: string, extra: {
+        metrics?: Partial<FakeMetrics>;
+        inReplyTo?: string;
+        ageMinutes?: number;
+        quoteOf?: string;
+    } = {}): FakeTweet {
+        const id = newId();
+        const parent = extra.inReplyTo ? tweets.get(extra.inReplyTo) : undefined;
+        const referenced: FakeTweet['referenced_tweets'] = [];
+        if (extra.inReplyTo) referenced.push({ type: 'replied_to', id: extra.inReplyTo });
+        if (extra.quoteOf) referenced.push({ type: 'quoted', id: extra.quoteOf });
+        const tweet: FakeTweet = {
+            id,
+            text,
+            author_id: authorId,
+            created_at: new Date(Date.now() - (extra.ageMinutes ?? 0) * 60_000).toISOString(),
+            conversation_id: parent?.conversation_id ?? extra.inReplyTo ?? id,
+            ...(parent ? { in_reply_to_user_id: parent.author_id } : {}),
+            ...(referenced.length > 0 ? { referenced_tweets: referenced } : {}),
+            public_metrics: { ...ZERO_METRICS, ...extra.metrics },
+        };
+        tweets.set(id, tweet);
+        if (parent) parent.public_metrics.reply_count++;
+        return tweet;
+    }
+
+    /** API shape of a tweet (internal fields dropped) */
+    function present(tweet: FakeTweet) {
+        const { mediaIds: _mediaIds, ...fields } = tweet;
+        return { ...fields, edit_history_tweet_ids: [tweet.id] };
+    }
+
+    function includesFor(list: FakeTweet[], query: URLSearchParams) {
+        const expansions = (query.get('expansions') ?? '').split(',');
+        const includes: Record<string, unknown[]> = {};
+        if (expansions.includes('author_id')) {
+            const ids = [...new Set(list.map(t => t.author_id))];
+            includes.users = ids.map(id => users.get(id)).filter(Boolean) as FakeUser[];
+        }
+        if (expansions.includes('attachments.poll_ids')) {
+            includes.polls = list.flatMap(t => t.attachments?.poll_ids ?? []).map(id => polls.get(id)).filter(Boolean) as FakePoll[];
+        }
+        return Object.keys(includes).length > 0 ? { includes } : {};
+    }
+
+    /** Paginated list response (newest first, like X) */
+    function timeline(res: ServerResponse, list: FakeTweet[], query: URLSearchParams, headers: Record<string, string>) {
+        const sinceId = query.get('since_id');
+        const max = Number(query.get('max_results') ?? 10);
+        const page = list
+            .filter(t => !sinceId || BigInt(t.id) > BigInt(sinceId))
+            .sort((a, b) => (BigInt(b.id) > BigInt(a.id) ? 1 : -1))
+            .slice(0, max);
+        if (page.length === 0) return send(res, 200, { meta: { result_count: 0 } }, headers);
+        return send(res, 200, {
+            data: page.map(present),
+            ...includesFor(page, query),
+            meta: { result_count: page.length, newest_id: page[0].id, oldest_id: page[page.length - 1].id },
+        }, headers);
+    }
+
+    function createTweet(body: any, res: ServerResponse, headers: Record<string, string>) {
+        if (typeof body.text !== 'string' || (!body.text && !body.media)) {
+            return send(res, 400, { title: 'Invalid Request', detail: 'Tweet text is required', status: 400 }, headers);
+        }
+        const inReplyTo = body.reply?.in_reply_to_tweet_id as string | undefined;
+        if (inReplyTo && !tweets.has(inReplyTo)) {
+            return send(res, 403, { title: 'Forbidden', detail: 'You attempted to reply to a Tweet that is deleted or not visible to you.', status: 403 }, headers);
+        }
+        const duplicate = [...tweets.values()].find(t => t.author_id === me.id && t.text === body.text && !inReplyTo);
+        if (duplicate && body.text) {
+            return send(res, 403, { title: 'Forbidden', detail: 'You are not allowed to create a Tweet with duplicate content.', status: 403 }, headers);
+        }
+        const mediaIds: string[] = body.media?.media_ids ?? [];
+        const unknown = mediaIds.find(id => !media.get(id)?.finalized);
+        if (unknown) {
+            return send(res, 400, { title: 'Invalid Request', detail: `Media id ${unknown} is not finalized`, status: 400 }, headers);
+        }
+
+        const tweet = addTweet(me.id, body.text, { inReplyTo, quoteOf: body.quote_tweet_id });
+        if (mediaIds.length > 0) {
+            tweet.mediaIds = mediaIds;
+            tweet.attachments = { media_keys: mediaIds.map(id => `3_${id}`) };
+        }
+        if (body.poll) {
+            const options: string[] = body.poll.options ?? [];
+            if (options.length < 2 || options.length > 4 || options.some(o => o.length > 25)) {
+                tweets.delete(tweet.id);
+                return send(res, 400, { title: 'Invalid Request', detail: 'Poll options must be 2–4 labels of at most 25 characters', status: 400 }, headers);
+            }
+            const poll: FakePoll = {
+                id: newId(),
+                options: options.map((label, i) => ({ position: i + 1, label, votes: 0 })),
+                duration_minutes: body.poll.duration_minutes,
+                end_datetime: new Date(Date.now() + body.poll.duration_minutes * 60_000).toISOString(),
+                voting_status: 'open',
+            };
+            polls.set(poll.id, poll);
+            tweet.attachments = { ...tweet.attachments, poll_ids: [poll.id] };
+        }
+        return send(res, 201, { data: { id: tweet.id, text: tweet.text, edit_history_tweet_ids: [tweet.id] } }, headers);
+    }
+
+    async function route(req: IncomingMessage, res: ServerResponse, path: string, query: URLSearchParams, body: any, headers: Record<string, string>) {
+        const method = req.method ?? 'GET';
+        let match: RegExpMatchArray | null;
+
+        // Users
+        if (method === 'GET' && path === '/2/users/me') {
+            return send(res, 200, { data: me }, headers);
+        }
+        if (method === 'GET' && (match = path.match(/^\/2\/users\/by\/username\/([^/]+)$/))) {
+            const found = [...users.values()].find(u => u.username.toLowerCase() === match![1].toLowerCase());
+            if (!found) return send(res, 200, { errors: [{ title: 'Not Found Error', detail: `Could not find user with username: [${match[1]}].` }] }, headers);
+            return send(res, 200, { data: found }, headers);
+        }
+        if (method === 'GET' && (match = path.match(/^\/2\/users\/(\d+)\/mentions$/))) {
+            const handle = `@${users.get(match[1])?.username.toLowerCase()}`;
+            const list = [...tweets.values()].filter(t => t.author_id !== match![1] && t.text.toLowerCase().includes(handle));
+            return timeline(res, list, query, headers);
+        }
+        if (method === 'GET' && (match = path.match(/^\/2\/users\/(\d+)\/tweets$/))) {
+            return timeline(res, [...tweets.values()].filter(t => t.author_id === match![1]), query, headers);
+        }
+        if ((match = path.match(/^\/2\/users\/(\d+)\/following$/))) {
+            if (match[1] !== me.id) return send(res, 403, { title: 'Forbidden', detail: 'You can only manage your own follows', status: 403 }, headers);
+            if (method === 'POST') {
+                if (!users.has(body.target_user_id)) return notFound(res, `Could not find user with id: [${body.target_user_id}].`);
+                following.add(body.target_user_id);
+                return send(res, 200, { data: { following: true, pending_follow: false } }, headers);
+            }
+            const list = [...following].map(id => users.get(id)!);
+            return send(res, 200, { data: list, meta: { result_count: list.length } }, headers);
+        }
+
+        // Tweets
+        if (method === 'POST' && path === '/2/tweets') return createTweet(body, res, headers);
+        if (method === 'DELETE' && (match = path.match(/^\/2\/tweets\/(\d+)$/))) {
+            const tweet = tweets.get(match[1]);
+            if (!tweet) return notFound(res, `Could not find tweet with id: [${match[1]}].`);
+            if (tweet.author_id !== me.id) return send(res, 403, { title: 'Forbidden', detail: 'You are not allowed to delete this Tweet.', status: 403 }, headers);
+            tweets.delete(tweet.id);
+            return send(res, 200, { data: { deleted: true } }, headers);
+        }
+        if (method === 'GET' && path === '/2/tweets/search/recent') {
+            const matches = compileQuery(query.get('query') ?? '', id => users.get(id)?.username);
+            return timeline(res, [...tweets.values()].filter(matches), query, headers);
+        }
+        if (method === 'GET' && path === '/2/tweets') {
+            const ids = (query.get('ids') ?? '').split(',').filter(Boolean);
+            const found = ids.map(id => tweets.get(id)).filter(Boolean) as FakeTweet[];
+            const missing = ids.filter(id => !tweets.has(id));
+            return send(res, 200, {
+                ...(found.length > 0 ? { data: found.map(present), ...includesFor(found, query) } : {}),
+                ...(missing.length > 0 ? { errors: missing.map(id => ({ value: id, detail: `Could not find tweet with ids: [${id}].`, title: 'Not Found Error', resource_type: 'tweet' })) } : {}),
+            }, headers);
+        }
+        if (method === 'GET' && (match = path.match(/^\/2\/tweets\/(\d+)$/))) {
+            const tweet = tweets.get(match[1]);
+            if (!tweet) return notFound(res, `Could not find tweet with id: [${match[1]}].`);
+            return send(res, 200, { data: present(tweet), ...includesFor([tweet], query) }, headers);
+        }
+
+        // Media (chunked upload)
+        if (method === 'POST' && path === '/2/media/upload/initialize') {
+            const item: FakeMedia = {
+                id: newId(), mediaType: body.media_type, category: body.media_category,
+                totalBytes: Number(body.total_bytes), receivedBytes: 0, segments: 0, finalized: false,
+            };
+            media.set(item.id, item);
+            return send(res, 200, { data: { id: item.id, media_key: `3_${item.id}`, expires_after_secs: 86400 } }, headers);
+        }
+        if (method === 'POST' && (match = path.match(/^\/2\/media\/upload\/(\d+)\/(append|finalize)$/))) {
+            const item = media.get(match[1]);
+            if (!item) return notFound(res, `Could not find media with id: [${match[1]}].`);
+            if (match[2] === 'append') {
+                item.receivedBytes += (body.media as Buffer | undefined)?.length ?? 0;
+                item.segments++;
+                return send(res, 200, {}, headers);
+            }
+            if (item.receivedBytes !== item.totalBytes) {
+                return send(res, 400, { title: 'Invalid Request', detail: `Expected ${item.totalBytes} bytes, got ${item.receivedBytes}`, status: 400 }, headers);
+            }
+            item.finalized = true;
+            // GIFs and video go through async processing, like on X
+            const processing = item.category === 'tweet_image' ? {} : { processing_info: { state: 'pending', check_after_secs: 0 } };
+            return send(res, 200, { data: { id: item.id, media_key: `3_${item.id}`, size: item.totalBytes, ...processing } }, headers);
+        }
+        if (method === 'GET' && path === '/2/media/upload' && query.get('command') === 'STATUS') {
+            const item = media.get(query.get('media_id') ?? '');
+            if (!item) return notFound(res, 'Could not find media');
+            return send(res, 200, { data: { id: item.id, processing_info: { state: 'succeeded', progress_percent: 100 } } }, headers);
+        }
+        if (method === 'POST' && path === '/2/media/metadata') {
+            const item = media.get(body.id);
+            if (!item) return notFound(res, `Could not find media with id: [${body.id}].`);
+            item.altText = body.metadata?.alt_text?.text;
+            return send(res, 200, { data: { id: item.id, associated_metadata: body.metadata } }, headers);
+        }
+
+        return notFound(res, `No fake for ${method} ${path}`);
+    }
+
+    const server = createServer(async (req, res) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const method = req.method ?? 'GET';
+        const raw = await readBody(req);
+
+        if (!String(req.headers.authorization ?? '').startsWith('OAuth ')) {
+            return send(res, 401, { title: 'Unauthorized', detail: 'Unauthorized', status: 401 });
+        }
+
+        let body: any;
+        try {
+            body = await parseBody(req, raw);
+        } catch {
+            return send(res, 400, { title: 'Invalid Request', detail: 'Malformed body', status: 400 });
+        }
+        requests.push({ method, path: url.pathname, query: Object.fromEntries(url.searchParams), body });
+
+        const key = endpointKey(method, url.pathname);
+        const used = (usage.get(key) ?? 0) + 1;
+        usage.set(key, used);
+        const reset = Math.floor(Date.now() / 1000) + 900;
+        const headers = {
+            'x-rate-limit-limit': String(RATE_LIMIT),
+            'x-rate-limit-remaining': String(Math.max(0, RATE_LIMIT - used)),
+            'x-rate-limit-reset': String(reset),
+        };
+
+        const failure = failures.findIndex(f => f.pattern.test(`${method} ${url.pathname}`));
+        if (failure >= 0) {
+            const { status } = failures.splice(failure, 1)[0];
+            const limited = status === 429 ? { 'x-rate-limit-remaining': '0', 'x-rate-limit-reset': String(Math.floor(Date.now() / 1000)) } : {};
+            return send(res, status, { title: 'Fake failure', detail: `Injected ${status}`, status }, { ...headers, ...limited });
+        }
+
+        try {
+            await route(req, res, url.pathname, url.searchParams, body, headers);
+        } catch (error) {
+            send(res, 500, { title: 'Internal Error', detail: String(error), status: 500 });
+        }
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        me,
+        users,
+        tweets,
+        polls,
+        media,
+        following,
+        requests,
+        user,
+        tweet: (username, text, extra) => {
+            const { text: shortened, entities } = shortenLinks(text);
+            const tweet = addTweet(user(username).id, shortened, extra);
+            if (entities) tweet.entities = entities;
+            return tweet;
+        },
+        posted: () => [...tweets.values()].filter(t => t.author_id === me.id),
+        repliesTo: tweetId => [...tweets.values()].filter(t => t.referenced_tweets?.some(r => r.type === 'replied_to' && r.id === tweetId)),
+        failNext: (pattern, status) => { failures.push({ pattern, status }); },
+        close: () => new Promise<void>(resolve => {
+            server.closeAllConnections();
+            server.close(() => resolve());
+        }),
+    };
+}
@@ -0,0 +1,210 @@
+// ============================================================================
+// QasidAI — LLM Fixture Tests
+// Run with: npx tsx src/tests/llm-fixtures.ts
+// Records generate() calls through a stub upstream provider into a temp
+// fixture dir, then replays them with no upstream at all. A small in-process
+// server answers the Supabase REST calls generate() makes (brain, spend cap,
+// usage ledger). No network access needed.
+// ============================================================================
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import type { CompletionRequest, LLMProvider } from '../engine/llm-provider.js';
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+    if (condition) {
+        console.log(`  ✅ ${message}`);
+        passed++;
+    } else {
+        console.error(`  ❌ FAIL: ${message}`);
+        failed++;
+    }
+}
+
+async function describe(name: string, fn: () => Promise<void> | void) {
+    console.log(`\n📦 ${name}`);
+    await fn();
+}
+
+// ---- Fake Supabase REST (empty tables, inserts accepted, ledger sums) ----
+
+const usageRows: any[] = [];
+
+function send(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks);
+}
+
+const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const body = await readBody(req);
+    if (req.method === 'POST' && url.pathname === '/rest/v1/qasid_llm_usage') {
+        const parsed = JSON.parse(body.toString() || '[]');
+        usageRows.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+        return send(res, 201, []);
+    }
+    if (req.method === 'POST' && url.pathname === '/rest/v1/rpc/qasid_llm_spend') {
+        const { p_since } = JSON.parse(body.toString() || '{}');
+        const groups = new Map<string, any>();
+        for (const row of usageRows.filter(r => r.day >= p_since)) {
+            const key = [row.day, row.module, row.task, row.model].join('|');
+            const group = groups.get(key) ?? { day: row.day, module: row.module, task: row.task, model: row.model, calls: 0, input_tokens: 0, output_tokens: 0, cache_read_tokens: 0, cost_usd: 0 };
+            group.calls++;
+            group.input_tokens += row.input_tokens;
+            group.output_tokens += row.output_tokens;
+            group.cache_read_tokens += row.cache_read_tokens;
+            group.cost_usd += row.cost_usd;
+            groups.set(key, group);
+        }
+        return send(res, 200, [...groups.values()]);
+    }
+    if (req.method === 'POST' || req.method === 'PATCH') return send(res, 201, []);
+    return send(res, 200, []);
+});
+
+// ---- Stub upstream ----
+
+const upstreamCalls: CompletionRequest[] = [];
+
+const stubUpstream: LLMProvider = {
+    name: 'stub',
+    async complete(request) {
+        upstreamCalls.push(request);
+        return {
+            content: `recorded answer to: ${request.prompt}`,
+            inputTokens: 120, outputTokens: 30, cacheReadTokens: 900, cacheWriteTokens: 0,
+            model: request.model,
+        };
+    },
+};
+
+// ---- Tests ----
+
+async function main() {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const base = `http://127.0.0.1:${port}`;
+    const dir = await mkdtemp(path.join(tmpdir(), 'qasid-fixtures-'));
+
+    // Nothing in these tests may leave the machine
+    const realFetch = globalThis.fetch;
+    globalThis.fetch = (input, init) => {
+        const target = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+        if (!target.startsWith('http://127.0.0.1')) return Promise.reject(new Error(`Offline test: ${target}`));
+        return realFetch(input, init);
+    };
+
+    // Config is validated on import — replay mode needs no API key
+    Object.assign(process.env, {
+        SUPABASE_URL: base,
+        SUPABASE_ANON_KEY: 'stub',
+        SUPABASE_SERVICE_ROLE_KEY: 'stub',
+        LLM_PROVIDER: 'fixture',
+        LLM_FIXTURE_MODE: 'replay',
+        LLM_FIXTURE_DIR: dir,
+    });
+    delete process.env.ANTHROPIC_API_KEY;
+    const { setLogLevel } = await import('../logger.js');
+    setLogLevel('error');
+    const { createFixtureProvider, hashRequest, setLLMProvider } = await import('../engine/llm-provider.js');
+    const { generate } = await import('../engine/llm.js');
+    const { getDailySpendRollup } = await import('../engine/llm-ledger.js');
+
+    try {
+        await describe('Prompt hashing', () => {
+            const request: CompletionRequest = { model: 'claude-haiku', system: 'brain at 09:00', prompt: 'gm', maxTokens: 100, temperature: 0.7 };
+            assert(hashRequest(request) === hashRequest({ ...request }), 'Same request → same hash');
+            assert(hashRequest(request) === hashRequest({ ...request, system: 'brain at 21:00, new knowledge' }), 'System prompt is not part of the hash');
+            assert(hashRequest(request) !== hashRequest({ ...request, prompt: 'gn' }), 'Prompt changes the hash');
+            assert(hashRequest(request) !== hashRequest({ ...request, model: 'claude-sonnet' }), 'Model changes the hash');
+            assert(hashRequest(request) !== hashRequest({ ...request, temperature: 0.2 }), 'Temperature changes the hash');
+            assert(/^[0-9a-f]{64}$/.test(hashRequest(request)), 'Hash is a sha256 hex digest');
+        });
+
+        await describe('Record', async () => {
+            let error = '';
+            try {
+                createFixtureProvider({ dir, mode: 'record' });
+            } catch (e) {
+                error = String(e);
+            }
+            assert(error.includes('needs an upstream'), 'Record mode without an upstream is refused');
+
+            setLLMProvider(createFixtureProvider({ dir, mode: 'record', upstream: stubUpstream }));
+            const first = await generate({ task: 'default', module: 'llm-fixtures-test', prompt: 'what is the regime today?' });
+            const second = await generate({ task: 'default', module: 'llm-fixtures-test', prompt: 'write a gm post' });
+            assert(upstreamCalls.length === 2, 'Both calls went to the upstream');
+            assert(first.content === 'recorded answer to: what is the regime today?', 'Upstream response returned while recording');
+            assert(second.cacheReadTokens === 900, 'Token accounting passed through');
+
+            const files = (await readdir(dir)).filter(f => f.endsWith('.json'));
+            assert(files.length === 2, `One fixture file per prompt (got ${files.length})`);
+            const fixture = JSON.parse(await readFile(path.join(dir, `${hashRequest(upstreamCalls[0])}.json`), 'utf-8'));
+            assert(fixture.request.prompt === 'what is the regime today?' && fixture.response.content === first.content, 'Fixture stores the request and response');
+            assert(!('system' in fixture.request) && /^[0-9a-f]{64}$/.test(fixture.request.systemHash), 'System prompt stored as a hash only');
+        });
+
+        await describe('Replay', async () => {
+            // Back to the config-built provider: fixture replay, no upstream, no API key
+            setLLMProvider(null);
+            const calls = upstreamCalls.length;
+            const replayed = await generate({
+                task: 'default',
+                module: 'llm-fixtures-test',
+                prompt: 'what is the regime today?',
+                timeContext: 'Different time of day than when this was recorded',
+            });
+            assert(replayed.content === 'recorded answer to: what is the regime today?', 'Recorded response replayed through generate()');
+            assert(replayed.inputTokens === 120 && replayed.outputTokens === 30, 'Recorded token counts replayed');
+            assert(upstreamCalls.length === calls, 'Upstream never called in replay mode');
+            assert(usageRows.some(r => r.module === 'llm-fixtures-test'), 'Replayed calls still go through the usage ledger');
+
+            let error: any = null;
+            const started = Date.now();
+            try {
+                await generate({ task: 'default', module: 'llm-fixtures-test', prompt: 'a prompt nobody recorded' });
+            } catch (e) {
+                error = e;
+            }
+            assert(error?.status === 404, 'Missing fixture fails with status 404');
+            assert(String(error?.message).includes('No LLM fixture for prompt hash') && String(error?.message).includes('LLM_FIXTURE_MODE=record'), 'Error names the hash and how to re-record');
+            assert(Date.now() - started < 1000, 'Missing fixture is not retried');
+        });
+
+        await describe('Spend rollup', async () => {
+            const rollup = await getDailySpendRollup();
+            const ledgerCost = usageRows.reduce((sum, r) => sum + r.cost_usd, 0);
+            assert(rollup.calls === usageRows.length, `Calls counted from the SQL sums (got ${rollup.calls})`);
+            assert(Math.abs(rollup.totalCost - ledgerCost) < 1e-9 && rollup.totalCost > 0, 'Total cost matches the ledger');
+            assert(rollup.inputTokens === usageRows.reduce((sum, r) => sum + r.input_tokens, 0), 'Token totals summed across groups');
+            assert(Math.abs((rollup.byModule['llm-fixtures-test'] ?? 0) - ledgerCost) < 1e-9, 'Cost attributed to the calling module');
+        });
+    } finally {
+        await rm(dir, { recursive: true, force: true });
+    }
+}
+
+main()
+    .catch(error => {
+        console.error('Unexpected error:', error);
+        failed++;
+    })
+    .finally(() => {
+        server.close();
+        server.closeAllConnections();
+        console.log(`\n${'═'.repeat(50)}`);
+        console.log(`Results: ${passed} passed, ${failed} failed`);
+        process.exit(failed > 0 ? 1 : 0);
+    });
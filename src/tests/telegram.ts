@@ -0,0 +1,287 @@
+// ============================================================================
+// QasidAI — Telegram Tests
+// Run with: npx tsx src/tests/telegram.ts
+// Drives the channel broadcaster and the control bot against an in-process
+// fake Bot API server (node:http). The same server answers the few Supabase
+// REST calls the commands make (knowledge, skills, budget, posts) from
+// in-memory tables. No network access needed.
+// ============================================================================
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+    if (condition) {
+        console.log(`  ✅ ${message}`);
+        passed++;
+    } else {
+        console.error(`  ❌ FAIL: ${message}`);
+        failed++;
+    }
+}
+
+async function describe(name: string, fn: () => Promise<void> | void) {
+    console.log(`\n📦 ${name}`);
+    await fn();
+}
+
+// ---- Fake Bot API ----
+
+const TOKEN = '123456:test-token';
+const CHANNEL = '@qasid_test';
+const ADMIN_ID = 1001;
+const STRANGER_ID = 2002;
+
+const bot = {
+    sent: [] as Array<{ chat_id: string | number; text: string }>,
+    updates: [] as any[],
+    polls: 0,
+};
+let nextUpdateId = 1;
+
+function pushMessage(fromId: number, text: string, options: { chatType?: string; ageSeconds?: number } = {}) {
+    bot.updates.push({
+        update_id: nextUpdateId++,
+        message: {
+            message_id: nextUpdateId,
+            date: Math.floor(Date.now() / 1000) - (options.ageSeconds ?? 0),
+            chat: { id: fromId, type: options.chatType ?? 'private' },
+            from: { id: fromId, username: `user${fromId}` },
+            text,
+        },
+    });
+}
+
+/** Wait until the bot has sent `count` messages in total (or give up) */
+async function waitForSent(count: number, timeoutMs = 3000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (bot.sent.length < count && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+    }
+}
+
+// ---- Fake Supabase REST (just enough PostgREST for these tests) ----
+
+const tables: Record<string, any[]> = {
+    qasid_knowledge: [],
+    qasid_skills: [],
+    qasid_posts: [],
+};
+
+function matches(row: any, params: URLSearchParams): boolean {
+    for (const [key, value] of params) {
+        if (['select', 'order', 'limit', 'offset', 'columns'].includes(key)) continue;
+        const [op, ...rest] = value.split('.');
+        const operand = rest.join('.');
+        const field = row[key];
+        if (op === 'eq' && String(field) !== operand) return false;
+        if (op === 'gte' && !(String(field) >= operand)) return false;
+        if (op === 'lte' && !(String(field) <= operand)) return false;
+        if (op === 'in' && !operand.replace(/^\(|\)$/g, '').split(',').includes(String(field))) return false;
+        if (op === 'ilike' && !String(field).toLowerCase().includes(operand.replace(/[*%]/g, '').toLowerCase())) return false;
+    }
+    return true;
+}
+
+function handleRest(req: IncomingMessage, res: ServerResponse, url: URL, body: Buffer) {
+    const table = tables[url.pathname.replace('/rest/v1/', '')] ?? [];
+    const rows = table.filter(r => matches(r, url.searchParams));
+    if (req.method === 'POST') {
+        const parsed = JSON.parse(body.toString() || '[]');
+        for (const row of Array.isArray(parsed) ? parsed : [parsed]) {
+            table.push({ id: `row-${table.length + 1}`, active: true, created_at: new Date().toISOString(), ...row });
+        }
+        return send(res, 201, []);
+    }
+    if (req.method === 'PATCH') {
+        const patch = JSON.parse(body.toString() || '{}');
+        for (const row of rows) Object.assign(row, patch);
+        return send(res, 200, []);
+    }
+    return send(res, 200, rows);
+}
+
+// ---- Server ----
+
+function send(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks);
+}
+
+const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const body = await readBody(req);
+    if (url.pathname.startsWith('/rest/v1/')) return handleRest(req, res, url, body);
+
+    const match = url.pathname.match(/^\/bot([^/]+)\/(\w+)$/);
+    if (!match || match[1] !== TOKEN) return send(res, 401, { ok: false, error_code: 401, description: 'Unauthorized' });
+    const params = JSON.parse(body.toString() || '{}');
+
+    switch (match[2]) {
+        case 'getMe':
+            return send(res, 200, { ok: true, result: { id: 42, is_bot: true, username: 'qasid_test_bot' } });
+        case 'sendMessage':
+            if (!params.text) return send(res, 400, { ok: false, error_code: 400, description: 'Bad Request: message text is empty' });
+            bot.sent.push({ chat_id: params.chat_id, text: params.text });
+            return send(res, 200, { ok: true, result: { message_id: bot.sent.length, date: 0, chat: { id: 0, type: 'channel' }, text: params.text } });
+        case 'getUpdates': {
+            bot.polls++;
+            // Drop confirmed updates, then hold the poll briefly like Telegram would
+            bot.updates = bot.updates.filter(u => u.update_id >= (params.offset ?? 0));
+            const deadline = Date.now() + 200;
+            while (bot.updates.length === 0 && Date.now() < deadline) {
+                await new Promise(resolve => setTimeout(resolve, 20));
+            }
+            return send(res, 200, { ok: true, result: bot.updates });
+        }
+        default:
+            return send(res, 404, { ok: false, error_code: 404, description: 'Not Found' });
+    }
+});
+
+// ---- Tests ----
+
+async function main() {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const base = `http://127.0.0.1:${port}`;
+
+    // Config is validated on import — set the environment first
+    Object.assign(process.env, {
+        SUPABASE_URL: base,
+        SUPABASE_ANON_KEY: 'stub',
+        SUPABASE_SERVICE_ROLE_KEY: 'stub',
+        ANTHROPIC_API_KEY: 'stub',
+        POSTING_MODE: 'live',
+        TELEGRAM_API_URL: base,
+        TELEGRAM_BOT_TOKEN: TOKEN,
+        TELEGRAM_CHANNEL_ID: CHANNEL,
+        TELEGRAM_ADMIN_IDS: String(ADMIN_ID),
+    });
+    const telegram = await import('../platforms/telegram.js');
+    const broadcast = await import('../engine/telegram-broadcast.js');
+    const controlBot = await import('../engine/telegram-bot.js');
+    const { initializeSkills, getPendingSkills } = await import('../skills/skill-manager.js');
+
+    await describe('Bot API client', async () => {
+        const me = await telegram.getTelegramBot();
+        assert(me.username === 'qasid_test_bot', 'getMe returns the bot account');
+
+        const id = await telegram.sendTelegramMessage(CHANNEL, 'x'.repeat(5000));
+        assert(id === 1 && bot.sent.length === 2, 'Text over 4096 characters is sent as two messages');
+        assert(bot.sent.every(m => m.text.length <= telegram.TELEGRAM_MAX_MESSAGE_LENGTH), 'Every message fits the Bot API limit');
+        assert(await telegram.sendTelegramMessage(CHANNEL, '') === null, 'API errors return null instead of throwing');
+        assert(telegram.telegramMessageUrl(CHANNEL, 7) === 'https://t.me/qasid_test/7', 'Public channel messages have a t.me link');
+        bot.sent = [];
+    });
+
+    await describe('Channel broadcasts', async () => {
+        assert(await broadcast.broadcastPost({ content: 'Signals are green.', platform: 'x' }, '1850000000000000000'), 'Post broadcast succeeds');
+        assert(bot.sent[0]?.chat_id === CHANNEL, 'Broadcast goes to the configured channel');
+        assert(bot.sent[0]?.text.includes('https://x.com/') && bot.sent[0].text.startsWith('Signals are green.'), 'Broadcast carries the post and a link back');
+
+        assert(!await broadcast.broadcastPost({ content: 'not real', platform: 'x' }, 'dry-run-123'), 'Dry-run ids are not broadcast');
+        await broadcast.broadcastPost({ content: 'one\n---\ntwo', platform: 'bluesky' }, 'dry-run-bsky-1');
+        assert(bot.sent.length === 1, 'Nothing sent for dry-run posts');
+
+        const today = new Date().toISOString().split('T')[0];
+        tables.qasid_posts.push(
+            { content: 'a', content_type: 'signal_scorecard', platform: 'x', tone: 't', topic: 't', input_tokens: 10, output_tokens: 5, posted_at: `${today}T10:00:00.000Z` },
+            { content: 'b', content_type: 'educational', platform: 'bluesky', tone: 't', topic: 't', input_tokens: 10, output_tokens: 5, posted_at: `${today}T12:30:00.000Z` },
+        );
+        assert(await broadcast.broadcastDailySummary(), 'Daily summary broadcast succeeds');
+        const summary = bot.sent[1]?.text ?? '';
+        assert(summary.includes(`daily summary — ${today}`) && summary.includes('2 posts'), 'Summary has the date and post count');
+        assert(summary.includes('signal scorecard') && summary.includes('🦋 Bluesky 1'), 'Summary lists content types and per-platform counts');
+        bot.sent = [];
+    });
+
+    await describe('Control bot — access', async () => {
+        await controlBot.handleTelegramUpdate({ update_id: 0, message: { message_id: 1, date: Math.floor(Date.now() / 1000), chat: { id: STRANGER_ID, type: 'private' }, from: { id: STRANGER_ID }, text: '/status' } });
+        assert(bot.sent.length === 1 && bot.sent[0].text.includes('private'), 'Non-admins are turned away');
+
+        await controlBot.handleTelegramUpdate({ update_id: 0, message: { message_id: 2, date: Math.floor(Date.now() / 1000), chat: { id: -500, type: 'group' }, from: { id: ADMIN_ID }, text: '/status' } });
+        assert(bot.sent.length === 1, 'Group chats are ignored, even from admins');
+
+        await controlBot.handleTelegramUpdate({ update_id: 0, message: { message_id: 3, date: Math.floor(Date.now() / 1000) - 3600, chat: { id: ADMIN_ID, type: 'private' }, from: { id: ADMIN_ID }, text: '/forget everything' } });
+        assert(bot.sent.length === 1, 'Stale queued commands are skipped');
+        bot.sent = [];
+    });
+
+    await describe('Control bot — long-polled commands', async () => {
+        tables.qasid_skills.push({
+            id: 'onchain-sleuth', name: 'On-chain Sleuth', description: 'Trace wallet flows before calling a trend.',
+            category: 'analysis', source: 'self_discovered', prompt: 'p', learned_at: new Date().toISOString(),
+            usage_count: 0, confidence: 0.7, status: 'pending_approval',
+        });
+        await initializeSkills();
+
+        controlBot.startTelegramBot();
+
+        pushMessage(ADMIN_ID, '/remember Lisan Intelligence tracks 40 assets across majors and memes');
+        await waitForSent(1);
+        assert(bot.sent[0]?.text.includes('Stored'), '/remember stores a fact');
+        assert(tables.qasid_knowledge[0]?.source === 'founder_instruction', 'Fact is stored as a founder instruction');
+
+        pushMessage(ADMIN_ID, 'remember: short');
+        await waitForSent(2);
+        assert(bot.sent[1]?.text.startsWith('Not stored'), 'X-style "remember:" works and too-short facts are refused');
+
+        pushMessage(ADMIN_ID, '/forget 40 assets');
+        await waitForSent(3);
+        assert(bot.sent[2]?.text.includes('Deactivated 1'), '/forget deactivates matching facts');
+        assert(tables.qasid_knowledge[0]?.active === false, 'Matching fact is inactive');
+
+        pushMessage(ADMIN_ID, '/skills');
+        await waitForSent(4);
+        assert(bot.sent[3]?.text.includes('[onchain-sleuth]'), '/skills lists pending skills with ids');
+
+        pushMessage(ADMIN_ID, '/approve onchain-sleuth');
+        await waitForSent(5);
+        assert(bot.sent[4]?.text.includes('Skill activated: On-chain Sleuth'), '/approve activates the skill');
+        assert(getPendingSkills().length === 0 && tables.qasid_skills[0].status === 'active', 'Skill is active in memory and in the DB');
+
+        pushMessage(ADMIN_ID, '/deny onchain-sleuth');
+        await waitForSent(6);
+        assert(bot.sent[5]?.text.includes('No pending skill'), 'Deciding a non-pending skill is refused');
+
+        pushMessage(ADMIN_ID, '/status@qasid_test_bot');
+        await waitForSent(7);
+        const status = bot.sent[6]?.text ?? '';
+        assert(status.includes('Mode: live') && status.includes('Daily budget:'), '/status reports mode and budget');
+        assert(status.includes('Skills:') && status.includes('Platforms:'), '/status reports skills and platforms');
+
+        pushMessage(ADMIN_ID, 'hello?');
+        await waitForSent(8);
+        assert(bot.sent[7]?.text.includes('/remember <fact>'), 'Unknown text gets the help message');
+        assert(bot.sent.every(m => m.chat_id === ADMIN_ID), 'Replies go to the admin chat');
+
+        // An aborted poll may already be on the wire — let it land before counting
+        await controlBot.stopTelegramBot();
+        await new Promise(resolve => setTimeout(resolve, 50));
+        const pollsAtStop = bot.polls;
+        await new Promise(resolve => setTimeout(resolve, 300));
+        assert(bot.polls === pollsAtStop, 'Polling stops on shutdown');
+    });
+}
+
+main()
+    .catch(error => {
+        console.error('Unexpected error:', error);
+        failed++;
+    })
+    .finally(() => {
+        server.close();
+        console.log(`\n${'═'.repeat(50)}`);
+        console.log(`Results: ${passed} passed, ${failed} failed`);
+        process.exit(failed > 0 ? 1 : 0);
+    });
@@ -0,0 +1,582 @@
+// ============================================================================
+// QasidAI — X Engine Tests
+// Run with: NODE_OPTIONS=--experimental-websocket npx tsx src/tests/x-engine.ts
+// Drives the real X jobs — mention monitor, timeline scan, smart follow and
+// the scheduled content cycle — plus media upload and retraction against
+// the in-process fake X API
+// (fake-x.ts), a fake Supabase REST server with in-memory tables, and a
+// scripted LLM provider. No network access needed.
+// ============================================================================
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { startFakeX, type FakeX } from './fake-x.js';
+import type { CompletionRequest, LLMProvider } from '../engine/llm-provider.js';
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, message: string) {
+    if (condition) {
+        console.log(`  ✅ ${message}`);
+        passed++;
+    } else {
+        console.error(`  ❌ FAIL: ${message}`);
+        failed++;
+    }
+}
+
+async function describe(name: string, fn: () => Promise<void> | void) {
+    console.log(`\n📦 ${name}`);
+    await fn();
+}
+
+// ---- Fake Supabase REST (enough PostgREST for the X jobs) ----
+
+const tables: Record<string, any[]> = {};
+let nextRowId = 1;
+
+function table(name: string): any[] {
+    return (tables[name] ??= []);
+}
+
+/** Split "a.eq.1,b.cs.{x,y}" on top-level commas */
+function splitTopLevel(list: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of list) {
+        if (ch === '(' || ch === '{') depth++;
+        if (ch === ')' || ch === '}') depth--;
+        if (ch === ',' && depth === 0) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    if (current) parts.push(current);
+    return parts;
+}
+
+function compare(field: unknown, operand: string): number {
+    const a = Number(field);
+    const b = Number(operand);
+    if (typeof field === 'number' && !Number.isNaN(b)) return a - b;
+    return String(field) < operand ? -1 : String(field) > operand ? 1 : 0;
+}
+
+function test(field: unknown, op: string, operand: string): boolean {
+    switch (op) {
+        case 'eq': return field !== null && field !== undefined && String(field) === operand;
+        case 'neq': return field !== null && field !== undefined && String(field) !== operand;
+        case 'gt': return field != null && compare(field, operand) > 0;
+        case 'gte': return field != null && compare(field, operand) >= 0;
+        case 'lt': return field != null && compare(field, operand) < 0;
+        case 'lte': return field != null && compare(field, operand) <= 0;
+        case 'is': return operand === 'null' ? field == null : String(field) === operand;
+        case 'in': return splitTopLevel(operand.replace(/^\(|\)$/g, '')).map(v => v.replace(/^"|"$/g, '')).includes(String(field));
+        case 'like':
+        case 'ilike': {
+            const pattern = new RegExp(`^${operand.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/[*%]/g, '.*')}$`, op === 'ilike' ? 'is' : 's');
+            return field != null && pattern.test(String(field));
+        }
+        case 'cs': {
+            const wanted = operand.replace(/^\{|\}$/g, '').split(',').filter(Boolean);
+            return Array.isArray(field) && wanted.every(w => field.map(String).includes(w));
+        }
+        default: throw new Error(`Fake PostgREST: unsupported operator "${op}"`);
+    }
+}
+
+/** One "column=op.value" filter (with optional not.) */
+function matchesFilter(row: any, column: string, value: string): boolean {
+    const negated = value.startsWith('not.');
+    const [op, ...rest] = (negated ? value.slice(4) : value).split('.');
+    return test(row[column], op, rest.join('.')) !== negated;
+}
+
+function matches(row: any, params: URLSearchParams): boolean {
+    for (const [key, value] of params) {
+        if (['select', 'order', 'limit', 'offset', 'columns', 'on_conflict'].includes(key)) continue;
+        if (key === 'or') {
+            const anyMatch = splitTopLevel(value.replace(/^\(|\)$/g, '')).some(filter => {
+                const [column, ...rest] = filter.split('.');
+                return matchesFilter(row, column, rest.join('.'));
+            });
+            if (!anyMatch) return false;
+        } else if (!matchesFilter(row, key, value)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+function applyOrder(rows: any[], order: string | null): any[] {
+    if (!order) return rows;
+    const keys = order.split(',').map(part => {
+        const [column, direction] = part.split('.');
+        return { column, desc: direction === 'desc' };
+    });
+    return [...rows].sort((a, b) => {
+        for (const { column, desc } of keys) {
+            if (a[column] === b[column]) continue;
+            if (a[column] == null) return 1;
+            if (b[column] == null) return -1;
+            const diff = a[column] < b[column] ? -1 : 1;
+            return desc ? -diff : diff;
+        }
+        return 0;
+    });
+}
+
+/** Column defaults the real schema fills in */
+const DEFAULTS: Record<string, () => Record<string, unknown>> = {
+    qasid_posts: () => ({ posted_at: new Date().toISOString() }),
+    qasid_replies: () => ({ replied_at: new Date().toISOString() }),
+    qasid_follows: () => ({ followed_at: new Date().toISOString() }),
+    qasid_polls: () => ({ status: 'open' }),
+};
+
+function insertRow(name: string, row: any): any {
+    const created = { id: `row-${nextRowId++}`, created_at: new Date().toISOString(), ...DEFAULTS[name]?.(), ...row };
+    table(name).push(created);
+    return created;
+}
+
+/** Stored procedures the jobs call */
+const RPCS: Record<string, (args: any) => unknown> = {
+    qasid_reserve_budget: args => {
+        const row = insertRow('qasid_daily_actions', {
+            day: args.p_day,
+            action_type: args.p_action_type,
+            description: args.p_description,
+            tweet_id: args.p_tweet_id,
+            status: 'reserved',
+        });
+        return [{ reservation_id: row.id, blocked_by: null, retry_at: null }];
+    },
+};
+
+function handleRest(req: IncomingMessage, res: ServerResponse, url: URL, body: Buffer) {
+    const prefer = String(req.headers.prefer ?? '');
+    const wantsObject = String(req.headers.accept ?? '').startsWith('application/vnd.pgrst.object+json');
+    const reply = (status: number, rows: any[], total?: number) => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (prefer.includes('count=exact')) headers['Content-Range'] = `0-${Math.max(0, rows.length - 1)}/${total ?? rows.length}`;
+        if (wantsObject) {
+            if (rows.length !== 1) {
+                res.writeHead(406, headers);
+                return res.end(JSON.stringify({ code: 'PGRST116', message: 'JSON object requested, multiple (or no) rows returned', details: `The result contains ${rows.length} rows`, hint: null }));
+            }
+            res.writeHead(status, headers);
+            return res.end(JSON.stringify(rows[0]));
+        }
+        res.writeHead(status, headers);
+        res.end(req.method === 'HEAD' ? undefined : JSON.stringify(rows));
+    };
+
+    const name = url.pathname.replace('/rest/v1/', '');
+    if (name.startsWith('rpc/')) {
+        const fn = RPCS[name.slice(4)];
+        const result = fn ? fn(JSON.parse(body.toString() || '{}')) : null;
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        return res.end(JSON.stringify(result));
+    }
+
+    const rows = table(name).filter(r => matches(r, url.searchParams));
+    const representation = prefer.includes('return=representation');
+
+    if (req.method === 'POST') {
+        const parsed = JSON.parse(body.toString() || '[]');
+        const conflictKey = url.searchParams.get('on_conflict') ?? 'id';
+        const written = (Array.isArray(parsed) ? parsed : [parsed]).map(row => {
+            const existing = prefer.includes('resolution=merge-duplicates') && row[conflictKey] !== undefined
+                ? table(name).find(r => r[conflictKey] === row[conflictKey])
+                : undefined;
+            return existing ? Object.assign(existing, row) : insertRow(name, row);
+        });
+        return reply(201, representation ? written : []);
+    }
+    if (req.method === 'PATCH') {
+        const patch = JSON.parse(body.toString() || '{}');
+        for (const row of rows) Object.assign(row, patch);
+        return reply(200, representation ? rows : []);
+    }
+    if (req.method === 'DELETE') {
+        tables[name] = table(name).filter(r => !rows.includes(r));
+        return reply(200, representation ? rows : []);
+    }
+
+    const offset = Number(url.searchParams.get('offset') ?? 0);
+    const limit = url.searchParams.has('limit') ? Number(url.searchParams.get('limit')) : undefined;
+    const ordered = applyOrder(rows, url.searchParams.get('order'));
+    return reply(200, ordered.slice(offset, limit !== undefined ? offset + limit : undefined), rows.length);
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks);
+}
+
+const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const body = await readBody(req);
+    if (url.pathname.startsWith('/rest/v1/')) {
+        try {
+            return handleRest(req, res, url, body);
+        } catch (error) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            return res.end(JSON.stringify({ message: String(error) }));
+        }
+    }
+    // Everything else (LISAN Intelligence API) is down
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end('{}');
+});
+
+// ---- Scripted LLM ----
+
+const llm = {
+    prompts: [] as string[],
+    /** Scheduled post drafts, served in order */
+    posts: [] as string[],
+};
+
+/** JSON verdicts keyed by the prompt each job sends */
+function respond(request: CompletionRequest): string {
+    const prompt = request.prompt;
+    llm.prompts.push(prompt);
+
+    if (prompt.includes('Someone mentioned you')) {
+        const tweet = prompt.match(/TWEET: "([\s\S]*?)"\n/)?.[1] ?? '';
+        if (/airdrop|giveaway/i.test(tweet)) {
+            return JSON.stringify({ type: 'SPAM', sentiment: 'NEUTRAL', verdict: 'SKIP', reply: null });
+        }
+        return JSON.stringify({
+            type: 'QUESTION', sentiment: 'CURIOUS', verdict: 'REPLY',
+            reply: 'regime filter sits out chop. no edge, no trade — that\'s the whole trick',
+        });
+    }
+    if (prompt.includes('You found this tweet on X')) {
+        const tweet = prompt.match(/TWEET by @\w+:\n"([\s\S]*?)"\n/)?.[1] ?? '';
+        if (/guaranteed|100x/i.test(tweet)) {
+            return JSON.stringify({ verdict: 'SKIP', reason: 'Scam bait', reply: null });
+        }
+        return JSON.stringify({ verdict: 'REPLY', reason: 'On topic', reply: 'win rate without regime context is just a vibe. track it per regime' });
+    }
+    if (prompt.includes('Summarise this part of an X conversation')) {
+        return 'erin and frank went back and forth on whether funding rates lead price; nobody settled it.';
+    }
+    if (prompt.includes('Score this tweet for QasidAI')) return JSON.stringify({ score: 8 });
+    if (prompt.includes('Write the answer options for this X poll')) {
+        return JSON.stringify({ options: ['long $BTC', 'long $ETH', 'sit in stables'] });
+    }
+    if (prompt.includes('RESPOND WITH ONLY A JSON')) return '{}';
+    return llm.posts.shift() ?? 'charts lie less than people do.\n\nthe trick is knowing which is which';
+}
+
+const scriptedProvider: LLMProvider = {
+    name: 'scripted',
+    async complete(request) {
+        return { content: respond(request), inputTokens: 100, outputTokens: 40, cacheReadTokens: 0, cacheWriteTokens: 0, model: request.model };
+    },
+};
+
+/** Move earlier scheduled posts out of the budget's minimum-spacing window */
+function ageScheduledPosts() {
+    const twoHoursAgo = new Date(Date.now() - 2 * 3_600_000).toISOString();
+    for (const row of table('qasid_daily_actions')) {
+        if (row.action_type === 'scheduled_post') row.created_at = twoHoursAgo;
+    }
+}
+
+// ---- Tests ----
+
+let x: FakeX;
+
+async function main() {
+    x = await startFakeX();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const base = `http://127.0.0.1:${port}`;
+
+    // Nothing in these tests may leave the machine (CoinGecko, etc.)
+    const realFetch = globalThis.fetch;
+    globalThis.fetch = (input, init) => {
+        const target = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+        if (!target.startsWith('http://127.0.0.1')) return Promise.reject(new Error(`Offline test: ${target}`));
+        return realFetch(input, init);
+    };
+
+    // Config is validated on import — set the environment first
+    Object.assign(process.env, {
+        SUPABASE_URL: base,
+        SUPABASE_ANON_KEY: 'stub',
+        SUPABASE_SERVICE_ROLE_KEY: 'stub',
+        LLM_PROVIDER: 'fixture',
+        LLM_FIXTURE_MODE: 'replay',
+        POSTING_MODE: 'live',
+        LISAN_INTEL_URL: base,
+        X_API_URL: x.url,
+        X_API_KEY: 'key',
+        X_API_SECRET: 'secret',
+        X_ACCESS_TOKEN: 'token',
+        X_ACCESS_SECRET: 'token-secret',
+    });
+    const { setLogLevel } = await import('../logger.js');
+    setLogLevel('error');
+    const { setLLMProvider } = await import('../engine/llm-provider.js');
+    setLLMProvider(scriptedProvider);
+    const { runMentionMonitor, runFounderMentionCheck } = await import('../engine/mention-monitor.js');
+    const { runTimelineScan } = await import('../engine/timeline-scanner.js');
+    const { runSmartFollow } = await import('../engine/smart-follow.js');
+    const { runContentCycle } = await import('../scheduler/cron.js');
+    const { retractPost } = await import('../engine/retraction.js');
+    const { buildConversationContext } = await import('../engine/conversation-context.js');
+    const { approveDraft, rejectDraft } = await import('../engine/review-queue.js');
+    const { postTweetWithMedia } = await import('../platforms/x.js');
+    const { checkXQuota } = await import('../platforms/x-rate-limit.js');
+
+    await describe('Mention monitor', async () => {
+        const question = x.tweet('alice', '@QasidAI how does the regime filter decide when to sit out?', { ageMinutes: 5 });
+        const spam = x.tweet('dropbot', '@QasidAI free airdrop for the first 1000 wallets', { ageMinutes: 4 });
+        const stale = x.tweet('bob', '@QasidAI thoughts on this?', { ageMinutes: 7 * 60 });
+        const founder = x.tweet('lisantherealone', '@QasidAI look at this', { ageMinutes: 3 });
+        x.tweet('carol', 'no mention here', { ageMinutes: 2 });
+
+        const responded = await runMentionMonitor();
+        assert(responded === 1, `One mention answered (got ${responded})`);
+
+        const replies = x.repliesTo(question.id);
+        assert(replies.length === 1 && replies[0].author_id === x.me.id, 'Reply posted under the question, from our account');
+        assert(replies[0]?.text.startsWith('regime filter sits out chop'), 'Reply text is the drafted reply');
+        assert(x.repliesTo(spam.id).length === 0, 'Spam the model skipped gets no reply');
+        assert(x.repliesTo(stale.id).length === 0, 'Mentions older than 6h get no reply');
+        assert(x.repliesTo(founder.id).length === 0, 'Founder mentions are left to the VIP monitor');
+
+        const recorded = table('qasid_replies').find(r => r.target_tweet_id === question.id);
+        assert(recorded?.reply_tweet_id === replies[0]?.id && recorded?.target_author === 'alice', 'Reply recorded with target and author');
+        assert(recorded?.prompt_id === 'mention.reply', 'Reply recorded with its prompt id');
+        const watermark = table('qasid_mention_state').find(r => r.id === 'current');
+        assert(watermark?.last_mention_id === founder.id, 'Watermark moved to the newest mention');
+
+        const mentionCalls = x.requests.filter(r => r.path.endsWith('/mentions'));
+        assert(mentionCalls[0]?.query.expansions === 'author_id', 'Mentions fetched with author expansion');
+
+        const again = await runMentionMonitor();
+        const lastCall = x.requests.filter(r => r.path.endsWith('/mentions')).pop();
+        assert(again === 0 && lastCall?.query.since_id === founder.id, 'Next cycle asks only for newer mentions and answers nothing');
+
+        const quota = checkXQuota('mentions', 'critical');
+        assert(quota.allowed && quota.remaining !== null, 'Rate-limit headers from the fake are tracked');
+    });
+
+    await describe('Timeline scan', async () => {
+        // Each tweet matches every search query the scanner rotates through
+        const topics = 'crypto signals, technical analysis, AI trading, AI agent, autonomous agent, onchain AI, fear and greed, market regime, machine learning, signal accuracy, win rate';
+        const good = x.tweet('trader_dan', `My ${topics} notes: win rate means nothing without context`, { metrics: { like_count: 40, reply_count: 3 } });
+        const scam = x.tweet('moonboy', `${topics} — guaranteed 100x, DM me`, { metrics: { like_count: 12 } });
+        const quiet = x.tweet('nobody', `${topics} but nobody is reading`, { metrics: { like_count: 1 } });
+
+        const repliesBefore = table('qasid_replies').length;
+        const posted = await runTimelineScan();
+        assert(posted === 1, `One scanner reply posted (got ${posted})`);
+        assert(x.repliesTo(good.id).length === 1, 'Reply posted to the relevant, liked tweet');
+        assert(x.repliesTo(scam.id).length === 0, 'Tweet the model skipped gets no reply');
+        assert(x.repliesTo(quiet.id).length === 0, 'Low-engagement tweets are never evaluated');
+        assert(!llm.prompts.some(p => p.includes('but nobody is reading')), 'No LLM call spent on low-engagement tweets');
+
+        const searches = x.requests.filter(r => r.path === '/2/tweets/search/recent');
+        assert(searches.length >= 1 && searches.every(s => s.query.query.includes('-is:retweet')), 'Searches use the rotated scanner queries');
+        const action = table('qasid_daily_actions').find(r => r.action_type === 'reply');
+        assert(action?.status === 'committed', 'Budget reservation committed after the reply');
+        assert(table('qasid_replies').length === repliesBefore + 1, 'Scanner reply recorded');
+
+        const again = await runTimelineScan();
+        assert(again === 0 && x.repliesTo(good.id).length === 1, 'Already-answered tweets are not replied to twice');
+    });
+
+    await describe('Smart follow', async () => {
+        // bob was followed recently — still in the cooldown
+        insertRow('qasid_follows', { target_user_id: x.user('bob').id, target_username: 'bob', source: 'mention', reason: 'earlier' });
+
+        const followed = await runSmartFollow();
+        const handles = [...x.following].map(id => x.users.get(id)?.username).sort();
+        assert(followed === 3, `Three mentioners followed (got ${followed})`);
+        assert(handles.join() === 'alice,dropbot,lisantherealone', `Followed on X: ${handles.join(', ')}`);
+        assert(!x.following.has(x.me.id), 'Never follows itself');
+        assert(table('qasid_follows').filter(r => r.source === 'mention').length === 4, 'Each follow recorded (plus the seeded one)');
+
+        const again = await runSmartFollow();
+        assert(again === 0, 'Already-followed mentioners are skipped');
+    });
+
+    await describe('Content cycle', async () => {
+        llm.posts.push('$BTC chop again.\n\nregime filter says sit on hands — so we sit on hands');
+        const counts = await runContentCycle({ preferredContentType: 'market_regime' });
+        assert(counts.posts === 1, 'Cycle reports the post it published');
+
+        const tweet = x.posted().find(t => t.text.startsWith('$BTC chop again'));
+        assert(!!tweet, 'Generated post published to X');
+        const saved = table('qasid_posts').find(r => r.external_id === tweet?.id);
+        assert(saved?.content_type === 'market_regime' && saved?.platform === 'x', 'Post saved to memory with its content type');
+        const action = table('qasid_daily_actions').find(r => r.action_type === 'scheduled_post' && r.tweet_id === tweet?.id);
+        assert(action?.status === 'committed', 'Scheduled post budget committed with the tweet id');
+
+        ageScheduledPosts();
+        await runContentCycle({ preferredContentType: 'poll' });
+        const pollTweet = x.posted().find(t => t.attachments?.poll_ids);
+        const poll = x.polls.get(pollTweet?.attachments?.poll_ids?.[0] ?? '');
+        assert(poll?.options.map(o => o.label).join() === 'long $BTC,long $ETH,sit in stables', 'Poll posted natively with the drafted options');
+        assert(table('qasid_polls').some(r => r.tweet_id === pollTweet?.id && r.status === 'open'), 'Poll tracked for result collection');
+
+        const postsBefore = x.posted().length;
+        const savedBefore = table('qasid_posts').length;
+        ageScheduledPosts();
+        x.failNext(/^POST \/2\/tweets$/, 503);
+        llm.posts.push('builders ship while timelines argue.\n\nanyway, shipped');
+        let cycleError = '';
+        await runContentCycle({ preferredContentType: 'builder_narrative' }).catch(e => { cycleError = String(e); });
+        assert(cycleError.includes('did not accept the post'), 'Failed publish fails the cycle');
+        const refunded = table('qasid_daily_actions').filter(r => r.action_type === 'scheduled_post').pop();
+        assert(x.posted().length === postsBefore && refunded?.status === 'refunded', 'X error → nothing posted and the budget slot refunded');
+        assert(table('qasid_posts').length === savedBefore + 1 && table('qasid_posts').pop()?.external_id == null, 'Failed post kept in memory without an external id');
+    });
+
+    await describe('Media upload', async () => {
+        const png = Buffer.alloc(3 * 1024 * 1024, 1);
+        const id = await postTweetWithMedia('two charts, one story', [
+            { data: png, mimeType: 'image/png', altText: 'BTC regime chart' },
+            { data: png.subarray(0, 1024), mimeType: 'image/png', altText: 'ETH regime chart' },
+        ]);
+        const tweet = x.tweets.get(id ?? '');
+        const uploads = (tweet?.mediaIds ?? []).map(mediaId => x.media.get(mediaId));
+        assert(uploads.length === 2 && uploads.every(m => m?.finalized), 'Both images uploaded and attached to the tweet');
+        assert(uploads[0]?.segments === 2 && uploads[1]?.segments === 1, 'Large image sent in 2MB chunks');
+        assert(uploads.map(m => m?.altText).join() === 'BTC regime chart,ETH regime chart', 'Alt text set on each image');
+    });
+
+    await describe('Retraction', async () => {
+        const tweet = x.posted().find(t => t.text.startsWith('$BTC chop again'))!;
+        const result = await retractPost(`https://x.com/QasidAI/status/${tweet.id}`, { reason: 'Called the regime wrong' });
+        assert(result.deleted === 1 && !x.tweets.has(tweet.id), 'Tweet deleted on X');
+        const row = table('qasid_posts').find(r => r.external_id === tweet.id);
+        assert(!!row?.retracted_at && row.retraction_reason === 'Called the regime wrong', 'Row marked retracted with the reason');
+
+        let error = '';
+        try {
+            await retractPost(tweet.id);
+        } catch (e) {
+            error = String(e);
+        }
+        assert(error.includes('already retracted'), 'Retracting twice is refused');
+
+        const other = x.posted().find(t => t.attachments?.poll_ids)!;
+        const ask = x.tweet('lisantherealone', '@QasidAI retract that one', { ageMinutes: 1 });
+        llm.posts.push('Correction: that poll left out the one answer that mattered');
+        const corrected = await retractPost(other.id, { reason: 'Options missed "stay in cash"', correct: true, replyTo: { tweetId: ask.id, author: 'lisantherealone' } });
+        assert(!!corrected.correctionId && x.repliesTo(ask.id)[0]?.text.startsWith('Correction:'), 'Correction posted as a reply');
+        const correction = table('qasid_replies').find(r => r.reply_tweet_id === corrected.correctionId);
+        assert(correction?.prompt_id === 'retraction.correction' && correction?.prompt_version === 1, 'Correction recorded with its prompt id');
+
+        // Founder names the post by link — X hands it over as a t.co link, with a colon right after
+        const wrong = x.tweet('QasidAI', '$ETH funding at 400% annualised', { ageMinutes: 30 });
+        const saved = insertRow('qasid_posts', { content: wrong.text, content_type: 'market_regime', platform: 'x', external_id: wrong.id });
+        const command = x.tweet('lisantherealone', `@QasidAI retract https://x.com/QasidAI/status/${saved.external_id}: wrong number`, { ageMinutes: 1 });
+        assert(command.text.includes('https://t.co/'), 'Link in the command arrives as t.co');
+        await runFounderMentionCheck();
+        assert(!x.tweets.has(wrong.id) && !!saved.retracted_at && saved.retraction_reason === 'wrong number', 'Post named by URL retracted with the reason');
+        assert(x.repliesTo(command.id)[0]?.text.startsWith('🗑️ Taken down') ?? false, 'Founder gets an acknowledgement');
+    });
+
+    await describe('Review queue', async () => {
+        ageScheduledPosts();
+        table('qasid_review_queue').push({
+            id: 9001, kind: 'post', status: 'pending', source: 'content-cycle', budget_action: 'scheduled_post',
+            content: 'two reviewers, one tweet', original_content: 'two reviewers, one tweet',
+            target_id: null, target_author: null, topic: null, created_at: new Date().toISOString(),
+            metadata: { post: { contentType: 'engagement_bait', platform: 'x', tone: 'witty', topic: 'meta', inputTokens: 1, outputTokens: 1, generatedAt: new Date().toISOString() }, prompt: null },
+        });
+
+        // CLI and review endpoint approving at the same moment
+        const [first, second] = await Promise.all([approveDraft(9001), approveDraft(9001)]);
+        assert([first, second].filter(r => r.ok).length === 1, 'Only one of two simultaneous approvals succeeds');
+        const creates = x.requests.filter(r => r.method === 'POST' && r.path === '/2/tweets' && r.body?.text === 'two reviewers, one tweet');
+        assert(creates.length === 1, `Draft sent to X once (got ${creates.length})`);
+        const loser = first.ok ? second : first;
+        assert(!!loser.error?.includes('already being approved'), 'The other approval is told the draft was taken');
+
+        const row = table('qasid_review_queue').find(r => r.id === 9001);
+        assert(row?.status === 'published' && row.external_id === (first.ok ? first : second).externalId, 'Draft marked published with the tweet id');
+        const again = await approveDraft(9001);
+        assert(!again.ok && x.posted().filter(t => t.text === 'two reviewers, one tweet').length === 1, 'Approving a published draft again posts nothing');
+        const rejected = await rejectDraft(9001, 'too late');
+        assert(!rejected.ok && row?.status === 'published', 'A published draft cannot be rejected');
+    });
+
+    await describe('Conversation context', async () => {
+        const take = x.tweet('hal', 'regime filters are lagging indicators with better marketing', { ageMinutes: 60 });
+        const root = x.tweet('carol', 'is anyone actually beating buy-and-hold this year?', { ageMinutes: 50 });
+        const ours = x.tweet('QasidAI', 'in chop, yes — by not trading it', { inReplyTo: root.id, ageMinutes: 40 });
+        x.tweet('gina', 'buy-and-hold gang', { inReplyTo: root.id, ageMinutes: 35 });
+        const question = x.tweet('dave', '@QasidAI ok but what about this', { inReplyTo: ours.id, quoteOf: take.id, ageMinutes: 2 });
+
+        let previous = x.tweet('erin', 'funding rates lead price, change my mind', { ageMinutes: 90 });
+        for (let i = 0; i < 8; i++) {
+            const author = i % 2 === 0 ? 'frank' : 'erin';
+            previous = x.tweet(author, `point ${i + 1}: ${i % 2 === 0 ? 'price leads funding' : 'funding leads price'}`, { inReplyTo: previous.id, ageMinutes: 80 - i * 5 });
+        }
+        const settle = x.tweet('frank', '@QasidAI settle this', { inReplyTo: previous.id, ageMinutes: 1 });
+
+        llm.prompts.length = 0;
+        const responded = await runMentionMonitor();
+        assert(responded === 2, `Both threaded mentions answered (got ${responded})`);
+        assert(x.repliesTo(question.id).length === 1 && x.repliesTo(settle.id).length === 1, 'Replies posted under both mentions');
+
+        const prompts = llm.prompts.filter(p => p.includes('Someone mentioned you'));
+        const short = prompts.find(p => p.includes('ok but what about this')) ?? '';
+        assert(short.includes('@carol: "is anyone actually beating buy-and-hold this year?"'), 'Root tweet shown');
+        assert(short.includes('YOU (@QasidAI): "in chop, yes — by not trading it"'), 'Our own reply shown as ours');
+        assert(short.indexOf('@carol:') < short.indexOf('YOU (@QasidAI):'), 'Conversation shown oldest first');
+        assert(short.includes('QUOTES @hal: "regime filters are lagging indicators with better marketing"'), 'Tweet quoted by the mention resolved');
+        assert(short.includes('1 other reply in side branches'), 'Side branches counted, not shown');
+        assert(!short.includes('buy-and-hold gang'), 'Side branch text left out');
+
+        const long = prompts.find(p => p.includes('settle this')) ?? '';
+        assert(llm.prompts.some(p => p.includes('Summarise this part of an X conversation')), 'Long thread summarised');
+        assert(long.includes('@erin: "funding rates lead price, change my mind"'), 'Long thread keeps its root');
+        assert(long.includes('3 earlier replies, summarised: erin and frank went back and forth'), 'Middle of the thread replaced by the summary');
+        assert(long.includes('point 8: funding leads price') && !long.includes('point 3:'), 'Latest messages kept verbatim, older ones dropped');
+
+        const searches = x.requests.filter(r => r.path === '/2/tweets/search/recent' && r.query.query?.startsWith('conversation_id:'));
+        assert(searches.length === 2, `One conversation search per thread (got ${searches.length})`);
+
+        // Search index lagging behind: the mention itself isn't in the results
+        const claim = x.tweet('ivan', 'leverage is a skill issue', { ageMinutes: 20 });
+        const thread = x.tweet('judy', 'what are you all watching this week?', { ageMinutes: 15 });
+        const late = x.tweet('kim', '@QasidAI thoughts on this?', { inReplyTo: thread.id, quoteOf: claim.id });
+        x.failNext(/^GET \/2\/tweets\/search\/recent$/, 503);
+        const context = await buildConversationContext({
+            id: late.id, text: late.text, authorId: late.author_id,
+            conversationId: late.conversation_id, inReplyToTweetId: thread.id, quotedTweetId: claim.id,
+        });
+        assert(context.includes('@judy: "what are you all watching this week?"'), 'Parent looked up when the search comes back empty');
+        assert(context.includes('QUOTES @ivan: "leverage is a skill issue"'), "Mention's quote resolved from its own referenced tweets");
+    });
+}
+
+main()
+    .catch(error => {
+        console.error('Unexpected error:', error);
+        failed++;
+    })
+    .finally(async () => {
+        server.close();
+        server.closeAllConnections();
+        await x?.close();
+        console.log(`\n${'═'.repeat(50)}`);
+        console.log(`Results: ${passed} passed, ${failed} failed`);
+        process.exit(failed > 0 ? 1 : 0);
+    });
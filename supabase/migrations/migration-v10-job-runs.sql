@@ -0,0 +1,33 @@
+-- QasidAI Migration v10: Job Run History
+-- Generated: October 2026
+-- Purpose: Record every scheduler job run (cron, catch-up, manual) with its
+--          outcome and counts, and let the scheduler find slots missed while down
+
+CREATE TABLE IF NOT EXISTS qasid_job_runs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id TEXT NOT NULL,                    -- schedule.json job id, e.g. 'daily-learning'
+  handler TEXT NOT NULL,                   -- handler name, e.g. 'daily_learning'
+  trigger TEXT NOT NULL CHECK (trigger IN ('cron', 'catch_up', 'manual')),
+  status TEXT NOT NULL CHECK (status IN ('running', 'success', 'failed', 'interrupted')),
+  scheduled_for TIMESTAMPTZ NOT NULL,      -- the cron slot this run covers
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  duration_ms INTEGER,
+  counts JSONB NOT NULL DEFAULT '{}',      -- handler counts, e.g. {"facts": 3}
+  error TEXT
+);
+
+-- Index for catch-up lookups (latest completed slot per job)
+CREATE INDEX IF NOT EXISTS idx_qasid_job_runs_job_slot
+  ON qasid_job_runs (job_id, scheduled_for DESC);
+
+-- Index for the run history listing
+CREATE INDEX IF NOT EXISTS idx_qasid_job_runs_started
+  ON qasid_job_runs (started_at DESC);
+
+-- RLS
+ALTER TABLE qasid_job_runs ENABLE ROW LEVEL SECURITY;
+
+-- Service role only policy (QasidAI uses service_role key which bypasses RLS)
+CREATE POLICY "Service role only" ON qasid_job_runs FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
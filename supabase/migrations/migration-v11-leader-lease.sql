@@ -0,0 +1,68 @@
+-- QasidAI Migration v11: Leader Lease
+-- Generated: October 2026
+-- Purpose: Single-leader execution lock. Only the instance holding the
+--          'scheduler' lease runs cron jobs; a crashed holder's lease expires
+--          after its TTL and a clean shutdown releases it immediately.
+--          All timing uses database time, so instance clock skew doesn't matter.
+
+CREATE TABLE IF NOT EXISTS qasid_leases (
+  name TEXT PRIMARY KEY,                   -- e.g. 'scheduler'
+  holder TEXT NOT NULL,                    -- instance id (host:pid:nonce)
+  acquired_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  renewed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+-- Acquire or renew a lease. Returns TRUE if p_holder holds the lease afterwards.
+-- Atomic: the row is only taken over when it is free, expired, or already ours.
+CREATE OR REPLACE FUNCTION qasid_try_acquire_lease(p_name TEXT, p_holder TEXT, p_ttl_seconds INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_holder TEXT;
+BEGIN
+  INSERT INTO qasid_leases AS l (name, holder, acquired_at, renewed_at, expires_at)
+  VALUES (p_name, p_holder, NOW(), NOW(), NOW() + make_interval(secs => p_ttl_seconds))
+  ON CONFLICT (name) DO UPDATE
+    SET holder = EXCLUDED.holder,
+        acquired_at = CASE WHEN l.holder = EXCLUDED.holder THEN l.acquired_at ELSE NOW() END,
+        renewed_at = NOW(),
+        expires_at = EXCLUDED.expires_at
+    WHERE l.holder = EXCLUDED.holder OR l.expires_at <= NOW()
+  RETURNING holder INTO v_holder;
+
+  RETURN v_holder IS NOT NULL AND v_holder = p_holder;
+END;
+$$;
+
+-- Release a lease (only by its holder). Returns TRUE if a lease was released.
+CREATE OR REPLACE FUNCTION qasid_release_lease(p_name TEXT, p_holder TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM qasid_leases WHERE name = p_name AND holder = p_holder;
+  RETURN FOUND;
+END;
+$$;
+
+-- RLS
+ALTER TABLE qasid_leases ENABLE ROW LEVEL SECURITY;
+
+-- Service role only policy (QasidAI uses service_role key which bypasses RLS)
+CREATE POLICY "Service role only" ON qasid_leases FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
+
+-- Functions are called via RPC with the service role only
+-- (anon/authenticated only exist on Supabase — skipped on a plain local Postgres)
+REVOKE EXECUTE ON FUNCTION qasid_try_acquire_lease(TEXT, TEXT, INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION qasid_release_lease(TEXT, TEXT) FROM PUBLIC;
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon') THEN
+    REVOKE EXECUTE ON FUNCTION qasid_try_acquire_lease(TEXT, TEXT, INTEGER) FROM anon, authenticated;
+    REVOKE EXECUTE ON FUNCTION qasid_release_lease(TEXT, TEXT) FROM anon, authenticated;
+  END IF;
+END;
+$$;
@@ -0,0 +1,89 @@
+-- QasidAI Migration v12: Budget Reservations
+-- Generated: October 2026
+-- Purpose: Atomic daily budget. A slot is reserved (count check + insert in one
+--          transaction, serialized per day) before publishing, then marked
+--          committed when the publish succeeds or refunded when it fails or is
+--          skipped. Refunded rows no longer count against the budget.
+--          Existing rows were all recorded after posting, so they default to 'committed'.
+
+ALTER TABLE qasid_daily_actions
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'committed'
+    CHECK (status IN ('reserved', 'committed', 'refunded'));
+ALTER TABLE qasid_daily_actions ADD COLUMN IF NOT EXISTS settled_at TIMESTAMPTZ;
+ALTER TABLE qasid_daily_actions ADD COLUMN IF NOT EXISTS refund_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_qasid_daily_actions_day_status ON qasid_daily_actions(day, status);
+
+-- Reserve one budget slot. Returns (reservation_id, NULL) on success or
+-- (NULL, blocked_by) when a limit is reached ('total', 'botchan', 'x', 'discretionary').
+-- The per-day advisory lock makes concurrent reservations queue up, so the
+-- count always sees every earlier reservation.
+CREATE OR REPLACE FUNCTION qasid_reserve_budget(
+  p_day TEXT,
+  p_action_type TEXT,
+  p_description TEXT,
+  p_tweet_id TEXT,
+  p_total_limit INTEGER,
+  p_x_limit INTEGER,
+  p_discretionary_limit INTEGER,
+  p_botchan_limit INTEGER
+)
+RETURNS TABLE (reservation_id UUID, blocked_by TEXT)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_total INTEGER;
+  v_scheduled INTEGER;
+  v_botchan INTEGER;
+  v_discretionary INTEGER;
+  v_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('qasid_daily_actions:' || p_day));
+
+  SELECT COUNT(*),
+         COUNT(*) FILTER (WHERE action_type = 'scheduled_post'),
+         COUNT(*) FILTER (WHERE action_type = 'botchan_post')
+    INTO v_total, v_scheduled, v_botchan
+    FROM qasid_daily_actions
+   WHERE day = p_day AND status <> 'refunded';
+  v_discretionary := v_total - v_scheduled - v_botchan;
+
+  IF v_total >= p_total_limit THEN
+    RETURN QUERY SELECT NULL::UUID, 'total'::TEXT;
+    RETURN;
+  END IF;
+
+  IF p_action_type = 'botchan_post' THEN
+    IF v_botchan >= p_botchan_limit THEN
+      RETURN QUERY SELECT NULL::UUID, 'botchan'::TEXT;
+      RETURN;
+    END IF;
+  ELSE
+    IF v_scheduled + v_discretionary >= p_x_limit THEN
+      RETURN QUERY SELECT NULL::UUID, 'x'::TEXT;
+      RETURN;
+    END IF;
+    IF p_action_type <> 'scheduled_post' AND v_discretionary >= p_discretionary_limit THEN
+      RETURN QUERY SELECT NULL::UUID, 'discretionary'::TEXT;
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO qasid_daily_actions (day, action_type, description, tweet_id, status)
+  VALUES (p_day, p_action_type, p_description, p_tweet_id, 'reserved')
+  RETURNING id INTO v_id;
+
+  RETURN QUERY SELECT v_id, NULL::TEXT;
+END;
+$$;
+
+-- Function is called via RPC with the service role only
+-- (anon/authenticated only exist on Supabase — skipped on a plain local Postgres)
+REVOKE EXECUTE ON FUNCTION qasid_reserve_budget(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, INTEGER) FROM PUBLIC;
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon') THEN
+    REVOKE EXECUTE ON FUNCTION qasid_reserve_budget(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, INTEGER) FROM anon, authenticated;
+  END IF;
+END;
+$$;
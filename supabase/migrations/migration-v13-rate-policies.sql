@@ -0,0 +1,137 @@
+-- QasidAI Migration v13: Rate Policies
+-- Generated: October 2026
+-- Purpose: Per-action-type rate policies on top of the daily budget, checked
+--          inside the same locked transaction as the reservation:
+--          per-hour cap (rolling 60 minutes), minimum spacing since the last
+--          action of the type, and a per-day cap (midnight in p_timezone).
+--          Denials now also return retry_at — the earliest time the action is allowed.
+--          Budget day keys are now dates in the budget timezone (BUDGET_TIMEZONE), not UTC.
+
+CREATE INDEX IF NOT EXISTS idx_qasid_daily_actions_type_created ON qasid_daily_actions(action_type, created_at);
+
+-- Replaces the v12 signature (new parameters and return column)
+DROP FUNCTION IF EXISTS qasid_reserve_budget(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, INTEGER);
+
+-- Reserve one budget slot. Returns (reservation_id, NULL, NULL) on success or
+-- (NULL, blocked_by, retry_at) when a limit is reached. NULL policy limits don't apply.
+CREATE OR REPLACE FUNCTION qasid_reserve_budget(
+  p_day TEXT,
+  p_timezone TEXT,
+  p_action_type TEXT,
+  p_description TEXT,
+  p_tweet_id TEXT,
+  p_total_limit INTEGER,
+  p_x_limit INTEGER,
+  p_discretionary_limit INTEGER,
+  p_botchan_limit INTEGER,
+  p_per_hour INTEGER,
+  p_min_spacing_seconds INTEGER,
+  p_per_day INTEGER
+)
+RETURNS TABLE (reservation_id UUID, blocked_by TEXT, retry_at TIMESTAMPTZ)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_total INTEGER;
+  v_scheduled INTEGER;
+  v_botchan INTEGER;
+  v_discretionary INTEGER;
+  v_day_start TIMESTAMPTZ;
+  v_day_end TIMESTAMPTZ;
+  v_type_today INTEGER;
+  v_type_hour INTEGER;
+  v_last TIMESTAMPTZ;
+  v_hour_frees_at TIMESTAMPTZ;
+  v_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('qasid_daily_actions:' || p_day));
+
+  v_day_start := date_trunc('day', NOW() AT TIME ZONE p_timezone) AT TIME ZONE p_timezone;
+  v_day_end := (date_trunc('day', NOW() AT TIME ZONE p_timezone) + INTERVAL '1 day') AT TIME ZONE p_timezone;
+
+  -- Day totals
+  SELECT COUNT(*),
+         COUNT(*) FILTER (WHERE action_type = 'scheduled_post'),
+         COUNT(*) FILTER (WHERE action_type = 'botchan_post')
+    INTO v_total, v_scheduled, v_botchan
+    FROM qasid_daily_actions
+   WHERE day = p_day AND status <> 'refunded';
+  v_discretionary := v_total - v_scheduled - v_botchan;
+
+  IF v_total >= p_total_limit THEN
+    RETURN QUERY SELECT NULL::UUID, 'total'::TEXT, v_day_end;
+    RETURN;
+  END IF;
+
+  IF p_action_type = 'botchan_post' THEN
+    IF v_botchan >= p_botchan_limit THEN
+      RETURN QUERY SELECT NULL::UUID, 'botchan'::TEXT, v_day_end;
+      RETURN;
+    END IF;
+  ELSE
+    IF v_scheduled + v_discretionary >= p_x_limit THEN
+      RETURN QUERY SELECT NULL::UUID, 'x'::TEXT, v_day_end;
+      RETURN;
+    END IF;
+    IF p_action_type <> 'scheduled_post' AND v_discretionary >= p_discretionary_limit THEN
+      RETURN QUERY SELECT NULL::UUID, 'discretionary'::TEXT, v_day_end;
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Rate policy for this action type
+  IF p_per_day IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_type_today
+      FROM qasid_daily_actions
+     WHERE action_type = p_action_type AND status <> 'refunded' AND created_at >= v_day_start;
+    IF v_type_today >= p_per_day THEN
+      RETURN QUERY SELECT NULL::UUID, 'per_day'::TEXT, v_day_end;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF p_per_hour IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_type_hour
+      FROM qasid_daily_actions
+     WHERE action_type = p_action_type AND status <> 'refunded' AND created_at > NOW() - INTERVAL '1 hour';
+    IF v_type_hour >= p_per_hour THEN
+      -- Allowed again once enough of the window's oldest actions have aged out
+      SELECT created_at + INTERVAL '1 hour' INTO v_hour_frees_at
+        FROM qasid_daily_actions
+       WHERE action_type = p_action_type AND status <> 'refunded' AND created_at > NOW() - INTERVAL '1 hour'
+       ORDER BY created_at ASC
+       OFFSET v_type_hour - p_per_hour
+       LIMIT 1;
+      RETURN QUERY SELECT NULL::UUID, 'per_hour'::TEXT, v_hour_frees_at;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF p_min_spacing_seconds IS NOT NULL THEN
+    SELECT MAX(created_at) INTO v_last
+      FROM qasid_daily_actions
+     WHERE action_type = p_action_type AND status <> 'refunded';
+    IF v_last IS NOT NULL AND v_last + make_interval(secs => p_min_spacing_seconds) > NOW() THEN
+      RETURN QUERY SELECT NULL::UUID, 'spacing'::TEXT, v_last + make_interval(secs => p_min_spacing_seconds);
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO qasid_daily_actions (day, action_type, description, tweet_id, status)
+  VALUES (p_day, p_action_type, p_description, p_tweet_id, 'reserved')
+  RETURNING id INTO v_id;
+
+  RETURN QUERY SELECT v_id, NULL::TEXT, NULL::TIMESTAMPTZ;
+END;
+$$;
+
+-- Function is called via RPC with the service role only
+-- (anon/authenticated only exist on Supabase — skipped on a plain local Postgres)
+REVOKE EXECUTE ON FUNCTION qasid_reserve_budget(TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, INTEGER, INTEGER, INTEGER, INTEGER) FROM PUBLIC;
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon') THEN
+    REVOKE EXECUTE ON FUNCTION qasid_reserve_budget(TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, INTEGER, INTEGER, INTEGER, INTEGER) FROM anon, authenticated;
+  END IF;
+END;
+$$;
@@ -0,0 +1,34 @@
+-- QasidAI Migration v15: Native X Polls
+-- Generated: October 2026
+-- Purpose: Track published polls until they close, store their results, and
+--          copy the vote total onto the post so the scorer can count votes as
+--          engagement
+
+CREATE TABLE IF NOT EXISTS qasid_polls (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  tweet_id TEXT NOT NULL UNIQUE,            -- the poll tweet
+  question TEXT NOT NULL,
+  options JSONB NOT NULL,                   -- option labels, in ballot order
+  duration_minutes INTEGER NOT NULL,
+  closes_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed', 'expired')),
+  results JSONB,                            -- [{ label, votes }] once closed
+  total_votes INTEGER,
+  follow_up_id TEXT,                        -- results reply, if one was posted
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  closed_at TIMESTAMPTZ
+);
+
+-- Index for the results collector (open polls past their close time)
+CREATE INDEX IF NOT EXISTS idx_qasid_polls_open
+  ON qasid_polls (closes_at) WHERE status = 'open';
+
+-- Vote total on the post itself (NULL until the poll closes, and for non-poll posts)
+ALTER TABLE qasid_posts ADD COLUMN IF NOT EXISTS poll_votes INTEGER;
+
+-- RLS
+ALTER TABLE qasid_polls ENABLE ROW LEVEL SECURITY;
+
+-- Service role only policy (QasidAI uses service_role key which bypasses RLS)
+CREATE POLICY "Service role only" ON qasid_polls FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,14 @@
+-- QasidAI Migration v16: Post Retractions
+-- Generated: October 2026
+-- Purpose: Bad posts can be taken down (`retract` CLI / founder command). The
+--          row stays for the record but is marked retracted so scoring,
+--          weight adaptation and meta-review skip it. Threads keep every
+--          part's id so the whole thread can be deleted.
+
+ALTER TABLE qasid_posts ADD COLUMN IF NOT EXISTS thread_ids TEXT[];          -- all tweet ids of a thread, in order
+ALTER TABLE qasid_posts ADD COLUMN IF NOT EXISTS retracted_at TIMESTAMPTZ;   -- NULL = live
+ALTER TABLE qasid_posts ADD COLUMN IF NOT EXISTS retraction_reason TEXT;
+
+-- Index for thread-part lookups (retracting by the id of a later tweet in a thread)
+CREATE INDEX IF NOT EXISTS idx_qasid_posts_thread_ids
+  ON qasid_posts USING GIN (thread_ids);
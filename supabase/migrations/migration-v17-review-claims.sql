@@ -0,0 +1,9 @@
+-- QasidAI Migration v17: Review Queue Claims
+-- Generated: October 2026
+-- Purpose: Approval first moves a draft from 'pending' to 'publishing' with a
+--          conditional update, so two reviewers approving the same draft at
+--          once (CLI + review endpoint) can't both publish it
+
+ALTER TABLE qasid_review_queue DROP CONSTRAINT IF EXISTS qasid_review_queue_status_check;
+ALTER TABLE qasid_review_queue ADD CONSTRAINT qasid_review_queue_status_check
+  CHECK (status IN ('pending', 'publishing', 'published', 'rejected', 'failed'));
@@ -0,0 +1,32 @@
+-- QasidAI Migration v18: LLM Spend Sums
+-- Generated: October 2026
+-- Purpose: Sum the LLM ledger in SQL. Reading raw qasid_llm_usage rows hits
+--          PostgREST's row limit (1000 by default) once a day or week has more
+--          generate() calls than that, and the daily cap and rollups would
+--          silently undercount. One row per (day, module, task, model) stays small.
+
+CREATE OR REPLACE FUNCTION qasid_llm_spend(p_since DATE)
+RETURNS TABLE (
+  day DATE,
+  module TEXT,
+  task TEXT,
+  model TEXT,
+  calls BIGINT,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  cache_read_tokens BIGINT,
+  cost_usd NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT u.day, u.module, u.task, u.model,
+         COUNT(*),
+         SUM(u.input_tokens),
+         SUM(u.output_tokens),
+         SUM(u.cache_read_tokens),
+         SUM(u.cost_usd)
+    FROM qasid_llm_usage u
+   WHERE u.day >= p_since
+   GROUP BY u.day, u.module, u.task, u.model;
+$$;
@@ -0,0 +1,32 @@
+-- QasidAI Migration v5: LLM Spend Ledger
+-- Generated: October 2026
+-- Purpose: Record every generate() call with module/task attribution and dollar cost
+
+CREATE TABLE IF NOT EXISTS qasid_llm_usage (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  day DATE NOT NULL,                       -- UTC day (rollups + daily cap)
+  module TEXT NOT NULL,                    -- calling module, e.g. 'mention-monitor'
+  task TEXT NOT NULL,                      -- routing task, e.g. 'reply'
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Index for daily cap + daily/weekly rollups
+CREATE INDEX IF NOT EXISTS idx_qasid_llm_usage_day
+  ON qasid_llm_usage (day DESC);
+
+-- Index for per-module attribution
+CREATE INDEX IF NOT EXISTS idx_qasid_llm_usage_module
+  ON qasid_llm_usage (module, day DESC);
+
+-- RLS
+ALTER TABLE qasid_llm_usage ENABLE ROW LEVEL SECURITY;
+
+-- Service role only policy (QasidAI uses service_role key which bypasses RLS)
+CREATE POLICY "Service role only" ON qasid_llm_usage FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,17 @@
+-- QasidAI Migration v6: Prompt Provenance
+-- Generated: October 2026
+-- Purpose: Record which prompt template (id + version) produced each post and reply,
+--          so prompt wording changes can be compared by performance
+
+ALTER TABLE qasid_posts ADD COLUMN IF NOT EXISTS prompt_id TEXT;          -- e.g. 'content.scheduled_post'
+ALTER TABLE qasid_posts ADD COLUMN IF NOT EXISTS prompt_version INTEGER;
+
+ALTER TABLE qasid_replies ADD COLUMN IF NOT EXISTS prompt_id TEXT;        -- e.g. 'mention.reply'
+ALTER TABLE qasid_replies ADD COLUMN IF NOT EXISTS prompt_version INTEGER;
+
+-- Index for per-version performance comparisons
+CREATE INDEX IF NOT EXISTS idx_qasid_posts_prompt
+  ON qasid_posts (prompt_id, prompt_version);
+
+CREATE INDEX IF NOT EXISTS idx_qasid_replies_prompt
+  ON qasid_replies (prompt_id, prompt_version);
@@ -0,0 +1,36 @@
+-- QasidAI Migration v7: Best-of-N Post Candidates
+-- Generated: October 2026
+-- Purpose: Keep every candidate generated for a scheduled slot (winner + rejected)
+--          with its ranking scores, for analysis of the ranking stage
+
+CREATE TABLE IF NOT EXISTS qasid_post_candidates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  slot_id UUID NOT NULL,                   -- groups the candidates of one scheduled slot
+  rank INTEGER NOT NULL,                   -- 1 = posted
+  selected BOOLEAN NOT NULL DEFAULT FALSE,
+  content TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  prompt_id TEXT,
+  prompt_version INTEGER,
+  slop_score REAL NOT NULL,                -- 0-1, 1 = clean
+  novelty_score REAL NOT NULL,             -- 0-1, 1 = unlike recent posts
+  voice_score REAL NOT NULL,               -- 0-1 (voice check / 10)
+  judge_score REAL,                        -- 0-1, NULL when the LLM judge did not run
+  total_score REAL NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Index for slot lookups (winner vs rejected)
+CREATE INDEX IF NOT EXISTS idx_qasid_post_candidates_slot
+  ON qasid_post_candidates (slot_id, rank);
+
+-- Index for time-window analysis
+CREATE INDEX IF NOT EXISTS idx_qasid_post_candidates_created
+  ON qasid_post_candidates (created_at DESC);
+
+-- RLS
+ALTER TABLE qasid_post_candidates ENABLE ROW LEVEL SECURITY;
+
+-- Service role only policy (QasidAI uses service_role key which bypasses RLS)
+CREATE POLICY "Service role only" ON qasid_post_candidates FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
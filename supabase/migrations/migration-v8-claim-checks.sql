@@ -0,0 +1,27 @@
+-- QasidAI Migration v8: Claim Verification Audit
+-- Generated: October 2026
+-- Purpose: Log every claim-verification verdict (pass / corrected / blocked)
+--          for drafts checked against the live intel snapshot
+
+CREATE TABLE IF NOT EXISTS qasid_claim_checks (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  module TEXT NOT NULL,                    -- e.g. 'content'
+  content_type TEXT,
+  verdict TEXT NOT NULL CHECK (verdict IN ('pass', 'corrected', 'blocked')),
+  draft TEXT NOT NULL,                     -- text as generated
+  final_content TEXT,                      -- corrected text (verdict = corrected)
+  claims JSONB NOT NULL DEFAULT '[]',      -- extracted claims with claimed/expected/status
+  snapshot_at TIMESTAMPTZ,                 -- when the intel snapshot was fetched
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Index for reviewing blocked / corrected drafts
+CREATE INDEX IF NOT EXISTS idx_qasid_claim_checks_verdict
+  ON qasid_claim_checks (verdict, created_at DESC);
+
+-- RLS
+ALTER TABLE qasid_claim_checks ENABLE ROW LEVEL SECURITY;
+
+-- Service role only policy (QasidAI uses service_role key which bypasses RLS)
+CREATE POLICY "Service role only" ON qasid_claim_checks FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,39 @@
+-- QasidAI Migration v9: Review Queue
+-- Generated: October 2026
+-- Purpose: Persistent approval queue for POSTING_MODE=review — drafts from the
+--          content cycle, creative session, mention replies and Botchan posts
+--          wait here until a reviewer approves, edits or rejects them
+
+CREATE TABLE IF NOT EXISTS qasid_review_queue (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  kind TEXT NOT NULL CHECK (kind IN ('post', 'thread', 'reply', 'quote', 'botchan_post')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'published', 'rejected', 'failed')),
+  source TEXT NOT NULL,                    -- producer, e.g. 'content-cycle', '@mention'
+  budget_action TEXT NOT NULL,             -- daily-budget bucket charged on approval
+  content TEXT NOT NULL,                   -- text to publish (edited text after approval)
+  original_content TEXT NOT NULL,          -- text as drafted
+  target_id TEXT,                          -- tweet being replied to / quoted
+  target_author TEXT,
+  topic TEXT,                              -- Botchan feed topic
+  metadata JSONB NOT NULL DEFAULT '{}',    -- post metadata + prompt provenance
+  reject_reason TEXT,
+  external_id TEXT,                        -- tweet id / tx hash once published
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  reviewed_at TIMESTAMPTZ
+);
+
+-- Index for the review inbox
+CREATE INDEX IF NOT EXISTS idx_qasid_review_queue_status
+  ON qasid_review_queue (status, created_at);
+
+-- Index for duplicate-target checks
+CREATE INDEX IF NOT EXISTS idx_qasid_review_queue_target
+  ON qasid_review_queue (target_id) WHERE target_id IS NOT NULL;
+
+-- RLS
+ALTER TABLE qasid_review_queue ENABLE ROW LEVEL SECURITY;
+
+-- Service role only policy (QasidAI uses service_role key which bypasses RLS)
+CREATE POLICY "Service role only" ON qasid_review_queue FOR ALL
+  USING (auth.role() = 'service_role') WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,69 @@
+-- ============================================================================
+-- QasidAI — Leader Lease Tests (migration v11)
+-- Run against a scratch local Postgres (no Supabase needed):
+--   createdb qasid_lease_test
+--   psql -d qasid_lease_test -f supabase/tests/leader-lease.test.sql
+--   dropdb qasid_lease_test
+-- Any failed ASSERT aborts with a non-zero exit code.
+-- ============================================================================
+
+\set ON_ERROR_STOP 1
+
+-- Stub of Supabase's auth.role() (referenced by the RLS policy)
+CREATE SCHEMA IF NOT EXISTS auth;
+CREATE OR REPLACE FUNCTION auth.role() RETURNS TEXT LANGUAGE sql AS $$ SELECT 'service_role'::TEXT $$;
+
+\ir ../migrations/migration-v11-leader-lease.sql
+
+TRUNCATE qasid_leases;
+
+-- ---- Acquire: first instance wins, second is refused ----
+DO $$
+BEGIN
+  ASSERT qasid_try_acquire_lease('scheduler', 'a', 60), 'a should acquire a free lease';
+  ASSERT NOT qasid_try_acquire_lease('scheduler', 'b', 60), 'b must not take a live lease held by a';
+  ASSERT (SELECT holder FROM qasid_leases WHERE name = 'scheduler') = 'a', 'a should be recorded as holder';
+END;
+$$;
+
+-- ---- Renew: holder extends without changing acquired_at ----
+DO $$
+DECLARE
+  v_acquired TIMESTAMPTZ;
+BEGIN
+  SELECT acquired_at INTO v_acquired FROM qasid_leases WHERE name = 'scheduler';
+  UPDATE qasid_leases SET expires_at = NOW() + INTERVAL '5 seconds' WHERE name = 'scheduler';
+  ASSERT qasid_try_acquire_lease('scheduler', 'a', 60), 'a should renew its own lease';
+  ASSERT (SELECT expires_at FROM qasid_leases WHERE name = 'scheduler') > NOW() + INTERVAL '30 seconds', 'renewal should extend expiry';
+  ASSERT (SELECT acquired_at FROM qasid_leases WHERE name = 'scheduler') = v_acquired, 'renewal should keep acquired_at';
+END;
+$$;
+
+-- ---- Expiry: a crashed holder's lease can be taken over ----
+UPDATE qasid_leases SET expires_at = NOW() - INTERVAL '1 second' WHERE name = 'scheduler';
+DO $$
+BEGIN
+  ASSERT qasid_try_acquire_lease('scheduler', 'b', 60), 'b should take over an expired lease';
+  ASSERT NOT qasid_try_acquire_lease('scheduler', 'a', 60), 'a must not renew after losing the lease';
+END;
+$$;
+
+-- ---- Release: only the holder can release; the lease is free afterwards ----
+DO $$
+BEGIN
+  ASSERT NOT qasid_release_lease('scheduler', 'a'), 'a must not release b''s lease';
+  ASSERT qasid_release_lease('scheduler', 'b'), 'b should release its lease';
+  ASSERT NOT EXISTS (SELECT 1 FROM qasid_leases WHERE name = 'scheduler'), 'released lease row should be gone';
+  ASSERT qasid_try_acquire_lease('scheduler', 'a', 60), 'a should acquire immediately after a clean release';
+END;
+$$;
+
+-- ---- Leases are independent by name ----
+DO $$
+BEGIN
+  ASSERT qasid_try_acquire_lease('other', 'b', 60), 'b should acquire a differently named lease';
+END;
+$$;
+
+TRUNCATE qasid_leases;
+\echo '✅ leader lease tests passed'